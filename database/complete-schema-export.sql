@@ -21,6 +21,10 @@ CREATE TABLE IF NOT EXISTS documents (
     url TEXT UNIQUE NOT NULL,
     title VARCHAR(512),
     content TEXT NOT NULL,
+    content_blocks JSONB DEFAULT '[]'::jsonb,
+    extraction_method VARCHAR(20),
+    boilerplate_ratio DECIMAL(4,3),
+    extraction_confidence DECIMAL(3,2),
     
     -- SEO metadata columns
     meta_title VARCHAR(512),
@@ -37,6 +41,7 @@ CREATE TABLE IF NOT EXISTS documents (
     twitter_image TEXT,
     twitter_card VARCHAR(100),
     schema_markup JSONB,
+    structured_data JSONB,
     
     -- Yoast SEO focus keyword
     primary_keyword VARCHAR(255),
@@ -54,6 +59,41 @@ CREATE TABLE IF NOT EXISTS documents (
     semantic_keywords TEXT[],
     content_type VARCHAR(50),
     
+    -- HTTP response metadata
+    http_status INTEGER,
+    final_url TEXT,
+    redirect_chain JSONB DEFAULT '[]'::jsonb,
+    redirect_count INTEGER DEFAULT 0,
+    response_content_type VARCHAR(255),
+    response_content_length BIGINT,
+    last_modified TEXT,
+    cache_control TEXT,
+    x_robots_tag TEXT,
+    fetched_at TIMESTAMP,
+    
+    -- Article metadata
+    authors TEXT[] DEFAULT '{}',
+    published_at TIMESTAMPTZ,
+    modified_at TIMESTAMPTZ,
+    breadcrumbs JSONB DEFAULT '[]'::jsonb,
+    
+    -- Page weight
+    html_bytes INTEGER,
+    dom_node_count INTEGER,
+    max_dom_depth INTEGER,
+    
+    -- Accessibility audit
+    accessibility_audit JSONB,
+    
+    -- Locale detected by the ingestion job's locale policy
+    locale VARCHAR(20),
+    
+    -- Sitemap <url> entry the page was ingested from, with extension entries
+    sitemap_entry JSONB,
+    
+    -- Clicks from the crawl seeds, recorded by the link-following crawler
+    click_depth INTEGER,
+    
     created_at TIMESTAMP DEFAULT NOW()
 );
 
@@ -97,6 +137,11 @@ CREATE TABLE IF NOT EXISTS links (
     url TEXT NOT NULL,
     anchor_text TEXT NOT NULL,
     is_internal BOOLEAN NOT NULL DEFAULT false,
+    rel TEXT[] DEFAULT '{}',
+    target VARCHAR(50),
+    is_image_link BOOLEAN NOT NULL DEFAULT false,
+    image_alt TEXT,
+    region VARCHAR(20),
     created_at TIMESTAMP DEFAULT NOW()
 );
 
@@ -111,6 +156,88 @@ CREATE TABLE IF NOT EXISTS images (
     created_at TIMESTAMP DEFAULT NOW()
 );
 
+-- Hreflang links table for alternate-language annotations
+CREATE TABLE IF NOT EXISTS hreflang_links (
+    id BIGSERIAL PRIMARY KEY,
+    document_id BIGINT NOT NULL REFERENCES documents(id) ON DELETE CASCADE,
+    hreflang VARCHAR(35) NOT NULL,
+    href TEXT NOT NULL,
+    created_at TIMESTAMP DEFAULT NOW()
+);
+
+-- Page resources table for script, stylesheet, font, iframe and video inventory
+CREATE TABLE IF NOT EXISTS page_resources (
+    id BIGSERIAL PRIMARY KEY,
+    document_id BIGINT NOT NULL REFERENCES documents(id) ON DELETE CASCADE,
+    resource_type VARCHAR(20) NOT NULL,
+    url TEXT,
+    is_inline BOOLEAN NOT NULL DEFAULT false,
+    inline_bytes INTEGER,
+    is_async BOOLEAN NOT NULL DEFAULT false,
+    is_defer BOOLEAN NOT NULL DEFAULT false,
+    is_render_blocking BOOLEAN NOT NULL DEFAULT false,
+    is_third_party BOOLEAN NOT NULL DEFAULT false,
+    host VARCHAR(255),
+    third_party_category VARCHAR(30),
+    created_at TIMESTAMP DEFAULT NOW()
+);
+
+-- Document snapshots table for raw HTML history and change detection (keyed by URL)
+CREATE TABLE IF NOT EXISTS document_snapshots (
+    id BIGSERIAL PRIMARY KEY,
+    url TEXT NOT NULL,
+    content_hash CHAR(64) NOT NULL,
+    raw_html BYTEA NOT NULL,
+    raw_html_bytes INTEGER NOT NULL,
+    compressed_bytes INTEGER NOT NULL,
+    http_status INTEGER,
+    title VARCHAR(512),
+    word_count INTEGER,
+    fingerprint JSONB NOT NULL,
+    diff JSONB,
+    change_summary TEXT[] DEFAULT '{}',
+    seo_score JSONB,
+    content_quality JSONB,
+    x_robots_tag TEXT,
+    fetched_at TIMESTAMPTZ NOT NULL DEFAULT NOW(),
+    last_checked_at TIMESTAMPTZ NOT NULL DEFAULT NOW()
+);
+
+-- Ingestion jobs table for persistent, resumable sitemap ingestion
+CREATE TABLE IF NOT EXISTS ingestion_jobs (
+    id BIGSERIAL PRIMARY KEY,
+    status VARCHAR(20) NOT NULL DEFAULT 'running',
+    source_urls TEXT[] NOT NULL DEFAULT '{}',
+    locale_policy JSONB,
+    skip_existing BOOLEAN NOT NULL DEFAULT TRUE,
+    max_attempts INTEGER NOT NULL DEFAULT 3,
+    total_tasks INTEGER NOT NULL DEFAULT 0,
+    sitemap_errors JSONB DEFAULT '[]',
+    created_at TIMESTAMPTZ NOT NULL DEFAULT NOW(),
+    updated_at TIMESTAMPTZ NOT NULL DEFAULT NOW(),
+    completed_at TIMESTAMPTZ
+);
+
+-- Ingestion tasks table with one row per URL of a job
+CREATE TABLE IF NOT EXISTS ingestion_tasks (
+    id BIGSERIAL PRIMARY KEY,
+    job_id BIGINT NOT NULL REFERENCES ingestion_jobs(id) ON DELETE CASCADE,
+    url TEXT NOT NULL,
+    sitemap_entry JSONB,
+    status VARCHAR(20) NOT NULL DEFAULT 'pending',
+    attempts INTEGER NOT NULL DEFAULT 0,
+    next_attempt_at TIMESTAMPTZ NOT NULL DEFAULT NOW(),
+    locked_by TEXT,
+    locked_until TIMESTAMPTZ,
+    document_id BIGINT REFERENCES documents(id) ON DELETE SET NULL,
+    chunks_created INTEGER,
+    error TEXT,
+    created_at TIMESTAMPTZ NOT NULL DEFAULT NOW(),
+    updated_at TIMESTAMPTZ NOT NULL DEFAULT NOW(),
+    completed_at TIMESTAMPTZ,
+    UNIQUE (job_id, url)
+);
+
 -- ============================================================================
 -- 4. INDEXES FOR PERFORMANCE
 -- ============================================================================
@@ -135,6 +262,17 @@ CREATE INDEX IF NOT EXISTS idx_documents_readability_score ON documents (readabi
 CREATE INDEX IF NOT EXISTS idx_documents_content_depth_score ON documents (content_depth_score);
 CREATE INDEX IF NOT EXISTS idx_documents_content_type ON documents (content_type);
 
+-- Content extraction index
+CREATE INDEX IF NOT EXISTS idx_documents_extraction_confidence ON documents (extraction_confidence);
+
+-- Article metadata indexes
+CREATE INDEX IF NOT EXISTS idx_documents_published_at ON documents (published_at);
+CREATE INDEX IF NOT EXISTS idx_documents_modified_at ON documents (modified_at);
+
+-- HTTP response metadata indexes
+CREATE INDEX IF NOT EXISTS idx_documents_http_status ON documents (http_status);
+CREATE INDEX IF NOT EXISTS idx_documents_redirect_count ON documents (redirect_count);
+
 -- SEO analysis table indexes
 CREATE INDEX IF NOT EXISTS idx_meta_tags_document_id ON meta_tags (document_id);
 CREATE INDEX IF NOT EXISTS idx_meta_tags_name ON meta_tags (tag_name);
@@ -146,9 +284,27 @@ CREATE INDEX IF NOT EXISTS idx_headings_order ON headings (order_index);
 
 CREATE INDEX IF NOT EXISTS idx_links_document_id ON links (document_id);
 CREATE INDEX IF NOT EXISTS idx_links_internal ON links (is_internal);
+CREATE INDEX IF NOT EXISTS idx_links_region ON links (region);
 
 CREATE INDEX IF NOT EXISTS idx_images_document_id ON images (document_id);
 
+CREATE INDEX IF NOT EXISTS idx_hreflang_links_document_id ON hreflang_links (document_id);
+CREATE INDEX IF NOT EXISTS idx_hreflang_links_href ON hreflang_links (href);
+
+CREATE INDEX IF NOT EXISTS idx_page_resources_document_id ON page_resources (document_id);
+CREATE INDEX IF NOT EXISTS idx_page_resources_host ON page_resources (host);
+CREATE INDEX IF NOT EXISTS idx_documents_html_bytes ON documents (html_bytes);
+CREATE INDEX IF NOT EXISTS idx_documents_locale ON documents (locale);
+CREATE INDEX IF NOT EXISTS idx_documents_sitemap_entry ON documents ((sitemap_entry IS NOT NULL));
+CREATE INDEX IF NOT EXISTS idx_documents_click_depth ON documents (click_depth);
+
+CREATE INDEX IF NOT EXISTS idx_document_snapshots_url_fetched_at ON document_snapshots (url, fetched_at DESC);
+CREATE INDEX IF NOT EXISTS idx_document_snapshots_content_hash ON document_snapshots (content_hash);
+
+CREATE INDEX IF NOT EXISTS idx_ingestion_jobs_status ON ingestion_jobs (status);
+CREATE INDEX IF NOT EXISTS idx_ingestion_tasks_job_status ON ingestion_tasks (job_id, status);
+CREATE INDEX IF NOT EXISTS idx_ingestion_tasks_claim ON ingestion_tasks (status, next_attempt_at);
+
 -- ============================================================================
 -- 5. TABLE AND COLUMN COMMENTS (Documentation)
 -- ============================================================================
@@ -160,11 +316,20 @@ COMMENT ON TABLE meta_tags IS 'All meta tags extracted from scraped web pages';
 COMMENT ON TABLE headings IS 'Heading hierarchy (H1-H6) extracted from web pages';
 COMMENT ON TABLE links IS 'All links with internal/external classification';
 COMMENT ON TABLE images IS 'Image metadata from web pages including alt text and dimensions';
+COMMENT ON TABLE hreflang_links IS 'Alternate-language annotations (<link rel="alternate" hreflang>) from web pages';
+COMMENT ON TABLE page_resources IS 'Scripts, stylesheets, fonts, iframes and video embeds referenced by web pages';
+COMMENT ON TABLE document_snapshots IS 'Raw HTML snapshots of each distinct version of a page';
+COMMENT ON TABLE ingestion_jobs IS 'Persistent, resumable sitemap ingestion jobs';
+COMMENT ON TABLE ingestion_tasks IS 'One URL of an ingestion job with its processing status';
 
 -- Column comments for documents table
 COMMENT ON COLUMN documents.url IS 'Unique URL of the scraped web page';
 COMMENT ON COLUMN documents.title IS 'Page title extracted from <title> tag';
 COMMENT ON COLUMN documents.content IS 'Full text content of the page';
+COMMENT ON COLUMN documents.content_blocks IS 'Ordered array of content blocks: {type, text, level?}';
+COMMENT ON COLUMN documents.extraction_method IS 'How main content was selected: override, scored, or fallback';
+COMMENT ON COLUMN documents.boilerplate_ratio IS 'Share of page text outside the main content (0-1)';
+COMMENT ON COLUMN documents.extraction_confidence IS 'Confidence that the main content was identified correctly (0-1)';
 
 -- SEO metadata comments
 COMMENT ON COLUMN documents.meta_title IS 'Content of meta title tag';
@@ -181,6 +346,7 @@ COMMENT ON COLUMN documents.twitter_description IS 'Twitter Card description';
 COMMENT ON COLUMN documents.twitter_image IS 'Twitter Card image URL';
 COMMENT ON COLUMN documents.twitter_card IS 'Twitter Card type (summary, summary_large_image, etc.)';
 COMMENT ON COLUMN documents.schema_markup IS 'JSON-LD and structured data markup';
+COMMENT ON COLUMN documents.structured_data IS 'Normalized structured data: {entities: [{types, id?, format, properties}], parse_errors}';
 COMMENT ON COLUMN documents.primary_keyword IS 'Primary focus keyword from Yoast SEO meta tag';
 
 -- Content quality metric comments
@@ -196,10 +362,52 @@ COMMENT ON COLUMN documents.topic_keywords IS 'Array of main topic keywords extr
 COMMENT ON COLUMN documents.semantic_keywords IS 'Array of semantic keywords related to business context';
 COMMENT ON COLUMN documents.content_type IS 'Content classification: informational, commercial, navigational, or mixed';
 
+-- HTTP response metadata comments
+COMMENT ON COLUMN documents.http_status IS 'Final HTTP status code after following redirects';
+COMMENT ON COLUMN documents.final_url IS 'URL the page resolved to after following redirects';
+COMMENT ON COLUMN documents.redirect_chain IS 'Array of redirect hops: {url, status_code, location}';
+COMMENT ON COLUMN documents.redirect_count IS 'Number of redirect hops before the final response';
+COMMENT ON COLUMN documents.response_content_type IS 'Content-Type response header';
+COMMENT ON COLUMN documents.response_content_length IS 'Content-Length response header in bytes';
+COMMENT ON COLUMN documents.last_modified IS 'Last-Modified response header (raw value)';
+COMMENT ON COLUMN documents.cache_control IS 'Cache-Control response header';
+COMMENT ON COLUMN documents.x_robots_tag IS 'X-Robots-Tag response header (header-level indexing directives)';
+COMMENT ON COLUMN documents.fetched_at IS 'Time the page was fetched';
+COMMENT ON COLUMN documents.authors IS 'Author names from structured data, meta tags or visible bylines';
+COMMENT ON COLUMN documents.published_at IS 'Publish date from structured data, article:published_time or <time> elements';
+COMMENT ON COLUMN documents.modified_at IS 'Last modified date from structured data, article:modified_time or <time> elements';
+COMMENT ON COLUMN documents.breadcrumbs IS 'Breadcrumb trail: [{name, url?, position}]';
+COMMENT ON COLUMN documents.html_bytes IS 'Size of the HTML response body in bytes';
+COMMENT ON COLUMN documents.dom_node_count IS 'Number of element nodes in the DOM';
+COMMENT ON COLUMN documents.max_dom_depth IS 'Deepest element nesting level in the DOM';
+COMMENT ON COLUMN documents.accessibility_audit IS 'Accessibility audit: {html_lang?, landmarks, issue_counts, issues: [{type, severity, message, element?}], ...}';
+COMMENT ON COLUMN documents.locale IS 'Page locale (e.g. en, de, fr-ca); the policy default for URLs without a locale marker';
+COMMENT ON COLUMN documents.sitemap_entry IS 'Sitemap <url> entry: {loc, lastmod?, changefreq?, priority?, images?: [{loc, title?, caption?}], videos?: [{thumbnail_loc?, title?, description?, content_loc?, player_loc?, ...}], news?: {publication_name?, publication_language?, publication_date?, title?}, alternates?: [{hreflang, href}]}';
+COMMENT ON COLUMN documents.click_depth IS 'Clicks from the crawl seed URLs (0 = seed) in the latest crawl that reached the page; NULL for pages not ingested by the crawler';
+
 -- Column comments for document_chunks
 COMMENT ON COLUMN document_chunks.embedding IS 'Vector embedding from OpenAI text-embedding-ada-002 (1536 dimensions)';
 COMMENT ON COLUMN document_chunks.content IS 'Chunked text content for embedding';
 
+-- Column comments for document_snapshots
+COMMENT ON COLUMN document_snapshots.content_hash IS 'SHA-256 of the normalized title, meta, headings, links, schema types and content';
+COMMENT ON COLUMN document_snapshots.raw_html IS 'Gzip-compressed HTML response body';
+COMMENT ON COLUMN document_snapshots.fingerprint IS 'Normalized page fields the content hash and diffs are computed from';
+COMMENT ON COLUMN document_snapshots.diff IS 'Structured diff against the previous snapshot of the URL (NULL for the first)';
+COMMENT ON COLUMN document_snapshots.change_summary IS 'Human-readable list of the changes in diff';
+COMMENT ON COLUMN document_snapshots.last_checked_at IS 'Last fetch that found this version unchanged';
+COMMENT ON COLUMN document_snapshots.seo_score IS 'SEOScore of this version: {overall_score, category_scores, grade, priority_issues}';
+COMMENT ON COLUMN document_snapshots.content_quality IS 'ContentQualityMetrics of this version (word count, readability, depth, ...)';
+COMMENT ON COLUMN document_snapshots.x_robots_tag IS 'X-Robots-Tag response header of this version';
+
+-- Column comments for ingestion jobs and tasks
+COMMENT ON COLUMN ingestion_jobs.status IS 'running, paused, completed or cancelled';
+COMMENT ON COLUMN ingestion_jobs.locale_policy IS 'LocalePolicy the job was created with: {strategies, include, exclude, default_locale, ...}';
+COMMENT ON COLUMN ingestion_jobs.sitemap_errors IS 'Sitemaps that could not be fetched or parsed when the job was created';
+COMMENT ON COLUMN ingestion_tasks.status IS 'pending, running, done, failed or skipped';
+COMMENT ON COLUMN ingestion_tasks.next_attempt_at IS 'Earliest time a pending task may be claimed (retry backoff)';
+COMMENT ON COLUMN ingestion_tasks.locked_until IS 'Lease of the worker processing the task; expired leases are reclaimed';
+
 -- ============================================================================
 -- 6. SAMPLE QUERIES
 -- ============================================================================
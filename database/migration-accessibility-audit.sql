@@ -0,0 +1,7 @@
+-- Migration: Add accessibility_audit column to documents table
+-- Stores the static-HTML accessibility audit (lang, labels, empty links/buttons, duplicate IDs, landmarks, alt text, tabindex)
+
+ALTER TABLE documents
+ADD COLUMN IF NOT EXISTS accessibility_audit JSONB;
+
+COMMENT ON COLUMN documents.accessibility_audit IS 'Accessibility audit: {html_lang?, landmarks, issue_counts, issues: [{type, severity, message, element?}], ...}';
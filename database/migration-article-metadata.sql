@@ -0,0 +1,18 @@
+-- Migration: Add article metadata columns to documents table
+-- Author, publish/modified dates and breadcrumb trail for freshness and authorship (E-E-A-T) analysis
+
+ALTER TABLE documents
+ADD COLUMN IF NOT EXISTS authors TEXT[] DEFAULT '{}',
+ADD COLUMN IF NOT EXISTS published_at TIMESTAMPTZ,
+ADD COLUMN IF NOT EXISTS modified_at TIMESTAMPTZ,
+ADD COLUMN IF NOT EXISTS breadcrumbs JSONB DEFAULT '[]'::jsonb;
+
+-- Add indexes for freshness queries
+CREATE INDEX IF NOT EXISTS idx_documents_published_at ON documents (published_at);
+CREATE INDEX IF NOT EXISTS idx_documents_modified_at ON documents (modified_at);
+
+-- Add comments for documentation
+COMMENT ON COLUMN documents.authors IS 'Author names from structured data, meta tags or visible bylines';
+COMMENT ON COLUMN documents.published_at IS 'Publish date from structured data, article:published_time or <time> elements';
+COMMENT ON COLUMN documents.modified_at IS 'Last modified date from structured data, article:modified_time or <time> elements';
+COMMENT ON COLUMN documents.breadcrumbs IS 'Breadcrumb trail: [{name, url?, position}]';
@@ -0,0 +1,7 @@
+-- Migration: Add content_blocks column to documents table
+-- Stores the ordered block structure (headings, paragraphs, list items, table cells) of the main content
+
+ALTER TABLE documents
+ADD COLUMN IF NOT EXISTS content_blocks JSONB DEFAULT '[]'::jsonb;
+
+COMMENT ON COLUMN documents.content_blocks IS 'Ordered array of content blocks: {type, text, level?}';
@@ -0,0 +1,15 @@
+-- Migration: Add main-content extraction quality columns to documents table
+-- Records how the main content was chosen and how much of the page was boilerplate
+
+ALTER TABLE documents
+ADD COLUMN IF NOT EXISTS extraction_method VARCHAR(20),
+ADD COLUMN IF NOT EXISTS boilerplate_ratio DECIMAL(4,3),
+ADD COLUMN IF NOT EXISTS extraction_confidence DECIMAL(3,2);
+
+-- Add index for finding pages whose content extraction is unreliable
+CREATE INDEX IF NOT EXISTS idx_documents_extraction_confidence ON documents(extraction_confidence);
+
+-- Add comments for documentation
+COMMENT ON COLUMN documents.extraction_method IS 'How main content was selected: override, scored, or fallback';
+COMMENT ON COLUMN documents.boilerplate_ratio IS 'Share of page text outside the main content (0-1)';
+COMMENT ON COLUMN documents.extraction_confidence IS 'Confidence that the main content was identified correctly (0-1)';
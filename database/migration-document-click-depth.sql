@@ -0,0 +1,11 @@
+-- Migration: Add click depth column to documents
+-- Number of clicks from the crawl seed URLs, recorded by the link-following crawler
+
+ALTER TABLE documents
+ADD COLUMN IF NOT EXISTS click_depth INTEGER;
+
+-- Add index
+CREATE INDEX IF NOT EXISTS idx_documents_click_depth ON documents (click_depth);
+
+-- Add comments for documentation
+COMMENT ON COLUMN documents.click_depth IS 'Clicks from the crawl seed URLs (0 = seed) in the latest crawl that reached the page; NULL for pages not ingested by the crawler';
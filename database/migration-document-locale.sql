@@ -0,0 +1,11 @@
+-- Migration: Add locale column to documents
+-- Locale detected by the ingestion job's locale policy (URL path, subdomain or hreflang)
+
+ALTER TABLE documents
+ADD COLUMN IF NOT EXISTS locale VARCHAR(20);
+
+-- Add index
+CREATE INDEX IF NOT EXISTS idx_documents_locale ON documents (locale);
+
+-- Add comments for documentation
+COMMENT ON COLUMN documents.locale IS 'Page locale (e.g. en, de, fr-ca); the policy default for URLs without a locale marker';
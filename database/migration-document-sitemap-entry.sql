@@ -0,0 +1,11 @@
+-- Migration: Add sitemap entry column to documents
+-- The <url> entry the page was ingested from, including image, video, news and xhtml:link alternate extensions
+
+ALTER TABLE documents
+ADD COLUMN IF NOT EXISTS sitemap_entry JSONB;
+
+-- Add index
+CREATE INDEX IF NOT EXISTS idx_documents_sitemap_entry ON documents ((sitemap_entry IS NOT NULL));
+
+-- Add comments for documentation
+COMMENT ON COLUMN documents.sitemap_entry IS 'Sitemap <url> entry: {loc, lastmod?, changefreq?, priority?, images?: [{loc, title?, caption?}], videos?: [{thumbnail_loc?, title?, description?, content_loc?, player_loc?, ...}], news?: {publication_name?, publication_language?, publication_date?, title?}, alternates?: [{hreflang, href}]}';
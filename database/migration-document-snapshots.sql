@@ -0,0 +1,34 @@
+-- Migration: Add document_snapshots table
+-- Every fetch of a URL stores its compressed raw HTML and a normalized-content hash.
+-- Unchanged re-scrapes only bump last_checked_at; changed ones record a structured diff.
+
+-- Create document_snapshots table (keyed by URL so history survives re-scrapes)
+CREATE TABLE IF NOT EXISTS document_snapshots (
+    id BIGSERIAL PRIMARY KEY,
+    url TEXT NOT NULL,
+    content_hash CHAR(64) NOT NULL,
+    raw_html BYTEA NOT NULL,
+    raw_html_bytes INTEGER NOT NULL,
+    compressed_bytes INTEGER NOT NULL,
+    http_status INTEGER,
+    title VARCHAR(512),
+    word_count INTEGER,
+    fingerprint JSONB NOT NULL,
+    diff JSONB,
+    change_summary TEXT[] DEFAULT '{}',
+    fetched_at TIMESTAMPTZ NOT NULL DEFAULT NOW(),
+    last_checked_at TIMESTAMPTZ NOT NULL DEFAULT NOW()
+);
+
+-- Add indexes
+CREATE INDEX IF NOT EXISTS idx_document_snapshots_url_fetched_at ON document_snapshots (url, fetched_at DESC);
+CREATE INDEX IF NOT EXISTS idx_document_snapshots_content_hash ON document_snapshots (content_hash);
+
+-- Add comments for documentation
+COMMENT ON TABLE document_snapshots IS 'Raw HTML snapshots of each distinct version of a page';
+COMMENT ON COLUMN document_snapshots.content_hash IS 'SHA-256 of the normalized title, meta, headings, links, schema types and content';
+COMMENT ON COLUMN document_snapshots.raw_html IS 'Gzip-compressed HTML response body';
+COMMENT ON COLUMN document_snapshots.fingerprint IS 'Normalized page fields the content hash and diffs are computed from';
+COMMENT ON COLUMN document_snapshots.diff IS 'Structured diff against the previous snapshot of the URL (NULL for the first)';
+COMMENT ON COLUMN document_snapshots.change_summary IS 'Human-readable list of the changes in diff';
+COMMENT ON COLUMN document_snapshots.last_checked_at IS 'Last fetch that found this version unchanged';
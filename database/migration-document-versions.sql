@@ -0,0 +1,13 @@
+-- Migration: Add version history columns to document_snapshots
+-- Each snapshot keeps the SEO score and content quality metrics of that version,
+-- so score trends and regressions can be reported per URL over time.
+
+ALTER TABLE document_snapshots
+ADD COLUMN IF NOT EXISTS seo_score JSONB,
+ADD COLUMN IF NOT EXISTS content_quality JSONB,
+ADD COLUMN IF NOT EXISTS x_robots_tag TEXT;
+
+-- Add comments for documentation
+COMMENT ON COLUMN document_snapshots.seo_score IS 'SEOScore of this version: {overall_score, category_scores, grade, priority_issues}';
+COMMENT ON COLUMN document_snapshots.content_quality IS 'ContentQualityMetrics of this version (word count, readability, depth, ...)';
+COMMENT ON COLUMN document_snapshots.x_robots_tag IS 'X-Robots-Tag response header of this version';
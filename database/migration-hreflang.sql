@@ -0,0 +1,20 @@
+-- Migration: Add hreflang_links table for alternate-language annotations
+-- Stores every <link rel="alternate" hreflang> tag found on a scraped page
+
+-- Create hreflang_links table
+CREATE TABLE IF NOT EXISTS hreflang_links (
+    id BIGSERIAL PRIMARY KEY,
+    document_id BIGINT NOT NULL REFERENCES documents(id) ON DELETE CASCADE,
+    hreflang VARCHAR(35) NOT NULL,
+    href TEXT NOT NULL,
+    created_at TIMESTAMP DEFAULT NOW()
+);
+
+-- Add indexes for corpus-wide return-link checks
+CREATE INDEX IF NOT EXISTS idx_hreflang_links_document_id ON hreflang_links (document_id);
+CREATE INDEX IF NOT EXISTS idx_hreflang_links_href ON hreflang_links (href);
+
+-- Add comments for documentation
+COMMENT ON TABLE hreflang_links IS 'Alternate-language annotations (<link rel="alternate" hreflang>) from web pages';
+COMMENT ON COLUMN hreflang_links.hreflang IS 'Language/region code as declared, e.g. en, fr-ca, x-default';
+COMMENT ON COLUMN hreflang_links.href IS 'Absolute URL of the alternate page';
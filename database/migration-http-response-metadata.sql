@@ -0,0 +1,31 @@
+-- Migration: Add HTTP response metadata columns to documents table
+-- Records the final status code, redirect chain and key response headers for every scraped page
+
+-- Add HTTP response metadata columns to documents table
+ALTER TABLE documents
+ADD COLUMN IF NOT EXISTS http_status INTEGER,
+ADD COLUMN IF NOT EXISTS final_url TEXT,
+ADD COLUMN IF NOT EXISTS redirect_chain JSONB DEFAULT '[]'::jsonb,
+ADD COLUMN IF NOT EXISTS redirect_count INTEGER DEFAULT 0,
+ADD COLUMN IF NOT EXISTS response_content_type VARCHAR(255),
+ADD COLUMN IF NOT EXISTS response_content_length BIGINT,
+ADD COLUMN IF NOT EXISTS last_modified TEXT,
+ADD COLUMN IF NOT EXISTS cache_control TEXT,
+ADD COLUMN IF NOT EXISTS x_robots_tag TEXT,
+ADD COLUMN IF NOT EXISTS fetched_at TIMESTAMP;
+
+-- Add indexes for auditing error pages and redirects
+CREATE INDEX IF NOT EXISTS idx_documents_http_status ON documents(http_status);
+CREATE INDEX IF NOT EXISTS idx_documents_redirect_count ON documents(redirect_count);
+
+-- Add comments for documentation
+COMMENT ON COLUMN documents.http_status IS 'Final HTTP status code after following redirects';
+COMMENT ON COLUMN documents.final_url IS 'URL the page resolved to after following redirects';
+COMMENT ON COLUMN documents.redirect_chain IS 'Array of redirect hops: {url, status_code, location}';
+COMMENT ON COLUMN documents.redirect_count IS 'Number of redirect hops before the final response';
+COMMENT ON COLUMN documents.response_content_type IS 'Content-Type response header';
+COMMENT ON COLUMN documents.response_content_length IS 'Content-Length response header in bytes';
+COMMENT ON COLUMN documents.last_modified IS 'Last-Modified response header (raw value)';
+COMMENT ON COLUMN documents.cache_control IS 'Cache-Control response header';
+COMMENT ON COLUMN documents.x_robots_tag IS 'X-Robots-Tag response header (header-level indexing directives)';
+COMMENT ON COLUMN documents.fetched_at IS 'Time the page was fetched';
@@ -0,0 +1,54 @@
+-- Migration: Add ingestion_jobs and ingestion_tasks tables
+-- Sitemap ingestion runs as a persistent job with one task row per URL. Workers claim
+-- tasks in small batches, retry failures with backoff, and pick up tasks whose lease
+-- expired (the worker crashed or was restarted), so no progress is lost.
+
+-- Create ingestion_jobs table
+CREATE TABLE IF NOT EXISTS ingestion_jobs (
+    id BIGSERIAL PRIMARY KEY,
+    status VARCHAR(20) NOT NULL DEFAULT 'running',
+    source_urls TEXT[] NOT NULL DEFAULT '{}',
+    locale_policy JSONB,
+    skip_existing BOOLEAN NOT NULL DEFAULT TRUE,
+    max_attempts INTEGER NOT NULL DEFAULT 3,
+    total_tasks INTEGER NOT NULL DEFAULT 0,
+    sitemap_errors JSONB DEFAULT '[]',
+    created_at TIMESTAMPTZ NOT NULL DEFAULT NOW(),
+    updated_at TIMESTAMPTZ NOT NULL DEFAULT NOW(),
+    completed_at TIMESTAMPTZ
+);
+
+-- Create ingestion_tasks table (one row per URL of a job)
+CREATE TABLE IF NOT EXISTS ingestion_tasks (
+    id BIGSERIAL PRIMARY KEY,
+    job_id BIGINT NOT NULL REFERENCES ingestion_jobs(id) ON DELETE CASCADE,
+    url TEXT NOT NULL,
+    sitemap_entry JSONB,
+    status VARCHAR(20) NOT NULL DEFAULT 'pending',
+    attempts INTEGER NOT NULL DEFAULT 0,
+    next_attempt_at TIMESTAMPTZ NOT NULL DEFAULT NOW(),
+    locked_by TEXT,
+    locked_until TIMESTAMPTZ,
+    document_id BIGINT REFERENCES documents(id) ON DELETE SET NULL,
+    chunks_created INTEGER,
+    error TEXT,
+    created_at TIMESTAMPTZ NOT NULL DEFAULT NOW(),
+    updated_at TIMESTAMPTZ NOT NULL DEFAULT NOW(),
+    completed_at TIMESTAMPTZ,
+    UNIQUE (job_id, url)
+);
+
+-- Add indexes
+CREATE INDEX IF NOT EXISTS idx_ingestion_jobs_status ON ingestion_jobs (status);
+CREATE INDEX IF NOT EXISTS idx_ingestion_tasks_job_status ON ingestion_tasks (job_id, status);
+CREATE INDEX IF NOT EXISTS idx_ingestion_tasks_claim ON ingestion_tasks (status, next_attempt_at);
+
+-- Add comments for documentation
+COMMENT ON TABLE ingestion_jobs IS 'Persistent, resumable sitemap ingestion jobs';
+COMMENT ON TABLE ingestion_tasks IS 'One URL of an ingestion job with its processing status';
+COMMENT ON COLUMN ingestion_jobs.status IS 'running, paused, completed or cancelled';
+COMMENT ON COLUMN ingestion_jobs.locale_policy IS 'LocalePolicy the job was created with: {strategies, include, exclude, default_locale, ...}';
+COMMENT ON COLUMN ingestion_jobs.sitemap_errors IS 'Sitemaps that could not be fetched or parsed when the job was created';
+COMMENT ON COLUMN ingestion_tasks.status IS 'pending, running, done, failed or skipped';
+COMMENT ON COLUMN ingestion_tasks.next_attempt_at IS 'Earliest time a pending task may be claimed (retry backoff)';
+COMMENT ON COLUMN ingestion_tasks.locked_until IS 'Lease of the worker processing the task; expired leases are reclaimed';
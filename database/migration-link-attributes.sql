@@ -0,0 +1,19 @@
+-- Migration: Add link attribute columns to links table
+-- Captures rel values, target, image links and the page region each link sits in
+
+ALTER TABLE links
+ADD COLUMN IF NOT EXISTS rel TEXT[] DEFAULT '{}',
+ADD COLUMN IF NOT EXISTS target VARCHAR(50),
+ADD COLUMN IF NOT EXISTS is_image_link BOOLEAN NOT NULL DEFAULT false,
+ADD COLUMN IF NOT EXISTS image_alt TEXT,
+ADD COLUMN IF NOT EXISTS region VARCHAR(20);
+
+-- Add index for separating body-content links from navigation boilerplate
+CREATE INDEX IF NOT EXISTS idx_links_region ON links (region);
+
+-- Add comments for documentation
+COMMENT ON COLUMN links.rel IS 'rel attribute values, e.g. nofollow, sponsored, ugc, noopener';
+COMMENT ON COLUMN links.target IS 'target attribute, e.g. _blank';
+COMMENT ON COLUMN links.is_image_link IS 'True when the link wraps an image';
+COMMENT ON COLUMN links.image_alt IS 'Alt text of the wrapped image (used as anchor text when the link has no text)';
+COMMENT ON COLUMN links.region IS 'Page region of the link: main, nav, header, footer, sidebar, or other';
@@ -0,0 +1,41 @@
+-- Migration: Add page_resources table and page weight columns
+-- Inventory of scripts, stylesheets, fonts, iframes and video embeds, plus HTML size and DOM shape
+
+-- Create page_resources table
+CREATE TABLE IF NOT EXISTS page_resources (
+    id BIGSERIAL PRIMARY KEY,
+    document_id BIGINT NOT NULL REFERENCES documents(id) ON DELETE CASCADE,
+    resource_type VARCHAR(20) NOT NULL,
+    url TEXT,
+    is_inline BOOLEAN NOT NULL DEFAULT false,
+    inline_bytes INTEGER,
+    is_async BOOLEAN NOT NULL DEFAULT false,
+    is_defer BOOLEAN NOT NULL DEFAULT false,
+    is_render_blocking BOOLEAN NOT NULL DEFAULT false,
+    is_third_party BOOLEAN NOT NULL DEFAULT false,
+    host VARCHAR(255),
+    third_party_category VARCHAR(30),
+    created_at TIMESTAMP DEFAULT NOW()
+);
+
+-- Add page weight columns to documents
+ALTER TABLE documents
+ADD COLUMN IF NOT EXISTS html_bytes INTEGER,
+ADD COLUMN IF NOT EXISTS dom_node_count INTEGER,
+ADD COLUMN IF NOT EXISTS max_dom_depth INTEGER;
+
+-- Add indexes
+CREATE INDEX IF NOT EXISTS idx_page_resources_document_id ON page_resources (document_id);
+CREATE INDEX IF NOT EXISTS idx_page_resources_host ON page_resources (host);
+CREATE INDEX IF NOT EXISTS idx_documents_html_bytes ON documents (html_bytes);
+
+-- Add comments for documentation
+COMMENT ON TABLE page_resources IS 'Scripts, stylesheets, fonts, iframes and video embeds referenced by web pages';
+COMMENT ON COLUMN page_resources.resource_type IS 'script, stylesheet, font, iframe, or video';
+COMMENT ON COLUMN page_resources.url IS 'Absolute resource URL (NULL for inline scripts and styles)';
+COMMENT ON COLUMN page_resources.inline_bytes IS 'UTF-8 size of inline script or style content';
+COMMENT ON COLUMN page_resources.is_render_blocking IS 'Blocks first render (head scripts without async/defer, screen stylesheets)';
+COMMENT ON COLUMN page_resources.third_party_category IS 'analytics, advertising, tag_manager, social, video, fonts, cdn, customer_engagement, or other';
+COMMENT ON COLUMN documents.html_bytes IS 'Size of the HTML response body in bytes';
+COMMENT ON COLUMN documents.dom_node_count IS 'Number of element nodes in the DOM';
+COMMENT ON COLUMN documents.max_dom_depth IS 'Deepest element nesting level in the DOM';
@@ -0,0 +1,7 @@
+-- Migration: Add structured_data column to documents table
+-- Stores normalized JSON-LD, Microdata and RDFa entities alongside the raw JSON-LD in schema_markup
+
+ALTER TABLE documents
+ADD COLUMN IF NOT EXISTS structured_data JSONB;
+
+COMMENT ON COLUMN documents.structured_data IS 'Normalized structured data: {entities: [{types, id?, format, properties}], parse_errors}';
@@ -2,10 +2,18 @@ import { NextRequest } from 'next/server';
 import { openai } from '@ai-sdk/openai';
 import { streamText, tool, stepCountIs } from 'ai';
 import { z } from 'zod';
-import { vectorSearch, getDocumentById, getAllDocuments, getHomepageDocument, searchByFocusKeyword } from '@/lib/vector-store';
+import { vectorSearch, getDocumentById, getAllDocuments, getHomepageDocument, searchByFocusKeyword, getDocumentHreflang, getHreflangCorpus, getSitemapExtensionCorpus, getDocumentResources, getDocumentVersionHistory } from '@/lib/vector-store';
+import { buildVersionTimeline } from '@/lib/version-history';
+import { analyzeHreflang } from '@/lib/hreflang-analyzer';
+import { analyzeSitemapExtensions } from '@/lib/sitemap-extension-analyzer';
+import { runSitemapAudit } from '@/lib/sitemap-audit';
+import { analyzeStructuredData, extractFromSchemaMarkup, type StructuredDataExtraction } from '@/lib/structured-data';
+import { type PageResourceType, type ThirdPartyCategory } from '@/lib/resource-inventory';
+import { type AccessibilityAudit } from '@/lib/accessibility-audit';
 import { performSEOAnalysis } from '@/lib/seo-analyzer';
 import { calculateSEOScore, getScoreInterpretation } from '@/lib/seo-scoring';
 import { scrapeWebsite } from '@/lib/scraper';
+import { type ContentBlock } from '@/lib/content-extraction';
 import { 
   SearchConsoleTools,
   getTopPerformingContentSchema,
@@ -67,12 +75,17 @@ Available Tools:
 - getHomepage: Get the Concentrix homepage specifically (use when users ask about "homepage", "home page", "main page")
 - searchContent: Vector search through Concentrix content (now automatically prioritizes pages with matching focus keywords)
 - **NEW findPageByKeyword**: Find pages by their Yoast focus keyword - use when users ask about specific keywords or topics
-- analyzePage: Comprehensive SEO + content quality analysis by document ID
+- analyzePage: Comprehensive SEO + content quality analysis by document ID (includes author, publish/modified dates and breadcrumbs for freshness and E-E-A-T review, and page weight / resource inventory)
 - listPages: Browse available pages in the database
 - analyzeContentQuality: Deep content quality metrics analysis
 - checkReadability: Readability and target audience analysis
 - analyzeContentDepth: Content depth, topic coverage, and semantic richness
 - **NEW analyzeURL**: Analyze SEO metrics and content quality for ANY external URL (not just stored content)
+- auditHreflang: Validate hreflang alternate-language annotations across all stored pages
+- auditSitemap: Is the sitemap clean? Compares a sitemap (or the stored sitemap entries) with the crawled pages: non-200 or redirecting URLs, canonicals pointing elsewhere, noindex URLs, stored pages missing from the sitemap, and lastmod values that don't match observed content changes
+- auditSitemapExtensions: Cross-check image, video, news and alternate sitemap entries against the stored pages (images missing from the page, videos without thumbnails, news older than 48 hours)
+- validateStructuredData: Validate JSON-LD, Microdata and RDFa entities (Organization, Article, FAQPage, BreadcrumbList, Product, Event, JobPosting) for a stored page or any URL
+- getPageHistory: Version timeline of a stored URL with SEO scores over time and regressions (canonical removed, H1 lost, score drops, noindex added, meta description removed)
 - **NEW Search Console Tools:**
   - getTopPerformingContent: Find content that gets the most SEO traffic
   - getKeywordPerformance: Analyze keyword performance and rankings
@@ -91,6 +104,8 @@ When users ask about:
 - "content quality" → Use content quality analysis tools
 - "readability" → Use readability analysis tools
 - SEO analysis → Search for relevant pages and analyze their comprehensive data
+- "when did [page] change / lose its meta description / drop in score" → Use getPageHistory with the page URL (use getHomepage first for the homepage URL)
+- "is our sitemap clean / sitemap errors / pages missing from the sitemap" → Use auditSitemap (pass sitemapUrl if the user gives one)
 - **NEW External URL Analysis**: Use analyzeURL for any specific URL provided (like "analyze https://www.concentrix.com/specific-page/")
 - **NEW Search Console Queries:**
   - "what gets the most traffic" → Use getTopPerformingContent
@@ -369,11 +384,13 @@ Guidelines:
               // Get all SEO-related data from the database
               const { sql } = await import('@/lib/db');
               
-              const [metaTags, headings, links, images] = await Promise.all([
+              const [metaTags, headings, links, images, hreflangLinks, pageResources] = await Promise.all([
                 sql`SELECT * FROM meta_tags WHERE document_id = ${documentId}`,
                 sql`SELECT * FROM headings WHERE document_id = ${documentId} ORDER BY order_index`,
                 sql`SELECT * FROM links WHERE document_id = ${documentId}`,
-                sql`SELECT * FROM images WHERE document_id = ${documentId}`
+                sql`SELECT * FROM images WHERE document_id = ${documentId}`,
+                getDocumentHreflang(documentId),
+                getDocumentResources(documentId)
               ]);
               
               // Construct scraped content format for SEO analysis
@@ -385,19 +402,42 @@ Guidelines:
 
               // Import the content analysis function
               const { analyzeContentQuality } = await import('@/lib/scraper');
-              const contentQuality = analyzeContentQuality(document.content, document.title || '', mappedHeadings);
+              const contentBlocks = (document.content_blocks || []) as ContentBlock[];
+              const contentQuality = analyzeContentQuality(document.content, document.title || '', mappedHeadings, contentBlocks);
 
               const scrapedContent = {
                 url: document.url,
                 title: document.title || '',
                 content: document.content,
+                blocks: contentBlocks,
+                extraction: document.extraction_method ? {
+                  method: document.extraction_method as 'override' | 'scored' | 'fallback',
+                  boilerplate_ratio: Number(document.boilerplate_ratio || 0),
+                  confidence: Number(document.extraction_confidence || 0)
+                } : undefined,
+                http: document.http_status ? {
+                  status_code: document.http_status,
+                  final_url: document.final_url || document.url,
+                  redirect_chain: document.redirect_chain || [],
+                  content_type: document.response_content_type || undefined,
+                  content_length: document.response_content_length || undefined,
+                  last_modified: document.last_modified || undefined,
+                  cache_control: document.cache_control || undefined,
+                  x_robots_tag: document.x_robots_tag || undefined,
+                  fetched_at: document.fetched_at ? new Date(document.fetched_at).toISOString() : new Date(document.created_at).toISOString()
+                } : undefined,
                 content_quality: contentQuality,
                 meta_tags: metaTags,
                 headings: mappedHeadings,
                 links: links.map((l: any) => ({
                   url: l.url,
                   anchor_text: l.anchor_text,
-                  is_internal: l.is_internal
+                  is_internal: l.is_internal,
+                  rel: l.rel || undefined,
+                  target: l.target || undefined,
+                  is_image_link: l.is_image_link || false,
+                  image_alt: l.image_alt || undefined,
+                  region: l.region || undefined
                 })),
                 images: images.map((i: any) => ({
                   src: i.src,
@@ -405,6 +445,10 @@ Guidelines:
                   width: i.width,
                   height: i.height
                 })),
+                hreflang: hreflangLinks.map(h => ({
+                  hreflang: h.hreflang,
+                  href: h.href
+                })),
                 seo_data: {
                   meta_title: document.meta_title || undefined,
                   meta_description: document.meta_description || undefined,
@@ -420,7 +464,33 @@ Guidelines:
                   twitter_image: document.twitter_image || undefined,
                   twitter_card: document.twitter_card || undefined,
                   schema_markup: document.schema_markup || []
-                }
+                },
+                structured_data: (document.structured_data as StructuredDataExtraction | null) || undefined,
+                article_metadata: {
+                  authors: document.authors || [],
+                  published_at: document.published_at ? new Date(document.published_at).toISOString() : undefined,
+                  modified_at: document.modified_at ? new Date(document.modified_at).toISOString() : undefined,
+                  breadcrumbs: document.breadcrumbs || [],
+                  sources: {}
+                },
+                resources: document.html_bytes ? {
+                  html_bytes: document.html_bytes,
+                  dom_node_count: document.dom_node_count || 0,
+                  max_dom_depth: document.max_dom_depth || 0,
+                  resources: pageResources.map(r => ({
+                    type: r.resource_type as PageResourceType,
+                    url: r.url || undefined,
+                    is_inline: r.is_inline,
+                    inline_bytes: r.inline_bytes ?? undefined,
+                    is_async: r.is_async,
+                    is_defer: r.is_defer,
+                    is_render_blocking: r.is_render_blocking,
+                    is_third_party: r.is_third_party,
+                    host: r.host || undefined,
+                    third_party_category: (r.third_party_category as ThirdPartyCategory | null) || undefined
+                  }))
+                } : undefined,
+                accessibility: (document.accessibility_audit as AccessibilityAudit | null) || undefined
               };
               
               const seoAnalysis = performSEOAnalysis(scrapedContent);
@@ -644,7 +714,9 @@ Guidelines:
                 ...seoAnalysis.keywords.recommendations.map(rec => ({ category: 'Keywords', issue: rec })),
                 ...seoAnalysis.links.recommendations.map(rec => ({ category: 'Links', issue: rec })),
                 ...seoAnalysis.images.recommendations.map(rec => ({ category: 'Images', issue: rec })),
-                ...seoAnalysis.technical.recommendations.map(rec => ({ category: 'Technical SEO', issue: rec }))
+                ...seoAnalysis.technical.recommendations.map(rec => ({ category: 'Technical SEO', issue: rec })),
+                ...(seoAnalysis.performance?.recommendations || []).map(rec => ({ category: 'Performance', issue: rec })),
+                ...(seoAnalysis.accessibility?.recommendations || []).map(rec => ({ category: 'Accessibility', issue: rec }))
               ];
 
               return {
@@ -678,6 +750,210 @@ Guidelines:
           }
         }),
 
+        auditHreflang: tool({
+          description: 'Validate hreflang (alternate-language) annotations across all stored pages: invalid codes, missing return links, missing x-default, and alternates pointing to non-canonical or non-200 pages',
+          inputSchema: z.object({
+            limit: z.number().optional().default(25).describe('Maximum number of issues to return')
+          }),
+          execute: async ({ limit }) => {
+            console.log('auditHreflang called');
+            try {
+              const corpus = await getHreflangCorpus();
+              const report = analyzeHreflang(corpus);
+              
+              return {
+                success: true,
+                pages_checked: report.pages_checked,
+                pages_with_hreflang: report.pages_with_hreflang,
+                issue_counts: report.issue_counts,
+                issues: report.issues.slice(0, limit),
+                recommendations: report.recommendations,
+                summary: `Hreflang audit: ${report.pages_with_hreflang}/${report.pages_checked} pages declare alternates, ${report.issues.length} issues found (${report.issues.filter(i => i.severity === 'error').length} errors).`
+              };
+            } catch (error) {
+              console.error('auditHreflang error:', error);
+              return {
+                success: false,
+                error: error instanceof Error ? error.message : 'Failed to audit hreflang'
+              };
+            }
+          }
+        }),
+
+        auditSitemap: tool({
+          description: 'Audit sitemap health against the crawled pages: sitemap URLs that return non-200 or redirect, whose canonical points elsewhere, or that are noindex; stored pages not in any sitemap; and lastmod values that do not match observed content changes. Use it to answer "is our sitemap clean?"',
+          inputSchema: z.object({
+            sitemapUrl: z.string().optional().describe('Sitemap to fetch and audit. Omit to audit the sitemap entries stored when pages were ingested'),
+            limit: z.number().optional().default(25).describe('Maximum number of issues to return')
+          }),
+          execute: async ({ sitemapUrl, limit }) => {
+            console.log('auditSitemap called with:', { sitemapUrl });
+            try {
+              const report = await runSitemapAudit(sitemapUrl ? [sitemapUrl] : []);
+              
+              return {
+                success: true,
+                source: report.source,
+                is_clean: report.is_clean,
+                sitemap_urls: report.sitemap_urls,
+                stored_pages: report.stored_pages,
+                sitemap_urls_crawled: report.sitemap_urls_crawled,
+                sitemap_urls_not_crawled: report.sitemap_urls_not_crawled,
+                issue_counts: report.issue_counts,
+                issues: report.issues.slice(0, limit),
+                sitemap_errors: report.sitemap_errors.slice(0, limit),
+                recommendations: report.recommendations,
+                summary: report.is_clean
+                  ? `Sitemap is clean: ${report.sitemap_urls_crawled} of ${report.sitemap_urls} sitemap URLs checked against stored pages with no issues.`
+                  : `Sitemap audit: ${report.issues.length} issues across ${report.sitemap_urls} sitemap URLs (${report.issues.filter(i => i.severity === 'error').length} errors); ${report.sitemap_urls_not_crawled} sitemap URLs have not been crawled yet.`
+              };
+            } catch (error) {
+              console.error('auditSitemap error:', error);
+              return {
+                success: false,
+                error: error instanceof Error ? error.message : 'Failed to audit sitemap'
+              };
+            }
+          }
+        }),
+
+        auditSitemapExtensions: tool({
+          description: 'Cross-check image, video, news and xhtml:link alternate sitemap entries against the stored pages they describe: sitemap images the page does not show, videos without thumbnails, titles or descriptions, news entries older than 48 hours, and alternates that disagree with the page hreflang tags',
+          inputSchema: z.object({
+            limit: z.number().optional().default(25).describe('Maximum number of issues to return')
+          }),
+          execute: async ({ limit }) => {
+            console.log('auditSitemapExtensions called');
+            try {
+              const corpus = await getSitemapExtensionCorpus();
+              const report = analyzeSitemapExtensions(corpus);
+              
+              return {
+                success: true,
+                pages_checked: report.pages_checked,
+                images_checked: report.images_checked,
+                videos_checked: report.videos_checked,
+                news_checked: report.news_checked,
+                alternates_checked: report.alternates_checked,
+                issue_counts: report.issue_counts,
+                issues: report.issues.slice(0, limit),
+                recommendations: report.recommendations,
+                summary: `Sitemap extension audit: ${report.pages_checked} pages with sitemap entries, ${report.issues.length} issues found (${report.issues.filter(i => i.severity === 'error').length} errors).`
+              };
+            } catch (error) {
+              console.error('auditSitemapExtensions error:', error);
+              return {
+                success: false,
+                error: error instanceof Error ? error.message : 'Failed to audit sitemap extensions'
+              };
+            }
+          }
+        }),
+
+        validateStructuredData: tool({
+          description: 'Validate structured data (JSON-LD, Microdata, RDFa) against schema.org rich-result requirements for a stored page (by document ID) or any URL. Returns per-entity errors and warnings.',
+          inputSchema: z.object({
+            documentId: z.number().optional().describe('The document ID of a stored page to validate'),
+            url: z.string().url().optional().describe('A URL to fetch and validate when the page is not stored')
+          }),
+          execute: async ({ documentId, url }) => {
+            console.log('validateStructuredData called with:', { documentId, url });
+            try {
+              let extraction: StructuredDataExtraction;
+              let pageUrl: string;
+              
+              if (documentId !== undefined) {
+                const document = await getDocumentById(documentId);
+                if (!document) {
+                  return { success: false, error: 'Document not found' };
+                }
+                pageUrl = document.url;
+                extraction = (document.structured_data as StructuredDataExtraction | null) ||
+                  extractFromSchemaMarkup(document.schema_markup || []);
+              } else if (url) {
+                const scrapedContent = await scrapeWebsite(url);
+                pageUrl = url;
+                extraction = scrapedContent.structured_data || extractFromSchemaMarkup(scrapedContent.seo_data.schema_markup);
+              } else {
+                return { success: false, error: 'Provide either documentId or url' };
+              }
+              
+              const report = analyzeStructuredData(extraction);
+              
+              return {
+                success: true,
+                url: pageUrl,
+                entity_count: report.entity_count,
+                types: report.types,
+                format_counts: report.format_counts,
+                entities: report.entities,
+                parse_errors: report.parse_errors,
+                recommendations: report.recommendations,
+                summary: report.entity_count === 0
+                  ? `No structured data found on ${pageUrl}.`
+                  : `Structured data for ${pageUrl}: ${report.entity_count} entities (${report.types.join(', ')}), ${report.error_count} errors, ${report.warning_count} warnings.`
+              };
+            } catch (error) {
+              console.error('validateStructuredData error:', error);
+              return {
+                success: false,
+                error: error instanceof Error ? error.message : 'Failed to validate structured data'
+              };
+            }
+          }
+        }),
+
+        getPageHistory: tool({
+          description: 'Get the version history of a stored page: when it changed, what changed, its SEO score at each point in time, and SEO regressions such as a removed canonical, lost H1, score drop or switch to noindex.',
+          inputSchema: z.object({
+            url: z.string().url().describe('The URL of the stored page'),
+            scoreDropThreshold: z.number().optional().default(10).describe('Report score drops larger than this many points')
+          }),
+          execute: async ({ url, scoreDropThreshold }) => {
+            console.log('getPageHistory called with:', { url, scoreDropThreshold });
+            try {
+              const versions = await getDocumentVersionHistory(url);
+              if (versions.length === 0) {
+                return { success: false, error: `No version history stored for ${url}. Scrape the page to start tracking it.` };
+              }
+              
+              const timeline = buildVersionTimeline(url, versions, { scoreDropThreshold });
+              
+              return {
+                success: true,
+                url,
+                version_count: timeline.version_count,
+                first_seen: timeline.first_seen,
+                last_checked: timeline.last_checked,
+                versions: timeline.versions.map(version => ({
+                  fetched_at: version.fetched_at,
+                  last_checked_at: version.last_checked_at,
+                  title: version.title,
+                  meta_description: version.meta_description,
+                  canonical_url: version.canonical_url,
+                  http_status: version.http_status,
+                  is_noindex: version.is_noindex,
+                  overall_score: version.seo_score?.overall_score ?? null,
+                  grade: version.seo_score?.grade ?? null,
+                  word_count: version.word_count,
+                  readability_score: version.content_quality?.readability_score ?? null,
+                  changes: version.change_summary
+                })),
+                regressions: timeline.regressions,
+                summary: timeline.regressions.length === 0
+                  ? `${timeline.version_count} version(s) of ${url} since ${timeline.first_seen}; no regressions detected.`
+                  : `${timeline.version_count} version(s) of ${url}; ${timeline.regressions.length} regression(s), most recent: ${timeline.regressions[0].message} on ${timeline.regressions[0].detected_at}.`
+              };
+            } catch (error) {
+              console.error('getPageHistory error:', error);
+              return {
+                success: false,
+                error: error instanceof Error ? error.message : 'Failed to fetch page history'
+              };
+            }
+          }
+        }),
+
         // NEW SEARCH CONSOLE TOOLS
         getTopPerformingContent: tool({
           description: 'Find content that gets the most SEO traffic from Google Search Console data',
@@ -0,0 +1,135 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { crawlSite, compileCrawlPatterns, type QueryStringMode } from '@/lib/site-crawler';
+import { parseLocalePolicy, evaluateLocalePolicy, type LocalePolicy } from '@/lib/locale-policy';
+import { chunkScrapedContent } from '@/lib/chunking';
+import { storeDocument, updateDocumentClickDepth } from '@/lib/vector-store';
+
+const MAX_CRAWL_PAGES = 1000;
+const MAX_CRAWL_DEPTH = 10;
+const QUERY_STRING_MODES: QueryStringMode[] = ['strip_tracking', 'strip_all', 'keep'];
+
+function toStringList(value: unknown): string[] {
+  if (Array.isArray(value)) return value.filter((item): item is string => typeof item === 'string');
+  if (typeof value === 'string') return value.split('\n');
+  return [];
+}
+
+// POST /api/crawl follows internal links breadth-first from the seed URLs and stores each page
+// with its click depth, finding pages that no sitemap lists.
+export async function POST(request: NextRequest) {
+  try {
+    const {
+      seed_url,
+      seed_urls,
+      max_depth = 3,
+      max_pages = 50,
+      include_patterns,
+      exclude_patterns,
+      query_string = 'strip_tracking',
+      follow_nofollow = false,
+      locale_policy
+    } = await request.json();
+
+    const seeds = toStringList(seed_urls).concat(typeof seed_url === 'string' ? [seed_url] : [])
+      .map(url => url.trim())
+      .filter(url => url.length > 0);
+
+    if (seeds.length === 0) {
+      return NextResponse.json(
+        { error: 'At least one seed URL is required' },
+        { status: 400 }
+      );
+    }
+
+    try {
+      seeds.forEach(url => new URL(url));
+    } catch {
+      return NextResponse.json(
+        { error: 'Invalid seed URL format' },
+        { status: 400 }
+      );
+    }
+
+    if (!QUERY_STRING_MODES.includes(query_string)) {
+      return NextResponse.json(
+        { error: `query_string must be one of: ${QUERY_STRING_MODES.join(', ')}` },
+        { status: 400 }
+      );
+    }
+
+    const include = toStringList(include_patterns);
+    const exclude = toStringList(exclude_patterns);
+    try {
+      compileCrawlPatterns(include, 'include');
+      compileCrawlPatterns(exclude, 'exclude');
+    } catch (error) {
+      return NextResponse.json(
+        { error: error instanceof Error ? error.message : 'Invalid URL pattern' },
+        { status: 400 }
+      );
+    }
+
+    let localePolicy: LocalePolicy;
+    try {
+      localePolicy = parseLocalePolicy(locale_policy);
+    } catch (error) {
+      return NextResponse.json(
+        { error: error instanceof Error ? error.message : 'Invalid locale policy' },
+        { status: 400 }
+      );
+    }
+
+    const maxDepth = Math.min(Math.max(0, Number(max_depth) || 0), MAX_CRAWL_DEPTH);
+    const maxPages = Math.min(Math.max(1, Number(max_pages) || 1), MAX_CRAWL_PAGES);
+
+    console.log(`Starting crawl from ${seeds.join(', ')} (max depth ${maxDepth}, max pages ${maxPages})`);
+
+    const result = await crawlSite(
+      seeds,
+      {
+        maxDepth,
+        maxPages,
+        include,
+        exclude,
+        queryString: query_string,
+        followNofollow: !!follow_nofollow,
+        localePolicy
+      },
+      async (scrapedContent, depth) => {
+        // Pages outside the locale policy are still crawled for links, but not stored
+        const decision = evaluateLocalePolicy(scrapedContent.http?.final_url || scrapedContent.url, localePolicy, scrapedContent.hreflang);
+        if (!decision.allowed) {
+          return { skipped: true, reason: decision.reason };
+        }
+
+        const chunks = chunkScrapedContent(scrapedContent);
+
+        const document = await storeDocument(scrapedContent, chunks);
+        await updateDocumentClickDepth(document.id, depth);
+
+        return {
+          document_id: document.id,
+          chunks_created: document.chunksCreated,
+          unchanged: document.unchanged
+        };
+      }
+    );
+
+    console.log(`Crawl completed. Fetched: ${result.pages_fetched}, Stored: ${result.pages_stored}, Duplicates: ${result.duplicates}, Failed: ${result.failed}`);
+
+    return NextResponse.json({
+      success: true,
+      ...result
+    });
+  } catch (error) {
+    console.error('Crawl error:', error);
+
+    return NextResponse.json(
+      {
+        error: 'Failed to crawl site',
+        message: error instanceof Error ? error.message : 'Unknown error occurred'
+      },
+      { status: 500 }
+    );
+  }
+}
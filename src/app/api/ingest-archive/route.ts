@@ -0,0 +1,217 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { realpath } from 'fs/promises';
+import { resolve, sep } from 'path';
+import { isDatabaseConfigured } from '@/lib/db';
+import { parseLocalePolicy, type LocalePolicy } from '@/lib/locale-policy';
+import { readSourceBuffer, readSourcePath, SOURCE_MAX_BYTES, type SourceReadResult } from '@/lib/ingestion-sources';
+import { ingestSourcePage } from '@/lib/ingestion';
+
+const DEFAULT_MAX_PAGES = 100;
+const MAX_PAGES_LIMIT = 1000;
+
+// Uploaded files are buffered in memory, so one request can't carry more than this
+const MAX_UPLOAD_BYTES = SOURCE_MAX_BYTES;
+
+// Server-side paths can only be read below this directory; unset disables path ingestion
+const LOCAL_INGEST_ROOT = process.env.LOCAL_INGEST_ROOT;
+
+interface ArchiveIngestResult {
+  url: string;
+  source_path: string;
+  success: boolean;
+  document_id?: number;
+  chunks_created?: number;
+  unchanged?: boolean;
+  title?: string;
+  locale?: string;
+  excluded_by_locale?: boolean;
+  error?: string;
+}
+
+// POST /api/ingest-archive stores pages from saved HTML, WARC or WACZ files under their original
+// URLs, without fetching anything. Send multipart form data (files, base_url, max_pages,
+// locale_policy as JSON) or, when LOCAL_INGEST_ROOT is set, JSON with a server-side `path`.
+export async function POST(request: NextRequest) {
+  try {
+    if (!isDatabaseConfigured()) {
+      return NextResponse.json(
+        { success: false, error: 'Database not configured' },
+        { status: 500 }
+      );
+    }
+
+    let files: File[] = [];
+    let path: string | undefined;
+    let fields: { base_url?: unknown; url?: unknown; max_pages?: unknown; locale_policy?: unknown };
+
+    if ((request.headers.get('content-type') || '').includes('multipart/form-data')) {
+      // Rejected before formData() reads the whole body
+      if (parseInt(request.headers.get('content-length') || '', 10) > MAX_UPLOAD_BYTES) {
+        return NextResponse.json(
+          { success: false, error: `Uploads are limited to ${MAX_UPLOAD_BYTES} bytes per request` },
+          { status: 400 }
+        );
+      }
+
+      const form = await request.formData();
+      files = form.getAll('files').filter((file): file is File => typeof file !== 'string');
+      const localePolicyField = form.get('locale_policy');
+      fields = {
+        base_url: form.get('base_url'),
+        max_pages: form.get('max_pages'),
+        locale_policy: typeof localePolicyField === 'string' && localePolicyField ? localePolicyField : undefined
+      };
+
+      if (files.length === 0) {
+        return NextResponse.json(
+          { success: false, error: 'At least one .html, .warc, .warc.gz or .wacz file is required' },
+          { status: 400 }
+        );
+      }
+
+      // Chunked uploads have no Content-Length to check up front
+      if (files.reduce((total, file) => total + file.size, 0) > MAX_UPLOAD_BYTES) {
+        return NextResponse.json(
+          { success: false, error: `Uploads are limited to ${MAX_UPLOAD_BYTES} bytes per request` },
+          { status: 400 }
+        );
+      }
+    } else {
+      fields = await request.json();
+      const body = fields as { path?: unknown };
+
+      if (!LOCAL_INGEST_ROOT) {
+        return NextResponse.json(
+          { success: false, error: 'Reading server-side paths is disabled; set LOCAL_INGEST_ROOT or upload the files' },
+          { status: 400 }
+        );
+      }
+
+      // Checked before and after resolving symlinks: nothing outside the root is even looked up,
+      // and a link inside the root can't point outside it
+      const root = await realpath(resolve(LOCAL_INGEST_ROOT));
+      const isInsideRoot = (candidate: string) => candidate === root || candidate.startsWith(root + sep);
+      const requested = typeof body.path === 'string' ? resolve(root, body.path) : '';
+      let resolved = '';
+      if (requested && isInsideRoot(requested)) {
+        try {
+          resolved = await realpath(requested);
+        } catch {
+          return NextResponse.json(
+            { success: false, error: 'path does not exist' },
+            { status: 400 }
+          );
+        }
+      }
+      if (!resolved || !isInsideRoot(resolved)) {
+        return NextResponse.json(
+          { success: false, error: `path must be inside ${root}` },
+          { status: 400 }
+        );
+      }
+      path = resolved;
+    }
+
+    const baseUrl = typeof fields.base_url === 'string' && fields.base_url.trim() ? fields.base_url.trim() : undefined;
+    if (baseUrl) {
+      try {
+        new URL(baseUrl);
+      } catch {
+        return NextResponse.json(
+          { success: false, error: 'Invalid base URL format' },
+          { status: 400 }
+        );
+      }
+    }
+
+    let localePolicy: LocalePolicy;
+    try {
+      // Multipart requests send the policy as a JSON string
+      localePolicy = parseLocalePolicy(
+        typeof fields.locale_policy === 'string' ? JSON.parse(fields.locale_policy) : fields.locale_policy
+      );
+    } catch (error) {
+      return NextResponse.json(
+        { success: false, error: error instanceof Error ? error.message : 'Invalid locale policy' },
+        { status: 400 }
+      );
+    }
+
+    let read: SourceReadResult = { pages: [], errors: [] };
+    if (path) {
+      read = await readSourcePath(path, { baseUrl, url: typeof fields.url === 'string' ? fields.url : undefined });
+    } else {
+      for (const file of files) {
+        // Directory uploads send each file's path within the folder as its name
+        const extracted = readSourceBuffer(Buffer.from(await file.arrayBuffer()), file.name, {
+          baseUrl,
+          fetchedAt: file.lastModified ? new Date(file.lastModified) : undefined
+        });
+        read.pages.push(...extracted.pages);
+        read.errors.push(...extracted.errors);
+      }
+    }
+
+    const maxPages = Math.min(Math.max(1, Number(fields.max_pages) || DEFAULT_MAX_PAGES), MAX_PAGES_LIMIT);
+    const pages = read.pages.slice(0, maxPages);
+
+    console.log(`Ingesting ${pages.length} of ${read.pages.length} archived pages (${read.errors.length} read errors)`);
+
+    // Pages are parsed from memory, so they're stored one at a time without fetch delays
+    const results: ArchiveIngestResult[] = [];
+    for (const page of pages) {
+      try {
+        const ingested = await ingestSourcePage(page, localePolicy);
+        results.push(ingested.stored
+          ? {
+              url: page.url,
+              source_path: page.source.path,
+              success: true,
+              document_id: ingested.document_id,
+              chunks_created: ingested.chunks_created,
+              unchanged: ingested.unchanged,
+              title: ingested.title,
+              locale: ingested.locale
+            }
+          : {
+              url: page.url,
+              source_path: page.source.path,
+              success: false,
+              excluded_by_locale: true,
+              locale: ingested.locale,
+              error: ingested.excluded_reason
+            });
+      } catch (error) {
+        console.error(`Failed to ingest ${page.url} from ${page.source.path}:`, error);
+        results.push({
+          url: page.url,
+          source_path: page.source.path,
+          success: false,
+          error: error instanceof Error ? error.message : 'Unknown error'
+        });
+      }
+    }
+
+    return NextResponse.json({
+      success: true,
+      pages_found: read.pages.length,
+      pages_processed: pages.length,
+      stored: results.filter(result => result.success).length,
+      failed: results.filter(result => !result.success && !result.excluded_by_locale).length,
+      skipped: results.filter(result => result.excluded_by_locale).length,
+      not_processed: read.pages.length - pages.length,
+      results,
+      read_errors: read.errors
+    });
+  } catch (error) {
+    console.error('Archive ingestion error:', error);
+
+    return NextResponse.json(
+      {
+        success: false,
+        error: error instanceof Error ? error.message : 'Failed to ingest archive'
+      },
+      { status: 500 }
+    );
+  }
+}
@@ -0,0 +1,119 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { isDatabaseConfigured } from '@/lib/db';
+import {
+  getIngestionJob,
+  getIngestionTasks,
+  updateIngestionJobStatus,
+  type IngestionJobAction,
+  type IngestionTaskStatus
+} from '@/lib/ingestion-jobs';
+
+const ACTIONS: IngestionJobAction[] = ['pause', 'resume', 'cancel'];
+const TASK_STATUSES: IngestionTaskStatus[] = ['pending', 'running', 'done', 'failed', 'skipped'];
+
+// GET /api/ingestion-jobs/:id returns the job, its task counts and a page of tasks
+// (?status=failed&limit=100&offset=0)
+export async function GET(request: NextRequest, { params }: { params: { id: string } }) {
+  try {
+    if (!isDatabaseConfigured()) {
+      return NextResponse.json(
+        { success: false, error: 'Database not configured' },
+        { status: 500 }
+      );
+    }
+
+    const jobId = parseInt(params.id);
+    if (isNaN(jobId)) {
+      return NextResponse.json(
+        { success: false, error: 'Invalid job ID' },
+        { status: 400 }
+      );
+    }
+
+    const job = await getIngestionJob(jobId);
+    if (!job) {
+      return NextResponse.json(
+        { success: false, error: 'Ingestion job not found' },
+        { status: 404 }
+      );
+    }
+
+    const searchParams = new URL(request.url).searchParams;
+    const status = searchParams.get('status') as IngestionTaskStatus | null;
+    const tasks = await getIngestionTasks(jobId, {
+      status: status && TASK_STATUSES.includes(status) ? status : undefined,
+      limit: Math.min(parseInt(searchParams.get('limit') || '100') || 100, 1000),
+      offset: parseInt(searchParams.get('offset') || '0') || 0
+    });
+
+    return NextResponse.json({
+      success: true,
+      job,
+      tasks
+    });
+  } catch (error) {
+    console.error('Ingestion job error:', error);
+
+    return NextResponse.json(
+      {
+        success: false,
+        error: error instanceof Error ? error.message : 'Failed to load ingestion job'
+      },
+      { status: 500 }
+    );
+  }
+}
+
+// PATCH /api/ingestion-jobs/:id with { action: 'pause' | 'resume' | 'cancel' }
+export async function PATCH(request: NextRequest, { params }: { params: { id: string } }) {
+  try {
+    if (!isDatabaseConfigured()) {
+      return NextResponse.json(
+        { success: false, error: 'Database not configured' },
+        { status: 500 }
+      );
+    }
+
+    const jobId = parseInt(params.id);
+    const { action } = await request.json();
+
+    if (isNaN(jobId) || !ACTIONS.includes(action)) {
+      return NextResponse.json(
+        { success: false, error: `A valid job ID and an action (${ACTIONS.join(', ')}) are required` },
+        { status: 400 }
+      );
+    }
+
+    let job;
+    try {
+      job = await updateIngestionJobStatus(jobId, action);
+    } catch (error) {
+      return NextResponse.json(
+        { success: false, error: error instanceof Error ? error.message : 'Invalid action' },
+        { status: 409 }
+      );
+    }
+
+    if (!job) {
+      return NextResponse.json(
+        { success: false, error: 'Ingestion job not found' },
+        { status: 404 }
+      );
+    }
+
+    return NextResponse.json({
+      success: true,
+      job
+    });
+  } catch (error) {
+    console.error('Update ingestion job error:', error);
+
+    return NextResponse.json(
+      {
+        success: false,
+        error: error instanceof Error ? error.message : 'Failed to update ingestion job'
+      },
+      { status: 500 }
+    );
+  }
+}
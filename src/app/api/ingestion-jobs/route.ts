@@ -0,0 +1,95 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { isDatabaseConfigured } from '@/lib/db';
+import { parseLocalePolicy } from '@/lib/locale-policy';
+import { createIngestionJob, listIngestionJobs } from '@/lib/ingestion-jobs';
+
+// GET /api/ingestion-jobs lists recent jobs with per-status task counts
+export async function GET(request: NextRequest) {
+  try {
+    if (!isDatabaseConfigured()) {
+      return NextResponse.json(
+        { success: false, error: 'Database not configured' },
+        { status: 500 }
+      );
+    }
+
+    const limit = Math.min(parseInt(new URL(request.url).searchParams.get('limit') || '20') || 20, 100);
+    const jobs = await listIngestionJobs(limit);
+
+    return NextResponse.json({
+      success: true,
+      jobs
+    });
+  } catch (error) {
+    console.error('Ingestion jobs error:', error);
+
+    return NextResponse.json(
+      {
+        success: false,
+        error: error instanceof Error ? error.message : 'Failed to list ingestion jobs'
+      },
+      { status: 500 }
+    );
+  }
+}
+
+// POST /api/ingestion-jobs records every sitemap URL as a task; workers do the scraping.
+// Sitemap discovery runs within this request, hence its own maxDuration in vercel.json.
+export async function POST(request: NextRequest) {
+  try {
+    if (!isDatabaseConfigured()) {
+      return NextResponse.json(
+        { success: false, error: 'Database not configured' },
+        { status: 500 }
+      );
+    }
+
+    const { sitemap_url, sitemap_urls, skip_existing = true, max_attempts = 3, locale_policy } = await request.json();
+
+    const sitemapUrls: string[] = Array.isArray(sitemap_urls) && sitemap_urls.length > 0
+      ? sitemap_urls.filter((url: unknown): url is string => typeof url === 'string')
+      : typeof sitemap_url === 'string' && sitemap_url ? [sitemap_url] : [];
+
+    if (sitemapUrls.length === 0) {
+      return NextResponse.json(
+        { success: false, error: 'Valid sitemap URL is required' },
+        { status: 400 }
+      );
+    }
+
+    try {
+      sitemapUrls.forEach(url => new URL(url));
+    } catch {
+      return NextResponse.json(
+        { success: false, error: 'Invalid sitemap URL format' },
+        { status: 400 }
+      );
+    }
+
+    try {
+      parseLocalePolicy(locale_policy);
+    } catch (error) {
+      return NextResponse.json(
+        { success: false, error: error instanceof Error ? error.message : 'Invalid locale policy' },
+        { status: 400 }
+      );
+    }
+
+    const job = await createIngestionJob({ sitemap_urls: sitemapUrls, skip_existing, max_attempts, locale_policy });
+
+    return NextResponse.json({
+      success: true,
+      job
+    }, { status: 201 });
+  } catch (error) {
+    console.error('Create ingestion job error:', error);
+
+    return NextResponse.json(
+      {
+        success: false,
+        error: error instanceof Error ? error.message : 'Failed to create ingestion job'
+      },
+      { status: 500 }
+    );
+  }
+}
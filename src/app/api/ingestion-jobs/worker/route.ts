@@ -0,0 +1,50 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { isDatabaseConfigured } from '@/lib/db';
+import { runIngestionWorker } from '@/lib/ingestion-jobs';
+
+// Leaves headroom under the function's maxDuration in vercel.json to close out finished jobs
+const TIME_BUDGET_MS = 50000;
+// A batch fetches, parses and embeds a few pages; the worker stops claiming once this no longer fits
+const BATCH_TIME_MS = 20000;
+
+// Runs one worker pass over due ingestion tasks. Vercel Cron calls it every minute (GET);
+// it can also be triggered manually (POST). When CRON_SECRET is set, requests must send it
+// as a bearer token.
+async function handle(request: NextRequest) {
+  try {
+    if (!isDatabaseConfigured()) {
+      return NextResponse.json(
+        { success: false, error: 'Database not configured' },
+        { status: 500 }
+      );
+    }
+
+    const cronSecret = process.env.CRON_SECRET;
+    if (cronSecret && request.headers.get('authorization') !== `Bearer ${cronSecret}`) {
+      return NextResponse.json(
+        { success: false, error: 'Unauthorized' },
+        { status: 401 }
+      );
+    }
+
+    const result = await runIngestionWorker({ timeBudgetMs: TIME_BUDGET_MS, batchTimeMs: BATCH_TIME_MS });
+
+    return NextResponse.json({
+      success: true,
+      ...result
+    });
+  } catch (error) {
+    console.error('Ingestion worker error:', error);
+
+    return NextResponse.json(
+      {
+        success: false,
+        error: error instanceof Error ? error.message : 'Ingestion worker failed'
+      },
+      { status: 500 }
+    );
+  }
+}
+
+export const GET = handle;
+export const POST = handle;
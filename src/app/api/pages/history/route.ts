@@ -0,0 +1,50 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { isDatabaseConfigured } from '@/lib/db';
+import { getDocumentVersionHistory } from '@/lib/vector-store';
+import { buildVersionTimeline, DEFAULT_SCORE_DROP_THRESHOLD } from '@/lib/version-history';
+
+// GET /api/pages/history?url=...&scoreDrop=10 returns the version timeline of a page
+// with scores at each point in time and the regressions between versions.
+export async function GET(request: NextRequest) {
+  try {
+    if (!isDatabaseConfigured()) {
+      return NextResponse.json(
+        { success: false, error: 'Database not configured' },
+        { status: 500 }
+      );
+    }
+
+    const { searchParams } = new URL(request.url);
+    const url = searchParams.get('url');
+
+    if (!url) {
+      return NextResponse.json(
+        { success: false, error: 'url parameter is required' },
+        { status: 400 }
+      );
+    }
+
+    const scoreDrop = parseFloat(searchParams.get('scoreDrop') || '');
+    const limit = Math.min(parseInt(searchParams.get('limit') || '100', 10) || 100, 500);
+
+    const versions = await getDocumentVersionHistory(url, limit);
+    const timeline = buildVersionTimeline(url, versions, {
+      scoreDropThreshold: isNaN(scoreDrop) ? DEFAULT_SCORE_DROP_THRESHOLD : scoreDrop
+    });
+
+    return NextResponse.json({
+      success: true,
+      timeline
+    });
+  } catch (error) {
+    console.error('Version history error:', error);
+
+    return NextResponse.json(
+      {
+        success: false,
+        error: error instanceof Error ? error.message : 'Failed to fetch version history'
+      },
+      { status: 500 }
+    );
+  }
+}
@@ -0,0 +1,60 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { isDatabaseConfigured } from '@/lib/db';
+import { getDocumentSnapshots, getSnapshotHtml } from '@/lib/vector-store';
+
+// GET /api/pages/snapshots?url=... lists what changed on a page and when.
+// GET /api/pages/snapshots?id=... returns the raw HTML of one snapshot.
+export async function GET(request: NextRequest) {
+  try {
+    if (!isDatabaseConfigured()) {
+      return NextResponse.json(
+        { success: false, error: 'Database not configured' },
+        { status: 500 }
+      );
+    }
+
+    const { searchParams } = new URL(request.url);
+    const url = searchParams.get('url');
+    const id = searchParams.get('id');
+
+    if (id) {
+      const snapshotId = parseInt(id, 10);
+      const html = isNaN(snapshotId) ? null : await getSnapshotHtml(snapshotId);
+      if (html === null) {
+        return NextResponse.json(
+          { success: false, error: 'Snapshot not found' },
+          { status: 404 }
+        );
+      }
+      return new NextResponse(html, {
+        headers: { 'Content-Type': 'text/plain; charset=utf-8' }
+      });
+    }
+
+    if (!url) {
+      return NextResponse.json(
+        { success: false, error: 'url or id parameter is required' },
+        { status: 400 }
+      );
+    }
+
+    const limit = Math.min(parseInt(searchParams.get('limit') || '50', 10) || 50, 500);
+    const snapshots = await getDocumentSnapshots(url, limit);
+
+    return NextResponse.json({
+      success: true,
+      url,
+      snapshots
+    });
+  } catch (error) {
+    console.error('Snapshot history error:', error);
+
+    return NextResponse.json(
+      {
+        success: false,
+        error: error instanceof Error ? error.message : 'Failed to fetch snapshots'
+      },
+      { status: 500 }
+    );
+  }
+}
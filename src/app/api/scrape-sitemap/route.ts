@@ -1,16 +1,24 @@
 import { NextRequest, NextResponse } from 'next/server';
-import { getEnglishUrlsFromSitemap, batchUrls, SitemapUrl } from '@/lib/sitemap-parser';
-import { scrapeWebsite } from '@/lib/scraper';
-import { chunkContent } from '@/lib/chunking';
-import { storeDocument, checkExistingUrls } from '@/lib/vector-store';
+import { discoverSitemapUrls, batchUrls, SitemapUrl, SitemapError } from '@/lib/sitemap-parser';
+import { parseLocalePolicy, filterUrlsByLocale, type LocalePolicy } from '@/lib/locale-policy';
+import { checkExistingUrls } from '@/lib/vector-store';
+import { ingestSitemapUrl } from '@/lib/ingestion';
+import { type SitemapExtensionIssue } from '@/lib/sitemap-extension-analyzer';
+import { checkRobotsAccess } from '@/lib/robots';
+import { isBlockedByRobotsError } from '@/lib/scraper';
 
 interface ScrapingResult {
   url: string;
   success: boolean;
   document_id?: string;
   chunks_created?: number;
+  unchanged?: boolean;
   title?: string;
   error?: string;
+  blocked_by_robots?: boolean;
+  locale?: string;
+  excluded_by_locale?: boolean;
+  sitemap_issues?: SitemapExtensionIssue[];
 }
 
 interface BatchProgress {
@@ -19,16 +27,53 @@ interface BatchProgress {
   successful: number;
   failed: number;
   skipped: number;
+  blocked_by_robots: number;
   current_batch: number;
   total_batches: number;
   results: ScrapingResult[];
 }
 
+// Running counts sent with every progress event; eta_seconds is null until a URL has finished
+type ProgressCounts = Omit<BatchProgress, 'results'> & {
+  elapsed_ms: number;
+  eta_seconds: number | null;
+};
+
+// Events streamed over Server-Sent Events when the request sets `stream: true`
+// (or sends `Accept: text/event-stream`). Each is sent as `event: <type>` with the
+// whole object as JSON data.
+type ScrapeProgressEvent =
+  | { type: 'discovered'; matching_urls_found: number; locale_excluded: number; sitemap_errors: SitemapError[] }
+  | { type: 'started'; counts: ProgressCounts; results: ScrapingResult[] }
+  | { type: 'batch_started'; batch: number; total_batches: number; urls: string[] }
+  | { type: 'url_completed'; result: ScrapingResult; counts: ProgressCounts }
+  | { type: 'batch_completed'; batch: number; counts: ProgressCounts }
+  | { type: 'completed'; response: Record<string, unknown> }
+  | { type: 'error'; error: string; message?: string };
+
+interface SitemapScrapeInput {
+  sitemapUrls: string[];
+  localePolicy: LocalePolicy;
+  batchSize: number;
+  maxUrls: number;
+  skipExisting: boolean;
+}
+
+interface SitemapScrapeOutcome {
+  status: number;
+  body: Record<string, unknown>;
+}
+
 export async function POST(request: NextRequest) {
   try {
-    const { sitemap_url, batch_size = 5, max_urls = 100, skip_existing = true } = await request.json();
+    const { sitemap_url, sitemap_urls, batch_size = 5, max_urls = 100, skip_existing = true, locale_policy, stream = false } = await request.json();
     
-    if (!sitemap_url || typeof sitemap_url !== 'string') {
+    // Either one sitemap, or several child sitemaps picked from /api/sitemap-discovery
+    const sitemapUrls: string[] = Array.isArray(sitemap_urls) && sitemap_urls.length > 0
+      ? sitemap_urls.filter((url: unknown): url is string => typeof url === 'string')
+      : typeof sitemap_url === 'string' && sitemap_url ? [sitemap_url] : [];
+    
+    if (sitemapUrls.length === 0) {
       return NextResponse.json(
         { error: 'Valid sitemap URL is required' },
         { status: 400 }
@@ -37,7 +82,7 @@ export async function POST(request: NextRequest) {
 
     // Validate sitemap URL format
     try {
-      new URL(sitemap_url);
+      sitemapUrls.forEach(url => new URL(url));
     } catch {
       return NextResponse.json(
         { error: 'Invalid sitemap URL format' },
@@ -45,178 +90,409 @@ export async function POST(request: NextRequest) {
       );
     }
 
-    console.log(`Starting sitemap processing: ${sitemap_url}`);
-    
-    // Get English URLs from sitemap
-    let englishUrls: SitemapUrl[];
+    // Which locales this job ingests; defaults to unprefixed (English) content only
+    let localePolicy: LocalePolicy;
     try {
-      englishUrls = await getEnglishUrlsFromSitemap(sitemap_url);
+      localePolicy = parseLocalePolicy(locale_policy);
     } catch (error) {
-      console.error('Sitemap parsing error:', error);
       return NextResponse.json(
-        { 
-          error: 'Failed to parse sitemap',
-          message: error instanceof Error ? error.message : 'Unknown error occurred'
-        },
-        { status: 500 }
+        { error: error instanceof Error ? error.message : 'Invalid locale policy' },
+        { status: 400 }
       );
     }
 
-    if (englishUrls.length === 0) {
-      return NextResponse.json({
+    const input: SitemapScrapeInput = {
+      sitemapUrls,
+      localePolicy,
+      batchSize: batch_size,
+      maxUrls: max_urls,
+      skipExisting: skip_existing
+    };
+
+    if (stream || request.headers.get('accept')?.includes('text/event-stream')) {
+      return streamSitemapScrape(input);
+    }
+
+    const outcome = await scrapeSitemap(input, () => {}, () => false);
+    return NextResponse.json(outcome.body, { status: outcome.status });
+    
+  } catch (error) {
+    console.error('Sitemap scraping error:', error);
+    
+    const errorMessage = error instanceof Error ? error.message : 'Unknown error occurred';
+    
+    return NextResponse.json(
+      { 
+        error: 'Failed to process sitemap',
+        message: errorMessage
+      },
+      { status: 500 }
+    );
+  }
+}
+
+/**
+ * Discovers, filters and ingests the sitemap URLs batch by batch, reporting progress through
+ * `emit`. `isCancelled` is checked before each batch so a closed stream stops the work.
+ */
+async function scrapeSitemap(
+  input: SitemapScrapeInput,
+  emit: (event: ScrapeProgressEvent) => void,
+  isCancelled: () => boolean
+): Promise<SitemapScrapeOutcome> {
+  const { sitemapUrls, localePolicy, batchSize, maxUrls, skipExisting } = input;
+
+  console.log(`Starting sitemap processing: ${sitemapUrls.join(', ')}`);
+  
+  // Walk the sitemaps (and any nested indexes), then keep URLs the locale policy allows
+  let matchingUrls: SitemapUrl[];
+  let localeExcludedCount = 0;
+  let sitemapErrors: SitemapError[] = [];
+  let sitemapsFetched = 0;
+  try {
+    const seenUrls = new Set<string>();
+    const allUrls: SitemapUrl[] = [];
+    for (const url of sitemapUrls) {
+      const discovery = await discoverSitemapUrls(url);
+      discovery.urls.forEach(entry => {
+        if (seenUrls.has(entry.loc)) return;
+        seenUrls.add(entry.loc);
+        allUrls.push(entry);
+      });
+      sitemapErrors = sitemapErrors.concat(discovery.errors);
+      sitemapsFetched += discovery.sitemaps_fetched;
+    }
+    const localeFilter = filterUrlsByLocale(allUrls, localePolicy);
+    matchingUrls = localeFilter.included;
+    localeExcludedCount = localeFilter.excluded.length;
+    
+    if (sitemapErrors.length > 0) {
+      console.warn(`${sitemapErrors.length} sitemap(s) could not be fully processed:`, sitemapErrors.slice(0, 5));
+    }
+  } catch (error) {
+    console.error('Sitemap parsing error:', error);
+    return {
+      status: 500,
+      body: {
+        error: 'Failed to parse sitemap',
+        message: error instanceof Error ? error.message : 'Unknown error occurred'
+      }
+    };
+  }
+
+  emit({
+    type: 'discovered',
+    matching_urls_found: matchingUrls.length,
+    locale_excluded: localeExcludedCount,
+    sitemap_errors: sitemapErrors
+  });
+
+  if (matchingUrls.length === 0) {
+    return {
+      status: 200,
+      body: {
         total_urls: 0,
         processed: 0,
         successful: 0,
         failed: 0,
         skipped: 0,
         results: [],
-        message: 'No English URLs found in sitemap'
-      });
-    }
+        sitemap_errors: sitemapErrors,
+        message: `No URLs matching the locale policy found in sitemap (${localeExcludedCount} excluded by locale)`
+      }
+    };
+  }
 
-    // Limit URLs if specified
-    const limitedUrls = englishUrls.slice(0, max_urls);
+  // Limit URLs if specified
+  const limitedUrls = matchingUrls.slice(0, maxUrls);
+  
+  // Check for existing URLs if skipExisting is enabled
+  let urlsToProcess = limitedUrls;
+  let skippedCount = 0;
+  
+  if (skipExisting) {
+    console.log('Checking for existing URLs in database...');
+    const allUrls = limitedUrls.map(url => url.loc);
+    const { existing, new: newUrls } = await checkExistingUrls(allUrls);
     
-    // Check for existing URLs if skip_existing is enabled
-    let urlsToProcess = limitedUrls;
-    let skippedCount = 0;
+    urlsToProcess = limitedUrls.filter(url => newUrls.includes(url.loc));
+    skippedCount = existing.length;
     
-    if (skip_existing) {
-      console.log('Checking for existing URLs in database...');
-      const allUrls = limitedUrls.map(url => url.loc);
-      const { existing, new: newUrls } = await checkExistingUrls(allUrls);
-      
-      urlsToProcess = limitedUrls.filter(url => newUrls.includes(url.loc));
-      skippedCount = existing.length;
-      
-      console.log(`Found ${existing.length} existing URLs, ${newUrls.length} new URLs to process`);
-      
-      if (existing.length > 0) {
-        console.log('Skipping existing URLs:', existing.slice(0, 5), existing.length > 5 ? `... and ${existing.length - 5} more` : '');
-      }
-    }
+    console.log(`Found ${existing.length} existing URLs, ${newUrls.length} new URLs to process`);
     
-    if (urlsToProcess.length === 0) {
-      return NextResponse.json({
+    if (existing.length > 0) {
+      console.log('Skipping existing URLs:', existing.slice(0, 5), existing.length > 5 ? `... and ${existing.length - 5} more` : '');
+    }
+  }
+  
+  if (urlsToProcess.length === 0) {
+    return {
+      status: 200,
+      body: {
         total_urls: limitedUrls.length,
         processed: 0,
         successful: 0,
         failed: 0,
         skipped: skippedCount,
         results: [],
-        message: skip_existing ? 'All URLs already exist in database' : 'No URLs to process',
+        sitemap_errors: sitemapErrors,
+        message: skipExisting ? 'All URLs already exist in database' : 'No URLs to process',
         summary: {
           success_rate: 0,
           processing_time_estimate: '0 batches processed',
-          english_urls_found: englishUrls.length,
+          matching_urls_found: matchingUrls.length,
+          locale_excluded: localeExcludedCount,
           urls_processed: 0,
           existing_urls_skipped: skippedCount
         }
-      });
-    }
-    
-    const batches = batchUrls(urlsToProcess, batch_size);
-    
-    console.log(`Found ${englishUrls.length} English URLs, processing ${urlsToProcess.length} URLs in ${batches.length} batches${skip_existing && skippedCount > 0 ? `, skipping ${skippedCount} existing URLs` : ''}`);
-
-    const progress: BatchProgress = {
-      total_urls: urlsToProcess.length,
-      processed: 0,
-      successful: 0,
-      failed: 0,
-      skipped: skippedCount,
-      current_batch: 0,
-      total_batches: batches.length,
-      results: []
+      }
     };
+  }
+  
+  // Check robots.txt before fetching anything; disallowed URLs are reported, not scraped
+  const robotsResults: ScrapingResult[] = [];
+  let crawlDelaySeconds = 0;
+  const robotsChecks = await Promise.all(
+    urlsToProcess.map(async (sitemapUrl) => ({
+      sitemapUrl,
+      check: await checkRobotsAccess(sitemapUrl.loc)
+    }))
+  );
 
-    // Process batches sequentially to avoid overwhelming the target server
-    for (let batchIndex = 0; batchIndex < batches.length; batchIndex++) {
-      const batch = batches[batchIndex];
-      progress.current_batch = batchIndex + 1;
-      
-      console.log(`Processing batch ${progress.current_batch}/${progress.total_batches} with ${batch.length} URLs`);
+  urlsToProcess = robotsChecks
+    .filter(({ sitemapUrl, check }) => {
+      crawlDelaySeconds = Math.max(crawlDelaySeconds, check.crawl_delay || 0);
+      if (!check.allowed) {
+        robotsResults.push({
+          url: sitemapUrl.loc,
+          success: false,
+          blocked_by_robots: true,
+          error: `Disallowed by ${check.robots_url}${check.matched_rule ? ` (${check.matched_rule.type}: ${check.matched_rule.pattern})` : ''}`
+        });
+        return false;
+      }
+      return true;
+    })
+    .map(({ sitemapUrl }) => sitemapUrl);
 
-      // Process URLs in current batch in parallel
-      const batchPromises = batch.map(async (sitemapUrl): Promise<ScrapingResult> => {
-        try {
-          // Scrape the website
-          const scrapedContent = await scrapeWebsite(sitemapUrl.loc);
-          
-          // Chunk the content
-          const chunks = chunkContent(scrapedContent.content, {
-            maxLength: 500,
-            overlap: 50
-          });
-          
-          // Store document and chunks with embeddings
-          const document = await storeDocument(scrapedContent, chunks);
-          
-          return {
-            url: sitemapUrl.loc,
-            success: true,
-            document_id: document.id.toString(),
-            chunks_created: chunks.length,
-            title: scrapedContent.title
-          };
-        } catch (error) {
-          console.error(`Failed to scrape ${sitemapUrl.loc}:`, error);
-          return {
-            url: sitemapUrl.loc,
-            success: false,
-            error: error instanceof Error ? error.message : 'Unknown error'
-          };
-        }
-      });
+  if (robotsResults.length > 0) {
+    console.log(`Skipping ${robotsResults.length} URLs disallowed by robots.txt`);
+  }
 
-      // Wait for current batch to complete
-      const batchResults = await Promise.all(batchPromises);
-      
-      // Update progress
-      progress.results.push(...batchResults);
-      progress.processed += batchResults.length;
-      progress.successful += batchResults.filter(r => r.success).length;
-      progress.failed += batchResults.filter(r => !r.success).length;
+  const batches = batchUrls(urlsToProcess, batchSize);
+  
+  console.log(`Found ${matchingUrls.length} URLs matching the locale policy, processing ${urlsToProcess.length} URLs in ${batches.length} batches${skipExisting && skippedCount > 0 ? `, skipping ${skippedCount} existing URLs` : ''}`);
 
-      console.log(`Batch ${progress.current_batch} completed. Success: ${batchResults.filter(r => r.success).length}, Failed: ${batchResults.filter(r => !r.success).length}`);
+  const progress: BatchProgress = {
+    total_urls: urlsToProcess.length,
+    processed: 0,
+    successful: 0,
+    failed: 0,
+    skipped: skippedCount,
+    blocked_by_robots: robotsResults.length,
+    current_batch: 0,
+    total_batches: batches.length,
+    results: [...robotsResults]
+  };
+
+  const startedAt = Date.now();
+  const counts = (): ProgressCounts => {
+    const elapsedMs = Date.now() - startedAt;
+    return {
+      total_urls: progress.total_urls,
+      processed: progress.processed,
+      successful: progress.successful,
+      failed: progress.failed,
+      skipped: progress.skipped,
+      blocked_by_robots: progress.blocked_by_robots,
+      current_batch: progress.current_batch,
+      total_batches: progress.total_batches,
+      elapsed_ms: elapsedMs,
+      // Average time per URL so far (batch delays included) times the URLs left
+      eta_seconds: progress.processed > 0
+        ? Math.round((elapsedMs / progress.processed) * (progress.total_urls - progress.processed) / 1000)
+        : null
+    };
+  };
+  let cancelled = false;
 
-      // Add delay between batches to be respectful to the target server
-      if (batchIndex < batches.length - 1) {
-        await new Promise(resolve => setTimeout(resolve, 1000)); // 1 second delay
+  const scrapeSitemapEntry = async (sitemapUrl: SitemapUrl): Promise<ScrapingResult> => {
+    try {
+      const page = await ingestSitemapUrl(sitemapUrl, localePolicy);
+      
+      if (!page.stored) {
+        return {
+          url: sitemapUrl.loc,
+          success: false,
+          excluded_by_locale: true,
+          locale: page.locale,
+          error: page.excluded_reason
+        };
+      }
+      
+      return {
+        url: sitemapUrl.loc,
+        success: true,
+        document_id: String(page.document_id),
+        chunks_created: page.chunks_created,
+        unchanged: page.unchanged,
+        locale: page.locale,
+        title: page.title,
+        sitemap_issues: page.sitemap_issues
+      };
+    } catch (error) {
+      // Redirected to a URL that robots.txt disallows
+      if (isBlockedByRobotsError(error)) {
+        return {
+          url: sitemapUrl.loc,
+          success: false,
+          blocked_by_robots: true,
+          error: (error as Error).message
+        };
       }
+      console.error(`Failed to scrape ${sitemapUrl.loc}:`, error);
+      return {
+        url: sitemapUrl.loc,
+        success: false,
+        error: error instanceof Error ? error.message : 'Unknown error'
+      };
+    }
+  };
+
+  emit({ type: 'started', counts: counts(), results: robotsResults });
+
+  // Process batches sequentially to avoid overwhelming the target server
+  for (let batchIndex = 0; batchIndex < batches.length; batchIndex++) {
+    if (isCancelled()) {
+      cancelled = true;
+      console.log(`Sitemap processing cancelled before batch ${batchIndex + 1}/${batches.length}`);
+      break;
     }
 
-    console.log(`Sitemap processing completed. Total: ${progress.total_urls}, Successful: ${progress.successful}, Failed: ${progress.failed}${progress.skipped > 0 ? `, Skipped: ${progress.skipped}` : ''}`);
+    const batch = batches[batchIndex];
+    progress.current_batch = batchIndex + 1;
+    
+    console.log(`Processing batch ${progress.current_batch}/${progress.total_batches} with ${batch.length} URLs`);
+    emit({
+      type: 'batch_started',
+      batch: progress.current_batch,
+      total_batches: progress.total_batches,
+      urls: batch.map(sitemapUrl => sitemapUrl.loc)
+    });
+
+    // Process URLs in current batch in parallel, counting each one as it finishes. The fetch
+    // scheduler spaces the requests per host, honouring Crawl-delay and backing off on 429/503.
+    const batchPromises = batch.map(async (sitemapUrl): Promise<ScrapingResult> => {
+      const result = await scrapeSitemapEntry(sitemapUrl);
+
+      progress.results.push(result);
+      progress.processed++;
+      if (result.success) {
+        progress.successful++;
+      } else if (result.excluded_by_locale) {
+        // Pages whose hreflang put them outside the locale policy count as skipped, not failed
+        progress.skipped++;
+        localeExcludedCount++;
+      } else if (result.blocked_by_robots) {
+        progress.blocked_by_robots++;
+      } else {
+        progress.failed++;
+      }
+      emit({ type: 'url_completed', result, counts: counts() });
+
+      return result;
+    });
+
+    // Wait for current batch to complete
+    const batchResults = await Promise.all(batchPromises);
+
+    console.log(`Batch ${progress.current_batch} completed. Success: ${batchResults.filter(r => r.success).length}, Failed: ${batchResults.filter(r => !r.success).length}`);
+    emit({ type: 'batch_completed', batch: progress.current_batch, counts: counts() });
+  }
+
+  console.log(`Sitemap processing completed. Total: ${progress.total_urls}, Successful: ${progress.successful}, Failed: ${progress.failed}${progress.skipped > 0 ? `, Skipped: ${progress.skipped}` : ''}`);
 
-    return NextResponse.json({
+  return {
+    status: 200,
+    body: {
       total_urls: progress.total_urls,
       processed: progress.processed,
       successful: progress.successful,
       failed: progress.failed,
       skipped: progress.skipped,
+      blocked_by_robots: progress.blocked_by_robots,
       total_batches: progress.total_batches,
       results: progress.results,
+      sitemap_errors: sitemapErrors,
       summary: {
         success_rate: progress.total_urls > 0 ? Math.round((progress.successful / progress.total_urls) * 100) : 0,
         processing_time_estimate: `${progress.total_batches} batches processed`,
-        english_urls_found: englishUrls.length,
+        matching_urls_found: matchingUrls.length,
+        locale_excluded: localeExcludedCount,
+        sitemaps_fetched: sitemapsFetched,
         urls_processed: urlsToProcess.length,
         existing_urls_skipped: progress.skipped,
-        skip_existing_enabled: skip_existing
-      }
-    });
-    
-  } catch (error) {
-    console.error('Sitemap scraping error:', error);
-    
-    const errorMessage = error instanceof Error ? error.message : 'Unknown error occurred';
-    
-    return NextResponse.json(
-      { 
-        error: 'Failed to process sitemap',
-        message: errorMessage
+        robots_blocked: progress.blocked_by_robots,
+        crawl_delay_seconds: crawlDelaySeconds,
+        skip_existing_enabled: skipExisting
       },
-      { status: 500 }
-    );
-  }
-}
\ No newline at end of file
+      cancelled: cancelled || undefined
+    }
+  };
+}
+
+/**
+ * Runs the scrape in the background and streams its progress as Server-Sent Events, ending
+ * with a `completed` event that carries the same body the JSON response would. Closing the
+ * connection stops the scrape after the current batch.
+ */
+function streamSitemapScrape(input: SitemapScrapeInput): Response {
+  const encoder = new TextEncoder();
+  let closed = false;
+
+  const stream = new ReadableStream({
+    async start(controller) {
+      const send = (event: ScrapeProgressEvent) => {
+        if (closed) return;
+        try {
+          controller.enqueue(encoder.encode(`event: ${event.type}\ndata: ${JSON.stringify(event)}\n\n`));
+        } catch {
+          closed = true;
+        }
+      };
+
+      try {
+        const outcome = await scrapeSitemap(input, send, () => closed);
+        if (outcome.status === 200) {
+          send({ type: 'completed', response: outcome.body });
+        } else {
+          send({ type: 'error', error: String(outcome.body.error), message: outcome.body.message as string | undefined });
+        }
+      } catch (error) {
+        console.error('Sitemap scraping error:', error);
+        send({
+          type: 'error',
+          error: 'Failed to process sitemap',
+          message: error instanceof Error ? error.message : 'Unknown error occurred'
+        });
+      }
+
+      if (!closed) {
+        closed = true;
+        controller.close();
+      }
+    },
+    cancel() {
+      closed = true;
+    }
+  });
+
+  return new Response(stream, {
+    headers: {
+      'Content-Type': 'text/event-stream; charset=utf-8',
+      'Cache-Control': 'no-cache, no-transform',
+      'Connection': 'keep-alive',
+      'X-Accel-Buffering': 'no'
+    }
+  });
+}
@@ -1,7 +1,9 @@
 import { NextRequest, NextResponse } from 'next/server';
-import { scrapeWebsite } from '@/lib/scraper';
-import { chunkContent } from '@/lib/chunking';
+import { scrapeWebsite, getHttpErrorMessage, isBlockedByRobotsError } from '@/lib/scraper';
+import { chunkScrapedContent } from '@/lib/chunking';
 import { storeDocument } from '@/lib/vector-store';
+import { checkRobotsAccess } from '@/lib/robots';
+import { checkUrlSafety } from '@/lib/url-safety';
 
 export async function POST(request: NextRequest) {
   try {
@@ -14,26 +16,72 @@ export async function POST(request: NextRequest) {
       );
     }
 
+    // Refuse non-http(s) URLs and hosts that resolve to internal addresses
+    const unsafeUrl = await checkUrlSafety(url);
+    if (unsafeUrl) {
+      return NextResponse.json(
+        { error: unsafeUrl, success: false },
+        { status: 400 }
+      );
+    }
+
+    // Respect robots.txt before fetching the page
+    const robotsCheck = await checkRobotsAccess(url);
+    if (!robotsCheck.allowed) {
+      return NextResponse.json(
+        {
+          error: 'URL is disallowed by robots.txt',
+          message: `Disallowed by ${robotsCheck.robots_url}${robotsCheck.matched_rule ? ` (${robotsCheck.matched_rule.type}: ${robotsCheck.matched_rule.pattern})` : ''}`,
+          blocked_by_robots: true,
+          success: false
+        },
+        { status: 403 }
+      );
+    }
+
     // Scrape the website using existing function
     const scrapedContent = await scrapeWebsite(url);
+
+    // Error pages aren't embedded and stored as if they were the page
+    const httpError = getHttpErrorMessage(scrapedContent);
+    if (httpError) {
+      return NextResponse.json(
+        { error: httpError, http_status: scrapedContent.http?.status_code, success: false },
+        { status: 422 }
+      );
+    }
     
-    // Chunk the content using existing function
-    const chunks = chunkContent(scrapedContent.content, {
-      maxLength: 500,
-      overlap: 50
-    });
+    // Chunk the content along its block structure
+    const chunks = chunkScrapedContent(scrapedContent);
     
     // Store document and chunks with embeddings using existing function
     const document = await storeDocument(scrapedContent, chunks);
     
     return NextResponse.json({
       document_id: document.id,
-      chunks_created: chunks.length,
+      chunks_created: document.chunksCreated,
+      unchanged: document.unchanged,
+      changes: document.changes,
+      timings: document.timings,
+      http_status: scrapedContent.http?.status_code ?? null,
       success: true,
       title: scrapedContent.title
     });
     
   } catch (error) {
+    // A redirect hop that robots.txt disallows
+    if (isBlockedByRobotsError(error)) {
+      return NextResponse.json(
+        {
+          error: 'URL is disallowed by robots.txt',
+          message: (error as Error).message,
+          blocked_by_robots: true,
+          success: false
+        },
+        { status: 403 }
+      );
+    }
+
     console.error('Scraping error:', error);
     
     const errorMessage = error instanceof Error ? error.message : 'Unknown error occurred';
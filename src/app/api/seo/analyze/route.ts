@@ -1,23 +1,52 @@
 import { NextRequest, NextResponse } from 'next/server';
 import { z } from 'zod';
-import { scrapeWebsite } from '@/lib/scraper';
+import { scrapeWebsite, getHttpErrorMessage, isBlockedByRobotsError, type ScrapedContent } from '@/lib/scraper';
+import { draftContentSchema, parseDraft } from '@/lib/draft-content';
+import { checkUrlSafety } from '@/lib/url-safety';
 import { performSEOAnalysis } from '@/lib/seo-analyzer';
 import { calculateSEOScore, getScoreInterpretation, getTopRecommendations, getCategoryInsights } from '@/lib/seo-scoring';
 
 const analyzeRequestSchema = z.object({
-  url: z.string().url('Please provide a valid URL')
+  url: z.string().url('Please provide a valid URL').optional(),
+  draft: draftContentSchema.optional(),
+  target_keyword: z.string().trim().min(1).max(100).optional()
+}).refine(body => !!body.url !== !!body.draft, {
+  message: 'Provide either a url or a draft to analyze'
 });
 
 export async function POST(request: NextRequest) {
   try {
     const body = await request.json();
-    const { url } = analyzeRequestSchema.parse(body);
+    const { url, draft, target_keyword } = analyzeRequestSchema.parse(body);
 
-    // Scrape the website and extract SEO data
-    const scrapedData = await scrapeWebsite(url);
+    let scrapedData: ScrapedContent;
+    if (draft) {
+      // Unpublished content is parsed as if served at its intended URL
+      scrapedData = parseDraft(draft);
+    } else {
+      const unsafeUrl = await checkUrlSafety(url!);
+      if (unsafeUrl) {
+        return NextResponse.json(
+          { success: false, error: unsafeUrl },
+          { status: 400 }
+        );
+      }
+
+      // Scrape the website and extract SEO data
+      scrapedData = await scrapeWebsite(url!);
+
+      // An error page would be scored as if it were the page itself
+      const httpError = getHttpErrorMessage(scrapedData);
+      if (httpError) {
+        return NextResponse.json(
+          { success: false, error: httpError, http_status: scrapedData.http?.status_code },
+          { status: 422 }
+        );
+      }
+    }
     
     // Perform comprehensive SEO analysis
-    const analysis = performSEOAnalysis(scrapedData);
+    const analysis = performSEOAnalysis(scrapedData, target_keyword);
     
     // Calculate SEO score
     const score = calculateSEOScore(analysis);
@@ -29,12 +58,15 @@ export async function POST(request: NextRequest) {
 
     return NextResponse.json({
       success: true,
-      url,
+      url: url || scrapedData.url,
+      source: draft ? 'draft' : 'url',
+      http_status: scrapedData.http?.status_code ?? null,
       analysis,
       score,
       interpretation,
       top_recommendations: topRecommendations,
       category_insights: categoryInsights,
+      content_quality: scrapedData.content_quality,
       scraped_data: {
         title: scrapedData.title,
         meta_tags_count: scrapedData.meta_tags.length,
@@ -42,10 +74,22 @@ export async function POST(request: NextRequest) {
         links_count: scrapedData.links.length,
         images_count: scrapedData.images.length,
         content_length: scrapedData.content.length,
-        has_schema: scrapedData.seo_data.schema_markup.length > 0
+        has_schema: analysis.technical.has_schema
       }
     });
   } catch (error) {
+    if (isBlockedByRobotsError(error)) {
+      return NextResponse.json(
+        {
+          success: false,
+          error: 'URL is disallowed by robots.txt',
+          message: (error as Error).message,
+          blocked_by_robots: true
+        },
+        { status: 403 }
+      );
+    }
+
     console.error('SEO analysis error:', error);
     
     if (error instanceof z.ZodError) {
@@ -1,6 +1,7 @@
 import { NextRequest, NextResponse } from 'next/server';
 import { z } from 'zod';
-import { scrapeWebsite } from '@/lib/scraper';
+import { scrapeWebsite, getHttpErrorMessage, isBlockedByRobotsError } from '@/lib/scraper';
+import { checkUrlSafety } from '@/lib/url-safety';
 import { performSEOAnalysis, compareSEOAnalysis } from '@/lib/seo-analyzer';
 import { calculateSEOScore } from '@/lib/seo-scoring';
 
@@ -14,11 +15,33 @@ export async function POST(request: NextRequest) {
     const body = await request.json();
     const { url1, url2 } = compareRequestSchema.parse(body);
 
+    const unsafeUrl = (await checkUrlSafety(url1)) || (await checkUrlSafety(url2));
+    if (unsafeUrl) {
+      return NextResponse.json(
+        { success: false, error: unsafeUrl },
+        { status: 400 }
+      );
+    }
+
     // Scrape both websites in parallel
     const [scrapedData1, scrapedData2] = await Promise.all([
       scrapeWebsite(url1),
       scrapeWebsite(url2)
     ]);
+
+    // An error page would be scored as if it were the page itself
+    const httpError = getHttpErrorMessage(scrapedData1) || getHttpErrorMessage(scrapedData2);
+    if (httpError) {
+      return NextResponse.json(
+        {
+          success: false,
+          error: httpError,
+          url1_http_status: scrapedData1.http?.status_code,
+          url2_http_status: scrapedData2.http?.status_code
+        },
+        { status: 422 }
+      );
+    }
     
     // Perform SEO analysis for both sites
     const [analysis1, analysis2] = [
@@ -114,15 +137,29 @@ export async function POST(request: NextRequest) {
       },
       detailed_comparison: comparison,
       url1_analysis: {
+        http_status: scrapedData1.http?.status_code ?? null,
         score: score1,
         analysis: analysis1
       },
       url2_analysis: {
+        http_status: scrapedData2.http?.status_code ?? null,
         score: score2,
         analysis: analysis2
       }
     });
   } catch (error) {
+    if (isBlockedByRobotsError(error)) {
+      return NextResponse.json(
+        {
+          success: false,
+          error: 'URL is disallowed by robots.txt',
+          message: (error as Error).message,
+          blocked_by_robots: true
+        },
+        { status: 403 }
+      );
+    }
+
     console.error('SEO comparison error:', error);
     
     if (error instanceof z.ZodError) {
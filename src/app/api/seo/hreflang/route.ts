@@ -0,0 +1,34 @@
+import { NextResponse } from 'next/server';
+import { isDatabaseConfigured } from '@/lib/db';
+import { getHreflangCorpus } from '@/lib/vector-store';
+import { analyzeHreflang } from '@/lib/hreflang-analyzer';
+
+export async function GET() {
+  try {
+    if (!isDatabaseConfigured()) {
+      return NextResponse.json(
+        { success: false, error: 'Database not configured' },
+        { status: 500 }
+      );
+    }
+
+    // Validate hreflang annotations across every stored page
+    const corpus = await getHreflangCorpus();
+    const report = analyzeHreflang(corpus);
+
+    return NextResponse.json({
+      success: true,
+      report
+    });
+  } catch (error) {
+    console.error('Hreflang audit error:', error);
+
+    return NextResponse.json(
+      {
+        success: false,
+        error: error instanceof Error ? error.message : 'Failed to audit hreflang'
+      },
+      { status: 500 }
+    );
+  }
+}
@@ -1,14 +1,20 @@
 import { NextRequest, NextResponse } from 'next/server';
 import { z } from 'zod';
-import { scrapeWebsite } from '@/lib/scraper';
-import { analyzeKeywordDensity } from '@/lib/seo-analyzer';
+import { scrapeWebsite, getHttpErrorMessage, isBlockedByRobotsError, type ScrapedContent } from '@/lib/scraper';
+import { draftContentSchema, parseDraft } from '@/lib/draft-content';
+import { checkUrlSafety } from '@/lib/url-safety';
+import { analyzeKeywordDensity, analyzeTargetKeyword } from '@/lib/seo-analyzer';
 
 const keywordsRequestSchema = z.object({
-  url: z.string().url('Please provide a valid URL'),
+  url: z.string().url('Please provide a valid URL').optional(),
+  draft: draftContentSchema.optional(),
+  target_keyword: z.string().trim().min(1).max(100).optional(),
   min_density: z.number().min(0).max(10).optional().default(0.5),
   max_density: z.number().min(0).max(100).optional().default(5),
   min_word_length: z.number().min(1).max(20).optional().default(3),
   limit: z.number().min(1).max(100).optional().default(20)
+}).refine(body => !!body.url !== !!body.draft, {
+  message: 'Provide either a url or a draft to analyze'
 });
 
 interface KeywordInsight {
@@ -28,10 +34,33 @@ interface KeywordPhrase {
 export async function POST(request: NextRequest) {
   try {
     const body = await request.json();
-    const { url, min_density, max_density, min_word_length, limit } = keywordsRequestSchema.parse(body);
+    const { url, draft, target_keyword, min_density, max_density, min_word_length, limit } = keywordsRequestSchema.parse(body);
 
-    // Scrape the website
-    const scrapedData = await scrapeWebsite(url);
+    let scrapedData: ScrapedContent;
+    if (draft) {
+      // Unpublished content is parsed as if served at its intended URL
+      scrapedData = parseDraft(draft);
+    } else {
+      const unsafeUrl = await checkUrlSafety(url!);
+      if (unsafeUrl) {
+        return NextResponse.json(
+          { success: false, error: unsafeUrl },
+          { status: 400 }
+        );
+      }
+
+      // Scrape the website
+      scrapedData = await scrapeWebsite(url!);
+
+      // An error page would be scored as if it were the page itself
+      const httpError = getHttpErrorMessage(scrapedData);
+      if (httpError) {
+        return NextResponse.json(
+          { success: false, error: httpError, http_status: scrapedData.http?.status_code },
+          { status: 422 }
+        );
+      }
+    }
     
     // Analyze keyword density
     const keywordAnalysis = analyzeKeywordDensity(scrapedData.content);
@@ -100,8 +129,11 @@ export async function POST(request: NextRequest) {
 
     return NextResponse.json({
       success: true,
-      url,
+      url: url || scrapedData.url,
+      source: draft ? 'draft' : 'url',
+      http_status: scrapedData.http?.status_code ?? null,
       primary_keyword: keywordAnalysis.primary_keyword,
+      target_keyword: target_keyword ? analyzeTargetKeyword(scrapedData, target_keyword) : undefined,
       keyword_insights: keywordInsights,
       phrases: phrases.slice(0, 10),
       title_analysis: {
@@ -124,6 +156,18 @@ export async function POST(request: NextRequest) {
       }
     });
   } catch (error) {
+    if (isBlockedByRobotsError(error)) {
+      return NextResponse.json(
+        {
+          success: false,
+          error: 'URL is disallowed by robots.txt',
+          message: (error as Error).message,
+          blocked_by_robots: true
+        },
+        { status: 403 }
+      );
+    }
+
     console.error('Keyword analysis error:', error);
     
     if (error instanceof z.ZodError) {
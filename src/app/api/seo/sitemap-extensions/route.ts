@@ -0,0 +1,34 @@
+import { NextResponse } from 'next/server';
+import { isDatabaseConfigured } from '@/lib/db';
+import { getSitemapExtensionCorpus } from '@/lib/vector-store';
+import { analyzeSitemapExtensions } from '@/lib/sitemap-extension-analyzer';
+
+export async function GET() {
+  try {
+    if (!isDatabaseConfigured()) {
+      return NextResponse.json(
+        { success: false, error: 'Database not configured' },
+        { status: 500 }
+      );
+    }
+
+    // Cross-check stored sitemap extension entries against the pages they describe
+    const corpus = await getSitemapExtensionCorpus();
+    const report = analyzeSitemapExtensions(corpus);
+
+    return NextResponse.json({
+      success: true,
+      report
+    });
+  } catch (error) {
+    console.error('Sitemap extension audit error:', error);
+
+    return NextResponse.json(
+      {
+        success: false,
+        error: error instanceof Error ? error.message : 'Failed to audit sitemap extensions'
+      },
+      { status: 500 }
+    );
+  }
+}
@@ -1,13 +1,19 @@
 import { NextRequest, NextResponse } from 'next/server';
 import { z } from 'zod';
-import { scrapeWebsite } from '@/lib/scraper';
+import { scrapeWebsite, getHttpErrorMessage, isBlockedByRobotsError, type ScrapedContent } from '@/lib/scraper';
+import { draftContentSchema, parseDraft } from '@/lib/draft-content';
+import { checkUrlSafety } from '@/lib/url-safety';
 import { performSEOAnalysis, generateSEOSuggestions } from '@/lib/seo-analyzer';
 import { calculateSEOScore, getTopRecommendations, getCategoryInsights } from '@/lib/seo-scoring';
 
 const suggestionsRequestSchema = z.object({
-  url: z.string().url('Please provide a valid URL'),
+  url: z.string().url('Please provide a valid URL').optional(),
+  draft: draftContentSchema.optional(),
+  target_keyword: z.string().trim().min(1).max(100).optional(),
   priority: z.enum(['all', 'high', 'critical']).optional().default('all'),
   category: z.enum(['all', 'content', 'technical', 'meta', 'structure', 'links', 'images']).optional().default('all')
+}).refine(body => !!body.url !== !!body.draft, {
+  message: 'Provide either a url or a draft to analyze'
 });
 
 interface DetailedSuggestion {
@@ -23,13 +29,36 @@ interface DetailedSuggestion {
 export async function POST(request: NextRequest) {
   try {
     const body = await request.json();
-    const { url, priority, category } = suggestionsRequestSchema.parse(body);
+    const { url, draft, target_keyword, priority, category } = suggestionsRequestSchema.parse(body);
 
-    // Scrape the website and extract SEO data
-    const scrapedData = await scrapeWebsite(url);
+    let scrapedData: ScrapedContent;
+    if (draft) {
+      // Unpublished content is parsed as if served at its intended URL
+      scrapedData = parseDraft(draft);
+    } else {
+      const unsafeUrl = await checkUrlSafety(url!);
+      if (unsafeUrl) {
+        return NextResponse.json(
+          { success: false, error: unsafeUrl },
+          { status: 400 }
+        );
+      }
+
+      // Scrape the website and extract SEO data
+      scrapedData = await scrapeWebsite(url!);
+
+      // An error page would be scored as if it were the page itself
+      const httpError = getHttpErrorMessage(scrapedData);
+      if (httpError) {
+        return NextResponse.json(
+          { success: false, error: httpError, http_status: scrapedData.http?.status_code },
+          { status: 422 }
+        );
+      }
+    }
     
     // Perform comprehensive SEO analysis
-    const analysis = performSEOAnalysis(scrapedData);
+    const analysis = performSEOAnalysis(scrapedData, target_keyword);
     
     // Calculate SEO score
     const score = calculateSEOScore(analysis);
@@ -286,7 +315,9 @@ export async function POST(request: NextRequest) {
 
     return NextResponse.json({
       success: true,
-      url,
+      url: url || scrapedData.url,
+      source: draft ? 'draft' : 'url',
+      http_status: scrapedData.http?.status_code ?? null,
       current_score: score.overall_score,
       grade: score.grade,
       filters_applied: { priority, category },
@@ -305,6 +336,18 @@ export async function POST(request: NextRequest) {
       }
     });
   } catch (error) {
+    if (isBlockedByRobotsError(error)) {
+      return NextResponse.json(
+        {
+          success: false,
+          error: 'URL is disallowed by robots.txt',
+          message: (error as Error).message,
+          blocked_by_robots: true
+        },
+        { status: 403 }
+      );
+    }
+
     console.error('SEO suggestions error:', error);
     
     if (error instanceof z.ZodError) {
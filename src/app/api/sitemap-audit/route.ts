@@ -0,0 +1,38 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { isDatabaseConfigured } from '@/lib/db';
+import { runSitemapAudit } from '@/lib/sitemap-audit';
+
+// GET /api/sitemap-audit?sitemap=https://example.com/sitemap.xml compares the sitemap with
+// the stored pages. Repeat sitemap= for several; omit it to audit the stored sitemap entries.
+export async function GET(request: NextRequest) {
+  try {
+    if (!isDatabaseConfigured()) {
+      return NextResponse.json(
+        { success: false, error: 'Database not configured' },
+        { status: 500 }
+      );
+    }
+
+    const sitemapUrls = new URL(request.url).searchParams
+      .getAll('sitemap')
+      .map(url => url.trim())
+      .filter(url => url.length > 0);
+
+    const report = await runSitemapAudit(sitemapUrls);
+
+    return NextResponse.json({
+      success: true,
+      report
+    });
+  } catch (error) {
+    console.error('Sitemap audit error:', error);
+
+    return NextResponse.json(
+      {
+        success: false,
+        error: error instanceof Error ? error.message : 'Failed to audit sitemap'
+      },
+      { status: 500 }
+    );
+  }
+}
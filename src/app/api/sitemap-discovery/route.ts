@@ -0,0 +1,34 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { discoverSitemapsForDomain } from '@/lib/sitemap-parser';
+
+// GET /api/sitemap-discovery?domain=example.com finds a site's sitemaps from robots.txt
+// and the conventional locations, and returns each sitemap tree with URL counts.
+export async function GET(request: NextRequest) {
+  try {
+    const domain = new URL(request.url).searchParams.get('domain');
+
+    if (!domain || !domain.trim()) {
+      return NextResponse.json(
+        { success: false, error: 'domain parameter is required' },
+        { status: 400 }
+      );
+    }
+
+    const discovery = await discoverSitemapsForDomain(domain);
+
+    return NextResponse.json({
+      success: true,
+      discovery
+    });
+  } catch (error) {
+    console.error('Sitemap discovery error:', error);
+
+    return NextResponse.json(
+      {
+        success: false,
+        error: error instanceof Error ? error.message : 'Failed to discover sitemaps'
+      },
+      { status: 500 }
+    );
+  }
+}
@@ -0,0 +1,264 @@
+'use client';
+
+import { useState } from 'react';
+import { LineChart, Line, XAxis, YAxis, CartesianGrid, Tooltip, Legend, ResponsiveContainer } from 'recharts';
+import { Button } from '@/components/ui/button';
+import { Input } from '@/components/ui/input';
+import { Card, CardHeader, CardTitle, CardContent } from '@/components/ui/card';
+import { History, Search, AlertCircle, AlertTriangle, XCircle, CheckCircle } from 'lucide-react';
+import { type VersionTimeline } from '@/lib/version-history';
+
+const formatDate = (value: string) => new Date(value).toLocaleDateString();
+const formatDateTime = (value: string) => new Date(value).toLocaleString();
+
+export default function PageHistoryPage() {
+  const [url, setUrl] = useState('');
+  const [scoreDrop, setScoreDrop] = useState('10');
+  const [timeline, setTimeline] = useState<VersionTimeline | null>(null);
+  const [loading, setLoading] = useState(false);
+  const [error, setError] = useState<string>('');
+
+  const handleSubmit = async (e: React.FormEvent) => {
+    e.preventDefault();
+    if (!url.trim()) return;
+
+    setLoading(true);
+    setError('');
+
+    try {
+      const params = new URLSearchParams({ url: url.trim(), scoreDrop });
+      const response = await fetch(`/api/pages/history?${params.toString()}`);
+      const data = await response.json();
+
+      if (!response.ok || !data.success) {
+        throw new Error(data.error || 'Failed to load page history');
+      }
+
+      setTimeline(data.timeline);
+    } catch (err) {
+      console.error('Page history error:', err);
+      setError(err instanceof Error ? err.message : 'Failed to load page history');
+      setTimeline(null);
+    } finally {
+      setLoading(false);
+    }
+  };
+
+  const chartData = (timeline?.score_series || []).map(point => ({
+    ...point,
+    date: formatDate(point.fetched_at)
+  }));
+
+  return (
+    <div className="h-full bg-gray-50 overflow-y-auto">
+      <div className="max-w-6xl mx-auto p-6">
+        {/* Header */}
+        <div className="text-center mb-8">
+          <div className="flex justify-center mb-4">
+            <div className="w-16 h-16 bg-indigo-600 rounded-2xl flex items-center justify-center shadow-lg">
+              <History className="w-8 h-8 text-white" />
+            </div>
+          </div>
+          <h1 className="text-3xl font-bold text-gray-900 mb-3">Page History</h1>
+          <p className="text-lg text-gray-600 max-w-2xl mx-auto leading-relaxed">
+            See how a stored page changed over time, how its SEO score moved, and when regressions appeared.
+          </p>
+        </div>
+
+        {/* Lookup Form */}
+        <Card className="shadow-lg border-0 mb-8">
+          <CardContent className="pt-6">
+            <form onSubmit={handleSubmit} className="flex flex-col md:flex-row gap-3">
+              <Input
+                type="url"
+                value={url}
+                onChange={(e) => setUrl(e.target.value)}
+                placeholder="https://example.com/page"
+                className="flex-1"
+                required
+                disabled={loading}
+              />
+              <div className="flex items-center gap-2">
+                <label htmlFor="score-drop" className="text-sm text-gray-600 whitespace-nowrap">Score drop &gt;</label>
+                <Input
+                  id="score-drop"
+                  type="number"
+                  min={1}
+                  value={scoreDrop}
+                  onChange={(e) => setScoreDrop(e.target.value)}
+                  className="w-20"
+                  disabled={loading}
+                />
+              </div>
+              <Button type="submit" disabled={loading || !url.trim()} className="bg-indigo-600 hover:bg-indigo-700">
+                <Search className="w-4 h-4 mr-2" />
+                {loading ? 'Loading...' : 'Show History'}
+              </Button>
+            </form>
+
+            {error && (
+              <div className="mt-4 p-4 bg-red-50 border border-red-200 rounded-lg flex items-center">
+                <AlertCircle className="w-5 h-5 text-red-500 mr-2 flex-shrink-0" />
+                <span className="text-red-700">{error}</span>
+              </div>
+            )}
+          </CardContent>
+        </Card>
+
+        {timeline && timeline.version_count === 0 && (
+          <Card>
+            <CardContent className="p-6 text-center text-gray-500">
+              No versions stored for this URL yet. Scrape it to start tracking its history.
+            </CardContent>
+          </Card>
+        )}
+
+        {timeline && timeline.version_count > 0 && (
+          <div className="space-y-6">
+            {/* Overview */}
+            <div className="grid grid-cols-2 md:grid-cols-4 gap-4">
+              <div className="text-center p-4 bg-white rounded-lg shadow-sm">
+                <div className="text-2xl font-bold text-gray-900">{timeline.version_count}</div>
+                <div className="text-sm text-gray-600">Versions</div>
+              </div>
+              <div className="text-center p-4 bg-white rounded-lg shadow-sm">
+                <div className="text-2xl font-bold text-red-600">{timeline.regressions.length}</div>
+                <div className="text-sm text-gray-600">Regressions</div>
+              </div>
+              <div className="text-center p-4 bg-white rounded-lg shadow-sm">
+                <div className="text-lg font-bold text-gray-900">{timeline.first_seen ? formatDate(timeline.first_seen) : '—'}</div>
+                <div className="text-sm text-gray-600">First Seen</div>
+              </div>
+              <div className="text-center p-4 bg-white rounded-lg shadow-sm">
+                <div className="text-lg font-bold text-gray-900">{timeline.last_checked ? formatDate(timeline.last_checked) : '—'}</div>
+                <div className="text-sm text-gray-600">Last Checked</div>
+              </div>
+            </div>
+
+            {/* Score Trend */}
+            <Card>
+              <CardHeader>
+                <CardTitle>SEO Score Over Time</CardTitle>
+              </CardHeader>
+              <CardContent>
+                <div className="h-72">
+                  <ResponsiveContainer width="100%" height="100%">
+                    <LineChart data={chartData}>
+                      <CartesianGrid strokeDasharray="3 3" />
+                      <XAxis dataKey="date" />
+                      <YAxis domain={[0, 100]} />
+                      <Tooltip />
+                      <Legend />
+                      <Line type="monotone" dataKey="overall_score" name="Overall" stroke="#4f46e5" strokeWidth={2} connectNulls />
+                      <Line type="monotone" dataKey="content" name="Content" stroke="#22c55e" connectNulls />
+                      <Line type="monotone" dataKey="technical" name="Technical" stroke="#f59e0b" connectNulls />
+                      <Line type="monotone" dataKey="meta" name="Meta" stroke="#06b6d4" connectNulls />
+                      <Line type="monotone" dataKey="structure" name="Structure" stroke="#a855f7" connectNulls />
+                      <Line type="monotone" dataKey="performance" name="Performance" stroke="#ef4444" connectNulls />
+                      <Line type="monotone" dataKey="accessibility" name="Accessibility" stroke="#14b8a6" connectNulls />
+                    </LineChart>
+                  </ResponsiveContainer>
+                </div>
+              </CardContent>
+            </Card>
+
+            {/* Content Trend */}
+            <Card>
+              <CardHeader>
+                <CardTitle>Content Over Time</CardTitle>
+              </CardHeader>
+              <CardContent>
+                <div className="h-64">
+                  <ResponsiveContainer width="100%" height="100%">
+                    <LineChart data={chartData}>
+                      <CartesianGrid strokeDasharray="3 3" />
+                      <XAxis dataKey="date" />
+                      <YAxis yAxisId="words" />
+                      <YAxis yAxisId="readability" orientation="right" domain={[0, 100]} />
+                      <Tooltip />
+                      <Legend />
+                      <Line yAxisId="words" type="monotone" dataKey="word_count" name="Word Count" stroke="#0ea5e9" connectNulls />
+                      <Line yAxisId="readability" type="monotone" dataKey="readability_score" name="Readability" stroke="#f97316" connectNulls />
+                    </LineChart>
+                  </ResponsiveContainer>
+                </div>
+              </CardContent>
+            </Card>
+
+            {/* Regressions */}
+            <Card>
+              <CardHeader>
+                <CardTitle className="flex items-center">
+                  <AlertTriangle className="w-5 h-5 mr-2 text-orange-600" />
+                  Regressions
+                </CardTitle>
+              </CardHeader>
+              <CardContent>
+                {timeline.regressions.length === 0 ? (
+                  <div className="flex items-center text-sm text-green-700">
+                    <CheckCircle className="w-4 h-4 mr-2" />
+                    No regressions detected
+                  </div>
+                ) : (
+                  <div className="space-y-2">
+                    {timeline.regressions.map((regression, index) => (
+                      <div key={index} className="flex items-start p-3 border rounded-lg">
+                        {regression.severity === 'critical' ? (
+                          <XCircle className="w-4 h-4 mt-0.5 mr-3 text-red-500 flex-shrink-0" />
+                        ) : (
+                          <AlertTriangle className="w-4 h-4 mt-0.5 mr-3 text-yellow-500 flex-shrink-0" />
+                        )}
+                        <div className="min-w-0 flex-1">
+                          <div className="text-sm font-medium text-gray-900">{regression.message}</div>
+                          {(regression.before !== undefined || regression.after !== undefined) && (
+                            <div className="text-xs text-gray-500 truncate">
+                              {String(regression.before ?? 'none')} → {String(regression.after ?? 'none')}
+                            </div>
+                          )}
+                        </div>
+                        <div className="text-xs text-gray-500 ml-3 whitespace-nowrap">{formatDateTime(regression.detected_at)}</div>
+                      </div>
+                    ))}
+                  </div>
+                )}
+              </CardContent>
+            </Card>
+
+            {/* Versions */}
+            <Card>
+              <CardHeader>
+                <CardTitle>Versions</CardTitle>
+              </CardHeader>
+              <CardContent>
+                <div className="space-y-3">
+                  {timeline.versions.map(version => (
+                    <div key={version.snapshot_id} className="p-3 border rounded-lg">
+                      <div className="flex items-center justify-between">
+                        <div className="text-sm font-medium text-gray-900 truncate">{version.title || 'Untitled'}</div>
+                        <div className="text-sm font-semibold text-indigo-600 ml-3">
+                          {version.seo_score ? `${Math.round(version.seo_score.overall_score)} (${version.seo_score.grade})` : '—'}
+                        </div>
+                      </div>
+                      <div className="text-xs text-gray-500">
+                        First seen {formatDateTime(version.fetched_at)} · last checked {formatDateTime(version.last_checked_at)}
+                        {version.http_status !== null && ` · HTTP ${version.http_status}`}
+                        {version.is_noindex && ' · noindex'}
+                      </div>
+                      {version.change_summary.length > 0 && (
+                        <ul className="mt-2 text-xs text-gray-700 list-disc list-inside">
+                          {version.change_summary.map((change, index) => (
+                            <li key={index}>{change}</li>
+                          ))}
+                        </ul>
+                      )}
+                    </div>
+                  ))}
+                </div>
+              </CardContent>
+            </Card>
+          </div>
+        )}
+      </div>
+    </div>
+  );
+}
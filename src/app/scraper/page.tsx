@@ -3,12 +3,14 @@
 import { useState, useEffect } from 'react';
 import ScrapeForm from '@/components/scrape-form';
 import SitemapScrapeForm from '@/components/sitemap-scrape-form';
-import { Globe, Database, Search, ArrowRight, Link as LinkIcon, List } from 'lucide-react';
+import SiteCrawlForm from '@/components/site-crawl-form';
+import ArchiveIngestForm from '@/components/archive-ingest-form';
+import { Globe, Database, Search, ArrowRight, Link as LinkIcon, List, Network, Archive, FolderOpen } from 'lucide-react';
 import { Card, CardHeader, CardTitle, CardContent } from '@/components/ui/card';
 import Link from 'next/link';
 
 export default function ScraperPage() {
-  const [activeTab, setActiveTab] = useState<'single' | 'sitemap'>('single');
+  const [activeTab, setActiveTab] = useState<'single' | 'sitemap' | 'crawl' | 'archive'>('single');
   const [totalPages, setTotalPages] = useState<number | null>(null);
   const [loading, setLoading] = useState(true);
 
@@ -93,6 +95,28 @@ export default function ScraperPage() {
               <List className="w-4 h-4 mr-2" />
               Sitemap (Batch)
             </button>
+            <button
+              onClick={() => setActiveTab('crawl')}
+              className={`flex-1 flex items-center justify-center py-2 px-4 rounded-md text-sm font-medium transition-colors ${
+                activeTab === 'crawl'
+                  ? 'bg-white text-green-600 shadow-sm'
+                  : 'text-gray-600 hover:text-gray-900'
+              }`}
+            >
+              <Network className="w-4 h-4 mr-2" />
+              Crawl Site
+            </button>
+            <button
+              onClick={() => setActiveTab('archive')}
+              className={`flex-1 flex items-center justify-center py-2 px-4 rounded-md text-sm font-medium transition-colors ${
+                activeTab === 'archive'
+                  ? 'bg-white text-orange-600 shadow-sm'
+                  : 'text-gray-600 hover:text-gray-900'
+              }`}
+            >
+              <Archive className="w-4 h-4 mr-2" />
+              Files &amp; Archives
+            </button>
           </div>
         </div>
 
@@ -101,17 +125,21 @@ export default function ScraperPage() {
           <Card className="shadow-lg border-0">
             <CardHeader className="pb-4">
               <CardTitle className="text-xl text-gray-800">
-                {activeTab === 'single' ? 'Add Single Website' : 'Process Sitemap (English Only)'}
+                {activeTab === 'single' ? 'Add Single Website' : activeTab === 'sitemap' ? 'Process Sitemap' : activeTab === 'crawl' ? 'Crawl Site' : 'Ingest Files & Archives'}
               </CardTitle>
               <p className="text-sm text-gray-600 mt-1">
                 {activeTab === 'single' 
                   ? 'Scrape content from a single webpage URL'
-                  : 'Automatically process multiple pages from a sitemap, filtering for English content only'
+                  : activeTab === 'sitemap'
+                    ? 'Automatically process multiple pages from a sitemap, filtered by locale'
+                    : activeTab === 'crawl'
+                      ? 'Follow internal links from seed URLs to find pages no sitemap lists'
+                      : 'Import saved HTML pages, site folders and WARC/WACZ archives under their original URLs'
                 }
               </p>
             </CardHeader>
             <CardContent>
-              {activeTab === 'single' ? <ScrapeForm /> : <SitemapScrapeForm />}
+              {activeTab === 'single' ? <ScrapeForm /> : activeTab === 'sitemap' ? <SitemapScrapeForm /> : activeTab === 'crawl' ? <SiteCrawlForm /> : <ArchiveIngestForm />}
             </CardContent>
           </Card>
         </div>
@@ -152,7 +180,7 @@ export default function ScraperPage() {
                 </p>
               </div>
             </div>
-          ) : (
+          ) : activeTab === 'sitemap' ? (
             <div className="grid grid-cols-1 md:grid-cols-4 gap-6">
               <div className="text-center">
                 <div className="w-12 h-12 bg-purple-100 rounded-xl flex items-center justify-center mx-auto mb-4">
@@ -160,7 +188,7 @@ export default function ScraperPage() {
                 </div>
                 <h3 className="font-semibold text-gray-800 mb-2">1. Parse Sitemap</h3>
                 <p className="text-sm text-gray-600">
-                  Automatically discover all URLs in the sitemap and filter for English-only content
+                  Automatically discover all URLs in the sitemap and keep the locales you choose
                 </p>
               </div>
               
@@ -194,6 +222,70 @@ export default function ScraperPage() {
                 </p>
               </div>
             </div>
+          ) : activeTab === 'crawl' ? (
+            <div className="grid grid-cols-1 md:grid-cols-3 gap-6">
+              <div className="text-center">
+                <div className="w-12 h-12 bg-green-100 rounded-xl flex items-center justify-center mx-auto mb-4">
+                  <Network className="w-6 h-6 text-green-600" />
+                </div>
+                <h3 className="font-semibold text-gray-800 mb-2">1. Follow Links</h3>
+                <p className="text-sm text-gray-600">
+                  Start from seed URLs and follow internal links level by level, within your depth and page limits
+                </p>
+              </div>
+              
+              <div className="text-center">
+                <div className="w-12 h-12 bg-blue-100 rounded-xl flex items-center justify-center mx-auto mb-4">
+                  <List className="w-6 h-6 text-blue-600" />
+                </div>
+                <h3 className="font-semibold text-gray-800 mb-2">2. De-duplicate</h3>
+                <p className="text-sm text-gray-600">
+                  Normalize query strings and skip redirect targets and canonical variants already crawled
+                </p>
+              </div>
+              
+              <div className="text-center">
+                <div className="w-12 h-12 bg-purple-100 rounded-xl flex items-center justify-center mx-auto mb-4">
+                  <Database className="w-6 h-6 text-purple-600" />
+                </div>
+                <h3 className="font-semibold text-gray-800 mb-2">3. Store with Click Depth</h3>
+                <p className="text-sm text-gray-600">
+                  Store each page with its click depth from the seeds to spot deep and unlisted pages
+                </p>
+              </div>
+            </div>
+          ) : (
+            <div className="grid grid-cols-1 md:grid-cols-3 gap-6">
+              <div className="text-center">
+                <div className="w-12 h-12 bg-orange-100 rounded-xl flex items-center justify-center mx-auto mb-4">
+                  <FolderOpen className="w-6 h-6 text-orange-600" />
+                </div>
+                <h3 className="font-semibold text-gray-800 mb-2">1. Read Files</h3>
+                <p className="text-sm text-gray-600">
+                  Read saved HTML pages, whole site folders, and the HTML captures inside WARC and WACZ archives
+                </p>
+              </div>
+              
+              <div className="text-center">
+                <div className="w-12 h-12 bg-blue-100 rounded-xl flex items-center justify-center mx-auto mb-4">
+                  <LinkIcon className="w-6 h-6 text-blue-600" />
+                </div>
+                <h3 className="font-semibold text-gray-800 mb-2">2. Recover URLs</h3>
+                <p className="text-sm text-gray-600">
+                  Map each page back to its original URL from the archive record, the site URL, or its canonical link
+                </p>
+              </div>
+              
+              <div className="text-center">
+                <div className="w-12 h-12 bg-purple-100 rounded-xl flex items-center justify-center mx-auto mb-4">
+                  <Database className="w-6 h-6 text-purple-600" />
+                </div>
+                <h3 className="font-semibold text-gray-800 mb-2">3. Store Offline</h3>
+                <p className="text-sm text-gray-600">
+                  Parse, chunk and embed pages like live scrapes, without fetching anything from the site
+                </p>
+              </div>
+            </div>
           )}
         </div>
 
@@ -1,20 +1,25 @@
 'use client';
 
 import SEODashboard from '@/components/seo/seo-dashboard';
+import DraftInsights from '@/components/seo/draft-insights';
 import { Button } from '@/components/ui/button';
 import { Input } from '@/components/ui/input';
 import { Card, CardHeader, CardTitle, CardContent } from '@/components/ui/card';
-import { BarChart3, Search, TrendingUp, AlertCircle } from 'lucide-react';
+import { BarChart3, Search, TrendingUp, AlertCircle, Globe, FileEdit } from 'lucide-react';
 import { useState } from 'react';
 import { SEOAnalysis } from '@/lib/seo-analyzer';
 import { SEOScore } from '@/lib/seo-scoring';
 import Link from 'next/link';
-import { Heading, LinkData, ImageData } from '@/lib/scraper';
+import { Heading, LinkData, ImageData, ContentQualityMetrics } from '@/lib/scraper';
+
+type DraftFormat = 'html' | 'markdown' | 'fields';
 
 interface DashboardData {
   url: string;
+  source: 'url' | 'draft';
   analysis: SEOAnalysis;
   score: SEOScore;
+  contentQuality?: ContentQualityMetrics;
   rawData?: {
     title?: string;
     metaDescription?: string;
@@ -29,8 +34,23 @@ interface DashboardData {
   };
 }
 
+const DRAFT_PLACEHOLDERS: { [format in DraftFormat]: string } = {
+  html: '<h1>Your headline</h1>\n<p>Paste the article HTML, or a full page with its <head>...</p>',
+  markdown: '---\ntitle: Your page title\ndescription: Your meta description\n---\n\n# Your headline\n\nWrite or paste your Markdown draft...',
+  fields: 'Body copy as plain text or Markdown. Separate paragraphs with a blank line.'
+};
+
+const textareaClassName = 'w-full px-3 py-2 text-sm bg-white border border-gray-300 rounded-lg shadow-sm placeholder:text-gray-400 focus:outline-none focus:ring-2 focus:border-blue-500 focus:ring-blue-500 font-mono disabled:opacity-50';
+
 export default function SEOAnalysisPage() {
+  const [mode, setMode] = useState<'url' | 'draft'>('url');
   const [url, setUrl] = useState('');
+  const [draftFormat, setDraftFormat] = useState<DraftFormat>('markdown');
+  const [draftContent, setDraftContent] = useState('');
+  const [draftTitle, setDraftTitle] = useState('');
+  const [draftMetaDescription, setDraftMetaDescription] = useState('');
+  const [draftUrl, setDraftUrl] = useState('');
+  const [targetKeyword, setTargetKeyword] = useState('');
   const [dashboardData, setDashboardData] = useState<DashboardData | null>(null);
   const [isAnalyzing, setIsAnalyzing] = useState(false);
   const [error, setError] = useState<string>('');
@@ -57,6 +77,7 @@ export default function SEOAnalysisPage() {
       const data = await response.json();
       setDashboardData({
         url: analysisUrl,
+        source: 'url',
         analysis: data.analysis,
         score: data.score,
         rawData: data.rawData
@@ -69,11 +90,68 @@ export default function SEOAnalysisPage() {
     }
   };
 
+  // Drafts are sent as-is; title and description fields override the document's own
+  const handleDraftAnalysis = async () => {
+    if (!draftContent.trim() && !draftTitle.trim()) return;
+
+    setIsAnalyzing(true);
+    setError('');
+
+    try {
+      const response = await fetch('/api/seo/analyze', {
+        method: 'POST',
+        headers: {
+          'Content-Type': 'application/json',
+        },
+        body: JSON.stringify({
+          draft: {
+            format: draftFormat,
+            html: draftFormat === 'html' ? draftContent : undefined,
+            markdown: draftFormat === 'markdown' ? draftContent : undefined,
+            body: draftFormat === 'fields' ? draftContent : undefined,
+            title: draftTitle.trim() || undefined,
+            meta_description: draftMetaDescription.trim() || undefined,
+            url: draftUrl.trim() || undefined
+          },
+          target_keyword: targetKeyword.trim() || undefined
+        }),
+      });
+
+      const data = await response.json();
+
+      if (!response.ok || !data.success) {
+        throw new Error(data.details || data.error || 'Failed to analyze draft');
+      }
+
+      setDashboardData({
+        url: data.url,
+        source: 'draft',
+        analysis: data.analysis,
+        score: data.score,
+        contentQuality: data.content_quality,
+        rawData: data.rawData
+      });
+    } catch (err) {
+      console.error('Draft analysis error:', err);
+      setError(err instanceof Error ? err.message : 'Failed to analyze draft');
+    } finally {
+      setIsAnalyzing(false);
+    }
+  };
+
   const handleSubmit = (e: React.FormEvent) => {
     e.preventDefault();
-    handleSEOAnalysis();
+    if (mode === 'draft') {
+      handleDraftAnalysis();
+    } else {
+      handleSEOAnalysis();
+    }
   };
 
+  const canSubmit = mode === 'url'
+    ? !!url.trim()
+    : !!draftContent.trim();
+
   if (dashboardData) {
     return (
       <div className="h-full bg-gray-50 overflow-y-auto">
@@ -85,9 +163,19 @@ export default function SEOAnalysisPage() {
               onClick={() => setDashboardData(null)}
               className="mb-4"
             >
-              ← Back to Analysis
+              ← {dashboardData.source === 'draft' ? 'Back to Draft' : 'Back to Analysis'}
             </Button>
           </div>
+
+          {/* Draft keyword and content checks */}
+          {dashboardData.source === 'draft' && (
+            <div className="mb-6">
+              <DraftInsights
+                targetKeyword={dashboardData.analysis.target_keyword}
+                contentQuality={dashboardData.contentQuality}
+              />
+            </div>
+          )}
           
           {/* SEO Dashboard */}
           <SEODashboard
@@ -95,7 +183,7 @@ export default function SEOAnalysisPage() {
             analysis={dashboardData.analysis}
             score={dashboardData.score}
             rawData={dashboardData.rawData}
-            onRefresh={() => handleSEOAnalysis(dashboardData.url)}
+            onRefresh={() => dashboardData.source === 'draft' ? handleDraftAnalysis() : handleSEOAnalysis(dashboardData.url)}
             loading={isAnalyzing}
           />
         </div>
@@ -115,8 +203,8 @@ export default function SEOAnalysisPage() {
           </div>
           <h1 className="text-3xl font-bold text-gray-900 mb-3">SEO Analysis</h1>
           <p className="text-lg text-gray-600 max-w-2xl mx-auto leading-relaxed">
-            Get comprehensive SEO analysis for any website. Analyze page performance, 
-            discover optimization opportunities, and get actionable recommendations.
+            Get comprehensive SEO analysis for any website, or check a draft before it&apos;s published.
+            Discover optimization opportunities and get actionable recommendations.
           </p>
         </div>
 
@@ -126,25 +214,116 @@ export default function SEOAnalysisPage() {
             <CardHeader className="pb-4">
               <CardTitle className="text-xl text-gray-800 flex items-center">
                 <Search className="w-6 h-6 mr-2 text-green-600" />
-                Analyze Website
+                {mode === 'url' ? 'Analyze Website' : 'Analyze Draft'}
               </CardTitle>
             </CardHeader>
             <CardContent>
+              <div className="flex space-x-1 p-1 bg-gray-100 rounded-lg mb-4">
+                <button
+                  type="button"
+                  onClick={() => setMode('url')}
+                  className={`flex-1 flex items-center justify-center py-2 px-4 rounded-md text-sm font-medium transition-colors ${
+                    mode === 'url' ? 'bg-white text-green-600 shadow-sm' : 'text-gray-600 hover:text-gray-900'
+                  }`}
+                >
+                  <Globe className="w-4 h-4 mr-2" />
+                  Live URL
+                </button>
+                <button
+                  type="button"
+                  onClick={() => setMode('draft')}
+                  className={`flex-1 flex items-center justify-center py-2 px-4 rounded-md text-sm font-medium transition-colors ${
+                    mode === 'draft' ? 'bg-white text-green-600 shadow-sm' : 'text-gray-600 hover:text-gray-900'
+                  }`}
+                >
+                  <FileEdit className="w-4 h-4 mr-2" />
+                  Unpublished Draft
+                </button>
+              </div>
+
               <form onSubmit={handleSubmit} className="space-y-4">
-                <div>
-                  <Input
-                    type="url"
-                    value={url}
-                    onChange={(e) => setUrl(e.target.value)}
-                    placeholder="https://example.com/page-to-analyze"
-                    className="text-lg py-3"
-                    required
-                    disabled={isAnalyzing}
-                  />
-                </div>
+                {mode === 'url' ? (
+                  <div>
+                    <Input
+                      type="url"
+                      value={url}
+                      onChange={(e) => setUrl(e.target.value)}
+                      placeholder="https://example.com/page-to-analyze"
+                      className="text-lg py-3"
+                      required
+                      disabled={isAnalyzing}
+                    />
+                  </div>
+                ) : (
+                  <div className="space-y-4">
+                    <div className="flex space-x-2">
+                      {(['markdown', 'html', 'fields'] as DraftFormat[]).map(format => (
+                        <button
+                          key={format}
+                          type="button"
+                          onClick={() => setDraftFormat(format)}
+                          className={`px-3 py-1 rounded-full text-sm border transition-colors ${
+                            draftFormat === format
+                              ? 'bg-green-600 text-white border-green-600'
+                              : 'bg-white text-gray-600 border-gray-300 hover:border-gray-400'
+                          }`}
+                        >
+                          {format === 'markdown' ? 'Markdown' : format === 'html' ? 'HTML' : 'Title / Meta / Body'}
+                        </button>
+                      ))}
+                    </div>
+
+                    <div className="grid grid-cols-1 md:grid-cols-2 gap-4">
+                      <Input
+                        value={draftTitle}
+                        onChange={(e) => setDraftTitle(e.target.value)}
+                        placeholder={draftFormat === 'fields' ? 'Page title' : 'Page title (overrides the draft\'s own)'}
+                        disabled={isAnalyzing}
+                      />
+                      <Input
+                        value={targetKeyword}
+                        onChange={(e) => setTargetKeyword(e.target.value)}
+                        placeholder="Target keyword (optional)"
+                        disabled={isAnalyzing}
+                      />
+                    </div>
+
+                    <textarea
+                      value={draftMetaDescription}
+                      onChange={(e) => setDraftMetaDescription(e.target.value)}
+                      placeholder={draftFormat === 'fields' ? 'Meta description' : 'Meta description (overrides the draft\'s own)'}
+                      rows={2}
+                      className={textareaClassName}
+                      disabled={isAnalyzing}
+                    />
+
+                    <textarea
+                      value={draftContent}
+                      onChange={(e) => setDraftContent(e.target.value)}
+                      placeholder={DRAFT_PLACEHOLDERS[draftFormat]}
+                      rows={14}
+                      className={textareaClassName}
+                      disabled={isAnalyzing}
+                    />
+
+                    <div>
+                      <Input
+                        type="url"
+                        value={draftUrl}
+                        onChange={(e) => setDraftUrl(e.target.value)}
+                        placeholder="Planned URL, e.g. https://example.com/blog/new-post (optional)"
+                        disabled={isAnalyzing}
+                      />
+                      <p className="text-xs text-gray-500 mt-1">
+                        Used to tell internal from external links and to check the URL slug. Technical checks
+                        (canonical, Open Graph, schema) only reflect what the draft itself contains.
+                      </p>
+                    </div>
+                  </div>
+                )}
                 <Button
                   type="submit"
-                  disabled={isAnalyzing || !url.trim()}
+                  disabled={isAnalyzing || !canSubmit}
                   className="w-full py-3 text-lg bg-green-600 hover:bg-green-700"
                   size="lg"
                 >
@@ -156,7 +335,7 @@ export default function SEOAnalysisPage() {
                   ) : (
                     <>
                       <BarChart3 className="w-5 h-5 mr-2" />
-                      Analyze SEO Performance
+                      {mode === 'url' ? 'Analyze SEO Performance' : 'Analyze Draft'}
                     </>
                   )}
                 </Button>
@@ -0,0 +1,282 @@
+'use client';
+
+import { useState } from 'react';
+import { Archive, CheckCircle, XCircle, AlertCircle } from 'lucide-react';
+
+interface ArchiveIngestResult {
+  url: string;
+  source_path: string;
+  success: boolean;
+  document_id?: number;
+  chunks_created?: number;
+  unchanged?: boolean;
+  title?: string;
+  locale?: string;
+  excluded_by_locale?: boolean;
+  error?: string;
+}
+
+interface ArchiveIngestResponse {
+  pages_found: number;
+  pages_processed: number;
+  stored: number;
+  failed: number;
+  skipped: number;
+  not_processed: number;
+  results: ArchiveIngestResult[];
+  read_errors: { path: string; error: string }[];
+}
+
+// Folder pickers report "<folder>/<path>"; the folder itself isn't part of the site's paths
+const pathWithinFolder = (file: File) => {
+  const relativePath = (file as File & { webkitRelativePath?: string }).webkitRelativePath;
+  return relativePath ? relativePath.split('/').slice(1).join('/') : file.name;
+};
+
+export default function ArchiveIngestForm() {
+  const [files, setFiles] = useState<File[]>([]);
+  const [baseUrl, setBaseUrl] = useState('');
+  const [maxPages, setMaxPages] = useState(100);
+  const [loading, setLoading] = useState(false);
+  const [result, setResult] = useState<ArchiveIngestResponse | null>(null);
+  const [error, setError] = useState<string>('');
+
+  const handleSubmit = async (e: React.FormEvent) => {
+    e.preventDefault();
+    if (files.length === 0) return;
+
+    setLoading(true);
+    setError('');
+    setResult(null);
+
+    try {
+      const form = new FormData();
+      files.forEach(file => form.append('files', file, pathWithinFolder(file)));
+      if (baseUrl.trim()) form.append('base_url', baseUrl.trim());
+      form.append('max_pages', String(maxPages));
+
+      const response = await fetch('/api/ingest-archive', {
+        method: 'POST',
+        body: form
+      });
+
+      const data = await response.json();
+
+      if (!response.ok || !data.success) {
+        throw new Error(data.error || 'Failed to ingest files');
+      }
+
+      setResult(data);
+    } catch (err) {
+      setError(err instanceof Error ? err.message : 'An error occurred while ingesting files');
+    } finally {
+      setLoading(false);
+    }
+  };
+
+  const inputClassName = 'w-full p-3 border border-gray-300 rounded-lg focus:ring-2 focus:ring-blue-500 focus:border-transparent outline-none';
+
+  return (
+    <div className="space-y-6">
+      <form onSubmit={handleSubmit} className="space-y-4">
+        <div className="grid grid-cols-1 md:grid-cols-2 gap-4">
+          <div>
+            <label htmlFor="archive-files" className="block text-sm font-medium text-gray-700 mb-2">
+              HTML files or web archives
+            </label>
+            <input
+              id="archive-files"
+              type="file"
+              multiple
+              accept=".html,.htm,.xhtml,.warc,.gz,.wacz"
+              onChange={(e) => setFiles(Array.from(e.target.files || []))}
+              className="w-full text-sm text-gray-700"
+              disabled={loading}
+            />
+          </div>
+
+          <div>
+            <label htmlFor="archive-folder" className="block text-sm font-medium text-gray-700 mb-2">
+              Or a folder of saved pages
+            </label>
+            <input
+              id="archive-folder"
+              type="file"
+              multiple
+              {...{ webkitdirectory: '' }}
+              onChange={(e) => setFiles(Array.from(e.target.files || []).filter(file => /\.(x?html?|warc|warc\.gz|wacz)$/i.test(file.name)))}
+              className="w-full text-sm text-gray-700"
+              disabled={loading}
+            />
+          </div>
+        </div>
+
+        {files.length > 0 && (
+          <p className="text-xs text-gray-500">{files.length} file{files.length === 1 ? '' : 's'} selected</p>
+        )}
+
+        <div className="grid grid-cols-1 md:grid-cols-3 gap-4">
+          <div className="md:col-span-2">
+            <label htmlFor="archive-base-url" className="block text-sm font-medium text-gray-700 mb-2">
+              Original site URL (for saved HTML)
+            </label>
+            <input
+              id="archive-base-url"
+              type="url"
+              value={baseUrl}
+              onChange={(e) => setBaseUrl(e.target.value)}
+              placeholder="https://example.com/"
+              className={inputClassName}
+              disabled={loading}
+            />
+            <p className="text-xs text-gray-500 mt-1">
+              Maps file paths onto the site (about/index.html → /about/). Without it, the page&apos;s &quot;saved from&quot; marker or canonical URL is used. WARC and WACZ captures keep their recorded URLs.
+            </p>
+          </div>
+
+          <div>
+            <label htmlFor="archive-max-pages" className="block text-sm font-medium text-gray-700 mb-2">
+              Max Pages
+            </label>
+            <input
+              id="archive-max-pages"
+              type="number"
+              min="1"
+              max="1000"
+              value={maxPages}
+              onChange={(e) => setMaxPages(parseInt(e.target.value) || 100)}
+              className={inputClassName}
+              disabled={loading}
+            />
+          </div>
+        </div>
+
+        <button
+          type="submit"
+          disabled={loading || files.length === 0}
+          className="w-full p-3 bg-orange-600 hover:bg-orange-700 text-white font-medium rounded-lg disabled:opacity-50 disabled:cursor-not-allowed transition-colors"
+        >
+          {loading ? (
+            <span className="flex items-center justify-center">
+              <svg className="animate-spin -ml-1 mr-3 h-5 w-5 text-white" xmlns="http://www.w3.org/2000/svg" fill="none" viewBox="0 0 24 24">
+                <circle className="opacity-25" cx="12" cy="12" r="10" stroke="currentColor" strokeWidth="4"></circle>
+                <path className="opacity-75" fill="currentColor" d="M4 12a8 8 0 018-8V0C5.373 0 0 5.373 0 12h4zm2 5.291A7.962 7.962 0 014 12H0c0 3.042 1.135 5.824 3 7.938l3-2.647z"></path>
+              </svg>
+              Ingesting...
+            </span>
+          ) : (
+            <span className="flex items-center justify-center">
+              <Archive className="w-4 h-4 mr-2" />
+              Ingest Files
+            </span>
+          )}
+        </button>
+      </form>
+
+      {error && (
+        <div className="p-4 bg-red-50 border border-red-200 text-red-700 rounded-lg">
+          <div className="flex">
+            <XCircle className="flex-shrink-0 h-5 w-5 text-red-400 mr-2" />
+            <span>{error}</span>
+          </div>
+        </div>
+      )}
+
+      {result && (
+        <div className="space-y-4">
+          {/* Summary */}
+          <div className="p-4 bg-blue-50 border border-blue-200 text-blue-700 rounded-lg">
+            <div className="flex">
+              <CheckCircle className="flex-shrink-0 h-5 w-5 text-blue-400 mr-2" />
+              <div className="space-y-1">
+                <p className="font-medium">✅ Ingestion completed!</p>
+                <div className="text-sm space-y-1">
+                  <p>Found {result.pages_found} pages, processed {result.pages_processed}</p>
+                  {result.not_processed > 0 && <p>Not processed: {result.not_processed} pages (page limit reached)</p>}
+                  {result.skipped > 0 && <p>Skipped: {result.skipped} pages (outside the locale policy)</p>}
+                </div>
+              </div>
+            </div>
+          </div>
+
+          {/* Read Errors */}
+          {result.read_errors.length > 0 && (
+            <div className="p-4 bg-yellow-50 border border-yellow-200 text-yellow-800 rounded-lg">
+              <div className="flex">
+                <AlertCircle className="flex-shrink-0 h-5 w-5 text-yellow-500 mr-2" />
+                <div className="min-w-0 space-y-1">
+                  <p className="font-medium">{result.read_errors.length} files or records could not be read</p>
+                  <ul className="text-xs space-y-1 max-h-32 overflow-y-auto">
+                    {result.read_errors.map((readError, index) => (
+                      <li key={index} className="truncate">
+                        {readError.path}: {readError.error}
+                      </li>
+                    ))}
+                  </ul>
+                </div>
+              </div>
+            </div>
+          )}
+
+          {/* Stats */}
+          <div className="grid grid-cols-3 gap-4">
+            <div className="text-center p-3 bg-green-50 rounded-lg">
+              <div className="text-2xl font-bold text-green-600">{result.stored}</div>
+              <div className="text-sm text-green-600">Stored</div>
+            </div>
+            <div className="text-center p-3 bg-red-50 rounded-lg">
+              <div className="text-2xl font-bold text-red-600">{result.failed}</div>
+              <div className="text-sm text-red-600">Failed</div>
+            </div>
+            <div className="text-center p-3 bg-yellow-50 rounded-lg">
+              <div className="text-2xl font-bold text-yellow-600">{result.skipped}</div>
+              <div className="text-sm text-yellow-600">Skipped</div>
+            </div>
+          </div>
+
+          {/* Pages */}
+          {result.results.length > 0 && (
+            <div className="space-y-2">
+              <h4 className="font-medium text-gray-800">Ingested Pages:</h4>
+              <div className="max-h-80 overflow-y-auto space-y-1">
+                {result.results.map((item, index) => (
+                  <div
+                    key={index}
+                    className={`p-3 rounded-lg border text-sm ${
+                      item.success
+                        ? 'bg-green-50 border-green-200 text-green-700'
+                        : item.excluded_by_locale
+                          ? 'bg-yellow-50 border-yellow-200 text-yellow-700'
+                          : 'bg-red-50 border-red-200 text-red-700'
+                    }`}
+                  >
+                    <div className="flex items-start space-x-2">
+                      {item.success ? (
+                        <CheckCircle className="flex-shrink-0 h-4 w-4 mt-0.5" />
+                      ) : item.excluded_by_locale ? (
+                        <AlertCircle className="flex-shrink-0 h-4 w-4 mt-0.5" />
+                      ) : (
+                        <XCircle className="flex-shrink-0 h-4 w-4 mt-0.5" />
+                      )}
+                      <div className="flex-1 min-w-0">
+                        <div className="truncate font-medium">{item.title || item.url}</div>
+                        <div className="truncate text-xs opacity-75">{item.url} ← {item.source_path}</div>
+                        <div className="text-xs">
+                          {item.success
+                            ? (item.unchanged ? 'Unchanged since last ingest' : `Created ${item.chunks_created} chunks`)
+                            : item.excluded_by_locale
+                              ? `Outside locale policy: ${item.error}`
+                              : `Error: ${item.error}`}
+                        </div>
+                      </div>
+                    </div>
+                  </div>
+                ))}
+              </div>
+            </div>
+          )}
+        </div>
+      )}
+    </div>
+  );
+}
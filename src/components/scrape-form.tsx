@@ -5,6 +5,8 @@ import { useState } from 'react';
 interface ScrapeResult {
   document_id: number;
   chunks_created: number;
+  unchanged?: boolean;
+  changes?: string[];
   success: boolean;
   title?: string;
   error?: string;
@@ -97,9 +99,18 @@ export default function ScrapeForm() {
               <path fillRule="evenodd" d="M10 18a8 8 0 100-16 8 8 0 000 16zm3.707-9.293a1 1 0 00-1.414-1.414L9 10.586 7.707 9.293a1 1 0 00-1.414 1.414l2 2a1 1 0 001.414 0l4-4z" clipRule="evenodd" />
             </svg>
             <div>
-              <p className="font-medium">✅ Successfully added to knowledge base!</p>
+              <p className="font-medium">
+                {result.unchanged ? '✅ Page unchanged since the last scrape' : '✅ Successfully added to knowledge base!'}
+              </p>
               {result.title && <p className="text-sm mt-1">Title: {result.title}</p>}
-              <p className="text-sm">Created {result.chunks_created} content chunks</p>
+              {!result.unchanged && <p className="text-sm">Created {result.chunks_created} content chunks</p>}
+              {result.changes && result.changes.length > 0 && (
+                <ul className="text-sm mt-2 list-disc list-inside">
+                  {result.changes.map((change, index) => (
+                    <li key={index}>{change}</li>
+                  ))}
+                </ul>
+              )}
             </div>
           </div>
         </div>
@@ -0,0 +1,180 @@
+import { BarChart, Bar, XAxis, YAxis, CartesianGrid, Tooltip, ResponsiveContainer, Cell } from 'recharts';
+import { Card, CardContent, CardHeader, CardTitle } from '@/components/ui/card';
+import { AccessibilityAnalysis as AccessibilityAnalysisType } from '@/lib/seo-analyzer';
+import { Accessibility, CheckCircle, XCircle, AlertTriangle, Info } from 'lucide-react';
+
+interface AccessibilityAnalysisProps {
+  analysis?: AccessibilityAnalysisType;
+}
+
+const ISSUE_LABELS: { [type: string]: string } = {
+  missing_lang: 'Missing page language',
+  invalid_lang: 'Invalid page language',
+  unlabeled_control: 'Unlabeled form controls',
+  empty_link: 'Empty links',
+  empty_button: 'Empty buttons',
+  duplicate_id: 'Duplicate IDs',
+  heading_skip: 'Heading level skips',
+  missing_landmark: 'Landmark problems',
+  generic_alt: 'Generic alt text',
+  tabindex_misuse: 'Tabindex misuse'
+};
+
+const COLORS = {
+  good: '#22c55e',    // green-400
+  warning: '#f59e0b', // amber-500
+  error: '#dc2626'    // red-600
+};
+
+const EXPECTED_LANDMARKS = ['main', 'navigation', 'banner', 'contentinfo'];
+
+export default function AccessibilityAnalysis({ analysis }: AccessibilityAnalysisProps) {
+  if (!analysis) {
+    return (
+      <Card>
+        <CardContent className="p-6 text-center text-gray-500">
+          Accessibility audit is not available for this page. Re-run the analysis to audit it.
+        </CardContent>
+      </Card>
+    );
+  }
+
+  const getScoreColor = (score: number): string => {
+    if (score >= 80) return COLORS.good;
+    if (score >= 60) return COLORS.warning;
+    return COLORS.error;
+  };
+
+  const issueChartData = Object.entries(analysis.issue_counts)
+    .map(([type, count]) => ({ name: ISSUE_LABELS[type] || type, count }))
+    .sort((a, b) => b.count - a.count);
+
+  return (
+    <div className="space-y-6">
+      {/* Accessibility Overview */}
+      <Card>
+        <CardHeader>
+          <CardTitle className="flex items-center">
+            <Accessibility className="w-5 h-5 mr-2 text-blue-600" />
+            Accessibility Overview
+          </CardTitle>
+        </CardHeader>
+        <CardContent>
+          <div className="grid grid-cols-2 md:grid-cols-4 gap-4 mb-6">
+            <div className="text-center p-4 bg-gray-50 rounded-lg">
+              <div className="text-2xl font-bold" style={{ color: getScoreColor(analysis.score) }}>
+                {Math.round(analysis.score)}
+              </div>
+              <div className="text-sm text-gray-600">Accessibility Score</div>
+            </div>
+            <div className="text-center p-4 bg-red-50 rounded-lg">
+              <div className="text-2xl font-bold text-red-600">{analysis.error_count}</div>
+              <div className="text-sm text-red-700">Errors</div>
+            </div>
+            <div className="text-center p-4 bg-yellow-50 rounded-lg">
+              <div className="text-2xl font-bold text-yellow-600">{analysis.warning_count}</div>
+              <div className="text-sm text-yellow-700">Warnings</div>
+            </div>
+            <div className="text-center p-4 bg-blue-50 rounded-lg">
+              <div className="text-2xl font-bold text-blue-600">{analysis.html_lang || '—'}</div>
+              <div className="text-sm text-blue-700">Page Language</div>
+            </div>
+          </div>
+
+          <div className="grid grid-cols-1 lg:grid-cols-2 gap-6">
+            <div className="space-y-3">
+              <h4 className="text-sm font-medium text-gray-700">Landmarks</h4>
+              {EXPECTED_LANDMARKS.map(landmark => {
+                const present = analysis.landmarks.includes(landmark);
+                return (
+                  <div key={landmark} className="flex items-center justify-between p-3 bg-gray-50 rounded-lg">
+                    <span className="text-sm text-gray-700 capitalize">{landmark}</span>
+                    {present ? (
+                      <CheckCircle className="w-5 h-5 text-green-500" />
+                    ) : (
+                      <XCircle className="w-5 h-5 text-red-500" />
+                    )}
+                  </div>
+                );
+              })}
+            </div>
+
+            {issueChartData.length > 0 ? (
+              <div className="h-64">
+                <h4 className="text-sm font-medium text-gray-700 mb-4">Issues by Type</h4>
+                <ResponsiveContainer width="100%" height="100%">
+                  <BarChart data={issueChartData} layout="vertical" margin={{ left: 40 }}>
+                    <CartesianGrid strokeDasharray="3 3" />
+                    <XAxis type="number" allowDecimals={false} />
+                    <YAxis type="category" dataKey="name" width={140} tick={{ fontSize: 12 }} />
+                    <Tooltip />
+                    <Bar dataKey="count">
+                      {issueChartData.map((entry, index) => (
+                        <Cell key={`cell-${index}`} fill={COLORS.warning} />
+                      ))}
+                    </Bar>
+                  </BarChart>
+                </ResponsiveContainer>
+              </div>
+            ) : (
+              <div className="flex items-center justify-center p-6 bg-green-50 rounded-lg">
+                <CheckCircle className="w-5 h-5 mr-2 text-green-600" />
+                <span className="text-sm text-green-700">No accessibility issues detected</span>
+              </div>
+            )}
+          </div>
+        </CardContent>
+      </Card>
+
+      {/* Issue Details */}
+      {analysis.issues.length > 0 && (
+        <Card>
+          <CardHeader>
+            <CardTitle className="flex items-center">
+              <AlertTriangle className="w-5 h-5 mr-2 text-orange-600" />
+              Issues Found
+            </CardTitle>
+          </CardHeader>
+          <CardContent>
+            <div className="space-y-2">
+              {analysis.issues.map((issue, index) => (
+                <div key={index} className="flex items-start p-3 border rounded-lg">
+                  {issue.severity === 'error' ? (
+                    <XCircle className="w-4 h-4 mt-0.5 mr-3 text-red-500 flex-shrink-0" />
+                  ) : (
+                    <AlertTriangle className="w-4 h-4 mt-0.5 mr-3 text-yellow-500 flex-shrink-0" />
+                  )}
+                  <div className="min-w-0">
+                    <div className="text-sm text-gray-900">{issue.message}</div>
+                    {issue.element && (
+                      <code className="block mt-1 text-xs text-gray-500 truncate">{issue.element}</code>
+                    )}
+                  </div>
+                </div>
+              ))}
+            </div>
+          </CardContent>
+        </Card>
+      )}
+
+      {/* Recommendations */}
+      {analysis.recommendations.length > 0 && (
+        <Card>
+          <CardHeader>
+            <CardTitle className="flex items-center">
+              <Info className="w-5 h-5 mr-2 text-blue-600" />
+              Recommendations
+            </CardTitle>
+          </CardHeader>
+          <CardContent>
+            <ul className="space-y-2">
+              {analysis.recommendations.map((recommendation, index) => (
+                <li key={index} className="text-sm text-gray-700">• {recommendation}</li>
+              ))}
+            </ul>
+          </CardContent>
+        </Card>
+      )}
+    </div>
+  );
+}
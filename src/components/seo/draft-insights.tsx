@@ -0,0 +1,118 @@
+import { Card, CardContent, CardHeader, CardTitle } from '@/components/ui/card';
+import { TargetKeywordAnalysis } from '@/lib/seo-analyzer';
+import { ContentQualityMetrics } from '@/lib/scraper';
+import { Target, FileText, CheckCircle, XCircle } from 'lucide-react';
+
+interface DraftInsightsProps {
+  targetKeyword?: TargetKeywordAnalysis;
+  contentQuality?: ContentQualityMetrics;
+}
+
+const getScoreColor = (score: number): string => {
+  if (score >= 80) return 'text-green-600';
+  if (score >= 60) return 'text-yellow-600';
+  return 'text-red-600';
+};
+
+export default function DraftInsights({ targetKeyword, contentQuality }: DraftInsightsProps) {
+  if (!targetKeyword && !contentQuality) return null;
+
+  const placements = targetKeyword ? [
+    { label: 'Title', present: targetKeyword.in_title },
+    { label: 'H1 heading', present: targetKeyword.in_h1 },
+    { label: 'Meta description', present: targetKeyword.in_meta_description },
+    { label: 'First 100 words', present: targetKeyword.in_introduction },
+    { label: 'Subheadings', present: targetKeyword.in_subheadings },
+    { label: 'URL slug', present: targetKeyword.in_url },
+    { label: 'Image alt text', present: targetKeyword.in_image_alt }
+  ] : [];
+
+  return (
+    <div className="grid grid-cols-1 lg:grid-cols-2 gap-6">
+      {targetKeyword && (
+        <Card>
+          <CardHeader>
+            <CardTitle className="flex items-center justify-between">
+              <span className="flex items-center">
+                <Target className="w-5 h-5 mr-2 text-green-600" />
+                Target Keyword: &ldquo;{targetKeyword.keyword}&rdquo;
+              </span>
+              <span className={`text-2xl font-bold ${getScoreColor(targetKeyword.score)}`}>
+                {targetKeyword.score}
+              </span>
+            </CardTitle>
+          </CardHeader>
+          <CardContent className="space-y-4">
+            <p className="text-sm text-gray-600">
+              Used {targetKeyword.occurrences} time{targetKeyword.occurrences === 1 ? '' : 's'} ({targetKeyword.density.toFixed(1)}% of the words)
+            </p>
+            <div className="grid grid-cols-2 gap-2">
+              {placements.map(placement => (
+                <div key={placement.label} className="flex items-center text-sm">
+                  {placement.present ? (
+                    <CheckCircle className="w-4 h-4 mr-2 text-green-500 flex-shrink-0" />
+                  ) : (
+                    <XCircle className="w-4 h-4 mr-2 text-red-400 flex-shrink-0" />
+                  )}
+                  <span className={placement.present ? 'text-gray-800' : 'text-gray-500'}>{placement.label}</span>
+                </div>
+              ))}
+            </div>
+            {targetKeyword.recommendations.length > 0 && (
+              <ul className="space-y-1 text-sm text-gray-700">
+                {targetKeyword.recommendations.map((recommendation, index) => (
+                  <li key={index}>• {recommendation}</li>
+                ))}
+              </ul>
+            )}
+          </CardContent>
+        </Card>
+      )}
+
+      {contentQuality && (
+        <Card>
+          <CardHeader>
+            <CardTitle className="flex items-center">
+              <FileText className="w-5 h-5 mr-2 text-blue-600" />
+              Content Quality
+            </CardTitle>
+          </CardHeader>
+          <CardContent className="space-y-4">
+            <div className="grid grid-cols-2 md:grid-cols-4 gap-4">
+              <div className="text-center p-3 bg-blue-50 rounded-lg">
+                <div className="text-2xl font-bold text-blue-600">{contentQuality.word_count}</div>
+                <div className="text-sm text-blue-700">Words</div>
+              </div>
+              <div className="text-center p-3 bg-green-50 rounded-lg">
+                <div className={`text-2xl font-bold ${getScoreColor(contentQuality.readability_score)}`}>
+                  {Math.round(contentQuality.readability_score)}
+                </div>
+                <div className="text-sm text-green-700">Readability</div>
+              </div>
+              <div className="text-center p-3 bg-purple-50 rounded-lg">
+                <div className={`text-2xl font-bold ${getScoreColor(contentQuality.content_depth_score)}`}>
+                  {Math.round(contentQuality.content_depth_score)}
+                </div>
+                <div className="text-sm text-purple-700">Depth</div>
+              </div>
+              <div className="text-center p-3 bg-orange-50 rounded-lg">
+                <div className="text-2xl font-bold text-orange-600">{contentQuality.reading_time_minutes}</div>
+                <div className="text-sm text-orange-700">Min Read</div>
+              </div>
+            </div>
+            <div className="text-sm text-gray-600 space-y-1">
+              <p>
+                {contentQuality.paragraph_count} paragraphs, {contentQuality.sentence_count} sentences,
+                {' '}{contentQuality.average_sentence_length.toFixed(1)} words per sentence on average
+              </p>
+              <p className="capitalize">Content type: {contentQuality.content_type}</p>
+              {contentQuality.topic_keywords.length > 0 && (
+                <p>Topics: {contentQuality.topic_keywords.slice(0, 8).join(', ')}</p>
+              )}
+            </div>
+          </CardContent>
+        </Card>
+      )}
+    </div>
+  );
+}
@@ -107,6 +107,28 @@ export default function LinkAnalysis({ analysis, links = [] }: LinkAnalysisProps
             </div>
           </div>
 
+          {/* Body Content vs Navigation */}
+          {analysis.has_region_data && (
+            <div className="grid grid-cols-2 md:grid-cols-4 gap-4 mb-6">
+              <div className="text-center p-3 border rounded-lg">
+                <div className="text-xl font-semibold text-blue-600">{analysis.content_internal_count}</div>
+                <div className="text-xs text-gray-600">Internal Links in Body</div>
+              </div>
+              <div className="text-center p-3 border rounded-lg">
+                <div className="text-xl font-semibold text-green-600">{analysis.content_external_count}</div>
+                <div className="text-xs text-gray-600">External Links in Body</div>
+              </div>
+              <div className="text-center p-3 border rounded-lg">
+                <div className="text-xl font-semibold text-gray-700">{analysis.navigation_count}</div>
+                <div className="text-xs text-gray-600">Navigation Links</div>
+              </div>
+              <div className="text-center p-3 border rounded-lg">
+                <div className="text-xl font-semibold text-orange-600">{analysis.nofollow_count}</div>
+                <div className="text-xs text-gray-600">Nofollow Links</div>
+              </div>
+            </div>
+          )}
+
           {/* Link Distribution Chart */}
           {analysis.total_count > 0 && (
             <div className="grid grid-cols-1 lg:grid-cols-2 gap-6">
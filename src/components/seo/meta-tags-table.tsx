@@ -283,9 +283,39 @@ export default function MetaTagsTable({
                 </div>
               </div>
             </div>
-            {getStatusBadge(technicalAnalysis.has_schema ? 'good' : 'warning')}
+            {getStatusBadge(
+              !technicalAnalysis.has_schema ? 'warning' :
+              technicalAnalysis.structured_data.error_count > 0 ? 'error' : 'good'
+            )}
           </div>
           
+          {technicalAnalysis.structured_data.entities.length > 0 && (
+            <div className="mt-4 space-y-3">
+              {technicalAnalysis.structured_data.entities.map((entity, index) => (
+                <div key={index} className="p-3 border rounded-lg">
+                  <div className="flex items-center justify-between">
+                    <div className="flex items-center">
+                      {getStatusIcon(!entity.is_valid ? 'error' : entity.warnings.length > 0 ? 'warning' : 'good')}
+                      <span className="ml-2 font-medium text-gray-900">{entity.entity_type}</span>
+                      {entity.name && <span className="ml-2 text-sm text-gray-500 truncate">{entity.name}</span>}
+                    </div>
+                    <span className="text-xs text-gray-500 uppercase">{entity.format}</span>
+                  </div>
+                  {entity.errors.map((error, i) => (
+                    <div key={`e-${i}`} className="mt-1 ml-6 text-sm text-red-600">{error}</div>
+                  ))}
+                  {entity.warnings.map((warning, i) => (
+                    <div key={`w-${i}`} className="mt-1 ml-6 text-sm text-yellow-700">{warning}</div>
+                  ))}
+                </div>
+              ))}
+            </div>
+          )}
+          
+          {technicalAnalysis.structured_data.parse_errors.map((error, index) => (
+            <div key={index} className="mt-3 text-sm text-red-600">{error}</div>
+          ))}
+          
           {!technicalAnalysis.has_schema && (
             <div className="mt-4 p-4 bg-blue-50 border border-blue-200 rounded-lg">
               <div className="flex items-start">
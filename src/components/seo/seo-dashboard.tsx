@@ -9,6 +9,7 @@ import HeadingHierarchy from './heading-hierarchy';
 import MetaTagsTable from './meta-tags-table';
 import LinkAnalysis from './link-analysis';
 import ImageOptimization from './image-optimization';
+import AccessibilityAnalysis from './accessibility-analysis';
 import RecommendationsList from './recommendations-list';
 import { 
   BarChart3, 
@@ -17,6 +18,7 @@ import {
   Link, 
   Image, 
   CheckSquare, 
+  Accessibility,
   Download,
   RefreshCw,
   Globe
@@ -42,7 +44,7 @@ interface SEODashboardProps {
   loading?: boolean;
 }
 
-type TabType = 'overview' | 'headings' | 'meta' | 'links' | 'images' | 'recommendations';
+type TabType = 'overview' | 'headings' | 'meta' | 'links' | 'images' | 'accessibility' | 'recommendations';
 
 interface TabConfig {
   id: TabType;
@@ -70,6 +72,7 @@ export default function SEODashboard({
                     (!analysis.technical.has_canonical ? 1 : 0);
   const linkIssues = analysis.links.score < 80 ? 1 : 0;
   const imageIssues = analysis.images.score < 80 ? 1 : 0;
+  const accessibilityIssues = analysis.accessibility?.error_count || 0;
 
   const tabs: TabConfig[] = [
     { id: 'overview', label: 'Overview', icon: BarChart3 },
@@ -77,6 +80,7 @@ export default function SEODashboard({
     { id: 'meta', label: 'Meta Tags', icon: Tags, badgeCount: metaIssues },
     { id: 'links', label: 'Links', icon: Link, badgeCount: linkIssues },
     { id: 'images', label: 'Images', icon: Image, badgeCount: imageIssues },
+    { id: 'accessibility', label: 'Accessibility', icon: Accessibility, badgeCount: accessibilityIssues },
     { id: 'recommendations', label: 'Action Items', icon: CheckSquare, badgeCount: totalIssues }
   ];
 
@@ -134,6 +138,8 @@ export default function SEODashboard({
             images={rawData?.images}
           />
         );
+      case 'accessibility':
+        return <AccessibilityAnalysis analysis={analysis.accessibility} />;
       case 'recommendations':
         return (
           <RecommendationsList 
@@ -51,7 +51,9 @@ const formatCategoryName = (key: string): string => {
     meta: 'Meta Tags',
     structure: 'Structure',
     links: 'Links',
-    images: 'Images'
+    images: 'Images',
+    accessibility: 'Accessibility',
+    performance: 'Performance'
   };
   return names[key] || key;
 };
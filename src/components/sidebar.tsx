@@ -7,6 +7,7 @@ import {
   MessageCircle, 
   Globe, 
   BarChart3,
+  History,
   PanelLeftOpen,
   PanelLeftClose,
   Search
@@ -33,6 +34,12 @@ export default function Sidebar({ isOpen, onToggle }: SidebarProps) {
       icon: Globe,
       current: pathname === '/scraper'
     },
+    {
+      name: 'Page History',
+      href: '/page-history',
+      icon: History,
+      current: pathname === '/page-history'
+    },
     // {
     //   name: 'Search Console',
     //   href: '/search-console-test',
@@ -0,0 +1,317 @@
+'use client';
+
+import { useState } from 'react';
+import { Network, CheckCircle, XCircle, AlertCircle, Copy } from 'lucide-react';
+
+type QueryStringMode = 'strip_tracking' | 'strip_all' | 'keep';
+
+interface CrawledPage {
+  url: string;
+  depth: number;
+  parent_url: string | null;
+  status: 'stored' | 'duplicate' | 'blocked' | 'failed' | 'skipped';
+  final_url?: string;
+  canonical_url?: string;
+  duplicate_of?: string;
+  links_found?: number;
+  title?: string;
+  error?: string;
+  chunks_created?: number;
+  unchanged?: boolean;
+}
+
+interface CrawlResult {
+  seeds: string[];
+  pages: CrawledPage[];
+  pages_fetched: number;
+  pages_stored: number;
+  duplicates: number;
+  blocked_by_robots: number;
+  failed: number;
+  skipped: number;
+  max_depth_reached: number;
+  urls_discovered: number;
+  urls_not_fetched: number;
+  stopped_by_page_limit: boolean;
+}
+
+const STATUS_STYLES: { [status in CrawledPage['status']]: string } = {
+  stored: 'bg-green-50 border-green-200 text-green-700',
+  duplicate: 'bg-gray-50 border-gray-200 text-gray-700',
+  blocked: 'bg-yellow-50 border-yellow-200 text-yellow-700',
+  skipped: 'bg-yellow-50 border-yellow-200 text-yellow-700',
+  failed: 'bg-red-50 border-red-200 text-red-700'
+};
+
+const splitLines = (value: string) => value.split('\n').map(line => line.trim()).filter(line => line.length > 0);
+
+export default function SiteCrawlForm() {
+  const [seedUrls, setSeedUrls] = useState('');
+  const [maxDepth, setMaxDepth] = useState(3);
+  const [maxPages, setMaxPages] = useState(50);
+  const [includePatterns, setIncludePatterns] = useState('');
+  const [excludePatterns, setExcludePatterns] = useState('');
+  const [queryString, setQueryString] = useState<QueryStringMode>('strip_tracking');
+  const [loading, setLoading] = useState(false);
+  const [result, setResult] = useState<CrawlResult | null>(null);
+  const [error, setError] = useState<string>('');
+
+  const handleSubmit = async (e: React.FormEvent) => {
+    e.preventDefault();
+    if (splitLines(seedUrls).length === 0) return;
+
+    setLoading(true);
+    setError('');
+    setResult(null);
+
+    try {
+      const response = await fetch('/api/crawl', {
+        method: 'POST',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify({
+          seed_urls: splitLines(seedUrls),
+          max_depth: maxDepth,
+          max_pages: maxPages,
+          include_patterns: splitLines(includePatterns),
+          exclude_patterns: splitLines(excludePatterns),
+          query_string: queryString
+        })
+      });
+
+      const data = await response.json();
+
+      if (!response.ok) {
+        throw new Error(data.message || data.error || 'Failed to crawl site');
+      }
+
+      setResult(data);
+    } catch (err) {
+      setError(err instanceof Error ? err.message : 'An error occurred while crawling');
+    } finally {
+      setLoading(false);
+    }
+  };
+
+  const inputClassName = 'w-full p-3 border border-gray-300 rounded-lg focus:ring-2 focus:ring-blue-500 focus:border-transparent outline-none';
+
+  return (
+    <div className="space-y-6">
+      <form onSubmit={handleSubmit} className="space-y-4">
+        <div>
+          <label htmlFor="seed-urls" className="block text-sm font-medium text-gray-700 mb-2">
+            Seed URLs (one per line)
+          </label>
+          <textarea
+            id="seed-urls"
+            value={seedUrls}
+            onChange={(e) => setSeedUrls(e.target.value)}
+            placeholder="https://example.com/"
+            rows={2}
+            className={inputClassName}
+            required
+            disabled={loading}
+          />
+          <p className="text-xs text-gray-500 mt-1">
+            Internal links are followed breadth-first, so each page is recorded at its shortest click depth.
+          </p>
+        </div>
+
+        <div className="grid grid-cols-1 md:grid-cols-3 gap-4">
+          <div>
+            <label htmlFor="max-depth" className="block text-sm font-medium text-gray-700 mb-2">
+              Max Depth
+            </label>
+            <input
+              id="max-depth"
+              type="number"
+              min="0"
+              max="10"
+              value={maxDepth}
+              onChange={(e) => setMaxDepth(parseInt(e.target.value) || 0)}
+              className={inputClassName}
+              disabled={loading}
+            />
+          </div>
+
+          <div>
+            <label htmlFor="max-pages" className="block text-sm font-medium text-gray-700 mb-2">
+              Max Pages
+            </label>
+            <input
+              id="max-pages"
+              type="number"
+              min="1"
+              max="1000"
+              value={maxPages}
+              onChange={(e) => setMaxPages(parseInt(e.target.value) || 50)}
+              className={inputClassName}
+              disabled={loading}
+            />
+          </div>
+
+          <div>
+            <label htmlFor="query-string" className="block text-sm font-medium text-gray-700 mb-2">
+              Query Strings
+            </label>
+            <select
+              id="query-string"
+              value={queryString}
+              onChange={(e) => setQueryString(e.target.value as QueryStringMode)}
+              className={inputClassName}
+              disabled={loading}
+            >
+              <option value="strip_tracking">Strip tracking parameters</option>
+              <option value="strip_all">Strip all parameters</option>
+              <option value="keep">Keep all parameters</option>
+            </select>
+          </div>
+        </div>
+
+        <div className="grid grid-cols-1 md:grid-cols-2 gap-4">
+          <div>
+            <label htmlFor="include-patterns" className="block text-sm font-medium text-gray-700 mb-2">
+              Include Patterns (regex, one per line)
+            </label>
+            <textarea
+              id="include-patterns"
+              value={includePatterns}
+              onChange={(e) => setIncludePatterns(e.target.value)}
+              placeholder="/blog/"
+              rows={2}
+              className={inputClassName}
+              disabled={loading}
+            />
+          </div>
+
+          <div>
+            <label htmlFor="exclude-patterns" className="block text-sm font-medium text-gray-700 mb-2">
+              Exclude Patterns (regex, one per line)
+            </label>
+            <textarea
+              id="exclude-patterns"
+              value={excludePatterns}
+              onChange={(e) => setExcludePatterns(e.target.value)}
+              placeholder="/tag/|/page/\d+"
+              rows={2}
+              className={inputClassName}
+              disabled={loading}
+            />
+          </div>
+        </div>
+
+        <button
+          type="submit"
+          disabled={loading || splitLines(seedUrls).length === 0}
+          className="w-full p-3 bg-green-600 hover:bg-green-700 text-white font-medium rounded-lg disabled:opacity-50 disabled:cursor-not-allowed transition-colors"
+        >
+          {loading ? (
+            <span className="flex items-center justify-center">
+              <svg className="animate-spin -ml-1 mr-3 h-5 w-5 text-white" xmlns="http://www.w3.org/2000/svg" fill="none" viewBox="0 0 24 24">
+                <circle className="opacity-25" cx="12" cy="12" r="10" stroke="currentColor" strokeWidth="4"></circle>
+                <path className="opacity-75" fill="currentColor" d="M4 12a8 8 0 018-8V0C5.373 0 0 5.373 0 12h4zm2 5.291A7.962 7.962 0 014 12H0c0 3.042 1.135 5.824 3 7.938l3-2.647z"></path>
+              </svg>
+              Crawling...
+            </span>
+          ) : (
+            <span className="flex items-center justify-center">
+              <Network className="w-4 h-4 mr-2" />
+              Start Crawl
+            </span>
+          )}
+        </button>
+      </form>
+
+      {error && (
+        <div className="p-4 bg-red-50 border border-red-200 text-red-700 rounded-lg">
+          <div className="flex">
+            <XCircle className="flex-shrink-0 h-5 w-5 text-red-400 mr-2" />
+            <span>{error}</span>
+          </div>
+        </div>
+      )}
+
+      {result && (
+        <div className="space-y-4">
+          {/* Summary */}
+          <div className="p-4 bg-blue-50 border border-blue-200 text-blue-700 rounded-lg">
+            <div className="flex">
+              <CheckCircle className="flex-shrink-0 h-5 w-5 text-blue-400 mr-2" />
+              <div className="space-y-1">
+                <p className="font-medium">✅ Crawl completed!</p>
+                <div className="text-sm space-y-1">
+                  <p>Fetched {result.pages_fetched} pages up to depth {result.max_depth_reached}, discovered {result.urls_discovered} internal URLs</p>
+                  {result.urls_not_fetched > 0 && (
+                    <p>
+                      Not fetched: {result.urls_not_fetched} URLs
+                      {result.stopped_by_page_limit ? ' (page limit reached)' : ' (beyond max depth)'}
+                    </p>
+                  )}
+                  {result.duplicates > 0 && <p>Duplicates: {result.duplicates} pages (same canonical or redirect target)</p>}
+                  {result.blocked_by_robots > 0 && <p>Blocked: {result.blocked_by_robots} pages (disallowed by robots.txt)</p>}
+                  {result.skipped > 0 && <p>Skipped: {result.skipped} pages (outside the locale policy)</p>}
+                </div>
+              </div>
+            </div>
+          </div>
+
+          {/* Stats */}
+          <div className="grid grid-cols-2 md:grid-cols-4 gap-4">
+            <div className="text-center p-3 bg-green-50 rounded-lg">
+              <div className="text-2xl font-bold text-green-600">{result.pages_stored}</div>
+              <div className="text-sm text-green-600">Stored</div>
+            </div>
+            <div className="text-center p-3 bg-red-50 rounded-lg">
+              <div className="text-2xl font-bold text-red-600">{result.failed}</div>
+              <div className="text-sm text-red-600">Failed</div>
+            </div>
+            <div className="text-center p-3 bg-gray-50 rounded-lg">
+              <div className="text-2xl font-bold text-gray-600">{result.duplicates}</div>
+              <div className="text-sm text-gray-600">Duplicates</div>
+            </div>
+            <div className="text-center p-3 bg-purple-50 rounded-lg">
+              <div className="text-2xl font-bold text-purple-600">{result.max_depth_reached}</div>
+              <div className="text-sm text-purple-600">Deepest Level</div>
+            </div>
+          </div>
+
+          {/* Pages */}
+          {result.pages.length > 0 && (
+            <div className="space-y-2">
+              <h4 className="font-medium text-gray-800">Crawled Pages:</h4>
+              <div className="max-h-80 overflow-y-auto space-y-1">
+                {result.pages.map((page, index) => (
+                  <div key={index} className={`p-3 rounded-lg border text-sm ${STATUS_STYLES[page.status]}`}>
+                    <div className="flex items-start space-x-2">
+                      {page.status === 'stored' ? (
+                        <CheckCircle className="flex-shrink-0 h-4 w-4 mt-0.5" />
+                      ) : page.status === 'duplicate' ? (
+                        <Copy className="flex-shrink-0 h-4 w-4 mt-0.5" />
+                      ) : page.status === 'failed' ? (
+                        <XCircle className="flex-shrink-0 h-4 w-4 mt-0.5" />
+                      ) : (
+                        <AlertCircle className="flex-shrink-0 h-4 w-4 mt-0.5" />
+                      )}
+                      <div className="flex-1 min-w-0">
+                        <div className="flex items-center justify-between">
+                          <span className="font-medium truncate">{page.title || page.url}</span>
+                          <span className="ml-2 text-xs whitespace-nowrap">Depth {page.depth}</span>
+                        </div>
+                        <div className="truncate text-xs opacity-75">{page.url}</div>
+                        <div className="text-xs">
+                          {page.status === 'stored' && (page.unchanged ? 'Unchanged since last scrape' : `Created ${page.chunks_created} chunks`)}
+                          {page.status === 'duplicate' && `Duplicate of ${page.duplicate_of}`}
+                          {(page.status === 'failed' || page.status === 'blocked' || page.status === 'skipped') && page.error}
+                          {page.links_found !== undefined && page.links_found > 0 && ` · ${page.links_found} new links`}
+                        </div>
+                      </div>
+                    </div>
+                  </div>
+                ))}
+              </div>
+            </div>
+          )}
+        </div>
+      )}
+    </div>
+  );
+}
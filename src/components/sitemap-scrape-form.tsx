@@ -1,15 +1,59 @@
 'use client';
 
-import { useState } from 'react';
-import { Globe, CheckCircle, XCircle, Clock, AlertCircle } from 'lucide-react';
+import { useRef, useState } from 'react';
+import { Globe, CheckCircle, XCircle, Clock, AlertCircle, Search, Square } from 'lucide-react';
+
+type LocaleStrategy = 'path' | 'subdomain' | 'hreflang';
+
+const LOCALE_STRATEGIES: { value: LocaleStrategy; label: string }[] = [
+  { value: 'path', label: 'URL path (/de/)' },
+  { value: 'subdomain', label: 'Subdomain (de.example.com)' },
+  { value: 'hreflang', label: 'Page hreflang' }
+];
 
 interface ScrapingResult {
   url: string;
   success: boolean;
   document_id?: string;
   chunks_created?: number;
+  unchanged?: boolean;
   title?: string;
   error?: string;
+  blocked_by_robots?: boolean;
+  locale?: string;
+  excluded_by_locale?: boolean;
+  sitemap_issues?: { type: string; severity: 'error' | 'warning'; target?: string; message: string }[];
+}
+
+interface SitemapError {
+  sitemap_url: string;
+  parent_url?: string;
+  depth: number;
+  error: string;
+}
+
+interface SitemapNode {
+  url: string;
+  type: 'urlset' | 'sitemapindex' | 'error';
+  depth: number;
+  url_count: number;
+  children: SitemapNode[];
+  truncated?: boolean;
+  error?: string;
+}
+
+interface DomainSitemapDiscovery {
+  origin: string;
+  robots_sitemaps: string[];
+  sitemaps: {
+    url: string;
+    source: 'robots' | 'conventional';
+    tree: SitemapNode;
+    url_count: number;
+    errors: SitemapError[];
+  }[];
+  not_found: { url: string; source: 'robots' | 'conventional'; error: string }[];
+  total_url_count: number;
 }
 
 interface SitemapResult {
@@ -18,19 +62,79 @@ interface SitemapResult {
   successful: number;
   failed: number;
   skipped: number;
+  blocked_by_robots?: number;
   total_batches: number;
   results: ScrapingResult[];
+  sitemap_errors?: SitemapError[];
   summary: {
     success_rate: number;
     processing_time_estimate: string;
-    english_urls_found: number;
+    matching_urls_found: number;
+    locale_excluded?: number;
+    sitemaps_fetched?: number;
     urls_processed: number;
     existing_urls_skipped: number;
+    robots_blocked?: number;
     skip_existing_enabled: boolean;
   };
+  cancelled?: boolean;
   error?: string;
 }
 
+// Running counts streamed by /api/scrape-sitemap while it works through the batches
+interface ScrapeProgress {
+  total_urls: number;
+  processed: number;
+  successful: number;
+  failed: number;
+  skipped: number;
+  blocked_by_robots: number;
+  current_batch: number;
+  total_batches: number;
+  elapsed_ms: number;
+  eta_seconds: number | null;
+}
+
+type ScrapeProgressEvent =
+  | { type: 'discovered'; matching_urls_found: number; locale_excluded: number }
+  | { type: 'started'; counts: ScrapeProgress; results: ScrapingResult[] }
+  | { type: 'batch_started'; batch: number; total_batches: number; urls: string[] }
+  | { type: 'url_completed'; result: ScrapingResult; counts: ScrapeProgress }
+  | { type: 'batch_completed'; batch: number; counts: ScrapeProgress }
+  | { type: 'completed'; response: SitemapResult }
+  | { type: 'error'; error: string; message?: string };
+
+const formatDuration = (seconds: number) =>
+  seconds < 60 ? `${seconds}s` : `${Math.floor(seconds / 60)}m ${seconds % 60}s`;
+
+/**
+ * Reads a Server-Sent Events response body, calling onEvent for each `data:` payload.
+ */
+async function readEventStream(response: Response, onEvent: (event: ScrapeProgressEvent) => void) {
+  if (!response.body) return;
+  const reader = response.body.getReader();
+  const decoder = new TextDecoder();
+  let buffer = '';
+
+  while (true) {
+    const { done, value } = await reader.read();
+    if (done) break;
+    buffer += decoder.decode(value, { stream: true });
+
+    let boundary = buffer.indexOf('\n\n');
+    while (boundary !== -1) {
+      const data = buffer.slice(0, boundary)
+        .split('\n')
+        .filter(line => line.startsWith('data:'))
+        .map(line => line.slice(5).trim())
+        .join('\n');
+      buffer = buffer.slice(boundary + 2);
+      if (data) onEvent(JSON.parse(data));
+      boundary = buffer.indexOf('\n\n');
+    }
+  }
+}
+
 export default function SitemapScrapeForm() {
   const [sitemapUrl, setSitemapUrl] = useState('');
   const [maxUrls, setMaxUrls] = useState(50);
@@ -39,44 +143,242 @@ export default function SitemapScrapeForm() {
   const [loading, setLoading] = useState(false);
   const [result, setResult] = useState<SitemapResult | null>(null);
   const [error, setError] = useState<string>('');
+  const [domain, setDomain] = useState('');
+  const [discovering, setDiscovering] = useState(false);
+  const [discovery, setDiscovery] = useState<DomainSitemapDiscovery | null>(null);
+  const [selectedSitemaps, setSelectedSitemaps] = useState<string[]>([]);
+  const [includeLocales, setIncludeLocales] = useState('default');
+  const [excludeLocales, setExcludeLocales] = useState('');
+  const [localeStrategies, setLocaleStrategies] = useState<LocaleStrategy[]>(['path']);
+  const [progress, setProgress] = useState<ScrapeProgress | null>(null);
+  const [liveResults, setLiveResults] = useState<ScrapingResult[]>([]);
+  const [currentBatchUrls, setCurrentBatchUrls] = useState<string[]>([]);
+  const [statusMessage, setStatusMessage] = useState('');
+  const abortRef = useRef<AbortController | null>(null);
+
+  const handleDiscover = async () => {
+    if (!domain.trim()) return;
+
+    setDiscovering(true);
+    setError('');
+    setDiscovery(null);
+    setSelectedSitemaps([]);
+
+    try {
+      const response = await fetch(`/api/sitemap-discovery?domain=${encodeURIComponent(domain.trim())}`);
+      const data = await response.json();
+
+      if (!response.ok || !data.success) {
+        throw new Error(data.error || 'Failed to discover sitemaps');
+      }
+
+      setDiscovery(data.discovery);
+    } catch (err) {
+      setError(err instanceof Error ? err.message : 'An error occurred while discovering sitemaps');
+    } finally {
+      setDiscovering(false);
+    }
+  };
+
+  const toggleStrategy = (strategy: LocaleStrategy) => {
+    setLocaleStrategies(current =>
+      current.includes(strategy) ? current.filter(selected => selected !== strategy) : [...current, strategy]
+    );
+  };
+
+  const toggleSitemap = (url: string) => {
+    setSelectedSitemaps(current =>
+      current.includes(url) ? current.filter(selected => selected !== url) : [...current, url]
+    );
+  };
+
+  const selectedUrlCount = (() => {
+    let count = 0;
+    const visit = (node: SitemapNode) => {
+      if (selectedSitemaps.includes(node.url)) {
+        count += node.url_count;
+        return; // Descendants are included with their parent
+      }
+      node.children.forEach(visit);
+    };
+    discovery?.sitemaps.forEach(sitemap => visit(sitemap.tree));
+    return count;
+  })();
+
+  const renderSitemapNode = (node: SitemapNode) => (
+    <div key={`${node.depth}-${node.url}`} style={{ marginLeft: node.depth * 16 }}>
+      <label className="flex items-center space-x-2 py-1 text-sm">
+        <input
+          type="checkbox"
+          checked={selectedSitemaps.includes(node.url)}
+          onChange={() => toggleSitemap(node.url)}
+          disabled={loading || node.type === 'error'}
+          className="h-4 w-4 text-purple-600 border-gray-300 rounded focus:ring-purple-500"
+        />
+        <span className={`truncate ${node.type === 'error' ? 'text-red-600' : 'text-gray-700'}`}>{node.url}</span>
+        {node.type === 'error' ? (
+          <span className="text-xs text-red-500 whitespace-nowrap">{node.error}</span>
+        ) : (
+          <span className="text-xs text-gray-500 whitespace-nowrap">
+            {node.url_count.toLocaleString()} URLs{node.type === 'sitemapindex' ? ` · ${node.children.length} sitemaps` : ''}
+          </span>
+        )}
+      </label>
+      {node.children.map(renderSitemapNode)}
+    </div>
+  );
 
   const handleSubmit = async (e: React.FormEvent) => {
     e.preventDefault();
-    if (!sitemapUrl.trim()) return;
+    if (!sitemapUrl.trim() && selectedSitemaps.length === 0) return;
 
     setLoading(true);
     setError('');
     setResult(null);
+    setProgress(null);
+    setLiveResults([]);
+    setCurrentBatchUrls([]);
+    setStatusMessage('Reading sitemaps...');
+    const abortController = new AbortController();
+    abortRef.current = abortController;
 
     try {
       const response = await fetch('/api/scrape-sitemap', {
         method: 'POST',
-        headers: { 'Content-Type': 'application/json' },
+        headers: { 'Content-Type': 'application/json', 'Accept': 'text/event-stream' },
+        signal: abortController.signal,
         body: JSON.stringify({ 
-          sitemap_url: sitemapUrl.trim(),
+          stream: true,
+          ...(selectedSitemaps.length > 0
+            ? { sitemap_urls: selectedSitemaps }
+            : { sitemap_url: sitemapUrl.trim() }),
           max_urls: maxUrls,
           batch_size: batchSize,
-          skip_existing: skipExisting
+          skip_existing: skipExisting,
+          locale_policy: {
+            strategies: localeStrategies,
+            include: includeLocales,
+            exclude: excludeLocales
+          }
         })
       });
 
-      const data = await response.json();
-
-      if (!response.ok) {
-        throw new Error(data.error || 'Failed to process sitemap');
+      if (!response.ok || !response.headers.get('content-type')?.includes('text/event-stream')) {
+        const data = await response.json();
+        if (!response.ok) {
+          throw new Error(data.error || 'Failed to process sitemap');
+        }
+        setResult(data);
+        setSitemapUrl('');
+        return;
       }
 
-      setResult(data);
-      setSitemapUrl(''); // Clear input on success
+      let streamError = '';
+      await readEventStream(response, (event) => {
+        switch (event.type) {
+          case 'discovered':
+            setStatusMessage(`Found ${event.matching_urls_found} URLs matching the locale policy${event.locale_excluded > 0 ? ` (${event.locale_excluded} excluded by locale)` : ''}`);
+            break;
+          case 'started':
+            setProgress(event.counts);
+            setLiveResults(event.results);
+            break;
+          case 'batch_started':
+            setCurrentBatchUrls(event.urls);
+            setStatusMessage(`Processing batch ${event.batch} of ${event.total_batches}`);
+            break;
+          case 'url_completed':
+            setProgress(event.counts);
+            setLiveResults(current => [...current, event.result]);
+            setCurrentBatchUrls(current => current.filter(url => url !== event.result.url));
+            break;
+          case 'batch_completed':
+            setProgress(event.counts);
+            break;
+          case 'completed':
+            setResult(event.response);
+            setSitemapUrl(''); // Clear input on success
+            break;
+          case 'error':
+            streamError = event.message || event.error;
+            break;
+        }
+      });
+
+      if (streamError) {
+        throw new Error(streamError);
+      }
     } catch (err) {
-      setError(err instanceof Error ? err.message : 'An error occurred while processing sitemap');
+      if (abortController.signal.aborted) {
+        setError('Stopped. URLs already processed were kept; run again with "Skip existing" to continue.');
+      } else {
+        setError(err instanceof Error ? err.message : 'An error occurred while processing sitemap');
+      }
     } finally {
+      abortRef.current = null;
+      setCurrentBatchUrls([]);
       setLoading(false);
     }
   };
 
+  const progressPercent = progress && progress.total_urls > 0
+    ? Math.round((progress.processed / progress.total_urls) * 100)
+    : 0;
+
   return (
     <div className="space-y-6">
+      {/* Sitemap Discovery */}
+      <div className="space-y-3">
+        <label htmlFor="sitemap-domain" className="block text-sm font-medium text-gray-700">
+          Discover sitemaps for a domain
+        </label>
+        <div className="flex gap-2">
+          <input
+            id="sitemap-domain"
+            type="text"
+            value={domain}
+            onChange={(e) => setDomain(e.target.value)}
+            placeholder="example.com"
+            className="flex-1 p-3 border border-gray-300 rounded-lg focus:ring-2 focus:ring-blue-500 focus:border-transparent outline-none"
+            disabled={discovering || loading}
+          />
+          <button
+            type="button"
+            onClick={handleDiscover}
+            disabled={discovering || loading || !domain.trim()}
+            className="px-4 bg-gray-800 hover:bg-gray-900 text-white font-medium rounded-lg disabled:opacity-50 disabled:cursor-not-allowed transition-colors flex items-center"
+          >
+            <Search className="w-4 h-4 mr-2" />
+            {discovering ? 'Discovering...' : 'Discover'}
+          </button>
+        </div>
+
+        {discovery && (
+          <div className="p-3 border border-gray-200 rounded-lg space-y-2">
+            <p className="text-sm text-gray-700">
+              Found {discovery.sitemaps.length} sitemap{discovery.sitemaps.length === 1 ? '' : 's'} with {discovery.total_url_count.toLocaleString()} URLs
+              {discovery.robots_sitemaps.length > 0 && ` (${discovery.robots_sitemaps.length} listed in robots.txt)`}.
+              Select the sitemaps to ingest.
+            </p>
+            <div className="max-h-64 overflow-y-auto">
+              {discovery.sitemaps.map(sitemap => (
+                <div key={sitemap.url}>
+                  <div className="text-xs uppercase tracking-wide text-gray-400 mt-2">
+                    {sitemap.source === 'robots' ? 'From robots.txt' : 'Conventional location'}
+                  </div>
+                  {renderSitemapNode(sitemap.tree)}
+                </div>
+              ))}
+            </div>
+            {selectedSitemaps.length > 0 && (
+              <p className="text-xs text-purple-700">
+                {selectedSitemaps.length} selected · about {selectedUrlCount.toLocaleString()} URLs
+              </p>
+            )}
+          </div>
+        )}
+      </div>
+
       <form onSubmit={handleSubmit} className="space-y-4">
         <div>
           <label htmlFor="sitemap-url" className="block text-sm font-medium text-gray-700 mb-2">
@@ -87,13 +389,61 @@ export default function SitemapScrapeForm() {
             type="url"
             value={sitemapUrl}
             onChange={(e) => setSitemapUrl(e.target.value)}
-            placeholder="https://example.com/sitemap.xml"
+            placeholder={selectedSitemaps.length > 0 ? 'Using the selected sitemaps' : 'https://example.com/sitemap.xml'}
             className="w-full p-3 border border-gray-300 rounded-lg focus:ring-2 focus:ring-blue-500 focus:border-transparent outline-none"
-            required
-            disabled={loading}
+            required={selectedSitemaps.length === 0}
+            disabled={loading || selectedSitemaps.length > 0}
           />
-          <p className="text-xs text-gray-500 mt-1">
-            Only English pages will be processed (excludes URLs with language paths like /fr/, /de/, etc.)
+        </div>
+
+        <div className="p-4 border border-gray-200 rounded-lg space-y-3">
+          <div className="text-sm font-medium text-gray-700">Locales</div>
+          <div className="grid grid-cols-1 md:grid-cols-2 gap-4">
+            <div>
+              <label htmlFor="include-locales" className="block text-xs text-gray-600 mb-1">
+                Include (comma separated)
+              </label>
+              <input
+                id="include-locales"
+                type="text"
+                value={includeLocales}
+                onChange={(e) => setIncludeLocales(e.target.value)}
+                placeholder="default, de, fr-ca"
+                className="w-full p-2 border border-gray-300 rounded-lg text-sm focus:ring-2 focus:ring-blue-500 focus:border-transparent outline-none"
+                disabled={loading}
+              />
+            </div>
+            <div>
+              <label htmlFor="exclude-locales" className="block text-xs text-gray-600 mb-1">
+                Exclude (comma separated)
+              </label>
+              <input
+                id="exclude-locales"
+                type="text"
+                value={excludeLocales}
+                onChange={(e) => setExcludeLocales(e.target.value)}
+                placeholder="de-at"
+                className="w-full p-2 border border-gray-300 rounded-lg text-sm focus:ring-2 focus:ring-blue-500 focus:border-transparent outline-none"
+                disabled={loading}
+              />
+            </div>
+          </div>
+          <div className="flex flex-wrap gap-4">
+            {LOCALE_STRATEGIES.map(strategy => (
+              <label key={strategy.value} className="flex items-center space-x-2 text-sm text-gray-700">
+                <input
+                  type="checkbox"
+                  checked={localeStrategies.includes(strategy.value)}
+                  onChange={() => toggleStrategy(strategy.value)}
+                  disabled={loading}
+                  className="h-4 w-4 text-blue-600 border-gray-300 rounded focus:ring-blue-500"
+                />
+                <span>{strategy.label}</span>
+              </label>
+            ))}
+          </div>
+          <p className="text-xs text-gray-500">
+            &quot;default&quot; means pages without a locale marker. Leave include empty to process every locale.
           </p>
         </div>
 
@@ -147,7 +497,7 @@ export default function SitemapScrapeForm() {
 
         <button
           type="submit"
-          disabled={loading || !sitemapUrl.trim()}
+          disabled={loading || (!sitemapUrl.trim() && selectedSitemaps.length === 0)}
           className="w-full p-3 bg-purple-600 hover:bg-purple-700 text-white font-medium rounded-lg disabled:opacity-50 disabled:cursor-not-allowed transition-colors"
         >
           {loading ? (
@@ -165,8 +515,87 @@ export default function SitemapScrapeForm() {
             </span>
           )}
         </button>
+        {loading && (
+          <button
+            type="button"
+            onClick={() => abortRef.current?.abort()}
+            className="w-full p-2 border border-gray-300 text-gray-700 hover:bg-gray-50 text-sm font-medium rounded-lg transition-colors flex items-center justify-center"
+          >
+            <Square className="w-4 h-4 mr-2" />
+            Stop after current batch
+          </button>
+        )}
       </form>
 
+      {/* Live Progress */}
+      {loading && (
+        <div className="p-4 border border-purple-200 rounded-lg space-y-3">
+          <div className="flex items-center justify-between text-sm text-gray-700">
+            <span className="flex items-center">
+              <Clock className="w-4 h-4 mr-2 text-purple-500" />
+              {statusMessage}
+            </span>
+            {progress && (
+              <span className="text-xs text-gray-500">
+                {progress.processed}/{progress.total_urls} URLs
+                {progress.eta_seconds !== null && progress.processed < progress.total_urls && ` · about ${formatDuration(progress.eta_seconds)} left`}
+              </span>
+            )}
+          </div>
+          <div className="w-full h-2 bg-gray-200 rounded-full overflow-hidden">
+            <div
+              className="h-2 bg-purple-600 transition-all duration-300"
+              style={{ width: `${progressPercent}%` }}
+            />
+          </div>
+          {progress && (
+            <div className="flex flex-wrap gap-4 text-xs">
+              <span className="text-green-600">{progress.successful} successful</span>
+              <span className="text-red-600">{progress.failed} failed</span>
+              {progress.skipped > 0 && <span className="text-yellow-600">{progress.skipped} skipped</span>}
+              {progress.blocked_by_robots > 0 && <span className="text-yellow-600">{progress.blocked_by_robots} blocked</span>}
+              <span className="text-gray-500">Batch {progress.current_batch}/{progress.total_batches}</span>
+            </div>
+          )}
+
+          {(liveResults.length > 0 || currentBatchUrls.length > 0) && (
+            <div className="max-h-64 overflow-y-auto border border-gray-200 rounded">
+              <table className="w-full text-xs">
+                <thead className="bg-gray-50 text-gray-600 sticky top-0">
+                  <tr>
+                    <th className="text-left p-2 font-medium">URL</th>
+                    <th className="text-left p-2 font-medium w-24">Status</th>
+                    <th className="text-left p-2 font-medium">Details</th>
+                  </tr>
+                </thead>
+                <tbody>
+                  {currentBatchUrls.map(url => (
+                    <tr key={`pending-${url}`} className="border-t border-gray-100 text-gray-500">
+                      <td className="p-2 truncate max-w-xs">{url}</td>
+                      <td className="p-2">Processing…</td>
+                      <td className="p-2" />
+                    </tr>
+                  ))}
+                  {liveResults.slice().reverse().map((item, index) => (
+                    <tr key={`${index}-${item.url}`} className="border-t border-gray-100">
+                      <td className="p-2 truncate max-w-xs">{item.title || item.url}</td>
+                      <td className={`p-2 ${item.success ? 'text-green-600' : item.blocked_by_robots || item.excluded_by_locale ? 'text-yellow-600' : 'text-red-600'}`}>
+                        {item.success ? 'Stored' : item.blocked_by_robots ? 'Blocked' : item.excluded_by_locale ? 'Skipped' : 'Failed'}
+                      </td>
+                      <td className="p-2 truncate max-w-xs text-gray-600">
+                        {item.success
+                          ? (item.unchanged ? 'Unchanged since last scrape' : `${item.chunks_created} chunks`)
+                          : item.error}
+                      </td>
+                    </tr>
+                  ))}
+                </tbody>
+              </table>
+            </div>
+          )}
+        </div>
+      )}
+
       {error && (
         <div className="p-4 bg-red-50 border border-red-200 text-red-700 rounded-lg">
           <div className="flex">
@@ -183,12 +612,18 @@ export default function SitemapScrapeForm() {
             <div className="flex">
               <CheckCircle className="flex-shrink-0 h-5 w-5 text-blue-400 mr-2" />
               <div className="space-y-1">
-                <p className="font-medium">✅ Sitemap processing completed!</p>
+                <p className="font-medium">{result.cancelled ? 'Sitemap processing stopped early' : '✅ Sitemap processing completed!'}</p>
                 <div className="text-sm space-y-1">
-                  <p>Found {result.summary.english_urls_found} English URLs, processed {result.summary.urls_processed}</p>
+                  <p>Found {result.summary.matching_urls_found} URLs matching the locale policy, processed {result.summary.urls_processed}</p>
+                  {!!result.summary.locale_excluded && (
+                    <p>Excluded by locale: {result.summary.locale_excluded} URLs</p>
+                  )}
                   <p>Success rate: {result.summary.success_rate}% ({result.successful}/{result.total_urls})</p>
                   {result.skipped > 0 && (
-                    <p>Skipped: {result.skipped} URLs (already in database)</p>
+                    <p>Skipped: {result.skipped} URLs (already in database or outside the locale policy)</p>
+                  )}
+                  {!!result.blocked_by_robots && (
+                    <p>Blocked: {result.blocked_by_robots} URLs (disallowed by robots.txt)</p>
                   )}
                   <p>Failed: {result.failed} URLs</p>
                 </div>
@@ -196,6 +631,27 @@ export default function SitemapScrapeForm() {
             </div>
           </div>
 
+          {/* Sitemap Errors */}
+          {result.sitemap_errors && result.sitemap_errors.length > 0 && (
+            <div className="p-4 bg-yellow-50 border border-yellow-200 text-yellow-800 rounded-lg">
+              <div className="flex">
+                <AlertCircle className="flex-shrink-0 h-5 w-5 text-yellow-500 mr-2" />
+                <div className="min-w-0 space-y-1">
+                  <p className="font-medium">
+                    {result.sitemap_errors.length} of {result.summary?.sitemaps_fetched ?? result.sitemap_errors.length} sitemaps could not be fully processed
+                  </p>
+                  <ul className="text-xs space-y-1 max-h-32 overflow-y-auto">
+                    {result.sitemap_errors.map((sitemapError, index) => (
+                      <li key={index} className="truncate">
+                        {sitemapError.sitemap_url}: {sitemapError.error}
+                      </li>
+                    ))}
+                  </ul>
+                </div>
+              </div>
+            </div>
+          )}
+
           {/* Progress Stats */}
           <div className={`grid gap-4 ${result.skipped > 0 ? 'grid-cols-2 md:grid-cols-5' : 'grid-cols-2 md:grid-cols-4'}`}>
             <div className="text-center p-3 bg-green-50 rounded-lg">
@@ -233,12 +689,16 @@ export default function SitemapScrapeForm() {
                     className={`p-3 rounded-lg border text-sm ${
                       item.success
                         ? 'bg-green-50 border-green-200 text-green-700'
-                        : 'bg-red-50 border-red-200 text-red-700'
+                        : item.blocked_by_robots || item.excluded_by_locale
+                          ? 'bg-yellow-50 border-yellow-200 text-yellow-700'
+                          : 'bg-red-50 border-red-200 text-red-700'
                     }`}
                   >
                     <div className="flex items-start space-x-2">
                       {item.success ? (
                         <CheckCircle className="flex-shrink-0 h-4 w-4 mt-0.5" />
+                      ) : item.blocked_by_robots || item.excluded_by_locale ? (
+                        <AlertCircle className="flex-shrink-0 h-4 w-4 mt-0.5" />
                       ) : (
                         <XCircle className="flex-shrink-0 h-4 w-4 mt-0.5" />
                       )}
@@ -249,7 +709,23 @@ export default function SitemapScrapeForm() {
                         <div className="truncate text-xs opacity-75">{item.url}</div>
                         {item.success ? (
                           <div className="text-xs">
-                            Created {item.chunks_created} chunks
+                            {item.unchanged ? 'Unchanged since last scrape' : `Created ${item.chunks_created} chunks`}
+                            {item.locale && ` · ${item.locale}`}
+                            {item.sitemap_issues && item.sitemap_issues.length > 0 && (
+                              <ul className="mt-1 text-yellow-700 space-y-0.5">
+                                {item.sitemap_issues.map((issue, issueIndex) => (
+                                  <li key={issueIndex} className="truncate">Sitemap: {issue.message}</li>
+                                ))}
+                              </ul>
+                            )}
+                          </div>
+                        ) : item.excluded_by_locale ? (
+                          <div className="text-xs">
+                            Outside locale policy: {item.error}
+                          </div>
+                        ) : item.blocked_by_robots ? (
+                          <div className="text-xs">
+                            Blocked by robots.txt: {item.error}
                           </div>
                         ) : (
                           <div className="text-xs">
@@ -278,6 +754,7 @@ export default function SitemapScrapeForm() {
               <li>• Start with a lower max URLs limit to test before processing large amounts</li>
               <li>• Processing time depends on batch size and number of URLs</li>
               <li>• Failed URLs are typically due to access restrictions or invalid content</li>
+              <li>• URLs disallowed by the site&apos;s robots.txt are skipped and listed as blocked</li>
             </ul>
           </div>
         </div>
@@ -0,0 +1,295 @@
+import type { Cheerio, CheerioAPI } from 'cheerio';
+
+export type AccessibilityIssueType =
+  | 'missing_lang'
+  | 'invalid_lang'
+  | 'unlabeled_control'
+  | 'empty_link'
+  | 'empty_button'
+  | 'duplicate_id'
+  | 'heading_skip'
+  | 'missing_landmark'
+  | 'generic_alt'
+  | 'tabindex_misuse';
+
+export interface AccessibilityIssue {
+  type: AccessibilityIssueType;
+  severity: 'error' | 'warning';
+  message: string;
+  element?: string; // Short description of the offending element, e.g. <input type="email" name="email">
+}
+
+export interface AccessibilityAudit {
+  html_lang?: string;
+  landmarks: string[];
+  form_controls_checked: number;
+  links_checked: number;
+  buttons_checked: number;
+  images_checked: number;
+  issue_counts: { [type: string]: number };
+  issues: AccessibilityIssue[];
+}
+
+// Only the first few occurrences of each issue type are kept in the report
+const MAX_ISSUES_PER_TYPE = 20;
+
+// BCP 47 primary language with optional script/region subtags (en, en-US, zh-Hant-TW)
+const LANG_PATTERN = /^[a-z]{2,3}(-[a-z]{4})?(-([a-z]{2}|\d{3}))?(-[a-z0-9]{5,8})*$/i;
+
+const GENERIC_ALT_PATTERN = /^(image|img|photo|photograph|picture|pic|graphic|logo|icon|banner|thumbnail|untitled|placeholder|spacer|alt|default|null|undefined|\d+)$/i;
+const FILENAME_ALT_PATTERN = /(\.(jpe?g|png|gif|webp|svg|avif|bmp|tiff?)$)|^(img|dsc|dcim|screenshot|screen shot)[\s_-]?\d+/i;
+const REDUNDANT_ALT_PATTERN = /^(image|picture|photo|graphic) of\b/i;
+
+const LANDMARK_SELECTOR = [
+  'main', 'nav', 'aside', 'header', 'footer', 'article',
+  '[role="main"]', '[role="navigation"]', '[role="complementary"]', '[role="banner"]',
+  '[role="contentinfo"]', '[role="region"]', '[role="search"]'
+].join(', ');
+
+const FORM_CONTROL_SELECTOR = 'input:not([type="hidden"]):not([type="submit"]):not([type="button"]):not([type="reset"]):not([type="image"]), select, textarea';
+const BUTTON_SELECTOR = 'button, [role="button"], input[type="submit"], input[type="button"], input[type="reset"], input[type="image"]';
+const NATIVELY_FOCUSABLE = 'a[href], button, input, select, textarea, summary, iframe, [contenteditable="true"]';
+
+// Describes an element compactly for issue reports
+function describeElement($el: Cheerio<any>): string {
+  const tagName = ($el.prop('tagName') || '').toLowerCase();
+  const attrs = ['id', 'name', 'type', 'href', 'src', 'class']
+    .map(name => {
+      const value = $el.attr(name);
+      if (!value) return '';
+      const trimmed = value.length > 60 ? `${value.slice(0, 57)}...` : value;
+      return ` ${name}="${trimmed}"`;
+    })
+    .join('');
+  return `<${tagName}${attrs}>`;
+}
+
+function normalizeText(text: string): string {
+  return text.replace(/\s+/g, ' ').trim();
+}
+
+// Attribute selectors need quotes and backslashes escaped
+function escapeAttributeValue(value: string): string {
+  return value.replace(/["\\]/g, '\\$&');
+}
+
+// Accessible name from aria-labelledby, aria-label, title, or contained text / image alt
+function getAccessibleName($: CheerioAPI, $el: Cheerio<any>): string {
+  const labelledBy = $el.attr('aria-labelledby');
+  if (labelledBy) {
+    const text = labelledBy.split(/\s+/)
+      .map(id => normalizeText($(`[id="${escapeAttributeValue(id)}"]`).first().text()))
+      .join(' ')
+      .trim();
+    if (text) return text;
+  }
+
+  const ariaLabel = normalizeText($el.attr('aria-label') || '');
+  if (ariaLabel) return ariaLabel;
+
+  const text = normalizeText($el.text());
+  if (text) return text;
+
+  const imageAlt = $el.find('img[alt], [role="img"][aria-label], svg title').toArray()
+    .map(element => normalizeText($(element).attr('alt') || $(element).attr('aria-label') || $(element).text()))
+    .filter(Boolean)
+    .join(' ');
+  if (imageAlt) return imageAlt;
+
+  return normalizeText($el.attr('title') || '');
+}
+
+function isHidden($el: Cheerio<any>): boolean {
+  return $el.closest('[hidden], [aria-hidden="true"], template, noscript').length > 0 ||
+    /display\s*:\s*none/i.test($el.attr('style') || '');
+}
+
+// Form controls are labelled by ARIA or title, not by their own text content
+function getAccessibleNameForControl($: CheerioAPI, $control: Cheerio<any>): string {
+  const labelledBy = $control.attr('aria-labelledby');
+  if (labelledBy) {
+    const text = labelledBy.split(/\s+/).map(id => normalizeText($(`[id="${escapeAttributeValue(id)}"]`).first().text())).join(' ').trim();
+    if (text) return text;
+  }
+  return normalizeText($control.attr('aria-label') || $control.attr('title') || '');
+}
+
+/**
+ * Audits a parsed page for common WCAG failures that can be detected from static HTML.
+ * Must run on the unmodified document (before boilerplate is stripped).
+ */
+export function auditAccessibility($: CheerioAPI): AccessibilityAudit {
+  const issues: AccessibilityIssue[] = [];
+  const issueCounts: { [type: string]: number } = {};
+
+  const report = (type: AccessibilityIssueType, severity: 'error' | 'warning', message: string, $el?: Cheerio<any>) => {
+    issueCounts[type] = (issueCounts[type] || 0) + 1;
+    if (issueCounts[type] <= MAX_ISSUES_PER_TYPE) {
+      issues.push({ type, severity, message, element: $el ? describeElement($el) : undefined });
+    }
+  };
+
+  // 1. Document language
+  const htmlLang = normalizeText($('html').attr('lang') || $('html').attr('xml:lang') || '');
+  if (!htmlLang) {
+    report('missing_lang', 'error', '<html> element has no lang attribute; screen readers cannot pick the right pronunciation.');
+  } else if (!LANG_PATTERN.test(htmlLang)) {
+    report('invalid_lang', 'error', `<html lang="${htmlLang}"> is not a valid BCP 47 language tag.`);
+  }
+
+  // 2. Form controls without labels
+  const $controls = $(FORM_CONTROL_SELECTOR).filter((_, element) => !isHidden($(element)));
+  $controls.each((_, element) => {
+    const $control = $(element);
+    const id = $control.attr('id');
+    const hasLabel =
+      !!getAccessibleNameForControl($, $control) ||
+      (!!id && normalizeText($(`label[for="${escapeAttributeValue(id)}"]`).first().text()) !== '') ||
+      normalizeText($control.closest('label').text()) !== '';
+
+    if (!hasLabel) {
+      const usesPlaceholder = !!normalizeText($control.attr('placeholder') || '');
+      report(
+        'unlabeled_control',
+        'error',
+        usesPlaceholder
+          ? 'Form control relies on placeholder text only; add a <label> or aria-label.'
+          : 'Form control has no label; add a <label for>, aria-label or aria-labelledby.',
+        $control
+      );
+    }
+  });
+
+  // 3. Empty links and buttons
+  const $links = $('a[href]').filter((_, element) => !isHidden($(element)));
+  $links.each((_, element) => {
+    const $link = $(element);
+    if (!getAccessibleName($, $link)) {
+      report('empty_link', 'error', 'Link has no accessible name (no text, image alt or aria-label).', $link);
+    }
+  });
+
+  const $buttons = $(BUTTON_SELECTOR).filter((_, element) => !isHidden($(element)));
+  $buttons.each((_, element) => {
+    const $button = $(element);
+    const isInput = ($button.prop('tagName') || '').toLowerCase() === 'input';
+    const inputType = ($button.attr('type') || '').toLowerCase();
+    // Submit and reset inputs get a default label from the browser
+    const name = isInput
+      ? normalizeText($button.attr('value') || $button.attr('aria-label') || $button.attr('alt') || $button.attr('title') || '') ||
+        (inputType === 'submit' || inputType === 'reset' ? inputType : '')
+      : getAccessibleName($, $button);
+
+    if (!name) {
+      report('empty_button', 'error', 'Button has no accessible name; add text or an aria-label.', $button);
+    }
+  });
+
+  // 4. Duplicate IDs
+  const idCounts = new Map<string, number>();
+  $('[id]').each((_, element) => {
+    const id = $(element).attr('id') || '';
+    if (id) idCounts.set(id, (idCounts.get(id) || 0) + 1);
+  });
+  idCounts.forEach((count, id) => {
+    if (count > 1) {
+      report('duplicate_id', 'error', `id="${id}" is used ${count} times; IDs must be unique for labels and ARIA references to work.`);
+    }
+  });
+
+  // 5. Heading-level skips, evaluated within each landmark
+  const headingsByLandmark = new Map<any, { level: number; text: string; $el: Cheerio<any> }[]>();
+  $('h1, h2, h3, h4, h5, h6').each((_, element) => {
+    const $heading = $(element);
+    if (isHidden($heading)) return;
+    const landmark = $heading.closest(LANDMARK_SELECTOR).get(0) || 'document';
+    if (!headingsByLandmark.has(landmark)) headingsByLandmark.set(landmark, []);
+    headingsByLandmark.get(landmark)!.push({
+      level: parseInt(($heading.prop('tagName') || 'h1').charAt(1), 10),
+      text: normalizeText($heading.text()).slice(0, 60),
+      $el: $heading
+    });
+  });
+  headingsByLandmark.forEach(headings => {
+    for (let i = 1; i < headings.length; i++) {
+      const previous = headings[i - 1];
+      const current = headings[i];
+      if (current.level > previous.level + 1) {
+        report(
+          'heading_skip',
+          'warning',
+          `Heading level jumps from H${previous.level} to H${current.level} ("${current.text}"); don't skip levels.`,
+          current.$el
+        );
+      }
+    }
+  });
+
+  // 6. Landmarks
+  const landmarks: string[] = [];
+  const landmarkChecks: { name: string; selector: string }[] = [
+    { name: 'main', selector: 'main, [role="main"]' },
+    { name: 'navigation', selector: 'nav, [role="navigation"]' },
+    { name: 'banner', selector: 'body > header, [role="banner"]' },
+    { name: 'contentinfo', selector: 'body > footer, [role="contentinfo"]' }
+  ];
+  landmarkChecks.forEach(check => {
+    if ($(check.selector).length > 0) landmarks.push(check.name);
+  });
+
+  const mainCount = $('main, [role="main"]').filter((_, element) => !isHidden($(element))).length;
+  if (mainCount === 0) {
+    report('missing_landmark', 'error', 'Page has no <main> landmark; screen reader users cannot jump to the content.');
+  } else if (mainCount > 1) {
+    report('missing_landmark', 'warning', `Page has ${mainCount} visible <main> landmarks; use exactly one.`);
+  }
+  if (!landmarks.includes('navigation') && $links.length > 5) {
+    report('missing_landmark', 'warning', 'Page has no <nav> landmark; wrap primary navigation in <nav>.');
+  }
+
+  // 7. Generic or file-name alt text
+  const $images = $('img[alt]');
+  $images.each((_, element) => {
+    const $img = $(element);
+    const alt = normalizeText($img.attr('alt') || '');
+    if (!alt) return; // Empty alt is valid for decorative images
+
+    const srcFile = ($img.attr('src') || '').split(/[?#]/)[0].split('/').pop() || '';
+    if (GENERIC_ALT_PATTERN.test(alt) || FILENAME_ALT_PATTERN.test(alt) || (srcFile && alt.toLowerCase() === srcFile.toLowerCase())) {
+      report('generic_alt', 'warning', `Alt text "${alt}" doesn't describe the image.`, $img);
+    } else if (REDUNDANT_ALT_PATTERN.test(alt)) {
+      report('generic_alt', 'warning', `Alt text "${alt}" starts with a redundant phrase; screen readers already announce images.`, $img);
+    }
+  });
+
+  // 8. Tabindex misuse
+  $('[tabindex]').each((_, element) => {
+    const $el = $(element);
+    const tabindex = parseInt($el.attr('tabindex') || '', 10);
+    if (isNaN(tabindex)) return;
+
+    if (tabindex > 0) {
+      report('tabindex_misuse', 'error', `tabindex="${tabindex}" overrides the natural tab order; use 0 or -1.`, $el);
+    } else if (tabindex === 0 && !$el.is(NATIVELY_FOCUSABLE) && !$el.attr('role')) {
+      report('tabindex_misuse', 'warning', 'Non-interactive element is focusable (tabindex="0") but has no role.', $el);
+    }
+  });
+  $('[aria-hidden="true"]').each((_, element) => {
+    const $hidden = $(element);
+    const $focusable = $hidden.find(NATIVELY_FOCUSABLE).filter((_, child) => $(child).attr('tabindex') !== '-1');
+    if ($focusable.length > 0) {
+      report('tabindex_misuse', 'error', 'aria-hidden region contains focusable elements; keyboard users can reach invisible controls.', $hidden);
+    }
+  });
+
+  return {
+    html_lang: htmlLang || undefined,
+    landmarks,
+    form_controls_checked: $controls.length,
+    links_checked: $links.length,
+    buttons_checked: $buttons.length,
+    images_checked: $images.length,
+    issue_counts: issueCounts,
+    issues
+  };
+}
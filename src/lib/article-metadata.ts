@@ -0,0 +1,320 @@
+import type { CheerioAPI } from 'cheerio';
+import type { StructuredDataEntity, StructuredDataExtraction, StructuredDataValue } from './structured-data';
+
+export type ArticleMetadataSource = 'structured_data' | 'meta' | 'time' | 'byline' | 'html';
+
+export interface BreadcrumbItem {
+  name: string;
+  url?: string;
+  position: number;
+}
+
+export interface ArticleMetadata {
+  authors: string[];
+  published_at?: string; // ISO 8601
+  modified_at?: string;  // ISO 8601
+  breadcrumbs: BreadcrumbItem[];
+  sources: {
+    authors?: ArticleMetadataSource;
+    published_at?: ArticleMetadataSource;
+    modified_at?: ArticleMetadataSource;
+    breadcrumbs?: ArticleMetadataSource;
+  };
+}
+
+const ARTICLE_TYPES = ['Article', 'NewsArticle', 'BlogPosting', 'TechArticle', 'ScholarlyArticle', 'Report', 'WebPage', 'AboutPage', 'CollectionPage', 'ItemPage'];
+
+const PUBLISHED_META_SELECTORS = [
+  'meta[property="article:published_time"]',
+  'meta[property="og:published_time"]',
+  'meta[name="parsely-pub-date"]',
+  'meta[name="publish-date"]',
+  'meta[name="publish_date"]',
+  'meta[name="date"]',
+  'meta[name="dc.date"]',
+  'meta[name="DC.date.issued"]'
+];
+
+const MODIFIED_META_SELECTORS = [
+  'meta[property="article:modified_time"]',
+  'meta[property="og:updated_time"]',
+  'meta[name="last-modified"]',
+  'meta[name="dc.date.modified"]'
+];
+
+const AUTHOR_META_SELECTORS = [
+  'meta[name="author"]',
+  'meta[property="article:author"]',
+  'meta[name="parsely-author"]',
+  'meta[name="sailthru.author"]',
+  'meta[name="dc.creator"]'
+];
+
+const BYLINE_SELECTORS = [
+  '[rel="author"]',
+  '[itemprop="author"]',
+  '.author-name',
+  '.post-author',
+  '.entry-author',
+  '.byline .author',
+  '.byline',
+  '.author'
+];
+
+const BREADCRUMB_SELECTORS = [
+  'nav[aria-label*="breadcrumb" i]',
+  '.breadcrumbs',
+  '.breadcrumb',
+  '#breadcrumbs',
+  '.yoast-breadcrumbs'
+];
+
+// Bylines longer than this are almost certainly a bio or a whole paragraph
+const MAX_AUTHOR_LENGTH = 80;
+
+/**
+ * Parses a date string into ISO 8601, or undefined when it isn't a usable date
+ */
+export function normalizeDate(value: string | undefined): string | undefined {
+  if (!value || !value.trim()) return undefined;
+  const date = new Date(value.trim());
+  if (isNaN(date.getTime())) return undefined;
+  // Reject obviously bogus years (epoch defaults, typos)
+  const year = date.getUTCFullYear();
+  if (year < 1995 || year > new Date().getUTCFullYear() + 1) return undefined;
+  return date.toISOString();
+}
+
+/**
+ * Cleans a byline into an author name: strips "By", dates after a separator, and whitespace
+ */
+export function cleanAuthorName(value: string): string | undefined {
+  const name = value
+    .replace(/\s+/g, ' ')
+    .replace(/^\s*(written\s+)?by[:\s]+/i, '')
+    .split(/\s+[|•·–—]\s+|\s+on\s+\w+\s+\d/)[0]
+    .trim();
+
+  if (!name || name.length > MAX_AUTHOR_LENGTH) return undefined;
+  // URLs (e.g. article:author pointing at a profile) are not names
+  if (/^https?:\/\//i.test(name)) return undefined;
+  return name;
+}
+
+function resolveUrl(href: string, baseUrl: string): string | undefined {
+  try {
+    return new URL(href, baseUrl).href;
+  } catch {
+    return undefined;
+  }
+}
+
+function uniqueNames(names: (string | undefined)[]): string[] {
+  const seen = new Set<string>();
+  const result: string[] = [];
+  names.forEach(name => {
+    if (!name) return;
+    const key = name.toLowerCase();
+    if (seen.has(key)) return;
+    seen.add(key);
+    result.push(name);
+  });
+  return result;
+}
+
+// Structured data helpers
+
+function isEntity(value: StructuredDataValue | undefined): value is StructuredDataEntity {
+  return typeof value === 'object' && value !== null;
+}
+
+function firstText(entity: StructuredDataEntity, property: string): string | undefined {
+  const value = (entity.properties[property] || []).find(v => !isEntity(v));
+  return value !== undefined ? String(value).trim() || undefined : undefined;
+}
+
+// Visits every entity, including nested ones such as WebPage.breadcrumb
+function walkEntities(entities: StructuredDataEntity[], visit: (entity: StructuredDataEntity) => void) {
+  const walk = (entity: StructuredDataEntity) => {
+    visit(entity);
+    Object.keys(entity.properties).forEach(key => {
+      entity.properties[key].forEach(value => {
+        if (isEntity(value)) walk(value);
+      });
+    });
+  };
+  entities.forEach(walk);
+}
+
+function buildIdIndex(entities: StructuredDataEntity[]): Map<string, StructuredDataEntity> {
+  const index = new Map<string, StructuredDataEntity>();
+  walkEntities(entities, entity => {
+    if (entity.id && Object.keys(entity.properties).length > 0) index.set(entity.id, entity);
+  });
+  return index;
+}
+
+function getAuthorNames(entity: StructuredDataEntity, index: Map<string, StructuredDataEntity>): string[] {
+  return (entity.properties.author || []).map(author => {
+    if (!isEntity(author)) return cleanAuthorName(String(author));
+    const resolved = author.id && Object.keys(author.properties).length === 0 ? index.get(author.id) || author : author;
+    const name = firstText(resolved, 'name');
+    return name ? cleanAuthorName(name) : undefined;
+  }).filter((name): name is string => !!name);
+}
+
+function getBreadcrumbsFromEntity(entity: StructuredDataEntity): BreadcrumbItem[] {
+  return (entity.properties.itemListElement || [])
+    .filter(isEntity)
+    .map((item, i) => {
+      const target = (item.properties.item || [])[0];
+      const name = firstText(item, 'name') || (isEntity(target) ? firstText(target, 'name') : undefined);
+      const url = isEntity(target) ? target.id || firstText(target, 'url') : target !== undefined ? String(target) : undefined;
+      const position = Number(firstText(item, 'position'));
+      return {
+        name: name || '',
+        url: url || undefined,
+        position: isNaN(position) ? i + 1 : position
+      };
+    })
+    .filter(item => item.name)
+    .sort((a, b) => a.position - b.position);
+}
+
+/**
+ * Extracts author, publish/modified dates and breadcrumbs from a page.
+ * Structured data wins over meta tags, which win over <time> elements and visible bylines.
+ */
+export function extractArticleMetadata(
+  $: CheerioAPI,
+  baseUrl: string,
+  structuredData?: StructuredDataExtraction
+): ArticleMetadata {
+  const metadata: ArticleMetadata = { authors: [], breadcrumbs: [], sources: {} };
+  const entities = structuredData?.entities || [];
+  const index = buildIdIndex(entities);
+
+  // 1. Structured data (JSON-LD, Microdata, RDFa)
+  walkEntities(entities, entity => {
+    const isArticle = entity.types.some(type => ARTICLE_TYPES.includes(type));
+
+    if (isArticle) {
+      if (metadata.authors.length === 0) {
+        const authors = uniqueNames(getAuthorNames(entity, index));
+        if (authors.length > 0) {
+          metadata.authors = authors;
+          metadata.sources.authors = 'structured_data';
+        }
+      }
+      if (!metadata.published_at) {
+        metadata.published_at = normalizeDate(firstText(entity, 'datePublished'));
+        if (metadata.published_at) metadata.sources.published_at = 'structured_data';
+      }
+      if (!metadata.modified_at) {
+        metadata.modified_at = normalizeDate(firstText(entity, 'dateModified'));
+        if (metadata.modified_at) metadata.sources.modified_at = 'structured_data';
+      }
+    }
+
+    if (metadata.breadcrumbs.length === 0 && entity.types.includes('BreadcrumbList')) {
+      metadata.breadcrumbs = getBreadcrumbsFromEntity(entity);
+      if (metadata.breadcrumbs.length > 0) metadata.sources.breadcrumbs = 'structured_data';
+    }
+  });
+
+  // 2. Meta tags
+  const firstMeta = (selectors: string[]) => {
+    for (const selector of selectors) {
+      const content = $(selector).first().attr('content');
+      if (content && content.trim()) return content;
+    }
+    return undefined;
+  };
+
+  if (!metadata.published_at) {
+    metadata.published_at = normalizeDate(firstMeta(PUBLISHED_META_SELECTORS));
+    if (metadata.published_at) metadata.sources.published_at = 'meta';
+  }
+  if (!metadata.modified_at) {
+    metadata.modified_at = normalizeDate(firstMeta(MODIFIED_META_SELECTORS));
+    if (metadata.modified_at) metadata.sources.modified_at = 'meta';
+  }
+  if (metadata.authors.length === 0) {
+    const metaAuthors: (string | undefined)[] = [];
+    AUTHOR_META_SELECTORS.forEach(selector => {
+      $(selector).each((_, element) => {
+        metaAuthors.push(cleanAuthorName($(element).attr('content') || ''));
+      });
+    });
+    // Yoast exposes the author as a Twitter label/data pair
+    if (/written by/i.test($('meta[name="twitter:label1"]').attr('content') || '')) {
+      metaAuthors.push(cleanAuthorName($('meta[name="twitter:data1"]').attr('content') || ''));
+    }
+    metadata.authors = uniqueNames(metaAuthors);
+    if (metadata.authors.length > 0) metadata.sources.authors = 'meta';
+  }
+
+  // 3. <time> elements, classified by their class names or itemprop
+  if (!metadata.published_at || !metadata.modified_at) {
+    $('time[datetime]').each((_, element) => {
+      const $time = $(element);
+      const hint = `${$time.attr('class') || ''} ${$time.attr('itemprop') || ''} ${$time.parent().attr('class') || ''}`.toLowerCase();
+      const date = normalizeDate($time.attr('datetime'));
+      if (!date) return;
+
+      if (/updated|modified/.test(hint)) {
+        if (!metadata.modified_at) {
+          metadata.modified_at = date;
+          metadata.sources.modified_at = 'time';
+        }
+      } else if (!metadata.published_at && (/publish|posted|date|entry/.test(hint) || $time.is('[pubdate]') || $time.closest('article, main').length > 0)) {
+        metadata.published_at = date;
+        metadata.sources.published_at = 'time';
+      }
+    });
+  }
+
+  // 4. Visible bylines
+  if (metadata.authors.length === 0) {
+    for (const selector of BYLINE_SELECTORS) {
+      const names = uniqueNames($(selector).toArray().map(element => cleanAuthorName($(element).text())));
+      if (names.length > 0) {
+        metadata.authors = names.slice(0, 5);
+        metadata.sources.authors = 'byline';
+        break;
+      }
+    }
+  }
+
+  // 5. Breadcrumb navigation markup
+  if (metadata.breadcrumbs.length === 0) {
+    for (const selector of BREADCRUMB_SELECTORS) {
+      const $trail = $(selector).first();
+      if ($trail.length === 0) continue;
+
+      const $items = $trail.find('li').length > 0 ? $trail.find('li') : $trail.find('a, span[aria-current]');
+      const breadcrumbs: BreadcrumbItem[] = [];
+      $items.each((_, element) => {
+        const $item = $(element);
+        const name = $item.text().replace(/\s+/g, ' ').trim();
+        if (!name || name.length > 120) return;
+        const href = $item.is('a') ? $item.attr('href') : $item.find('a').first().attr('href');
+        breadcrumbs.push({ name, url: href || undefined, position: breadcrumbs.length + 1 });
+      });
+
+      if (breadcrumbs.length > 0) {
+        metadata.breadcrumbs = breadcrumbs;
+        metadata.sources.breadcrumbs = 'html';
+        break;
+      }
+    }
+  }
+
+  // Breadcrumb URLs are stored absolute
+  metadata.breadcrumbs = metadata.breadcrumbs.map(item => ({
+    ...item,
+    url: item.url ? resolveUrl(item.url, baseUrl) : undefined
+  }));
+
+  return metadata;
+}
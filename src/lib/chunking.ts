@@ -1,3 +1,6 @@
+import { type ContentBlock } from './content-extraction';
+import type { ScrapedContent } from './scraper';
+
 export interface ChunkOptions {
   maxLength?: number;
   overlap?: number;
@@ -18,9 +21,10 @@ export function chunkContent(
     return [];
   }
   
-  // Split by sentences first, keeping the sentence endings
+  // Split by paragraphs, then by sentences, keeping the sentence endings
   const sentences = text
-    .split(/(?<=[.!?])\s+/)
+    .split(/\n\s*\n/)
+    .flatMap(paragraph => paragraph.split(/(?<=[.!?])\s+/))
     .filter(sentence => sentence.trim().length > 0);
   
   if (sentences.length === 0) {
@@ -77,6 +81,71 @@ export function chunkContent(
   return chunks;
 }
 
+/**
+ * Chunks extracted content blocks. Each heading starts a new section so chunks
+ * follow the page structure; small sections are merged and oversized ones are
+ * split with chunkContent.
+ */
+export function chunkContentBlocks(
+  blocks: ContentBlock[],
+  options: ChunkOptions = {}
+): string[] {
+  const {
+    maxLength = 1000,
+    minChunkLength = 100
+  } = options;
+  
+  // Group blocks into sections that start at each heading
+  const sections: string[] = [];
+  let currentSection: string[] = [];
+  
+  for (const block of blocks) {
+    if (block.type === 'heading' && currentSection.length > 0) {
+      sections.push(currentSection.join('\n\n'));
+      currentSection = [];
+    }
+    currentSection.push(block.text);
+  }
+  if (currentSection.length > 0) {
+    sections.push(currentSection.join('\n\n'));
+  }
+  
+  const chunks: string[] = [];
+  let buffer = '';
+  
+  for (const section of sections) {
+    // Flush once the next section would overflow, unless the buffer is still too small to keep
+    if (buffer && buffer.length + section.length + 2 > maxLength && buffer.length >= minChunkLength) {
+      chunks.push(...chunkContent(buffer, options));
+      buffer = '';
+    }
+    buffer = buffer ? `${buffer}\n\n${section}` : section;
+  }
+  
+  if (buffer) {
+    const finalChunks = chunkContent(buffer, options);
+    // A short trailing section is appended to the previous chunk rather than dropped
+    if (buffer.trim().length < minChunkLength && chunks.length > 0) {
+      chunks[chunks.length - 1] = `${chunks[chunks.length - 1]}\n\n${buffer.trim()}`;
+    } else {
+      chunks.push(...finalChunks);
+    }
+  }
+  
+  return chunks;
+}
+
+/**
+ * Chunks a scraped page for storage: by its content blocks when extraction produced
+ * them, otherwise from the flat content text.
+ */
+export function chunkScrapedContent(scrapedContent: Pick<ScrapedContent, 'content' | 'blocks'>): string[] {
+  const chunkOptions = { maxLength: 500, overlap: 50 };
+  return scrapedContent.blocks && scrapedContent.blocks.length > 0
+    ? chunkContentBlocks(scrapedContent.blocks, chunkOptions)
+    : chunkContent(scrapedContent.content, chunkOptions);
+}
+
 function getOverlapText(text: string, overlapLength: number): string {
   if (!text || overlapLength <= 0) {
     return '';
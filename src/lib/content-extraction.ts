@@ -0,0 +1,431 @@
+import * as cheerio from 'cheerio';
+import type { Cheerio, CheerioAPI } from 'cheerio';
+
+export type ContentBlockType =
+  | 'heading'
+  | 'paragraph'
+  | 'list_item'
+  | 'table_cell'
+  | 'blockquote'
+  | 'preformatted'
+  | 'caption';
+
+export interface ContentBlock {
+  type: ContentBlockType;
+  text: string;
+  level?: number; // Heading level (1-6) for heading blocks
+}
+
+export interface ContentSelectorOverride {
+  content?: string;     // CSS selector for the main content element
+  exclude?: string[];   // CSS selectors removed before extraction (cookie banners, promos...)
+}
+
+export interface MainContentResult {
+  $root: Cheerio<any>;
+  method: 'override' | 'scored' | 'fallback';
+  selector?: string;
+  boilerplate_ratio: number; // Share of page text outside the main content (0-1)
+  confidence: number;        // How clearly the main content stood out (0-1)
+}
+
+// Class/id patterns for elements that are almost never main content (after Readability)
+const UNLIKELY_CANDIDATES = /-ad-|ai2html|banner|breadcrumb|combx|comment|community|consent|cookie|cover-wrap|disqus|extra|footer|gdpr|header|legends|menu|modal|newsletter|related|remark|replies|rss|shoutbox|sidebar|skyscraper|social|sponsor|supplemental|popup|share|subscribe|tweet|twitter|mega-?nav|navbar/i;
+const MAYBE_CANDIDATE = /and|article|body|column|content|main|shadow|post|entry|story|text/i;
+const POSITIVE_CLASS = /article|body|content|entry|hentry|h-entry|main|page|pagination|post|text|blog|story/i;
+const NEGATIVE_CLASS = /-ad-|hidden|^hid$| hid$| hid |^hid |banner|combx|comment|com-|contact|cookie|footer|gdpr|masthead|media|meta|modal|outbrain|promo|related|scroll|share|shoutbox|sidebar|skyscraper|sponsor|shopping|tags|widget|menu|nav/i;
+
+// Landmark roles that mark boilerplate regions
+const BOILERPLATE_SELECTOR = [
+  'nav', 'footer', 'aside', 'dialog', 'form',
+  '[role="navigation"]', '[role="banner"]', '[role="contentinfo"]', '[role="complementary"]',
+  '[role="dialog"]', '[role="alertdialog"]', '[aria-modal="true"]', '[hidden]', '[aria-hidden="true"]'
+].join(', ');
+
+const SCORABLE_SELECTOR = 'p, pre, td, blockquote, li, h2, h3, div, section';
+
+// Below this many characters the scored candidate is not trusted
+const MIN_CONTENT_LENGTH = 200;
+
+const FALLBACK_CONTENT_SELECTOR = 'article, main, .content, #content, .post, .entry';
+
+// Per-site overrides keyed by hostname, e.g.
+// CONTENT_SELECTOR_OVERRIDES='{"www.example.com":{"content":".article-body","exclude":[".promo"]}}'
+function loadSelectorOverrides(): { [hostname: string]: ContentSelectorOverride } {
+  if (!process.env.CONTENT_SELECTOR_OVERRIDES) return {};
+  let parsed: { [hostname: string]: ContentSelectorOverride };
+  try {
+    parsed = JSON.parse(process.env.CONTENT_SELECTOR_OVERRIDES);
+  } catch (error) {
+    console.warn('Invalid CONTENT_SELECTOR_OVERRIDES JSON, ignoring:', error);
+    return {};
+  }
+
+  // A selector that doesn't parse would otherwise throw on every scrape of the site
+  const $ = cheerio.load('');
+  const overrides: { [hostname: string]: ContentSelectorOverride } = {};
+  Object.keys(parsed || {}).forEach(hostname => {
+    const override = parsed[hostname];
+    const selectors = [override?.content, ...(Array.isArray(override?.exclude) ? override.exclude : [])]
+      .filter((selector): selector is string => selector !== undefined);
+    try {
+      selectors.forEach(selector => $(selector));
+      overrides[hostname] = override;
+    } catch (error) {
+      console.warn(`Invalid content selector override for ${hostname}, ignoring:`, error);
+    }
+  });
+  return overrides;
+}
+
+const selectorOverrides = loadSelectorOverrides();
+
+/**
+ * Returns the configured content selector override for a hostname, if any
+ */
+export function getContentSelectorOverride(hostname: string): ContentSelectorOverride | undefined {
+  return selectorOverrides[hostname] || selectorOverrides[hostname.replace(/^www\./, '')];
+}
+
+// Elements that map directly to a content block
+const LEAF_BLOCK_TYPES: { [tag: string]: ContentBlockType } = {
+  h1: 'heading', h2: 'heading', h3: 'heading', h4: 'heading', h5: 'heading', h6: 'heading',
+  p: 'paragraph',
+  li: 'list_item',
+  dt: 'list_item',
+  dd: 'list_item',
+  td: 'table_cell',
+  th: 'table_cell',
+  blockquote: 'blockquote',
+  pre: 'preformatted',
+  figcaption: 'caption',
+  caption: 'caption'
+};
+
+// Block-level containers: inline text on either side of them forms separate blocks
+const BLOCK_CONTAINERS = new Set([
+  'address', 'article', 'aside', 'body', 'details', 'dialog', 'div', 'dl', 'fieldset', 'figure',
+  'footer', 'form', 'header', 'hgroup', 'hr', 'main', 'nav', 'ol', 'section', 'summary', 'table',
+  'tbody', 'tfoot', 'thead', 'tr', 'ul'
+]);
+
+// Elements whose text never belongs to the readable content
+const IGNORED_TAGS = new Set(['script', 'style', 'noscript', 'template', 'svg', 'iframe', 'object', 'head']);
+
+const NESTED_BLOCK_SELECTOR = [...Object.keys(LEAF_BLOCK_TYPES), 'div', 'section', 'article', 'table', 'ul', 'ol'].join(', ');
+
+function normalizeText(text: string): string {
+  return text.replace(/\s+/g, ' ').trim();
+}
+
+/**
+ * Walks the DOM under a root element and returns its readable text as an
+ * ordered list of blocks (headings, paragraphs, list items, table cells...).
+ * Bare text sitting directly inside containers becomes a paragraph block.
+ */
+export function extractContentBlocks($: CheerioAPI, $root: Cheerio<any>): ContentBlock[] {
+  const blocks: ContentBlock[] = [];
+  let inlineBuffer = '';
+
+  const flushInline = () => {
+    const text = normalizeText(inlineBuffer);
+    if (text) {
+      blocks.push({ type: 'paragraph', text });
+    }
+    inlineBuffer = '';
+  };
+
+  const walk = ($element: Cheerio<any>) => {
+    $element.contents().each((_, node) => {
+      if (node.type === 'text') {
+        inlineBuffer += node.data;
+        return;
+      }
+
+      if (node.type !== 'tag') return;
+
+      const tagName = node.name.toLowerCase();
+      if (IGNORED_TAGS.has(tagName)) return;
+
+      if (tagName === 'br') {
+        inlineBuffer += ' ';
+        return;
+      }
+
+      const $node = $(node);
+      const blockType = LEAF_BLOCK_TYPES[tagName];
+
+      if (blockType) {
+        flushInline();
+
+        // Leaf blocks wrapping other blocks (e.g. <li><p>..</p></li>) are descended into
+        if ($node.find(NESTED_BLOCK_SELECTOR).length > 0 && blockType !== 'heading') {
+          walk($node);
+          flushInline();
+          return;
+        }
+
+        const text = normalizeText(getBlockText($, $node));
+        if (text) {
+          blocks.push(
+            blockType === 'heading'
+              ? { type: 'heading', text, level: parseInt(tagName.charAt(1)) }
+              : { type: blockType, text }
+          );
+        }
+        return;
+      }
+
+      if (BLOCK_CONTAINERS.has(tagName)) {
+        flushInline();
+        walk($node);
+        flushInline();
+        return;
+      }
+
+      // Inline element (span, a, strong...): keep accumulating text
+      walk($node);
+    });
+  };
+
+  walk($root);
+  flushInline();
+
+  return blocks;
+}
+
+// Text of a block with ignored elements removed and <br> treated as whitespace
+function getBlockText($: CheerioAPI, $block: Cheerio<any>): string {
+  const $clone = $block.clone();
+  $clone.find(Array.from(IGNORED_TAGS).join(', ')).remove();
+  $clone.find('br').replaceWith(' ');
+  return $clone.text();
+}
+
+/**
+ * Derives plain text from blocks, separating blocks with blank lines so
+ * paragraph boundaries survive for downstream analysis
+ */
+export function blocksToText(blocks: ContentBlock[]): string {
+  return blocks.map(block => block.text).join('\n\n');
+}
+
+/**
+ * Blocks that count as prose paragraphs for content-quality metrics
+ */
+export function getParagraphBlocks(blocks: ContentBlock[]): ContentBlock[] {
+  return blocks.filter(block =>
+    block.type === 'paragraph' ||
+    block.type === 'list_item' ||
+    block.type === 'blockquote' ||
+    block.type === 'preformatted'
+  );
+}
+
+function getClassWeight($element: Cheerio<any>): number {
+  let weight = 0;
+  const className = $element.attr('class') || '';
+  const id = $element.attr('id') || '';
+
+  if (className) {
+    if (NEGATIVE_CLASS.test(className)) weight -= 25;
+    if (POSITIVE_CLASS.test(className)) weight += 25;
+  }
+  if (id) {
+    if (NEGATIVE_CLASS.test(id)) weight -= 25;
+    if (POSITIVE_CLASS.test(id)) weight += 25;
+  }
+
+  return weight;
+}
+
+function getTagWeight(tagName: string): number {
+  switch (tagName) {
+    case 'article':
+    case 'main':
+      return 10;
+    case 'div':
+    case 'section':
+      return 5;
+    case 'pre':
+    case 'td':
+    case 'blockquote':
+      return 3;
+    case 'address':
+    case 'ol':
+    case 'ul':
+    case 'dl':
+    case 'dd':
+    case 'dt':
+    case 'li':
+    case 'form':
+      return -3;
+    case 'h1':
+    case 'h2':
+    case 'h3':
+    case 'h4':
+    case 'h5':
+    case 'h6':
+    case 'th':
+      return -5;
+    default:
+      return 0;
+  }
+}
+
+/**
+ * Share of an element's text that sits inside links (0-1)
+ */
+export function getLinkDensity($: CheerioAPI, $element: Cheerio<any>): number {
+  const textLength = normalizeText($element.text()).length;
+  if (textLength === 0) return 0;
+
+  let linkLength = 0;
+  $element.find('a').each((_, link) => {
+    linkLength += normalizeText($(link).text()).length;
+  });
+
+  return Math.min(1, linkLength / textLength);
+}
+
+/**
+ * Picks the main content element of a page by scoring text density and link
+ * density (Readability-style). Boilerplate such as navigation, cookie banners
+ * and mega-menus is pruned first. A per-site CSS override takes precedence.
+ * Note: mutates the given document by removing boilerplate elements.
+ */
+export function selectMainContent(
+  $: CheerioAPI,
+  override?: ContentSelectorOverride
+): MainContentResult {
+  $('script, style, noscript, template, svg, iframe').remove();
+  const totalTextLength = Math.max(normalizeText($('body').text()).length, 1);
+
+  const boilerplateRatio = ($root: Cheerio<any>) => {
+    const mainLength = normalizeText($root.text()).length;
+    return Math.round(Math.max(0, Math.min(1, 1 - mainLength / totalTextLength)) * 1000) / 1000;
+  };
+
+  try {
+    if (override?.exclude && override.exclude.length > 0) {
+      $(override.exclude.join(', ')).remove();
+    }
+
+    if (override?.content) {
+      const $override = $(override.content).first();
+      if ($override.length > 0) {
+        return {
+          $root: $override,
+          method: 'override',
+          selector: override.content,
+          boilerplate_ratio: boilerplateRatio($override),
+          confidence: 1
+        };
+      }
+      console.warn(`Content selector override "${override.content}" matched nothing, falling back to scoring`);
+    }
+  } catch (error) {
+    console.warn('Invalid content selector override, falling back to scoring:', error);
+  }
+
+  // Prune landmark boilerplate and unlikely candidates
+  $(BOILERPLATE_SELECTOR).remove();
+  $('body *').each((_, element) => {
+    const $element = $(element);
+    const tagName = element.tagName.toLowerCase();
+    if (tagName === 'body' || tagName === 'html' || tagName === 'article' || tagName === 'main') return;
+
+    const matchString = `${$element.attr('class') || ''} ${$element.attr('id') || ''}`;
+    if (UNLIKELY_CANDIDATES.test(matchString) && !MAYBE_CANDIDATE.test(matchString)) {
+      $element.remove();
+    }
+  });
+
+  // Score paragraphs and propagate to their ancestors
+  const scores = new Map<any, number>();
+  const initializeCandidate = (element: any) => {
+    if (!scores.has(element)) {
+      const $element = $(element);
+      scores.set(element, getTagWeight(element.tagName.toLowerCase()) + getClassWeight($element));
+    }
+  };
+
+  $(SCORABLE_SELECTOR).each((_, element) => {
+    const $element = $(element);
+    const tagName = element.tagName.toLowerCase();
+
+    // Only score divs/sections that hold text directly rather than via child blocks
+    if ((tagName === 'div' || tagName === 'section') && $element.children(SCORABLE_SELECTOR).length > 0) return;
+
+    const text = normalizeText($element.text());
+    if (text.length < 25) return;
+
+    const contentScore = 1 + text.split(/[,，、]/).length + Math.min(Math.floor(text.length / 100), 3);
+
+    const ancestors = $element.parents().toArray().slice(0, 3);
+    ancestors.forEach((ancestor, level) => {
+      if (!ancestor.tagName || ancestor.tagName.toLowerCase() === 'html') return;
+      initializeCandidate(ancestor);
+      const divider = level === 0 ? 1 : level === 1 ? 2 : level * 3;
+      scores.set(ancestor, (scores.get(ancestor) || 0) + contentScore / divider);
+    });
+  });
+
+  // Scale by link density so link-heavy regions (menus, footers) sink
+  const candidates: { element: any; score: number }[] = [];
+  scores.forEach((score, element) => {
+    const scaled = score * (1 - getLinkDensity($, $(element)));
+    candidates.push({ element, score: scaled });
+  });
+  candidates.sort((a, b) => b.score - a.score);
+
+  let top = candidates[0];
+
+  if (top) {
+    // Promote to the parent when content is split across several strong siblings
+    const $parent = $(top.element).parent();
+    const parentElement = $parent.get(0);
+    if (parentElement && parentElement.tagName && parentElement.tagName.toLowerCase() !== 'body') {
+      const strongSiblings = candidates.filter(candidate =>
+        candidate !== top &&
+        candidate.score >= top.score * 0.5 &&
+        $(candidate.element).parent().get(0) === parentElement
+      );
+      if (strongSiblings.length >= 2) {
+        top = { element: parentElement, score: top.score + strongSiblings.reduce((sum, c) => sum + c.score, 0) };
+      }
+    }
+  }
+
+  const $top = top ? $(top.element) : null;
+  const topTextLength = $top ? normalizeText($top.text()).length : 0;
+
+  if (!$top || topTextLength < MIN_CONTENT_LENGTH) {
+    const $fallbackMatch = $(FALLBACK_CONTENT_SELECTOR);
+    const $fallback = $fallbackMatch.length > 0 ? $fallbackMatch.first() : $('body');
+    return {
+      $root: $fallback,
+      method: 'fallback',
+      boilerplate_ratio: boilerplateRatio($fallback),
+      confidence: 0.3
+    };
+  }
+
+  // Confidence: enough text, few links, and a clear margin over unrelated candidates
+  const runnerUp = candidates.find(candidate =>
+    candidate.element !== top.element &&
+    !$.contains(top.element, candidate.element) &&
+    !$.contains(candidate.element, top.element)
+  );
+  const separation = runnerUp && top.score > 0 ? Math.max(0, 1 - runnerUp.score / top.score) : 1;
+  const lengthFactor = Math.min(1, topTextLength / 1500);
+  const linkFactor = 1 - getLinkDensity($, $top);
+  const confidence = Math.round((0.4 * lengthFactor + 0.3 * linkFactor + 0.3 * separation) * 100) / 100;
+
+  return {
+    $root: $top,
+    method: 'scored',
+    boilerplate_ratio: boilerplateRatio($top),
+    confidence
+  };
+}
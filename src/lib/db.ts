@@ -1,4 +1,6 @@
 import { neon } from '@neondatabase/serverless';
+import type { SnapshotDiff } from './document-snapshots';
+import type { SitemapUrl } from './sitemap-parser';
 
 // Initialize Neon database client - handle missing DATABASE_URL gracefully
 // This allows the build to succeed even without the environment variable
@@ -17,6 +19,10 @@ export interface Document {
   url: string;
   title: string | null;
   content: string;
+  content_blocks?: { type: string; text: string; level?: number }[] | null;
+  extraction_method?: string | null;
+  boilerplate_ratio?: number | null;
+  extraction_confidence?: number | null;
   // SEO data columns
   meta_title?: string | null;
   meta_description?: string | null;
@@ -32,6 +38,7 @@ export interface Document {
   twitter_image?: string | null;
   twitter_card?: string | null;
   schema_markup?: string[] | null;
+  structured_data?: { entities: any[]; parse_errors: string[] } | null;
   primary_keyword?: string | null;
   // Content quality metrics columns
   word_count?: number | null;
@@ -45,6 +52,30 @@ export interface Document {
   topic_keywords?: string[] | null;
   semantic_keywords?: string[] | null;
   content_type?: string | null;
+  // HTTP response metadata columns
+  http_status?: number | null;
+  final_url?: string | null;
+  redirect_chain?: { url: string; status_code: number; location: string }[] | null;
+  redirect_count?: number | null;
+  response_content_type?: string | null;
+  response_content_length?: number | null;
+  last_modified?: string | null;
+  cache_control?: string | null;
+  x_robots_tag?: string | null;
+  fetched_at?: Date | null;
+  // Article metadata columns
+  authors?: string[] | null;
+  published_at?: Date | null;
+  modified_at?: Date | null;
+  breadcrumbs?: { name: string; url?: string; position: number }[] | null;
+  // Page weight columns
+  html_bytes?: number | null;
+  dom_node_count?: number | null;
+  max_dom_depth?: number | null;
+  accessibility_audit?: { [key: string]: any } | null;
+  locale?: string | null;
+  sitemap_entry?: SitemapUrl | null;
+  click_depth?: number | null;
   created_at: Date;
 }
 
@@ -80,6 +111,11 @@ export interface Link {
   url: string;
   anchor_text: string;
   is_internal: boolean;
+  rel?: string[] | null;
+  target?: string | null;
+  is_image_link?: boolean | null;
+  image_alt?: string | null;
+  region?: string | null;
   created_at: Date;
 }
 
@@ -91,4 +127,43 @@ export interface Image {
   width?: number | null;
   height?: number | null;
   created_at: Date;
-}
\ No newline at end of file
+}
+
+export interface PageResource {
+  id: number;
+  document_id: number;
+  resource_type: string;
+  url?: string | null;
+  is_inline: boolean;
+  inline_bytes?: number | null;
+  is_async: boolean;
+  is_defer: boolean;
+  is_render_blocking: boolean;
+  is_third_party: boolean;
+  host?: string | null;
+  third_party_category?: string | null;
+  created_at: Date;
+}
+
+export interface DocumentSnapshot {
+  id: number;
+  url: string;
+  content_hash: string;
+  http_status: number | null;
+  raw_html_bytes: number;
+  compressed_bytes: number;
+  title: string | null;
+  word_count: number | null;
+  diff: SnapshotDiff | null; // NULL for the first snapshot of a URL
+  change_summary: string[];
+  fetched_at: Date;
+  last_checked_at: Date;
+}
+
+export interface HreflangLink {
+  id: number;
+  document_id: number;
+  hreflang: string;
+  href: string;
+  created_at: Date;
+}
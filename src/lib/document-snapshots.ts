@@ -0,0 +1,174 @@
+import { createHash } from 'crypto';
+import { gzipSync, gunzipSync } from 'zlib';
+import type { ScrapedContent } from './scraper';
+
+/**
+ * The parts of a page that matter for change detection. Stored with each snapshot
+ * so the next fetch can be diffed without re-parsing the previous HTML.
+ */
+export interface DocumentFingerprint {
+  http_status: number | null;
+  title: string;
+  meta_description: string | null;
+  meta_robots: string | null;
+  x_robots_tag: string | null;
+  canonical_url: string | null;
+  headings: { level: number; text: string }[];
+  word_count: number;
+  links: string[];        // Sorted, de-duplicated absolute URLs
+  schema_types: string[]; // Sorted, de-duplicated structured data types
+  content: string;        // Main content with whitespace collapsed
+}
+
+export interface ValueChange<T> {
+  before: T;
+  after: T;
+}
+
+export interface SnapshotDiff {
+  http_status?: ValueChange<number | null>;
+  title?: ValueChange<string>;
+  meta_description?: ValueChange<string | null>;
+  meta_robots?: ValueChange<string | null>;
+  x_robots_tag?: ValueChange<string | null>;
+  canonical_url?: ValueChange<string | null>;
+  headings_added: { level: number; text: string }[];
+  headings_removed: { level: number; text: string }[];
+  word_count?: ValueChange<number> & { delta: number };
+  links_added: string[];
+  links_removed: string[];
+  schema_types_added: string[];
+  schema_types_removed: string[];
+  content_changed: boolean;
+}
+
+// Links and diff lists are capped so a site-wide navigation change doesn't produce a huge row
+const MAX_DIFF_ITEMS = 200;
+
+function normalizeText(value: string | null | undefined): string {
+  return (value || '').replace(/\s+/g, ' ').trim();
+}
+
+function uniqueSorted(values: string[]): string[] {
+  return Array.from(new Set(values.filter(value => value.length > 0))).sort();
+}
+
+// Drops the fragment so in-page anchors don't count as separate links
+function normalizeLinkUrl(url: string): string {
+  const hashIndex = url.indexOf('#');
+  return hashIndex === -1 ? url : url.slice(0, hashIndex);
+}
+
+/**
+ * Builds the normalized view of a scraped page used for hashing and diffing
+ */
+export function buildDocumentFingerprint(scrapedContent: ScrapedContent): DocumentFingerprint {
+  const { seo_data } = scrapedContent;
+  const schemaTypes: string[] = [];
+  (scrapedContent.structured_data?.entities || []).forEach(entity => {
+    schemaTypes.push(...entity.types);
+  });
+
+  return {
+    http_status: scrapedContent.http?.status_code ?? null,
+    title: normalizeText(scrapedContent.title),
+    meta_description: normalizeText(seo_data.meta_description) || null,
+    meta_robots: normalizeText(seo_data.meta_robots).toLowerCase() || null,
+    x_robots_tag: normalizeText(scrapedContent.http?.x_robots_tag).toLowerCase() || null,
+    canonical_url: normalizeText(seo_data.canonical_url) || null,
+    headings: scrapedContent.headings.map(heading => ({ level: heading.level, text: normalizeText(heading.text) })),
+    word_count: scrapedContent.content_quality.word_count,
+    links: uniqueSorted(scrapedContent.links.map(link => normalizeLinkUrl(link.url))),
+    schema_types: uniqueSorted(schemaTypes),
+    content: normalizeText(scrapedContent.content)
+  };
+}
+
+/**
+ * SHA-256 of the normalized fingerprint. Markup-only changes (attribute order, nonces,
+ * whitespace, cache-busting script URLs) produce the same hash.
+ */
+export function hashFingerprint(fingerprint: DocumentFingerprint): string {
+  return createHash('sha256').update(JSON.stringify(fingerprint)).digest('hex');
+}
+
+export function compressHtml(html: string): Buffer {
+  return gzipSync(Buffer.from(html, 'utf8'));
+}
+
+export function decompressHtml(compressed: Buffer): string {
+  return gunzipSync(compressed).toString('utf8');
+}
+
+function headingKey(heading: { level: number; text: string }): string {
+  return `h${heading.level}:${heading.text}`;
+}
+
+function listDifference<T>(from: T[], without: T[], key: (item: T) => string): T[] {
+  const excluded = new Set(without.map(key));
+  return from.filter(item => !excluded.has(key(item))).slice(0, MAX_DIFF_ITEMS);
+}
+
+function valueChange<T>(before: T, after: T): ValueChange<T> | undefined {
+  return before === after ? undefined : { before, after };
+}
+
+/**
+ * Structured diff between two fingerprints of the same URL
+ */
+export function diffFingerprints(previous: DocumentFingerprint, current: DocumentFingerprint): SnapshotDiff {
+  const identity = (value: string) => value;
+  const wordDelta = current.word_count - previous.word_count;
+
+  return {
+    http_status: valueChange(previous.http_status, current.http_status),
+    title: valueChange(previous.title, current.title),
+    meta_description: valueChange(previous.meta_description, current.meta_description),
+    meta_robots: valueChange(previous.meta_robots, current.meta_robots),
+    // Fingerprints stored before the header was tracked have no value for it
+    x_robots_tag: valueChange(previous.x_robots_tag ?? null, current.x_robots_tag ?? null),
+    canonical_url: valueChange(previous.canonical_url, current.canonical_url),
+    headings_added: listDifference(current.headings, previous.headings, headingKey),
+    headings_removed: listDifference(previous.headings, current.headings, headingKey),
+    word_count: wordDelta !== 0
+      ? { before: previous.word_count, after: current.word_count, delta: wordDelta }
+      : undefined,
+    links_added: listDifference(current.links, previous.links, identity),
+    links_removed: listDifference(previous.links, current.links, identity),
+    schema_types_added: listDifference(current.schema_types, previous.schema_types, identity),
+    schema_types_removed: listDifference(previous.schema_types, current.schema_types, identity),
+    content_changed: previous.content !== current.content
+  };
+}
+
+/**
+ * One human-readable line per change, for lists and chat answers
+ */
+export function summarizeSnapshotDiff(diff: SnapshotDiff): string[] {
+  const summary: string[] = [];
+  const quote = (value: string | null) => (value ? `"${value}"` : 'none');
+
+  if (diff.http_status) summary.push(`HTTP status changed from ${diff.http_status.before ?? 'unknown'} to ${diff.http_status.after ?? 'unknown'}`);
+  if (diff.title) summary.push(`Title changed from ${quote(diff.title.before)} to ${quote(diff.title.after)}`);
+  if (diff.meta_description) {
+    if (!diff.meta_description.after) summary.push('Meta description removed');
+    else if (!diff.meta_description.before) summary.push('Meta description added');
+    else summary.push('Meta description changed');
+  }
+  if (diff.meta_robots) summary.push(`Meta robots changed from ${quote(diff.meta_robots.before)} to ${quote(diff.meta_robots.after)}`);
+  if (diff.x_robots_tag) summary.push(`X-Robots-Tag changed from ${quote(diff.x_robots_tag.before)} to ${quote(diff.x_robots_tag.after)}`);
+  if (diff.canonical_url) summary.push(`Canonical changed from ${quote(diff.canonical_url.before)} to ${quote(diff.canonical_url.after)}`);
+  if (diff.headings_added.length > 0) summary.push(`${diff.headings_added.length} heading(s) added`);
+  if (diff.headings_removed.length > 0) summary.push(`${diff.headings_removed.length} heading(s) removed`);
+  if (diff.word_count) {
+    summary.push(`Word count ${diff.word_count.delta > 0 ? 'increased' : 'decreased'} by ${Math.abs(diff.word_count.delta)} (${diff.word_count.before} → ${diff.word_count.after})`);
+  } else if (diff.content_changed) {
+    summary.push('Content text changed');
+  }
+  if (diff.links_added.length > 0) summary.push(`${diff.links_added.length} link(s) added`);
+  if (diff.links_removed.length > 0) summary.push(`${diff.links_removed.length} link(s) removed`);
+  if (diff.schema_types_added.length > 0) summary.push(`Schema added: ${diff.schema_types_added.join(', ')}`);
+  if (diff.schema_types_removed.length > 0) summary.push(`Schema removed: ${diff.schema_types_removed.join(', ')}`);
+
+  return summary;
+}
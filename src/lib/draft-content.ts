@@ -0,0 +1,291 @@
+import * as cheerio from 'cheerio';
+import { z } from 'zod';
+import { parseScrapedPage, type ScrapedContent, type HttpResponseData } from './scraper';
+
+// Unpublished drafts are analyzed by rendering them to an HTML page and running the same parser
+// as live scrapes, so analysis and scores have the same shapes and meaning.
+
+const MAX_DRAFT_LENGTH = 2 * 1024 * 1024;
+
+// Used when the draft has no intended URL; relative links in the draft count as internal to it
+const DRAFT_PLACEHOLDER_URL = 'https://draft.invalid/';
+
+const draftFieldsSchema = z.object({
+  format: z.enum(['html', 'markdown', 'fields']),
+  html: z.string().max(MAX_DRAFT_LENGTH).optional(),
+  markdown: z.string().max(MAX_DRAFT_LENGTH).optional(),
+  // Override the document's own title and description; the "fields" format also needs a body
+  title: z.string().max(1000).optional(),
+  meta_description: z.string().max(5000).optional(),
+  body: z.string().max(MAX_DRAFT_LENGTH).optional(),
+  url: z.string().url('Please provide a valid URL for the draft').optional(),
+  lang: z.string().max(35).optional()
+});
+
+export type DraftContent = z.infer<typeof draftFieldsSchema>;
+
+function hasDraftSource(draft: DraftContent): boolean {
+  return (draft.format === 'html' && !!draft.html?.trim()) ||
+    (draft.format === 'markdown' && !!draft.markdown?.trim()) ||
+    // A title alone has no page content to analyze
+    (draft.format === 'fields' && !!draft.body?.trim());
+}
+
+function hasDraftText(draft: DraftContent): boolean {
+  const $ = cheerio.load(renderDraftHtml(draft));
+  $('head, script, style, noscript, template').remove();
+  return $('body').text().trim().length > 0;
+}
+
+export const draftContentSchema = draftFieldsSchema.refine(
+  draft => hasDraftSource(draft),
+  { message: 'Draft content is empty: provide html, markdown, or a body for its format' }
+).refine(
+  // Markup with no text, or Markdown that is only front matter, renders to an empty page
+  draft => !hasDraftSource(draft) || hasDraftText(draft),
+  { message: 'Draft content has no text to analyze' }
+);
+
+const escapeHtml = (text: string) => text
+  .replace(/&/g, '&amp;')
+  .replace(/</g, '&lt;')
+  .replace(/>/g, '&gt;')
+  .replace(/"/g, '&quot;');
+
+/**
+ * Splits YAML-style front matter (simple "key: value" lines) from a Markdown document
+ */
+export function parseFrontMatter(markdown: string): { fields: { [key: string]: string }; body: string } {
+  const match = markdown.match(/^\uFEFF?---[ \t]*\r?\n([\s\S]*?)\r?\n---[ \t]*(?:\r?\n|$)/);
+  if (!match) return { fields: {}, body: markdown };
+
+  const fields: { [key: string]: string } = {};
+  match[1].split(/\r?\n/).forEach(line => {
+    const field = line.match(/^([\w-]+)\s*:\s*(.*)$/);
+    if (field) {
+      fields[field[1].toLowerCase()] = field[2].trim().replace(/^(['"])([\s\S]*)\1$/, '$2');
+    }
+  });
+
+  return { fields, body: markdown.slice(match[0].length) };
+}
+
+function renderInline(text: string): string {
+  // Code spans are set aside first so their contents aren't formatted
+  const codeSpans: string[] = [];
+  let html = text.replace(/`([^`]+)`/g, (_, code: string) => {
+    codeSpans.push(`<code>${escapeHtml(code)}</code>`);
+    return `\uE000${codeSpans.length - 1}\uE000`;
+  });
+
+  html = escapeHtml(html)
+    .replace(/!\[([^\]]*)\]\(\s*(\S+?)(?:\s+&quot;([^&]*)&quot;)?\s*\)/g, (_, alt: string, src: string, title?: string) =>
+      `<img src="${src}" alt="${alt}"${title ? ` title="${title}"` : ''}>`)
+    .replace(/\[([^\]]+)\]\(\s*(\S+?)(?:\s+&quot;([^&]*)&quot;)?\s*\)/g, (_, label: string, href: string, title?: string) =>
+      `<a href="${href}"${title ? ` title="${title}"` : ''}>${label}</a>`)
+    .replace(/&lt;(https?:\/\/[^\s&]+)&gt;/g, '<a href="$1">$1</a>')
+    .replace(/\*\*(?=\S)([\s\S]*?\S)\*\*/g, '<strong>$1</strong>')
+    .replace(/(^|\W)__(?=\S)([\s\S]*?\S)__(?!\w)/g, '$1<strong>$2</strong>')
+    .replace(/\*(?=\S)([\s\S]*?\S)\*/g, '<em>$1</em>')
+    // Underscores inside words (snake_case) aren't emphasis
+    .replace(/(^|\W)_(?=\S)([\s\S]*?\S)_(?!\w)/g, '$1<em>$2</em>')
+    .replace(/~~(?=\S)([\s\S]*?\S)~~/g, '<del>$1</del>');
+
+  return html.replace(/\uE000(\d+)\uE000/g, (_, index: string) => codeSpans[parseInt(index, 10)]);
+}
+
+/**
+ * Converts the common Markdown constructs that matter for SEO analysis (headings, paragraphs,
+ * lists, links, images, emphasis, quotes, code) to HTML. Lines that start with an HTML tag are
+ * passed through, so drafts that mix in raw HTML keep it.
+ */
+export function markdownToHtml(markdown: string): string {
+  const lines = markdown.replace(/\r\n?/g, '\n').split('\n');
+  const output: string[] = [];
+  let i = 0;
+
+  const isBlank = (line: string) => line.trim() === '';
+  const listItem = (line: string) => line.match(/^\s{0,3}([-*+]|\d+[.)])\s+(.*)$/);
+  const startsBlock = (line: string) =>
+    /^\s{0,3}(#{1,6}\s|>|```|~~~|<\/?[a-zA-Z])/.test(line) || /^\s{0,3}([-*_])(\s*\1){2,}\s*$/.test(line) || !!listItem(line);
+
+  while (i < lines.length) {
+    const line = lines[i];
+
+    if (isBlank(line)) {
+      i++;
+      continue;
+    }
+
+    const fence = line.match(/^\s{0,3}(```|~~~)/);
+    if (fence) {
+      const code: string[] = [];
+      i++;
+      while (i < lines.length && !lines[i].trim().startsWith(fence[1])) {
+        code.push(lines[i]);
+        i++;
+      }
+      i++;
+      output.push(`<pre><code>${escapeHtml(code.join('\n'))}</code></pre>`);
+      continue;
+    }
+
+    const heading = line.match(/^\s{0,3}(#{1,6})\s+(.*?)\s*#*\s*$/);
+    if (heading) {
+      const level = heading[1].length;
+      output.push(`<h${level}>${renderInline(heading[2])}</h${level}>`);
+      i++;
+      continue;
+    }
+
+    if (/^\s{0,3}([-*_])(\s*\1){2,}\s*$/.test(line)) {
+      output.push('<hr>');
+      i++;
+      continue;
+    }
+
+    if (/^\s{0,3}>/.test(line)) {
+      const quoted: string[] = [];
+      while (i < lines.length && /^\s{0,3}>/.test(lines[i])) {
+        quoted.push(lines[i].replace(/^\s{0,3}>\s?/, ''));
+        i++;
+      }
+      output.push(`<blockquote>${markdownToHtml(quoted.join('\n'))}</blockquote>`);
+      continue;
+    }
+
+    if (/^\s{0,3}<\/?[a-zA-Z]/.test(line)) {
+      while (i < lines.length && !isBlank(lines[i])) {
+        output.push(lines[i]);
+        i++;
+      }
+      continue;
+    }
+
+    const firstItem = listItem(line);
+    if (firstItem) {
+      const ordered = /\d/.test(firstItem[1]);
+      const items: string[] = [];
+      while (i < lines.length) {
+        const item = listItem(lines[i]);
+        if (item && /\d/.test(item[1]) === ordered) {
+          items.push(item[2]);
+        } else if (!isBlank(lines[i]) && !startsBlock(lines[i]) && items.length > 0) {
+          // Lazy continuation of the previous item
+          items[items.length - 1] += ` ${lines[i].trim()}`;
+        } else if (!(isBlank(lines[i]) && i + 1 < lines.length && listItem(lines[i + 1]))) {
+          break;
+        }
+        i++;
+      }
+      const tag = ordered ? 'ol' : 'ul';
+      output.push(`<${tag}>${items.map(item => `<li>${renderInline(item)}</li>`).join('')}</${tag}>`);
+      continue;
+    }
+
+    const paragraph: string[] = [];
+    while (i < lines.length && !isBlank(lines[i])) {
+      if (paragraph.length > 0) {
+        // Setext headings underline the paragraph text with === or ---
+        const setext = lines[i].match(/^\s{0,3}(=+|-+)\s*$/);
+        if (setext) {
+          const level = setext[1][0] === '=' ? 1 : 2;
+          output.push(`<h${level}>${renderInline(paragraph.join(' '))}</h${level}>`);
+          paragraph.length = 0;
+          i++;
+          break;
+        }
+        if (startsBlock(lines[i])) break;
+      }
+      paragraph.push(lines[i].trim());
+      i++;
+    }
+    if (paragraph.length > 0) {
+      output.push(`<p>${renderInline(paragraph.join(' '))}</p>`);
+    }
+  }
+
+  return output.join('\n');
+}
+
+function wrapDocument(body: string, title: string | undefined, metaDescription: string | undefined, lang: string | undefined): string {
+  return [
+    '<!DOCTYPE html>',
+    `<html${lang ? ` lang="${escapeHtml(lang)}"` : ''}>`,
+    '<head>',
+    '<meta charset="utf-8">',
+    title ? `<title>${escapeHtml(title)}</title>` : '',
+    metaDescription ? `<meta name="description" content="${escapeHtml(metaDescription)}">` : '',
+    '</head>',
+    `<body><main><article>${body}</article></main></body>`,
+    '</html>'
+  ].join('\n');
+}
+
+// Applies title/description overrides to a full HTML document
+function applyOverrides(html: string, draft: DraftContent): string {
+  if (draft.title === undefined && draft.meta_description === undefined && !draft.lang) return html;
+
+  const $ = cheerio.load(html);
+  if (draft.title !== undefined) {
+    if ($('title').length === 0) $('head').append('<title></title>');
+    $('title').first().text(draft.title);
+  }
+  if (draft.meta_description !== undefined) {
+    if ($('meta[name="description"]').length === 0) $('head').append('<meta name="description">');
+    $('meta[name="description"]').first().attr('content', draft.meta_description);
+  }
+  if (draft.lang) {
+    $('html').attr('lang', draft.lang);
+  }
+  return $.html();
+}
+
+/**
+ * Renders a draft to a complete HTML page: raw HTML as given (fragments are wrapped in a page),
+ * Markdown with its front matter title/description, or separate title, description and body
+ * fields (the body may be Markdown, plain text or HTML)
+ */
+export function renderDraftHtml(draft: DraftContent): string {
+  if (draft.format === 'html') {
+    const html = draft.html || '';
+    const isFullDocument = /<html[\s>]|<head[\s>]|<body[\s>]/i.test(html);
+    return isFullDocument
+      ? applyOverrides(html, draft)
+      : wrapDocument(html, draft.title, draft.meta_description, draft.lang);
+  }
+
+  if (draft.format === 'markdown') {
+    const { fields, body } = parseFrontMatter(draft.markdown || '');
+    return wrapDocument(
+      markdownToHtml(body),
+      draft.title ?? fields.title,
+      draft.meta_description ?? fields.description ?? fields.meta_description ?? fields.excerpt,
+      draft.lang || fields.lang || fields.locale
+    );
+  }
+
+  const body = (draft.body || '').trim();
+  const bodyHtml = /^<[a-zA-Z!]/.test(body) ? body : markdownToHtml(body);
+  return wrapDocument(bodyHtml, draft.title, draft.meta_description, draft.lang);
+}
+
+/**
+ * Parses a draft the way scrapeWebsite parses a fetched page, as if it were served at its
+ * intended URL with a 200 response. Nothing is fetched.
+ */
+export function parseDraft(draft: DraftContent): ScrapedContent {
+  const url = draft.url || DRAFT_PLACEHOLDER_URL;
+  const html = renderDraftHtml(draft);
+
+  const http: HttpResponseData = {
+    status_code: 200,
+    final_url: url,
+    redirect_chain: [],
+    content_type: 'text/html; charset=utf-8',
+    content_length: Buffer.byteLength(html),
+    fetched_at: new Date().toISOString()
+  };
+
+  return parseScrapedPage(html, url, http);
+}
@@ -0,0 +1,320 @@
+import {
+  assertSafeUrl,
+  limitResponseSize,
+  safeDispatcher,
+  BLOCKED_ADDRESS_ERROR_CODE,
+  FETCH_TIMEOUT_MS,
+  FETCH_MAX_RESPONSE_BYTES
+} from './url-safety';
+
+// Shared scheduler for every outbound request to a crawled site (pages, sitemaps, robots.txt).
+// Requests are queued per host so concurrency, spacing and backoff apply across all callers in
+// the same server process, whichever route or tool started them.
+
+export interface HostFetchLimits {
+  concurrency: number;        // Requests in flight to one host at once
+  minDelayMs: number;         // Minimum gap between request starts to one host
+  respectCrawlDelay: boolean; // Space requests by the host's robots.txt Crawl-delay when it is longer
+  maxRetries: number;         // Retries after 429/503 responses or transient network errors
+  retryBaseDelayMs: number;   // First backoff; doubles each retry, with jitter
+  maxRetryAfterMs: number;    // A longer Retry-After is not waited out; the response is returned
+}
+
+export const DEFAULT_HOST_LIMITS: HostFetchLimits = {
+  concurrency: 2,
+  minDelayMs: 500,
+  respectCrawlDelay: true,
+  maxRetries: 3,
+  retryBaseDelayMs: 1000,
+  maxRetryAfterMs: 2 * 60 * 1000
+};
+
+// Crawl-delay values above this are capped so one robots.txt can't stall a whole job
+const MAX_CRAWL_DELAY_MS = 60 * 1000;
+
+const RETRY_STATUS_CODES = [429, 503];
+
+// Network errors worth retrying; DNS failures (ENOTFOUND) and bad certificates are not
+const TRANSIENT_ERROR_CODES = [
+  'ECONNRESET', 'ECONNREFUSED', 'ETIMEDOUT', 'EPIPE', 'EAI_AGAIN', 'ENETUNREACH', 'EHOSTUNREACH',
+  'UND_ERR_SOCKET', 'UND_ERR_CONNECT_TIMEOUT', 'UND_ERR_HEADERS_TIMEOUT', 'UND_ERR_BODY_TIMEOUT'
+];
+
+interface HostState {
+  active: number;
+  waiting: (() => void)[];
+  next_start_at: number;     // Earliest time the next request may start
+  blocked_until: number;     // Set by 429/503 backoff; holds every request to the host
+  crawl_delay_ms: number;
+}
+
+const hostStates = new Map<string, HostState>();
+
+// Per-domain overrides; "*" applies to every host. A domain also matches its subdomains.
+const hostLimitOverrides = new Map<string, Partial<HostFetchLimits>>();
+
+/**
+ * Loads per-domain limits from FETCH_HOST_LIMITS, a JSON object keyed by domain, e.g.
+ * {"*": {"concurrency": 3}, "example.com": {"minDelayMs": 2000, "concurrency": 1}}
+ */
+function loadHostLimitsFromEnv() {
+  const raw = process.env.FETCH_HOST_LIMITS;
+  if (!raw) return;
+
+  try {
+    const parsed = JSON.parse(raw);
+    Object.keys(parsed).forEach(domain => {
+      if (parsed[domain] && typeof parsed[domain] === 'object') {
+        hostLimitOverrides.set(domain.toLowerCase(), parsed[domain]);
+      }
+    });
+  } catch (error) {
+    console.warn('FETCH_HOST_LIMITS is not valid JSON, using default fetch limits', error);
+  }
+}
+
+loadHostLimitsFromEnv();
+
+/**
+ * Overrides fetch limits for a domain (and its subdomains), or for every host with "*"
+ */
+export function configureHostLimits(domain: string, limits: Partial<HostFetchLimits>): void {
+  const key = domain.toLowerCase();
+  hostLimitOverrides.set(key, { ...hostLimitOverrides.get(key), ...limits });
+}
+
+/**
+ * Resolves the limits for a host: defaults, then "*", then the most specific matching domain
+ */
+export function getHostLimits(host: string): HostFetchLimits {
+  const hostname = host.toLowerCase().replace(/:\d+$/, '');
+  const matches = Array.from(hostLimitOverrides.keys())
+    .filter(domain => domain !== '*' && (hostname === domain || hostname.endsWith(`.${domain}`)))
+    .sort((a, b) => a.length - b.length);
+
+  return [hostLimitOverrides.get('*'), ...matches.map(domain => hostLimitOverrides.get(domain))]
+    .reduce<HostFetchLimits>((limits, override) => ({ ...limits, ...override }), { ...DEFAULT_HOST_LIMITS });
+}
+
+function getHostState(host: string): HostState {
+  let state = hostStates.get(host);
+  if (!state) {
+    state = { active: 0, waiting: [], next_start_at: 0, blocked_until: 0, crawl_delay_ms: 0 };
+    hostStates.set(host, state);
+  }
+  return state;
+}
+
+/**
+ * Records the Crawl-delay (in seconds) robots.txt asks of our bot for a host
+ */
+export function setHostCrawlDelay(url: string, seconds: number | undefined): void {
+  const state = getHostState(new URL(url).host);
+  state.crawl_delay_ms = Math.min(Math.max(0, (seconds || 0) * 1000), MAX_CRAWL_DELAY_MS);
+}
+
+const sleep = (ms: number) => new Promise(resolve => setTimeout(resolve, ms));
+
+// Exponential backoff with jitter between 50% and 100% of the step
+function backoffDelayMs(attempt: number, limits: HostFetchLimits): number {
+  const step = limits.retryBaseDelayMs * Math.pow(2, attempt);
+  return Math.round(step * (0.5 + Math.random() * 0.5));
+}
+
+/**
+ * Parses Retry-After as delta-seconds or an HTTP date; undefined when absent or invalid
+ */
+export function parseRetryAfter(value: string | null, now: number = Date.now()): number | undefined {
+  if (!value) return undefined;
+  const trimmed = value.trim();
+
+  if (/^\d+$/.test(trimmed)) {
+    return parseInt(trimmed, 10) * 1000;
+  }
+
+  const date = Date.parse(trimmed);
+  if (isNaN(date)) return undefined;
+  return Math.max(0, date - now);
+}
+
+function isTransientError(error: unknown): boolean {
+  if (!(error instanceof Error)) return false;
+  const cause = (error as Error & { cause?: { code?: string } }).cause;
+  const code = cause?.code || (error as Error & { code?: string }).code;
+  return !!code && TRANSIENT_ERROR_CODES.includes(code);
+}
+
+// Waits for a free slot on the host, then for the host's spacing and any backoff
+async function acquireSlot(host: string, limits: HostFetchLimits): Promise<void> {
+  const state = getHostState(host);
+
+  if (state.active >= limits.concurrency) {
+    // releaseSlot hands its slot straight to the next waiter, so `active` is not incremented here
+    await new Promise<void>(resolve => state.waiting.push(resolve));
+  } else {
+    state.active++;
+  }
+
+  const spacingMs = Math.max(limits.minDelayMs, limits.respectCrawlDelay ? state.crawl_delay_ms : 0);
+  const now = Date.now();
+  const startAt = Math.max(now, state.next_start_at, state.blocked_until);
+  state.next_start_at = startAt + spacingMs;
+
+  if (startAt > now) {
+    await sleep(startAt - now);
+  }
+}
+
+function releaseSlot(host: string): void {
+  const state = getHostState(host);
+  const next = state.waiting.shift();
+  if (next) {
+    next();
+  } else {
+    state.active--;
+  }
+}
+
+export interface ScheduledFetchOptions {
+  timeoutMs?: number;     // Per attempt, covering headers and body
+  maxBytes?: number;      // Reading more of the body than this fails
+  maxRedirects?: number;  // Used unless init.redirect is 'manual'
+}
+
+const REDIRECT_STATUS_CODES = [301, 302, 303, 307, 308];
+
+// Calls release once the body has been read to the end, failed or been cancelled
+function releaseWhenConsumed(response: Response, release: () => void): Response {
+  // Null-body statuses can't be re-wrapped, and have nothing left to read
+  if (!response.body || [101, 204, 205, 304].includes(response.status)) {
+    release();
+    return response;
+  }
+
+  const reader = response.body.getReader();
+  const body = new ReadableStream<Uint8Array>({
+    async pull(controller) {
+      try {
+        const { done, value } = await reader.read();
+        if (done) {
+          release();
+          controller.close();
+        } else {
+          controller.enqueue(value);
+        }
+      } catch (error) {
+        release();
+        controller.error(error);
+      }
+    },
+    cancel(reason) {
+      release();
+      return reader.cancel(reason);
+    }
+  });
+
+  return new Response(body, {
+    status: response.status,
+    statusText: response.statusText,
+    headers: response.headers
+  });
+}
+
+// One request to one URL, with the host's pacing, backoff and retries. The host slot is held
+// until the returned body has been consumed or cancelled, or the attempt times out.
+async function fetchWithRetries(url: string, init: RequestInit, timeoutMs: number): Promise<Response> {
+  const host = new URL(url).host;
+  const limits = getHostLimits(host);
+
+  for (let attempt = 0; ; attempt++) {
+    await acquireSlot(host, limits);
+
+    let released = false;
+    const release = () => {
+      if (released) return;
+      released = true;
+      releaseSlot(host);
+    };
+
+    // The caller's signal can cancel the request, but never lifts the timeout
+    const timeout = AbortSignal.timeout(timeoutMs);
+    const signal = init.signal ? AbortSignal.any([init.signal, timeout]) : timeout;
+    // A body nobody reads would otherwise hold the slot forever
+    signal.addEventListener('abort', release, { once: true });
+
+    let response: Response;
+    try {
+      // RequestInit's DOM typing doesn't know undici's dispatcher option
+      response = await fetch(url, { ...init, redirect: 'manual', signal, dispatcher: safeDispatcher } as RequestInit);
+    } catch (error) {
+      release();
+      const cause = (error as Error & { cause?: Error & { code?: string } }).cause;
+      if (cause?.code === BLOCKED_ADDRESS_ERROR_CODE) {
+        throw cause;
+      }
+      if (attempt < limits.maxRetries && isTransientError(error)) {
+        const delayMs = backoffDelayMs(attempt, limits);
+        console.warn(`Transient error fetching ${url}, retrying in ${delayMs}ms (attempt ${attempt + 1}/${limits.maxRetries})`);
+        await sleep(delayMs);
+        continue;
+      }
+      if (error instanceof Error && error.name === 'TimeoutError') {
+        throw new Error(`Request to ${url} timed out after ${timeoutMs}ms`);
+      }
+      throw error;
+    }
+
+    if (!RETRY_STATUS_CODES.includes(response.status) || attempt >= limits.maxRetries) {
+      return releaseWhenConsumed(response, release);
+    }
+
+    const retryAfterMs = parseRetryAfter(response.headers.get('retry-after'));
+    if (retryAfterMs !== undefined && retryAfterMs > limits.maxRetryAfterMs) {
+      return releaseWhenConsumed(response, release);
+    }
+
+    const delayMs = retryAfterMs ?? backoffDelayMs(attempt, limits);
+    const state = getHostState(host);
+    state.blocked_until = Math.max(state.blocked_until, Date.now() + delayMs);
+    console.warn(`${host} returned ${response.status}, backing off ${delayMs}ms (attempt ${attempt + 1}/${limits.maxRetries})`);
+
+    // Discard the body so the connection can be reused
+    await response.body?.cancel().catch(() => {});
+    release();
+  }
+}
+
+/**
+ * fetch() through the URL safety checks and the per-host scheduler. Every request and every
+ * redirect hop is checked by assertSafeUrl, so redirects can't reach internal addresses.
+ * Honors the host's concurrency limit, minimum delay and Crawl-delay; on 429/503 backs the
+ * whole host off (by Retry-After when given) and retries; retries transient network errors
+ * with jittered backoff. After the last retry the 429/503 response is returned as-is so
+ * callers can report it. Requests time out and bodies are capped in size. The host's slot
+ * is freed once the body is read or cancelled (or the request times out), so callers that
+ * don't need the body should cancel it.
+ */
+export async function scheduledFetch(
+  url: string,
+  init: RequestInit = {},
+  options: ScheduledFetchOptions = {}
+): Promise<Response> {
+  const { timeoutMs = FETCH_TIMEOUT_MS, maxBytes = FETCH_MAX_RESPONSE_BYTES, maxRedirects = 10 } = options;
+  const followRedirects = init.redirect !== 'manual';
+  let currentUrl = url;
+
+  for (let hop = 0; hop <= maxRedirects; hop++) {
+    await assertSafeUrl(currentUrl);
+    const response = await fetchWithRetries(currentUrl, init, timeoutMs);
+
+    const location = response.headers.get('location');
+    if (!followRedirects || !REDIRECT_STATUS_CODES.includes(response.status) || !location) {
+      return limitResponseSize(response, maxBytes);
+    }
+
+    await response.body?.cancel().catch(() => {});
+    currentUrl = new URL(location, currentUrl).href;
+  }
+
+  throw new Error(`Too many redirects (more than ${maxRedirects})`);
+}
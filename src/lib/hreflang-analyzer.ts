@@ -0,0 +1,268 @@
+import { type HreflangLink } from './scraper';
+
+// ISO 639-1 language codes
+const ISO_639_1_CODES = new Set([
+  'aa', 'ab', 'ae', 'af', 'ak', 'am', 'an', 'ar', 'as', 'av', 'ay', 'az', 'ba', 'be', 'bg', 'bh', 'bi',
+  'bm', 'bn', 'bo', 'br', 'bs', 'ca', 'ce', 'ch', 'co', 'cr', 'cs', 'cu', 'cv', 'cy', 'da', 'de', 'dv',
+  'dz', 'ee', 'el', 'en', 'eo', 'es', 'et', 'eu', 'fa', 'ff', 'fi', 'fj', 'fo', 'fr', 'fy', 'ga', 'gd',
+  'gl', 'gn', 'gu', 'gv', 'ha', 'he', 'hi', 'ho', 'hr', 'ht', 'hu', 'hy', 'hz', 'ia', 'id', 'ie', 'ig',
+  'ii', 'ik', 'io', 'is', 'it', 'iu', 'ja', 'jv', 'ka', 'kg', 'ki', 'kj', 'kk', 'kl', 'km', 'kn', 'ko',
+  'kr', 'ks', 'ku', 'kv', 'kw', 'ky', 'la', 'lb', 'lg', 'li', 'ln', 'lo', 'lt', 'lu', 'lv', 'mg', 'mh',
+  'mi', 'mk', 'ml', 'mn', 'mr', 'ms', 'mt', 'my', 'na', 'nb', 'nd', 'ne', 'ng', 'nl', 'nn', 'no', 'nr',
+  'nv', 'ny', 'oc', 'oj', 'om', 'or', 'os', 'pa', 'pi', 'pl', 'ps', 'pt', 'qu', 'rm', 'rn', 'ro', 'ru',
+  'rw', 'sa', 'sc', 'sd', 'se', 'sg', 'si', 'sk', 'sl', 'sm', 'sn', 'so', 'sq', 'sr', 'ss', 'st', 'su',
+  'sv', 'sw', 'ta', 'te', 'tg', 'th', 'ti', 'tk', 'tl', 'tn', 'to', 'tr', 'ts', 'tt', 'tw', 'ty', 'ug',
+  'uk', 'ur', 'uz', 've', 'vi', 'vo', 'wa', 'wo', 'xh', 'yi', 'yo', 'za', 'zh', 'zu'
+]);
+
+// ISO 3166-1 alpha-2 region codes
+const ISO_3166_1_CODES = new Set([
+  'ad', 'ae', 'af', 'ag', 'ai', 'al', 'am', 'ao', 'aq', 'ar', 'as', 'at', 'au', 'aw', 'ax', 'az', 'ba',
+  'bb', 'bd', 'be', 'bf', 'bg', 'bh', 'bi', 'bj', 'bl', 'bm', 'bn', 'bo', 'bq', 'br', 'bs', 'bt', 'bv',
+  'bw', 'by', 'bz', 'ca', 'cc', 'cd', 'cf', 'cg', 'ch', 'ci', 'ck', 'cl', 'cm', 'cn', 'co', 'cr', 'cu',
+  'cv', 'cw', 'cx', 'cy', 'cz', 'de', 'dj', 'dk', 'dm', 'do', 'dz', 'ec', 'ee', 'eg', 'eh', 'er', 'es',
+  'et', 'fi', 'fj', 'fk', 'fm', 'fo', 'fr', 'ga', 'gb', 'gd', 'ge', 'gf', 'gg', 'gh', 'gi', 'gl', 'gm',
+  'gn', 'gp', 'gq', 'gr', 'gs', 'gt', 'gu', 'gw', 'gy', 'hk', 'hm', 'hn', 'hr', 'ht', 'hu', 'id', 'ie',
+  'il', 'im', 'in', 'io', 'iq', 'ir', 'is', 'it', 'je', 'jm', 'jo', 'jp', 'ke', 'kg', 'kh', 'ki', 'km',
+  'kn', 'kp', 'kr', 'kw', 'ky', 'kz', 'la', 'lb', 'lc', 'li', 'lk', 'lr', 'ls', 'lt', 'lu', 'lv', 'ly',
+  'ma', 'mc', 'md', 'me', 'mf', 'mg', 'mh', 'mk', 'ml', 'mm', 'mn', 'mo', 'mp', 'mq', 'mr', 'ms', 'mt',
+  'mu', 'mv', 'mw', 'mx', 'my', 'mz', 'na', 'nc', 'ne', 'nf', 'ng', 'ni', 'nl', 'no', 'np', 'nr', 'nu',
+  'nz', 'om', 'pa', 'pe', 'pf', 'pg', 'ph', 'pk', 'pl', 'pm', 'pn', 'pr', 'ps', 'pt', 'pw', 'py', 'qa',
+  're', 'ro', 'rs', 'ru', 'rw', 'sa', 'sb', 'sc', 'sd', 'se', 'sg', 'sh', 'si', 'sj', 'sk', 'sl', 'sm',
+  'sn', 'so', 'sr', 'ss', 'st', 'sv', 'sx', 'sy', 'sz', 'tc', 'td', 'tf', 'tg', 'th', 'tj', 'tk', 'tl',
+  'tm', 'tn', 'to', 'tr', 'tt', 'tv', 'tw', 'tz', 'ua', 'ug', 'um', 'us', 'uy', 'uz', 'va', 'vc', 've',
+  'vg', 'vi', 'vn', 'vu', 'wf', 'ws', 'ye', 'yt', 'za', 'zm', 'zw'
+]);
+
+export interface HreflangPage {
+  url: string;
+  canonical_url?: string | null;
+  http_status?: number | null;
+  final_url?: string | null;
+  hreflang: HreflangLink[];
+}
+
+export type HreflangIssueType =
+  | 'invalid_code'
+  | 'missing_return_link'
+  | 'missing_x_default'
+  | 'missing_self_reference'
+  | 'conflicting_code'
+  | 'alternate_not_canonical'
+  | 'alternate_not_200';
+
+export interface HreflangIssue {
+  url: string;
+  type: HreflangIssueType;
+  severity: 'error' | 'warning';
+  hreflang?: string;
+  target?: string;
+  message: string;
+}
+
+export interface HreflangReport {
+  pages_checked: number;
+  pages_with_hreflang: number;
+  alternates_checked: number;
+  alternates_outside_corpus: number;
+  issues: HreflangIssue[];
+  issue_counts: { [type: string]: number };
+  recommendations: string[];
+}
+
+/**
+ * Validates an hreflang value: "x-default", a language ("fr"),
+ * or a language plus region ("fr-ca"). Script subtags ("zh-hant") are accepted.
+ */
+export function isValidHreflangCode(code: string): boolean {
+  const value = code.trim().toLowerCase();
+  if (value === 'x-default') return true;
+
+  const parts = value.split('-');
+  if (!ISO_639_1_CODES.has(parts[0])) return false;
+  if (parts.length === 1) return true;
+
+  if (parts.length === 2) {
+    return ISO_3166_1_CODES.has(parts[1]) || /^[a-z]{4}$/.test(parts[1]);
+  }
+
+  if (parts.length === 3) {
+    return /^[a-z]{4}$/.test(parts[1]) && ISO_3166_1_CODES.has(parts[2]);
+  }
+
+  return false;
+}
+
+// Normalizes URLs for comparison: drops fragments, lowercases the host, trims a trailing slash
+export function normalizeHreflangUrl(url: string): string {
+  try {
+    const urlObj = new URL(url);
+    urlObj.hash = '';
+    const normalized = urlObj.href;
+    return normalized.endsWith('/') && urlObj.pathname !== '/' ? normalized.slice(0, -1) : normalized;
+  } catch {
+    return url;
+  }
+}
+
+/**
+ * Checks hreflang annotations across the stored corpus: invalid codes, missing
+ * return links, missing x-default/self references, and alternates that point to
+ * non-canonical or non-200 pages.
+ */
+export function analyzeHreflang(pages: HreflangPage[]): HreflangReport {
+  const issues: HreflangIssue[] = [];
+  const pagesByUrl = new Map<string, HreflangPage>();
+  pages.forEach(page => pagesByUrl.set(normalizeHreflangUrl(page.url), page));
+
+  const pagesWithHreflang = pages.filter(page => page.hreflang.length > 0);
+  let alternatesChecked = 0;
+  let alternatesOutsideCorpus = 0;
+
+  for (const page of pagesWithHreflang) {
+    const pageUrl = normalizeHreflangUrl(page.url);
+    const seenCodes: { [code: string]: string } = {};
+
+    if (!page.hreflang.some(link => link.hreflang.toLowerCase() === 'x-default')) {
+      issues.push({
+        url: page.url,
+        type: 'missing_x_default',
+        severity: 'warning',
+        message: 'No x-default alternate declared for users whose language is not targeted.'
+      });
+    }
+
+    if (!page.hreflang.some(link => normalizeHreflangUrl(link.href) === pageUrl)) {
+      issues.push({
+        url: page.url,
+        type: 'missing_self_reference',
+        severity: 'warning',
+        message: 'Hreflang set does not include a self-referencing entry for this page.'
+      });
+    }
+
+    for (const link of page.hreflang) {
+      const code = link.hreflang.toLowerCase();
+      const targetUrl = normalizeHreflangUrl(link.href);
+      alternatesChecked++;
+
+      if (!isValidHreflangCode(code)) {
+        issues.push({
+          url: page.url,
+          type: 'invalid_code',
+          severity: 'error',
+          hreflang: link.hreflang,
+          target: link.href,
+          message: `"${link.hreflang}" is not a valid ISO 639-1 language / ISO 3166-1 region code.`
+        });
+      }
+
+      if (seenCodes[code] && seenCodes[code] !== targetUrl) {
+        issues.push({
+          url: page.url,
+          type: 'conflicting_code',
+          severity: 'error',
+          hreflang: link.hreflang,
+          target: link.href,
+          message: `"${link.hreflang}" is declared for more than one URL.`
+        });
+      }
+      seenCodes[code] = targetUrl;
+
+      if (targetUrl === pageUrl) continue;
+
+      const target = pagesByUrl.get(targetUrl);
+      if (!target) {
+        alternatesOutsideCorpus++;
+        continue;
+      }
+
+      const hasReturnLink = target.hreflang.some(
+        targetLink => normalizeHreflangUrl(targetLink.href) === pageUrl
+      );
+      if (!hasReturnLink) {
+        issues.push({
+          url: page.url,
+          type: 'missing_return_link',
+          severity: 'error',
+          hreflang: link.hreflang,
+          target: link.href,
+          message: `${link.href} does not link back to this page, so Google will ignore the pair.`
+        });
+      }
+
+      if (target.http_status && target.http_status !== 200) {
+        issues.push({
+          url: page.url,
+          type: 'alternate_not_200',
+          severity: 'error',
+          hreflang: link.hreflang,
+          target: link.href,
+          message: `Alternate ${link.href} returns HTTP ${target.http_status}.`
+        });
+      } else if (target.final_url && normalizeHreflangUrl(target.final_url) !== targetUrl) {
+        issues.push({
+          url: page.url,
+          type: 'alternate_not_200',
+          severity: 'error',
+          hreflang: link.hreflang,
+          target: link.href,
+          message: `Alternate ${link.href} redirects to ${target.final_url}.`
+        });
+      }
+
+      if (target.canonical_url) {
+        let canonical: string | null;
+        try {
+          canonical = normalizeHreflangUrl(new URL(target.canonical_url, target.url).href);
+        } catch {
+          canonical = null;
+        }
+
+        if (canonical === null) {
+          issues.push({
+            url: page.url,
+            type: 'alternate_not_canonical',
+            severity: 'error',
+            hreflang: link.hreflang,
+            target: link.href,
+            message: `Alternate ${link.href} has an invalid canonical URL: ${target.canonical_url}.`
+          });
+        } else if (canonical !== targetUrl) {
+          issues.push({
+            url: page.url,
+            type: 'alternate_not_canonical',
+            severity: 'error',
+            hreflang: link.hreflang,
+            target: link.href,
+            message: `Alternate ${link.href} canonicalizes to ${target.canonical_url}.`
+          });
+        }
+      }
+    }
+  }
+
+  const issueCounts: { [type: string]: number } = {};
+  issues.forEach(issue => {
+    issueCounts[issue.type] = (issueCounts[issue.type] || 0) + 1;
+  });
+
+  const recommendations = [];
+  if (issueCounts.invalid_code) recommendations.push(`Fix ${issueCounts.invalid_code} invalid hreflang codes (e.g. use "en-gb", not "en-uk").`);
+  if (issueCounts.missing_return_link) recommendations.push(`Add return links for ${issueCounts.missing_return_link} one-way hreflang annotations.`);
+  if (issueCounts.alternate_not_canonical) recommendations.push(`Point ${issueCounts.alternate_not_canonical} hreflang alternates at canonical URLs.`);
+  if (issueCounts.alternate_not_200) recommendations.push(`Replace ${issueCounts.alternate_not_200} hreflang alternates that redirect or return errors.`);
+  if (issueCounts.missing_x_default) recommendations.push(`Add an x-default alternate on ${issueCounts.missing_x_default} pages.`);
+  if (issueCounts.missing_self_reference) recommendations.push(`Add self-referencing hreflang entries on ${issueCounts.missing_self_reference} pages.`);
+  if (pagesWithHreflang.length === 0) recommendations.push('No hreflang annotations found in the stored pages.');
+
+  return {
+    pages_checked: pages.length,
+    pages_with_hreflang: pagesWithHreflang.length,
+    alternates_checked: alternatesChecked,
+    alternates_outside_corpus: alternatesOutsideCorpus,
+    issues,
+    issue_counts: issueCounts,
+    recommendations
+  };
+}
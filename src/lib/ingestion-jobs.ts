@@ -0,0 +1,444 @@
+import { sql } from './db';
+import { discoverSitemapUrls, type SitemapUrl, type SitemapError } from './sitemap-parser';
+import { filterUrlsByLocale, parseLocalePolicy, type LocalePolicy } from './locale-policy';
+import { checkRobotsAccess } from './robots';
+import { ingestSitemapUrl } from './ingestion';
+import { isBlockedByRobotsError } from './scraper';
+
+export type IngestionJobStatus = 'running' | 'paused' | 'completed' | 'cancelled';
+export type IngestionTaskStatus = 'pending' | 'running' | 'done' | 'failed' | 'skipped';
+export type IngestionJobAction = 'pause' | 'resume' | 'cancel';
+
+export interface IngestionJob {
+  id: number;
+  status: IngestionJobStatus;
+  source_urls: string[];
+  locale_policy: LocalePolicy | null;
+  skip_existing: boolean;
+  max_attempts: number;
+  total_tasks: number;
+  sitemap_errors: SitemapError[];
+  created_at: string;
+  updated_at: string;
+  completed_at: string | null;
+  task_counts: { [status in IngestionTaskStatus]: number };
+}
+
+export interface IngestionTask {
+  id: number;
+  job_id: number;
+  url: string;
+  sitemap_entry: SitemapUrl | null;
+  status: IngestionTaskStatus;
+  attempts: number;
+  next_attempt_at: string;
+  locked_by: string | null;
+  locked_until: string | null;
+  document_id: number | null;
+  chunks_created: number | null;
+  error: string | null;
+  updated_at: string;
+  completed_at: string | null;
+}
+
+export interface CreateIngestionJobInput {
+  sitemap_urls: string[];
+  locale_policy?: unknown;
+  skip_existing?: boolean;
+  max_attempts?: number;
+}
+
+export interface WorkerOptions {
+  workerId?: string;
+  timeBudgetMs?: number;  // Total run time; a batch is only claimed while its expected duration still fits
+  batchTimeMs?: number;   // Expected worst case for one batch; raised to the slowest batch seen
+  batchSize?: number;     // Tasks claimed (and processed in parallel) at a time
+  leaseSeconds?: number;  // A running task whose lease expires is handed to another worker
+}
+
+export interface WorkerRunResult {
+  worker_id: string;
+  tasks_claimed: number;
+  done: number;
+  failed: number;
+  retried: number;
+  skipped: number;
+  jobs_completed: number[];
+  elapsed_ms: number;
+}
+
+const TASK_STATUSES: IngestionTaskStatus[] = ['pending', 'running', 'done', 'failed', 'skipped'];
+const INSERT_CHUNK_SIZE = 500;
+const RETRY_BASE_DELAY_SECONDS = 30;
+const RETRY_MAX_DELAY_SECONDS = 30 * 60;
+
+/**
+ * Exponential backoff with ±20% jitter: 30s, 60s, 120s, ... capped at 30 minutes
+ */
+export function retryDelaySeconds(attempt: number): number {
+  const delay = Math.min(RETRY_BASE_DELAY_SECONDS * Math.pow(2, Math.max(0, attempt - 1)), RETRY_MAX_DELAY_SECONDS);
+  return Math.round(delay * (0.8 + Math.random() * 0.4));
+}
+
+function emptyTaskCounts(): { [status in IngestionTaskStatus]: number } {
+  return { pending: 0, running: 0, done: 0, failed: 0, skipped: 0 };
+}
+
+function toIngestionJob(row: any, counts: { status: string; count: number }[]): IngestionJob {
+  const taskCounts = emptyTaskCounts();
+  counts.forEach(({ status, count }) => {
+    if (TASK_STATUSES.includes(status as IngestionTaskStatus)) {
+      taskCounts[status as IngestionTaskStatus] = Number(count);
+    }
+  });
+
+  return {
+    id: Number(row.id),
+    status: row.status,
+    source_urls: row.source_urls || [],
+    locale_policy: row.locale_policy,
+    skip_existing: row.skip_existing,
+    max_attempts: row.max_attempts,
+    total_tasks: row.total_tasks,
+    sitemap_errors: row.sitemap_errors || [],
+    created_at: new Date(row.created_at).toISOString(),
+    updated_at: new Date(row.updated_at).toISOString(),
+    completed_at: row.completed_at ? new Date(row.completed_at).toISOString() : null,
+    task_counts: taskCounts
+  };
+}
+
+async function insertTasks(jobId: number, entries: SitemapUrl[], status: IngestionTaskStatus, error: string | null) {
+  for (let i = 0; i < entries.length; i += INSERT_CHUNK_SIZE) {
+    const chunk = entries.slice(i, i + INSERT_CHUNK_SIZE);
+    await sql`
+      INSERT INTO ingestion_tasks (job_id, url, sitemap_entry, status, error)
+      SELECT ${jobId}, t.url, t.entry::jsonb, ${status}, ${error}
+      FROM unnest(${chunk.map(entry => entry.loc)}::text[], ${chunk.map(entry => JSON.stringify(entry))}::text[]) AS t(url, entry)
+      ON CONFLICT (job_id, url) DO NOTHING
+    `;
+  }
+}
+
+/**
+ * Walks the sitemaps and records every URL as a task. URLs outside the locale policy are
+ * recorded as skipped so the job shows what it left out; nothing is fetched here.
+ */
+export async function createIngestionJob(input: CreateIngestionJobInput): Promise<IngestionJob> {
+  const localePolicy = parseLocalePolicy(input.locale_policy);
+  const skipExisting = input.skip_existing !== false;
+  const maxAttempts = Math.min(Math.max(1, Math.floor(input.max_attempts || 3)), 10);
+
+  let urls: SitemapUrl[] = [];
+  let sitemapErrors: SitemapError[] = [];
+  const seen = new Set<string>();
+  for (const sitemapUrl of input.sitemap_urls) {
+    const discovery = await discoverSitemapUrls(sitemapUrl);
+    discovery.urls.forEach(entry => {
+      if (seen.has(entry.loc)) return;
+      seen.add(entry.loc);
+      urls.push(entry);
+    });
+    sitemapErrors = sitemapErrors.concat(discovery.errors);
+  }
+
+  const localeFilter = filterUrlsByLocale(urls, localePolicy);
+  const excludedUrls = new Set(localeFilter.excluded.map(excluded => excluded.url));
+  urls = localeFilter.included;
+
+  const jobs = await sql`
+    INSERT INTO ingestion_jobs (status, source_urls, locale_policy, skip_existing, max_attempts, total_tasks, sitemap_errors)
+    VALUES ('running', ${input.sitemap_urls}, ${JSON.stringify(localePolicy)}, ${skipExisting}, ${maxAttempts}, ${seen.size}, ${JSON.stringify(sitemapErrors)})
+    RETURNING id
+  `;
+  const jobId = Number(jobs[0].id);
+
+  await insertTasks(jobId, urls, 'pending', null);
+  await insertTasks(
+    jobId,
+    Array.from(excludedUrls).map(loc => ({ loc })),
+    'skipped',
+    'Outside the locale policy'
+  );
+
+  if (skipExisting) {
+    await sql`
+      UPDATE ingestion_tasks t
+      SET status = 'skipped', error = 'Already in database', completed_at = NOW(), updated_at = NOW()
+      FROM documents d
+      WHERE t.job_id = ${jobId} AND t.status = 'pending' AND d.url = t.url
+    `;
+  }
+
+  // A job whose URLs were all skipped has nothing left for a worker to do
+  await completeFinishedJobs([jobId]);
+
+  console.log(`Created ingestion job ${jobId} with ${seen.size} tasks from ${input.sitemap_urls.join(', ')}`);
+  const job = await getIngestionJob(jobId);
+  if (!job) throw new Error(`Ingestion job ${jobId} was not found after creation`);
+  return job;
+}
+
+export async function getIngestionJob(jobId: number): Promise<IngestionJob | null> {
+  const jobs = await sql`SELECT * FROM ingestion_jobs WHERE id = ${jobId}`;
+  if (jobs.length === 0) return null;
+
+  const counts = await sql`
+    SELECT status, COUNT(*)::int as count FROM ingestion_tasks
+    WHERE job_id = ${jobId}
+    GROUP BY status
+  `;
+  return toIngestionJob(jobs[0], counts as { status: string; count: number }[]);
+}
+
+export async function listIngestionJobs(limit: number = 20): Promise<IngestionJob[]> {
+  const jobs = await sql`SELECT * FROM ingestion_jobs ORDER BY created_at DESC LIMIT ${limit}`;
+  if (jobs.length === 0) return [];
+
+  const jobIds = jobs.map((job: any) => Number(job.id));
+  const counts = await sql`
+    SELECT job_id, status, COUNT(*)::int as count FROM ingestion_tasks
+    WHERE job_id = ANY(${jobIds}::bigint[])
+    GROUP BY job_id, status
+  `;
+  return jobs.map((job: any) =>
+    toIngestionJob(job, counts.filter((row: any) => Number(row.job_id) === Number(job.id)))
+  );
+}
+
+export async function getIngestionTasks(
+  jobId: number,
+  options: { status?: IngestionTaskStatus; limit?: number; offset?: number } = {}
+): Promise<IngestionTask[]> {
+  const { status, limit = 100, offset = 0 } = options;
+  const rows = status
+    ? await sql`
+        SELECT * FROM ingestion_tasks WHERE job_id = ${jobId} AND status = ${status}
+        ORDER BY id LIMIT ${limit} OFFSET ${offset}
+      `
+    : await sql`
+        SELECT * FROM ingestion_tasks WHERE job_id = ${jobId}
+        ORDER BY id LIMIT ${limit} OFFSET ${offset}
+      `;
+  return rows.map((row: any) => ({ ...row, id: Number(row.id), job_id: Number(row.job_id) })) as IngestionTask[];
+}
+
+/**
+ * Pauses, resumes or cancels a job. Pausing stops new claims (tasks already running finish);
+ * cancelling also marks every pending task skipped. Returns null when the job doesn't exist,
+ * and throws when the action doesn't apply to the job's current status.
+ */
+export async function updateIngestionJobStatus(jobId: number, action: IngestionJobAction): Promise<IngestionJob | null> {
+  const job = await getIngestionJob(jobId);
+  if (!job) return null;
+
+  const allowedFrom: { [key in IngestionJobAction]: IngestionJobStatus[] } = {
+    pause: ['running'],
+    resume: ['paused'],
+    cancel: ['running', 'paused']
+  };
+  if (!allowedFrom[action].includes(job.status)) {
+    throw new Error(`Cannot ${action} a job that is ${job.status}`);
+  }
+
+  if (action === 'pause') {
+    await sql`UPDATE ingestion_jobs SET status = 'paused', updated_at = NOW() WHERE id = ${jobId}`;
+  } else if (action === 'resume') {
+    await sql`UPDATE ingestion_jobs SET status = 'running', updated_at = NOW() WHERE id = ${jobId}`;
+    await completeFinishedJobs([jobId]);
+  } else {
+    await sql`UPDATE ingestion_jobs SET status = 'cancelled', updated_at = NOW(), completed_at = NOW() WHERE id = ${jobId}`;
+    await sql`
+      UPDATE ingestion_tasks
+      SET status = 'skipped', error = 'Job cancelled', completed_at = NOW(), updated_at = NOW()
+      WHERE job_id = ${jobId} AND status = 'pending'
+    `;
+  }
+
+  return getIngestionJob(jobId);
+}
+
+/**
+ * Atomically claims due pending tasks of running jobs, plus running tasks whose lease
+ * expired and that have attempts left. SKIP LOCKED lets several workers claim at once without taking the same task.
+ */
+async function claimTasks(workerId: string, limit: number, leaseSeconds: number): Promise<(IngestionTask & { locale_policy: LocalePolicy | null; max_attempts: number })[]> {
+  const rows = await sql`
+    WITH claimable AS (
+      SELECT t.id FROM ingestion_tasks t
+      JOIN ingestion_jobs j ON j.id = t.job_id
+      WHERE j.status = 'running'
+        AND (
+          (t.status = 'pending' AND t.next_attempt_at <= NOW())
+          OR (t.status = 'running' AND t.locked_until < NOW() AND t.attempts < j.max_attempts)
+        )
+      ORDER BY t.job_id, t.id
+      LIMIT ${limit}
+      FOR UPDATE OF t SKIP LOCKED
+    )
+    UPDATE ingestion_tasks t
+    SET status = 'running',
+        attempts = t.attempts + 1,
+        locked_by = ${workerId},
+        locked_until = NOW() + (${leaseSeconds} * INTERVAL '1 second'),
+        updated_at = NOW()
+    FROM claimable, ingestion_jobs j
+    WHERE t.id = claimable.id AND j.id = t.job_id
+    RETURNING t.*, j.locale_policy, j.max_attempts
+  `;
+  return rows.map((row: any) => ({ ...row, id: Number(row.id), job_id: Number(row.job_id) }));
+}
+
+/**
+ * Fails running tasks whose lease expired after their last allowed attempt, e.g. pages
+ * that crash the worker or outlast its duration. Returns the job IDs they belong to.
+ */
+async function failExpiredTasks(): Promise<number[]> {
+  const rows = await sql`
+    UPDATE ingestion_tasks t
+    SET status = 'failed',
+        error = 'Lease expired after the last attempt',
+        locked_by = NULL,
+        locked_until = NULL,
+        completed_at = NOW(),
+        updated_at = NOW()
+    FROM ingestion_jobs j
+    WHERE j.id = t.job_id
+      AND t.status = 'running'
+      AND t.locked_until < NOW()
+      AND t.attempts >= j.max_attempts
+    RETURNING t.job_id
+  `;
+  return rows.map((row: any) => Number(row.job_id));
+}
+
+async function finishTask(taskId: number, workerId: string, status: IngestionTaskStatus, fields: { document_id?: number; chunks_created?: number; error?: string | null }) {
+  await sql`
+    UPDATE ingestion_tasks
+    SET status = ${status},
+        document_id = ${fields.document_id ?? null},
+        chunks_created = ${fields.chunks_created ?? null},
+        error = ${fields.error ?? null},
+        locked_by = NULL,
+        locked_until = NULL,
+        completed_at = NOW(),
+        updated_at = NOW()
+    WHERE id = ${taskId} AND locked_by = ${workerId}
+  `;
+}
+
+async function scheduleRetry(taskId: number, workerId: string, attempt: number, error: string) {
+  const delaySeconds = retryDelaySeconds(attempt);
+  await sql`
+    UPDATE ingestion_tasks
+    SET status = 'pending',
+        error = ${error},
+        next_attempt_at = NOW() + (${delaySeconds} * INTERVAL '1 second'),
+        locked_by = NULL,
+        locked_until = NULL,
+        updated_at = NOW()
+    WHERE id = ${taskId} AND locked_by = ${workerId}
+  `;
+}
+
+// Marks running jobs with no pending or running tasks left as completed
+async function completeFinishedJobs(jobIds: number[]): Promise<number[]> {
+  if (jobIds.length === 0) return [];
+  const rows = await sql`
+    UPDATE ingestion_jobs j
+    SET status = 'completed', completed_at = NOW(), updated_at = NOW()
+    WHERE j.id = ANY(${jobIds}::bigint[])
+      AND j.status = 'running'
+      AND NOT EXISTS (
+        SELECT 1 FROM ingestion_tasks t
+        WHERE t.job_id = j.id AND t.status IN ('pending', 'running')
+      )
+    RETURNING j.id
+  `;
+  return rows.map((row: any) => Number(row.id));
+}
+
+/**
+ * Claims and processes tasks while another batch fits in the time budget and tasks are due. Failures
+ * go back to pending with exponential backoff until the job's max_attempts is reached.
+ * Safe to run from several processes at once and to kill at any point: unfinished tasks
+ * are reclaimed once their lease expires, or failed if that was their last attempt.
+ */
+export async function runIngestionWorker(options: WorkerOptions = {}): Promise<WorkerRunResult> {
+  const {
+    workerId = `worker-${process.pid}-${Math.random().toString(36).slice(2, 8)}`,
+    timeBudgetMs = 25000,
+    batchTimeMs = 10000,
+    batchSize = 3,
+    leaseSeconds = 120
+  } = options;
+  const startedAt = Date.now();
+  const result: WorkerRunResult = {
+    worker_id: workerId,
+    tasks_claimed: 0,
+    done: 0,
+    failed: 0,
+    retried: 0,
+    skipped: 0,
+    jobs_completed: [],
+    elapsed_ms: 0
+  };
+  const touchedJobs = new Set<number>();
+  let expectedBatchMs = batchTimeMs;
+
+  const expiredJobIds = await failExpiredTasks();
+  result.failed += expiredJobIds.length;
+  expiredJobIds.forEach(jobId => touchedJobs.add(jobId));
+
+  while (timeBudgetMs - (Date.now() - startedAt) >= expectedBatchMs) {
+    const batchStartedAt = Date.now();
+    const tasks = await claimTasks(workerId, batchSize, leaseSeconds);
+    if (tasks.length === 0) break;
+    result.tasks_claimed += tasks.length;
+
+    await Promise.all(tasks.map(async task => {
+      touchedJobs.add(task.job_id);
+      try {
+        const robotsCheck = await checkRobotsAccess(task.url);
+        if (!robotsCheck.allowed) {
+          await finishTask(task.id, workerId, 'skipped', { error: `Disallowed by ${robotsCheck.robots_url}` });
+          result.skipped++;
+          return;
+        }
+
+        const localePolicy = parseLocalePolicy(task.locale_policy);
+        const page = await ingestSitemapUrl(task.sitemap_entry || { loc: task.url }, localePolicy);
+        if (!page.stored) {
+          await finishTask(task.id, workerId, 'skipped', { error: page.excluded_reason || 'Outside the locale policy' });
+          result.skipped++;
+          return;
+        }
+
+        await finishTask(task.id, workerId, 'done', { document_id: page.document_id, chunks_created: page.chunks_created });
+        result.done++;
+      } catch (error) {
+        const message = error instanceof Error ? error.message : 'Unknown error';
+        // Redirected to a URL that robots.txt disallows; retrying won't change that
+        if (isBlockedByRobotsError(error)) {
+          await finishTask(task.id, workerId, 'skipped', { error: message });
+          result.skipped++;
+          return;
+        }
+        console.error(`Ingestion task ${task.id} (${task.url}) failed on attempt ${task.attempts}:`, message);
+        if (task.attempts < task.max_attempts) {
+          await scheduleRetry(task.id, workerId, task.attempts, message);
+          result.retried++;
+        } else {
+          await finishTask(task.id, workerId, 'failed', { error: message });
+          result.failed++;
+        }
+      }
+    }));
+    expectedBatchMs = Math.max(expectedBatchMs, Date.now() - batchStartedAt);
+  }
+
+  result.jobs_completed = await completeFinishedJobs(Array.from(touchedJobs));
+  result.elapsed_ms = Date.now() - startedAt;
+  console.log(`Ingestion worker ${workerId}: ${result.tasks_claimed} claimed, ${result.done} done, ${result.retried} retried, ${result.failed} failed, ${result.skipped} skipped`);
+  return result;
+}
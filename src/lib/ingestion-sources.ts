@@ -0,0 +1,480 @@
+import { readFile, readdir, stat } from 'fs/promises';
+import { join, relative, extname, basename } from 'path';
+import { gunzipSync, inflateRawSync, inflateSync, brotliDecompressSync } from 'zlib';
+import * as cheerio from 'cheerio';
+import { type HttpResponseData } from './scraper';
+
+// Pages read from disk or from web archives instead of a live fetch. Each page keeps the URL
+// it was originally served from, so stored documents line up with the live site.
+
+// Sources are held in memory whole, so files and everything decompressed from them are capped
+export const SOURCE_MAX_BYTES = 200 * 1024 * 1024;          // One file as uploaded or read from disk
+const ARCHIVE_MAX_DECOMPRESSED_BYTES = 500 * 1024 * 1024;   // Everything decompressed from one WARC or WACZ, in total
+const PAGE_MAX_DECODED_BYTES = 20 * 1024 * 1024;            // One archived response body, after Content-Encoding
+
+export type IngestionSourceType = 'html_file' | 'warc' | 'wacz';
+
+export interface SourcePage {
+  url: string;              // Original URL the page was served from
+  html: string;
+  http: HttpResponseData;
+  source: {
+    type: IngestionSourceType;
+    path: string;           // File (or archive member) the page was read from
+    record?: number;        // Index of the WARC record within its file
+  };
+}
+
+export interface SourceReadError {
+  path: string;
+  error: string;
+}
+
+export interface SourceReadResult {
+  pages: SourcePage[];
+  errors: SourceReadError[];
+}
+
+export interface HtmlSourceOptions {
+  url?: string;      // Original URL of a single file
+  baseUrl?: string;  // Maps paths relative to the export root onto the live site
+  fetchedAt?: Date;  // When the page was saved; defaults to the file's modification time
+}
+
+export const HTML_FILE_EXTENSIONS = ['.html', '.htm', '.xhtml'];
+const HTML_CONTENT_TYPES = ['text/html', 'application/xhtml+xml'];
+
+// Browsers' "Save page as" writes assets to a sibling "<page>_files" directory
+const SAVED_ASSET_DIRECTORY = /_files$/;
+
+export function isHtmlPath(path: string): boolean {
+  return HTML_FILE_EXTENSIONS.includes(extname(path).toLowerCase());
+}
+
+export function isArchivePath(path: string): boolean {
+  const lower = path.toLowerCase();
+  return lower.endsWith('.warc') || lower.endsWith('.warc.gz') || lower.endsWith('.wacz');
+}
+
+/**
+ * Maps a path inside an export onto the live site: about/index.html → {baseUrl}/about/
+ */
+export function pathToUrl(relativePath: string, baseUrl: string): string {
+  const path = relativePath.split(/[\\/]+/).filter(segment => segment.length > 0 && segment !== '.').join('/');
+  const page = path.replace(/(^|\/)index\.(html?|xhtml)$/i, '$1');
+  return new URL(page.split('/').map(encodeURIComponent).join('/'), baseUrl.endsWith('/') ? baseUrl : `${baseUrl}/`).href;
+}
+
+/**
+ * Works out where a saved page originally lived: the browser's "saved from url" marker,
+ * then the export's base URL, then the page's own canonical, og:url or <base href>
+ */
+export function resolveOriginalUrl(html: string, relativePath: string, options: HtmlSourceOptions = {}): string | undefined {
+  if (options.url) return options.url;
+
+  const savedFrom = html.slice(0, 2048).match(/<!--\s*saved from url=\(\d+\)(\S+?)\s*-->/i);
+  if (savedFrom && /^https?:\/\//i.test(savedFrom[1])) return savedFrom[1];
+
+  if (options.baseUrl) return pathToUrl(relativePath, options.baseUrl);
+
+  const $ = cheerio.load(html);
+  const candidates = [
+    $('link[rel="canonical"]').attr('href'),
+    $('meta[property="og:url"]').attr('content'),
+    $('base[href]').attr('href')
+  ];
+  return candidates.find(candidate => !!candidate && /^https?:\/\//i.test(candidate.trim()))?.trim();
+}
+
+function localHttpData(url: string, html: string, fetchedAt: Date): HttpResponseData {
+  return {
+    status_code: 200,
+    final_url: url,
+    redirect_chain: [],
+    content_type: 'text/html',
+    content_length: Buffer.byteLength(html),
+    last_modified: fetchedAt.toUTCString(),
+    fetched_at: fetchedAt.toISOString()
+  };
+}
+
+/**
+ * Turns saved HTML into a page; `relativePath` is the file's path within the export
+ */
+export function htmlToSourcePage(html: string, relativePath: string, options: HtmlSourceOptions = {}): SourcePage {
+  const url = resolveOriginalUrl(html, relativePath, options);
+  if (!url) {
+    throw new Error(`Could not determine the original URL of ${relativePath}; provide a base URL`);
+  }
+
+  return {
+    url,
+    html,
+    http: localHttpData(url, html, options.fetchedAt || new Date()),
+    source: { type: 'html_file', path: relativePath }
+  };
+}
+
+async function listFiles(directory: string, matches: (path: string) => boolean): Promise<string[]> {
+  const entries = await readdir(directory, { withFileTypes: true });
+  const files: string[] = [];
+
+  for (const entry of entries) {
+    if (entry.name.startsWith('.')) continue;
+    const path = join(directory, entry.name);
+    // Symlinks are neither files nor directories here, so a link can't lead outside the directory
+    if (entry.isDirectory()) {
+      if (SAVED_ASSET_DIRECTORY.test(entry.name)) continue;
+      files.push(...await listFiles(path, matches));
+    } else if (entry.isFile() && matches(path)) {
+      files.push(path);
+    }
+  }
+
+  return files.sort();
+}
+
+/**
+ * Reads every HTML file under a directory of saved pages or a static export. With a base URL,
+ * each file's path below the directory becomes its path on the site.
+ */
+export async function readHtmlDirectory(directory: string, options: Omit<HtmlSourceOptions, 'url'> = {}): Promise<SourceReadResult> {
+  const files = await listFiles(directory, isHtmlPath);
+  const result: SourceReadResult = { pages: [], errors: [] };
+
+  for (const file of files) {
+    const relativePath = relative(directory, file);
+    try {
+      const stats = await stat(file);
+      if (stats.size > SOURCE_MAX_BYTES) throw new Error(`File exceeds ${SOURCE_MAX_BYTES} bytes`);
+      const content = await readFile(file, 'utf8');
+      result.pages.push(htmlToSourcePage(content, relativePath, { fetchedAt: stats.mtime, ...options }));
+    } catch (error) {
+      result.errors.push({ path: relativePath, error: error instanceof Error ? error.message : 'Unknown error' });
+    }
+  }
+
+  return result;
+}
+
+export interface WarcRecord {
+  headers: { [name: string]: string };  // Lowercased names
+  block: Buffer;
+}
+
+function parseHeaderLines(lines: string[]): { [name: string]: string } {
+  const headers: { [name: string]: string } = {};
+  lines.forEach(line => {
+    const separator = line.indexOf(':');
+    if (separator <= 0) return;
+    const name = line.slice(0, separator).trim().toLowerCase();
+    const value = line.slice(separator + 1).trim();
+    headers[name] = headers[name] ? `${headers[name]}, ${value}` : value;
+  });
+  return headers;
+}
+
+// Bytes an archive may still decompress, shared by its entries, nested WARCs and page bodies
+interface DecompressionBudget {
+  remaining: number;
+}
+
+function archiveBudget(): DecompressionBudget {
+  return { remaining: ARCHIVE_MAX_DECOMPRESSED_BYTES };
+}
+
+// Decompresses with an output cap, so a small compression bomb can't exhaust memory. The
+// output is also charged to the archive's budget, so nesting can't multiply the cap.
+function decompress(
+  inflate: (data: Buffer, options: { maxOutputLength: number }) => Buffer,
+  data: Buffer,
+  maxBytes: number,
+  what: string,
+  budget: DecompressionBudget
+): Buffer {
+  const limit = Math.min(maxBytes, budget.remaining);
+  let output: Buffer;
+  try {
+    output = inflate(data, { maxOutputLength: Math.max(limit, 1) });
+  } catch (error) {
+    if (error instanceof RangeError) {
+      throw new Error(limit < maxBytes
+        ? `Archive exceeds ${ARCHIVE_MAX_DECOMPRESSED_BYTES} bytes when decompressed (at ${what})`
+        : `${what} exceeds ${maxBytes} bytes when decompressed`);
+    }
+    throw error;
+  }
+  budget.remaining -= output.length;
+  return output;
+}
+
+/**
+ * Splits a WARC file (plain, or gzipped per record as .warc.gz usually is) into records
+ */
+export function parseWarc(data: Buffer, budget: DecompressionBudget = archiveBudget()): WarcRecord[] {
+  // Node decompresses every gzip member, so per-record .warc.gz files come out whole
+  const buffer = data.length >= 2 && data[0] === 0x1f && data[1] === 0x8b
+    ? decompress(gunzipSync, data, ARCHIVE_MAX_DECOMPRESSED_BYTES, 'WARC file', budget)
+    : data;
+  const records: WarcRecord[] = [];
+  let offset = 0;
+
+  while (offset < buffer.length) {
+    // Skip the blank lines between records
+    while (offset < buffer.length && (buffer[offset] === 0x0d || buffer[offset] === 0x0a)) offset++;
+    if (offset >= buffer.length) break;
+
+    const headerEnd = buffer.indexOf('\r\n\r\n', offset);
+    if (headerEnd === -1) throw new Error(`Truncated WARC record header at byte ${offset}`);
+
+    const headerLines = buffer.subarray(offset, headerEnd).toString('utf8').split('\r\n');
+    if (!/^WARC\/\d/.test(headerLines[0])) {
+      throw new Error(`Expected a WARC record at byte ${offset}, found "${headerLines[0].slice(0, 40)}"`);
+    }
+
+    const headers = parseHeaderLines(headerLines.slice(1));
+    const length = parseInt(headers['content-length'] || '', 10);
+    if (isNaN(length)) throw new Error(`WARC record at byte ${offset} has no Content-Length`);
+
+    const blockStart = headerEnd + 4;
+    records.push({ headers, block: buffer.subarray(blockStart, blockStart + length) });
+    offset = blockStart + length;
+  }
+
+  return records;
+}
+
+function decodeChunked(body: Buffer): Buffer {
+  const chunks: Buffer[] = [];
+  let offset = 0;
+  while (offset < body.length) {
+    const lineEnd = body.indexOf('\r\n', offset);
+    if (lineEnd === -1) break;
+    const size = parseInt(body.subarray(offset, lineEnd).toString('ascii').split(';')[0], 16);
+    if (!size) break;
+    chunks.push(body.subarray(lineEnd + 2, lineEnd + 2 + size));
+    offset = lineEnd + 2 + size + 2;
+  }
+  return Buffer.concat(chunks);
+}
+
+function decodeContentEncoding(body: Buffer, encoding: string | undefined, budget: DecompressionBudget): Buffer {
+  switch ((encoding || '').toLowerCase()) {
+    case 'gzip':
+    case 'x-gzip':
+      return decompress(gunzipSync, body, PAGE_MAX_DECODED_BYTES, 'Response body', budget);
+    case 'deflate':
+      return decompress(inflateSync, body, PAGE_MAX_DECODED_BYTES, 'Response body', budget);
+    case 'br':
+      return decompress(brotliDecompressSync, body, PAGE_MAX_DECODED_BYTES, 'Response body', budget);
+    default:
+      return body;
+  }
+}
+
+function charsetOf(contentType: string | undefined): BufferEncoding {
+  const charset = (contentType || '').match(/charset=["']?([\w-]+)/i)?.[1]?.toLowerCase();
+  return charset === 'iso-8859-1' || charset === 'latin1' || charset === 'windows-1252' ? 'latin1' : 'utf8';
+}
+
+/**
+ * Extracts the HTML pages from a WARC file's response records, keeping the archived status,
+ * headers and capture date. A URL captured more than once keeps its latest capture.
+ */
+export function warcToSourcePages(
+  data: Buffer,
+  path: string,
+  type: IngestionSourceType = 'warc',
+  budget: DecompressionBudget = archiveBudget()
+): SourceReadResult {
+  const result: SourceReadResult = { pages: [], errors: [] };
+  const pagesByUrl = new Map<string, SourcePage>();
+
+  let records: WarcRecord[];
+  try {
+    records = parseWarc(data, budget);
+  } catch (error) {
+    result.errors.push({ path, error: error instanceof Error ? error.message : 'Unknown error' });
+    return result;
+  }
+
+  records.forEach((record, index) => {
+    const url = (record.headers['warc-target-uri'] || '').replace(/^<|>$/g, '');
+    if (record.headers['warc-type'] !== 'response' || !/^https?:\/\//i.test(url)) return;
+
+    try {
+      const headerEnd = record.block.indexOf('\r\n\r\n');
+      if (headerEnd === -1) throw new Error('Response record has no HTTP headers');
+
+      const [statusLine, ...headerLines] = record.block.subarray(0, headerEnd).toString('latin1').split('\r\n');
+      const statusCode = parseInt(statusLine.split(' ')[1] || '', 10);
+      const headers = parseHeaderLines(headerLines);
+      const contentType = headers['content-type'];
+      if (!contentType || !HTML_CONTENT_TYPES.some(htmlType => contentType.toLowerCase().includes(htmlType))) return;
+      // Redirects carry no page of their own
+      if (statusCode >= 300 && statusCode < 400) return;
+
+      let body = record.block.subarray(headerEnd + 4);
+      if ((headers['transfer-encoding'] || '').toLowerCase().includes('chunked')) body = decodeChunked(body);
+      body = decodeContentEncoding(body, headers['content-encoding'], budget);
+      const html = body.toString(charsetOf(contentType));
+
+      const capturedAt = record.headers['warc-date'] ? new Date(record.headers['warc-date']) : new Date();
+      pagesByUrl.set(url, {
+        url,
+        html,
+        http: {
+          status_code: statusCode || 200,
+          final_url: url,
+          redirect_chain: [],
+          content_type: contentType,
+          content_length: body.length,
+          last_modified: headers['last-modified'],
+          cache_control: headers['cache-control'],
+          x_robots_tag: headers['x-robots-tag'],
+          fetched_at: isNaN(capturedAt.getTime()) ? new Date().toISOString() : capturedAt.toISOString()
+        },
+        source: { type, path, record: index }
+      });
+    } catch (error) {
+      result.errors.push({ path: `${path}#${index}`, error: error instanceof Error ? error.message : 'Unknown error' });
+    }
+  });
+
+  result.pages = Array.from(pagesByUrl.values());
+  return result;
+}
+
+interface ZipEntry {
+  name: string;
+  data: (budget: DecompressionBudget) => Buffer;
+}
+
+// Minimal ZIP reader for WACZ packages (stored or deflated entries, no ZIP64)
+function readZipEntries(data: Buffer): ZipEntry[] {
+  let eocd = -1;
+  for (let i = data.length - 22; i >= Math.max(0, data.length - 22 - 65535); i--) {
+    if (data.readUInt32LE(i) === 0x06054b50) {
+      eocd = i;
+      break;
+    }
+  }
+  if (eocd === -1) throw new Error('Not a ZIP archive (no end of central directory)');
+
+  const entryCount = data.readUInt16LE(eocd + 10);
+  let offset = data.readUInt32LE(eocd + 16);
+  if (offset === 0xffffffff) throw new Error('ZIP64 archives are not supported');
+
+  const entries: ZipEntry[] = [];
+  for (let i = 0; i < entryCount; i++) {
+    if (data.readUInt32LE(offset) !== 0x02014b50) throw new Error('Corrupt ZIP central directory');
+    const method = data.readUInt16LE(offset + 10);
+    const compressedSize = data.readUInt32LE(offset + 20);
+    const nameLength = data.readUInt16LE(offset + 28);
+    const extraLength = data.readUInt16LE(offset + 30);
+    const commentLength = data.readUInt16LE(offset + 32);
+    const localOffset = data.readUInt32LE(offset + 42);
+    const name = data.subarray(offset + 46, offset + 46 + nameLength).toString('utf8');
+    offset += 46 + nameLength + extraLength + commentLength;
+
+    if (compressedSize === 0xffffffff || localOffset === 0xffffffff) {
+      throw new Error('ZIP64 archives are not supported');
+    }
+
+    entries.push({
+      name,
+      data: budget => {
+        const dataStart = localOffset + 30 + data.readUInt16LE(localOffset + 26) + data.readUInt16LE(localOffset + 28);
+        const compressed = data.subarray(dataStart, dataStart + compressedSize);
+        if (method === 0) return compressed;
+        if (method === 8) return decompress(inflateRawSync, compressed, ARCHIVE_MAX_DECOMPRESSED_BYTES, name, budget);
+        throw new Error(`Unsupported ZIP compression method ${method} for ${name}`);
+      }
+    });
+  }
+
+  return entries;
+}
+
+/**
+ * Extracts the HTML pages from the WARC files packaged in a WACZ archive
+ */
+export function waczToSourcePages(data: Buffer, path: string): SourceReadResult {
+  const result: SourceReadResult = { pages: [], errors: [] };
+
+  let entries: ZipEntry[];
+  try {
+    entries = readZipEntries(data);
+  } catch (error) {
+    result.errors.push({ path, error: error instanceof Error ? error.message : 'Unknown error' });
+    return result;
+  }
+
+  const budget = archiveBudget();
+  const warcEntries = entries.filter(entry => /^archive\/.+\.warc(\.gz)?$/i.test(entry.name));
+  if (warcEntries.length === 0) {
+    result.errors.push({ path, error: 'WACZ package has no archive/*.warc files' });
+  }
+
+  warcEntries.forEach(entry => {
+    try {
+      const extracted = warcToSourcePages(entry.data(budget), `${path}/${entry.name}`, 'wacz', budget);
+      result.pages.push(...extracted.pages);
+      result.errors.push(...extracted.errors);
+    } catch (error) {
+      result.errors.push({ path: `${path}/${entry.name}`, error: error instanceof Error ? error.message : 'Unknown error' });
+    }
+  });
+
+  return result;
+}
+
+/**
+ * Reads pages from any supported source given its name and contents: an HTML file,
+ * a WARC (.warc, .warc.gz) or a WACZ package
+ */
+export function readSourceBuffer(data: Buffer, path: string, options: HtmlSourceOptions = {}): SourceReadResult {
+  const lower = path.toLowerCase();
+  if (lower.endsWith('.wacz')) return waczToSourcePages(data, path);
+  if (lower.endsWith('.warc') || lower.endsWith('.warc.gz')) return warcToSourcePages(data, path);
+
+  if (isHtmlPath(path)) {
+    try {
+      return { pages: [htmlToSourcePage(data.toString('utf8'), path, options)], errors: [] };
+    } catch (error) {
+      return { pages: [], errors: [{ path, error: error instanceof Error ? error.message : 'Unknown error' }] };
+    }
+  }
+
+  return { pages: [], errors: [{ path, error: 'Unsupported file type; expected .html, .warc, .warc.gz or .wacz' }] };
+}
+
+/**
+ * Reads pages from a path on disk: an HTML file, a WARC or WACZ archive, or a directory of
+ * saved pages (archives inside the directory are read too)
+ */
+export async function readSourcePath(path: string, options: HtmlSourceOptions = {}): Promise<SourceReadResult> {
+  const tooLarge = (name: string): SourceReadResult => ({
+    pages: [],
+    errors: [{ path: name, error: `File exceeds ${SOURCE_MAX_BYTES} bytes` }]
+  });
+
+  const stats = await stat(path);
+  if (!stats.isDirectory()) {
+    if (stats.size > SOURCE_MAX_BYTES) return tooLarge(basename(path));
+    return readSourceBuffer(await readFile(path), basename(path), { fetchedAt: stats.mtime, ...options });
+  }
+
+  // A single original URL only describes a single file, so it never applies to a directory
+  const { url: _url, ...directoryOptions } = options;
+  const result = await readHtmlDirectory(path, directoryOptions);
+  const archives = await listFiles(path, isArchivePath);
+  for (const archive of archives) {
+    const extracted = (await stat(archive)).size > SOURCE_MAX_BYTES
+      ? tooLarge(relative(path, archive))
+      : readSourceBuffer(await readFile(archive), relative(path, archive));
+    result.pages.push(...extracted.pages);
+    result.errors.push(...extracted.errors);
+  }
+  return result;
+}
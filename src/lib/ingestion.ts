@@ -0,0 +1,86 @@
+import { scrapeWebsite, parseScrapedPage } from './scraper';
+import { chunkScrapedContent } from './chunking';
+import { storeDocument, updateDocumentSitemapEntry } from './vector-store';
+import { evaluateLocalePolicy, type LocalePolicy } from './locale-policy';
+import { analyzeSitemapExtensions, type SitemapExtensionIssue } from './sitemap-extension-analyzer';
+import { type SitemapUrl } from './sitemap-parser';
+import { type SourcePage } from './ingestion-sources';
+
+export interface IngestedPage {
+  url: string;
+  stored: boolean;          // False when the page's hreflang put it outside the locale policy
+  document_id?: number;
+  chunks_created?: number;
+  unchanged?: boolean;
+  title?: string;
+  locale?: string;
+  excluded_reason?: string;
+  sitemap_issues?: SitemapExtensionIssue[];
+}
+
+/**
+ * Scrapes, chunks and stores one sitemap URL, records its sitemap entry and cross-checks the
+ * entry's extensions against the page. Throws when the page can't be fetched or stored.
+ */
+export async function ingestSitemapUrl(entry: SitemapUrl, localePolicy: LocalePolicy): Promise<IngestedPage> {
+  const scrapedContent = await scrapeWebsite(entry.loc, { localePolicy });
+
+  // URLs without a locale marker were kept until the page's hreflang could be checked
+  if (localePolicy.strategies.includes('hreflang')) {
+    const decision = evaluateLocalePolicy(scrapedContent.http?.final_url || entry.loc, localePolicy, scrapedContent.hreflang);
+    if (!decision.allowed) {
+      return { url: entry.loc, stored: false, locale: decision.locale, excluded_reason: decision.reason };
+    }
+  }
+
+  const chunks = chunkScrapedContent(scrapedContent);
+
+  const document = await storeDocument(scrapedContent, chunks);
+  await updateDocumentSitemapEntry(document.id, entry);
+
+  // Cross-check the entry's image, video, news and alternate extensions against the page
+  const sitemapReport = analyzeSitemapExtensions([{
+    url: entry.loc,
+    sitemap_entry: entry,
+    page_images: scrapedContent.images.map(image => image.src).concat(scrapedContent.seo_data.og_image ? [scrapedContent.seo_data.og_image] : []),
+    hreflang: scrapedContent.hreflang
+  }]);
+
+  return {
+    url: entry.loc,
+    stored: true,
+    document_id: document.id,
+    chunks_created: document.chunksCreated,
+    unchanged: document.unchanged,
+    title: scrapedContent.title,
+    locale: scrapedContent.locale,
+    sitemap_issues: sitemapReport.issues.length > 0 ? sitemapReport.issues : undefined
+  };
+}
+
+/**
+ * Parses, chunks and stores a page read from a file or web archive under its original URL.
+ * Nothing is fetched, so robots.txt doesn't apply; the locale policy still does.
+ */
+export async function ingestSourcePage(page: SourcePage, localePolicy: LocalePolicy): Promise<IngestedPage> {
+  const scrapedContent = parseScrapedPage(page.html, page.url, page.http, { localePolicy });
+
+  const decision = evaluateLocalePolicy(page.url, localePolicy, scrapedContent.hreflang);
+  if (!decision.allowed) {
+    return { url: page.url, stored: false, locale: decision.locale, excluded_reason: decision.reason };
+  }
+
+  const chunks = chunkScrapedContent(scrapedContent);
+
+  const document = await storeDocument(scrapedContent, chunks);
+
+  return {
+    url: page.url,
+    stored: true,
+    document_id: document.id,
+    chunks_created: document.chunksCreated,
+    unchanged: document.unchanged,
+    title: scrapedContent.title,
+    locale: scrapedContent.locale
+  };
+}
@@ -0,0 +1,303 @@
+import { type HreflangLink } from './scraper';
+import { isValidHreflangCode, normalizeHreflangUrl } from './hreflang-analyzer';
+
+export type LocaleStrategy = 'path' | 'subdomain' | 'hreflang';
+
+/**
+ * Which locales an ingestion job keeps, and how a URL's locale is detected.
+ * List entries are locale codes ("de", "fr-ca") or "default" for URLs without any
+ * locale marker. A language entry also matches its regional variants ("de" matches "de-at").
+ */
+export interface LocalePolicy {
+  strategies: LocaleStrategy[]; // Tried in order; the first that finds a locale wins
+  include: string[];            // Empty means every locale
+  exclude: string[];            // Applied after include
+  default_locale: string;       // Stored for URLs without a locale marker
+  path_pattern?: string;        // Regex on the pathname; first capture group is the locale
+  subdomain_pattern?: string;   // Regex on the hostname; first capture group is the locale
+}
+
+export interface LocaleDetection {
+  locale: string;
+  is_default: boolean; // No locale marker was found; locale is the policy's default_locale
+  source: LocaleStrategy | 'default';
+}
+
+export interface LocaleDecision extends LocaleDetection {
+  allowed: boolean;
+  reason?: string;
+}
+
+export const DEFAULT_LOCALE_TOKEN = 'default';
+
+// Locale prefixes recognized in the leading path segment when no path_pattern is set. This is
+// the list the old English-only filter used, matched the same way (lowercase, with a trailing
+// slash), so the default policy drops exactly the URLs it dropped before; a two-letter segment
+// such as /go/ or /us/ isn't a locale unless listed. Set path_pattern to detect anything else.
+const DEFAULT_PATH_LOCALES = [
+  'en', 'en-us', 'en-gb', 'en-au', 'en-ca', 'en-nz', 'en-ie', 'en-za', 'en-in', 'ar', 'fr', 'de',
+  'es', 'it', 'pt', 'ru', 'ja', 'ko', 'zh', 'zh-cn', 'zh-hans', 'zh-hant', 'hi', 'th', 'vi', 'pl',
+  'nl', 'sv', 'da', 'no', 'fi', 'tr', 'cs', 'hu', 'ro', 'bg', 'hr', 'sk', 'sl', 'et', 'lv', 'lt',
+  'mt', 'el', 'cy', 'ga', 'eu', 'ca', 'gl', 'ast', 'an', 'oc', 'co', 'sc', 'rm', 'fur', 'lld',
+  'vec', 'lij', 'pms', 'lmo', 'eml', 'rgn', 'nap', 'scn', 'srd', 'mg', 'sw', 'zu', 'af', 'xh',
+  'st', 'tn', 'ts', 'ss', 'nr', 'nd', 've', 'he', 'ar-sa', 'fa', 'ur', 'bn', 'ta', 'te', 'kn',
+  'ml', 'gu', 'pa', 'or', 'as', 'mr', 'ne', 'si', 'my', 'km', 'lo', 'ka', 'am', 'ti', 'so', 'ha',
+  'ig', 'yo', 'id', 'ms', 'tl', 'ceb', 'haw', 'mi', 'sm', 'to', 'pt-br', 'pt-pt', 'es-es', 'es-mx',
+  'es-ar', 'es-co', 'es-pe', 'es-ve', 'es-cl', 'es-ec', 'es-gt', 'es-cu', 'es-bo', 'es-do',
+  'es-hn', 'es-py', 'es-sv', 'es-ni', 'es-cr', 'es-pa', 'es-uy', 'fr-ca', 'fr-ch', 'fr-be',
+  'de-at', 'de-ch', 'it-ch', 'nl-be', 'zh-tw', 'zh-hk', 'ar-ae', 'ar-eg', 'ar-ma', 'fr-fr',
+  'de-de', 'it-it', 'ru-ru', 'ja-jp', 'ko-kr', 'hi-in', 'th-th', 'vi-vn'
+];
+
+// Leading host label such as de.example.com or fr-ca.example.com
+const DEFAULT_SUBDOMAIN_PATTERN = '^([a-z]{2}(?:-[a-z]{2})?)\\.';
+
+const VALID_STRATEGIES: LocaleStrategy[] = ['path', 'subdomain', 'hreflang'];
+
+/**
+ * Matches the previous behaviour: only content without a locale prefix, which is English
+ */
+export const DEFAULT_LOCALE_POLICY: LocalePolicy = {
+  strategies: ['path'],
+  include: [DEFAULT_LOCALE_TOKEN],
+  exclude: [],
+  default_locale: 'en'
+};
+
+/**
+ * Lowercases a locale code and converts underscores ("pt_BR" becomes "pt-br").
+ * Returns null for anything that isn't a valid language or language-region code.
+ */
+export function normalizeLocale(code: string | null | undefined): string | null {
+  if (!code) return null;
+  const value = code.trim().toLowerCase().replace(/_/g, '-');
+  if (!value || value === 'x-default' || !isValidHreflangCode(value)) return null;
+  return value;
+}
+
+function normalizeLocaleList(values: unknown, field: string): string[] {
+  if (values === undefined || values === null) return [];
+  const list = Array.isArray(values)
+    ? values
+    : typeof values === 'string' ? values.split(',') : null;
+  if (!list) throw new Error(`${field} must be a list of locale codes`);
+
+  return list
+    .map(value => String(value).trim().toLowerCase())
+    .filter(value => value.length > 0)
+    .map(value => {
+      if (value === DEFAULT_LOCALE_TOKEN) return value;
+      const locale = normalizeLocale(value);
+      if (!locale) throw new Error(`Invalid locale code in ${field}: ${value}`);
+      return locale;
+    });
+}
+
+// Patterns run against every URL of a crawl, so user input is kept short and free of groups that
+// backtrack catastrophically: nested quantifiers ("(a+)+") and quantified alternations ("(a|aa)+")
+const MAX_PATTERN_LENGTH = 200;
+const MAX_COMPILED_PATTERNS = 100;
+
+const compiledPatterns = new Map<string, RegExp>();
+
+// Whether a group containing a quantifier or an alternation (at any depth) is itself repeated
+function hasUnsafeQuantifiedGroup(pattern: string): boolean {
+  const groups: { risky: boolean }[] = [];
+  const isQuantifier = (index: number) =>
+    pattern[index] === '+' || pattern[index] === '*' || (pattern[index] === '{' && /^\{\d*,?\d*\}/.test(pattern.slice(index)));
+
+  for (let i = 0; i < pattern.length; i++) {
+    const char = pattern[i];
+    if (char === '\\') {
+      i++;
+    } else if (char === '[') {
+      // Character class contents can't quantify or alternate
+      for (i++; i < pattern.length && pattern[i] !== ']'; i++) {
+        if (pattern[i] === '\\') i++;
+      }
+    } else if (char === '(') {
+      groups.push({ risky: false });
+    } else if (char === ')') {
+      const group = groups.pop();
+      if (group?.risky) {
+        if (isQuantifier(i + 1)) return true;
+        if (groups.length > 0) groups[groups.length - 1].risky = true;
+      }
+    } else if ((char === '|' || isQuantifier(i)) && groups.length > 0) {
+      groups[groups.length - 1].risky = true;
+    }
+  }
+  return false;
+}
+
+/**
+ * Compiles a user-supplied, case-insensitive pattern after checking its length and rejecting
+ * constructs that backtrack catastrophically. Throws with the field name on invalid input.
+ */
+export function compileSafePattern(pattern: string, field: string): RegExp {
+  if (pattern.length > MAX_PATTERN_LENGTH) {
+    throw new Error(`Invalid ${field}: patterns are limited to ${MAX_PATTERN_LENGTH} characters`);
+  }
+  if (hasUnsafeQuantifiedGroup(pattern)) {
+    throw new Error(`Invalid ${field}: repeated groups containing quantifiers or alternation, such as (a+)+ or (a|aa)+, are not allowed`);
+  }
+
+  try {
+    return new RegExp(pattern, 'i');
+  } catch (error) {
+    throw new Error(`Invalid ${field}: ${error instanceof Error ? error.message : 'Unknown error'}`);
+  }
+}
+
+function compilePattern(pattern: string, field: string): RegExp {
+  const cached = compiledPatterns.get(pattern);
+  if (cached) return cached;
+
+  const regex = compileSafePattern(pattern, field);
+  // An empty alternative always matches, so the result length reveals the number of capture groups
+  if (new RegExp(`${pattern}|`, 'i').exec('')!.length < 2) {
+    throw new Error(`Invalid ${field}: the pattern needs a capture group for the locale`);
+  }
+
+  if (compiledPatterns.size >= MAX_COMPILED_PATTERNS) compiledPatterns.clear();
+  compiledPatterns.set(pattern, regex);
+  return regex;
+}
+
+/**
+ * Builds a locale policy from request input, filling in defaults. Throws on invalid codes or patterns.
+ */
+export function parseLocalePolicy(input: unknown): LocalePolicy {
+  if (input === undefined || input === null) return DEFAULT_LOCALE_POLICY;
+  if (typeof input !== 'object') throw new Error('locale_policy must be an object');
+
+  const raw = input as { [key: string]: unknown };
+  const strategies = raw.strategies === undefined
+    ? DEFAULT_LOCALE_POLICY.strategies
+    : (Array.isArray(raw.strategies) ? raw.strategies : []).map(value => String(value)) as LocaleStrategy[];
+
+  if (strategies.length === 0 || strategies.some(strategy => !VALID_STRATEGIES.includes(strategy))) {
+    throw new Error(`locale_policy.strategies must contain one or more of: ${VALID_STRATEGIES.join(', ')}`);
+  }
+
+  const defaultLocale = raw.default_locale === undefined
+    ? DEFAULT_LOCALE_POLICY.default_locale
+    : normalizeLocale(String(raw.default_locale));
+  if (!defaultLocale) throw new Error(`Invalid locale_policy.default_locale: ${raw.default_locale}`);
+
+  const policy: LocalePolicy = {
+    strategies,
+    include: raw.include === undefined ? DEFAULT_LOCALE_POLICY.include : normalizeLocaleList(raw.include, 'locale_policy.include'),
+    exclude: normalizeLocaleList(raw.exclude, 'locale_policy.exclude'),
+    default_locale: defaultLocale
+  };
+
+  if (typeof raw.path_pattern === 'string' && raw.path_pattern.trim()) {
+    compilePattern(raw.path_pattern, 'locale_policy.path_pattern');
+    policy.path_pattern = raw.path_pattern;
+  }
+  if (typeof raw.subdomain_pattern === 'string' && raw.subdomain_pattern.trim()) {
+    compilePattern(raw.subdomain_pattern, 'locale_policy.subdomain_pattern');
+    policy.subdomain_pattern = raw.subdomain_pattern;
+  }
+
+  return policy;
+}
+
+function detectFromPath(url: URL, policy: LocalePolicy): string | null {
+  if (!policy.path_pattern) {
+    const segment = url.pathname.match(/^\/([^/]+)\//);
+    if (!segment || DEFAULT_PATH_LOCALES.indexOf(segment[1]) === -1) return null;
+    // Listed three-letter languages (ast, haw...) aren't valid hreflang codes but still mark a locale
+    return normalizeLocale(segment[1]) || segment[1];
+  }
+  const match = url.pathname.match(compilePattern(policy.path_pattern, 'path_pattern'));
+  return match ? normalizeLocale(match[1]) : null;
+}
+
+function detectFromSubdomain(url: URL, policy: LocalePolicy): string | null {
+  const match = url.hostname.match(compilePattern(policy.subdomain_pattern || DEFAULT_SUBDOMAIN_PATTERN, 'subdomain_pattern'));
+  return match ? normalizeLocale(match[1]) : null;
+}
+
+// A page's own hreflang self-reference declares its locale
+function detectFromHreflang(url: URL, hreflang: HreflangLink[]): string | null {
+  const self = normalizeHreflangUrl(url.href);
+  const entry = hreflang.find(link =>
+    normalizeHreflangUrl(link.href) === self && link.hreflang.trim().toLowerCase() !== 'x-default'
+  );
+  return entry ? normalizeLocale(entry.hreflang) : null;
+}
+
+/**
+ * Detects a URL's locale with the policy's strategies. hreflang detection needs the
+ * page's alternates, so before a page is fetched only URL-based strategies can apply.
+ */
+export function detectLocale(url: string, policy: LocalePolicy, hreflang?: HreflangLink[]): LocaleDetection {
+  let urlObj: URL;
+  try {
+    urlObj = new URL(url);
+  } catch {
+    return { locale: policy.default_locale, is_default: true, source: 'default' };
+  }
+
+  for (const strategy of policy.strategies) {
+    let locale: string | null = null;
+    if (strategy === 'path') locale = detectFromPath(urlObj, policy);
+    else if (strategy === 'subdomain') locale = detectFromSubdomain(urlObj, policy);
+    else if (strategy === 'hreflang' && hreflang) locale = detectFromHreflang(urlObj, hreflang);
+
+    if (locale) return { locale, is_default: false, source: strategy };
+  }
+
+  return { locale: policy.default_locale, is_default: true, source: 'default' };
+}
+
+function matchesLocaleList(detection: LocaleDetection, list: string[]): boolean {
+  return list.some(entry => {
+    if (entry === DEFAULT_LOCALE_TOKEN) return detection.is_default;
+    if (detection.is_default) return false;
+    return detection.locale === entry || detection.locale.startsWith(`${entry}-`);
+  });
+}
+
+/**
+ * Detects a URL's locale and decides whether the policy keeps it
+ */
+export function evaluateLocalePolicy(url: string, policy: LocalePolicy, hreflang?: HreflangLink[]): LocaleDecision {
+  const detection = detectLocale(url, policy, hreflang);
+  const label = detection.is_default ? `${DEFAULT_LOCALE_TOKEN} (${detection.locale})` : detection.locale;
+
+  if (policy.include.length > 0 && !matchesLocaleList(detection, policy.include)) {
+    return { ...detection, allowed: false, reason: `Locale ${label} is not in the include list` };
+  }
+  if (matchesLocaleList(detection, policy.exclude)) {
+    return { ...detection, allowed: false, reason: `Locale ${label} is excluded` };
+  }
+  return { ...detection, allowed: true };
+}
+
+/**
+ * Splits URLs into those the policy keeps and those it drops, before fetching.
+ * When the policy uses hreflang and a URL has no URL-level locale marker, the URL is
+ * kept so the decision can be made once the page's hreflang annotations are known.
+ */
+export function filterUrlsByLocale<T extends { loc: string }>(
+  urls: T[],
+  policy: LocalePolicy
+): { included: T[]; excluded: { url: string; locale: string; reason: string }[] } {
+  const included: T[] = [];
+  const excluded: { url: string; locale: string; reason: string }[] = [];
+  const deferToHreflang = policy.strategies.includes('hreflang');
+
+  urls.forEach(entry => {
+    const decision = evaluateLocalePolicy(entry.loc, policy);
+    if (decision.allowed || (deferToHreflang && decision.is_default)) {
+      included.push(entry);
+    } else {
+      excluded.push({ url: entry.loc, locale: decision.locale, reason: decision.reason || 'Excluded by locale policy' });
+    }
+  });
+
+  return { included, excluded };
+}
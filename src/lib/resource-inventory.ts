@@ -0,0 +1,258 @@
+import type { CheerioAPI } from 'cheerio';
+
+export type PageResourceType = 'script' | 'stylesheet' | 'font' | 'iframe' | 'video';
+
+export type ThirdPartyCategory =
+  | 'analytics'
+  | 'advertising'
+  | 'tag_manager'
+  | 'social'
+  | 'video'
+  | 'fonts'
+  | 'cdn'
+  | 'customer_engagement'
+  | 'other';
+
+export interface PageResource {
+  type: PageResourceType;
+  url?: string;          // Absolute URL; absent for inline resources
+  is_inline: boolean;
+  inline_bytes?: number; // UTF-8 size of inline script/style content
+  is_async: boolean;     // async scripts; loading="lazy" iframes
+  is_defer: boolean;
+  is_render_blocking: boolean;
+  is_third_party: boolean;
+  host?: string;
+  third_party_category?: ThirdPartyCategory;
+}
+
+export interface ResourceInventory {
+  html_bytes: number;
+  dom_node_count: number;
+  max_dom_depth: number;
+  resources: PageResource[];
+}
+
+// Hosts of well-known third parties, matched as suffixes of the resource host
+const THIRD_PARTY_HOSTS: { [category in Exclude<ThirdPartyCategory, 'other'>]: string[] } = {
+  analytics: [
+    'google-analytics.com', 'analytics.google.com', 'hotjar.com', 'segment.com', 'segment.io', 'mixpanel.com',
+    'amplitude.com', 'heap.io', 'heapanalytics.com', 'clarity.ms', 'fullstory.com', 'newrelic.com', 'nr-data.net',
+    'quantserve.com', 'chartbeat.com', 'parsely.com', 'matomo.cloud', 'omtrdc.net', 'demdex.net'
+  ],
+  advertising: [
+    'doubleclick.net', 'googlesyndication.com', 'googleadservices.com', 'adnxs.com', 'criteo.com', 'taboola.com',
+    'outbrain.com', 'ads-twitter.com', 'ads.linkedin.com', 'bing.com', 'adsrvr.org', 'amazon-adsystem.com'
+  ],
+  tag_manager: ['googletagmanager.com', 'tealiumiq.com', 'tiqcdn.com', 'adobedtm.com', 'assets.adobedtm.com', 'ensighten.com'],
+  social: ['facebook.net', 'facebook.com', 'connect.facebook.net', 'platform.twitter.com', 'twitter.com', 'x.com', 'linkedin.com', 'licdn.com', 'addthis.com', 'sharethis.com', 'instagram.com', 'tiktok.com'],
+  video: ['youtube.com', 'youtube-nocookie.com', 'ytimg.com', 'vimeo.com', 'vimeocdn.com', 'wistia.com', 'wistia.net', 'brightcove.net', 'jwplayer.com', 'vidyard.com'],
+  fonts: ['fonts.googleapis.com', 'fonts.gstatic.com', 'use.typekit.net', 'p.typekit.net', 'fonts.bunny.net', 'use.fontawesome.com', 'kit.fontawesome.com', 'fast.fonts.net'],
+  cdn: ['cdnjs.cloudflare.com', 'cdn.jsdelivr.net', 'unpkg.com', 'ajax.googleapis.com', 'code.jquery.com', 'stackpath.bootstrapcdn.com', 'maxcdn.bootstrapcdn.com', 'cloudfront.net', 'akamaihd.net', 'fastly.net'],
+  customer_engagement: [
+    'intercom.io', 'intercomcdn.com', 'drift.com', 'driftt.com', 'zendesk.com', 'zdassets.com', 'hubspot.com', 'hs-scripts.com',
+    'hs-analytics.net', 'hsforms.net', 'marketo.net', 'mktoresp.com', 'pardot.com', 'livechatinc.com', 'onetrust.com',
+    'cookielaw.org', 'cookiebot.com', 'qualtrics.com', 'optimizely.com'
+  ]
+};
+
+const VIDEO_EMBED_HOSTS = THIRD_PARTY_HOSTS.video;
+const FONT_FILE_PATTERN = /\.(woff2?|ttf|otf|eot)(\?|#|$)/i;
+
+// Two-letter second-level labels used under country TLDs (example.co.uk, example.com.au)
+const COMPOUND_SLDS = ['co', 'com', 'net', 'org', 'gov', 'ac', 'edu', 'ne', 'or'];
+
+function utf8Length(text: string): number {
+  return new TextEncoder().encode(text).length;
+}
+
+/**
+ * Returns the registrable domain of a host ("cdn.example.co.uk" becomes "example.co.uk")
+ */
+export function getRegistrableDomain(host: string): string {
+  const labels = host.toLowerCase().replace(/\.$/, '').split('.');
+  if (labels.length <= 2) return labels.join('.');
+
+  const tld = labels[labels.length - 1];
+  const sld = labels[labels.length - 2];
+  const take = tld.length === 2 && COMPOUND_SLDS.includes(sld) ? 3 : 2;
+  return labels.slice(-take).join('.');
+}
+
+function hostMatches(host: string, suffix: string): boolean {
+  return host === suffix || host.endsWith(`.${suffix}`);
+}
+
+/**
+ * Classifies a third-party host by what the service usually does
+ */
+export function classifyThirdPartyHost(host: string): ThirdPartyCategory {
+  const normalized = host.toLowerCase();
+  const categories = Object.keys(THIRD_PARTY_HOSTS) as Exclude<ThirdPartyCategory, 'other'>[];
+  for (const category of categories) {
+    if (THIRD_PARTY_HOSTS[category].some(suffix => hostMatches(normalized, suffix))) {
+      return category;
+    }
+  }
+  return 'other';
+}
+
+function resolveResourceUrl(href: string | undefined, baseUrl: string): URL | null {
+  if (!href || !href.trim() || /^(data|blob|javascript|about):/i.test(href.trim())) return null;
+  try {
+    const url = new URL(href.trim(), baseUrl);
+    return url.protocol === 'http:' || url.protocol === 'https:' ? url : null;
+  } catch {
+    return null;
+  }
+}
+
+/**
+ * Counts element nodes and the deepest element nesting (html = depth 1).
+ * Iterative so pathological pages can't overflow the stack.
+ */
+export function measureDom($: CheerioAPI): { dom_node_count: number; max_dom_depth: number } {
+  let count = 0;
+  let maxDepth = 0;
+  const stack: { node: any; depth: number }[] = [];
+
+  $.root().children().each((_, element) => {
+    stack.push({ node: element, depth: 1 });
+  });
+
+  while (stack.length > 0) {
+    const { node, depth } = stack.pop()!;
+    if (node.type !== 'tag' && node.type !== 'script' && node.type !== 'style') continue;
+
+    count++;
+    if (depth > maxDepth) maxDepth = depth;
+
+    (node.children || []).forEach((child: any) => {
+      stack.push({ node: child, depth: depth + 1 });
+    });
+  }
+
+  return { dom_node_count: count, max_dom_depth: maxDepth };
+}
+
+/**
+ * Builds an inventory of scripts, stylesheets, fonts, iframes and video embeds on a page,
+ * plus HTML size and DOM shape. Must run on the unmodified document.
+ */
+export function buildResourceInventory($: CheerioAPI, html: string, pageUrl: string): ResourceInventory {
+  const pageDomain = getRegistrableDomain(new URL(pageUrl).hostname);
+  const resources: PageResource[] = [];
+  const seenUrls = new Set<string>();
+
+  const external = (
+    type: PageResourceType,
+    href: string | undefined,
+    flags: { is_async?: boolean; is_defer?: boolean; is_render_blocking?: boolean } = {}
+  ) => {
+    const url = resolveResourceUrl(href, pageUrl);
+    if (!url) return;
+
+    const key = `${type}:${url.href}`;
+    if (seenUrls.has(key)) return;
+    seenUrls.add(key);
+
+    const host = url.hostname.toLowerCase();
+    const isThirdParty = getRegistrableDomain(host) !== pageDomain;
+    resources.push({
+      type,
+      url: url.href,
+      is_inline: false,
+      is_async: !!flags.is_async,
+      is_defer: !!flags.is_defer,
+      is_render_blocking: !!flags.is_render_blocking,
+      is_third_party: isThirdParty,
+      host,
+      third_party_category: isThirdParty ? classifyThirdPartyHost(host) : undefined
+    });
+  };
+
+  const inline = (type: PageResourceType, content: string, isRenderBlocking: boolean) => {
+    if (!content.trim()) return;
+    resources.push({
+      type,
+      is_inline: true,
+      inline_bytes: utf8Length(content),
+      is_async: false,
+      is_defer: false,
+      is_render_blocking: isRenderBlocking,
+      is_third_party: false
+    });
+  };
+
+  // Scripts: classic scripts in <head> without async/defer block rendering; modules are deferred by default
+  $('script').each((_, element) => {
+    const $script = $(element);
+    const type = ($script.attr('type') || '').trim().toLowerCase();
+    const isExecutable = !type || type === 'module' || /(java|ecma)script/.test(type);
+    if (!isExecutable) return; // JSON-LD, templates, etc.
+
+    const isAsync = $script.is('[async]');
+    const isDefer = $script.is('[defer]') || type === 'module';
+    const inHead = $script.closest('head').length > 0;
+    const src = $script.attr('src');
+
+    if (src) {
+      external('script', src, { is_async: isAsync, is_defer: isDefer, is_render_blocking: inHead && !isAsync && !isDefer });
+    } else {
+      inline('script', $script.html() || '', inHead && type !== 'module');
+    }
+  });
+
+  // Stylesheets: blocking unless scoped to a non-matching media query (print) or disabled
+  $('link[rel~="stylesheet"]').each((_, element) => {
+    const $link = $(element);
+    const media = ($link.attr('media') || 'all').trim().toLowerCase();
+    const isRenderBlocking = !$link.is('[disabled]') && (media === 'all' || media === 'screen' || media === '');
+    const url = resolveResourceUrl($link.attr('href'), pageUrl);
+    // Web font services serve CSS that only declares @font-face rules
+    const isFontCss = !!url && THIRD_PARTY_HOSTS.fonts.some(suffix => hostMatches(url.hostname, suffix));
+    external(isFontCss ? 'font' : 'stylesheet', $link.attr('href'), { is_render_blocking: isRenderBlocking });
+  });
+
+  $('style').each((_, element) => {
+    const css = $(element).html() || '';
+    inline('stylesheet', css, true);
+
+    // Font files referenced from inline @font-face rules
+    const fontFaces = css.match(/@font-face\s*{[^}]*}/gi) || [];
+    fontFaces.forEach(rule => {
+      const urls = rule.match(/url\(\s*['"]?([^'")]+)['"]?\s*\)/gi) || [];
+      urls.forEach(match => {
+        const href = match.replace(/^url\(\s*['"]?/i, '').replace(/['"]?\s*\)$/, '');
+        if (FONT_FILE_PATTERN.test(href)) external('font', href);
+      });
+    });
+  });
+
+  // Preloaded fonts
+  $('link[rel~="preload"][as="font"]').each((_, element) => {
+    external('font', $(element).attr('href'));
+  });
+
+  // Iframes, with known video players classified as video
+  $('iframe').each((_, element) => {
+    const $iframe = $(element);
+    const src = $iframe.attr('src') || $iframe.attr('data-src');
+    const url = resolveResourceUrl(src, pageUrl);
+    const isVideo = !!url && VIDEO_EMBED_HOSTS.some(suffix => hostMatches(url.hostname, suffix));
+    external(isVideo ? 'video' : 'iframe', src, { is_async: $iframe.attr('loading') === 'lazy' });
+  });
+
+  // Native video
+  $('video').each((_, element) => {
+    const $video = $(element);
+    const sources = [$video.attr('src'), ...$video.find('source').toArray().map(source => $(source).attr('src'))];
+    sources.forEach(src => external('video', src));
+  });
+
+  return {
+    html_bytes: utf8Length(html),
+    ...measureDom($),
+    resources
+  };
+}
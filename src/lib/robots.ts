@@ -0,0 +1,296 @@
+import { scheduledFetch, setHostCrawlDelay } from './fetch-scheduler';
+
+// Identity used for every outbound request made by the scraper and sitemap parser.
+// Override with SCRAPER_USER_AGENT to run under a different bot name.
+export const BOT_USER_AGENT = process.env.SCRAPER_USER_AGENT ||
+  'SEOAssistantBot/1.0 (+https://github.com/costaleonardo/aisdk-seo-assistant)';
+
+// Product token matched against robots.txt User-agent lines (e.g. "SEOAssistantBot")
+export const BOT_PRODUCT_TOKEN = BOT_USER_AGENT.split(/[\/\s]/)[0];
+
+// Cached robots.txt files are refreshed after 24 hours, as recommended by RFC 9309
+const ROBOTS_CACHE_TTL_MS = 24 * 60 * 60 * 1000;
+
+// An unreachable robots.txt (network error or 5xx) blocks the host only briefly before retrying,
+// so one transient failure doesn't disallow a site for a day
+const ROBOTS_UNREACHABLE_TTL_MS = 5 * 60 * 1000;
+
+// RFC 9309 requires parsing at least 500 KiB; anything beyond is ignored
+const ROBOTS_MAX_BYTES = 500 * 1024;
+
+export interface RobotsRule {
+  type: 'allow' | 'disallow';
+  pattern: string;
+}
+
+export interface RobotsGroup {
+  user_agents: string[];
+  rules: RobotsRule[];
+  crawl_delay?: number;
+}
+
+export interface RobotsTxt {
+  groups: RobotsGroup[];
+  sitemaps: string[];
+}
+
+export interface RobotsCheckResult {
+  allowed: boolean;
+  crawl_delay?: number;
+  matched_rule?: RobotsRule;
+  robots_url: string;
+}
+
+interface CachedRobots {
+  robots: RobotsTxt;
+  fetched_at: number;
+  ttl_ms: number;
+}
+
+const robotsCache = new Map<string, CachedRobots>();
+
+// Fetches in progress, so concurrent checks against a cold cache share one request per origin
+const pendingRobots = new Map<string, Promise<RobotsTxt>>();
+
+const ALLOW_ALL: RobotsTxt = { groups: [], sitemaps: [] };
+const DISALLOW_ALL: RobotsTxt = {
+  groups: [{ user_agents: ['*'], rules: [{ type: 'disallow', pattern: '/' }] }],
+  sitemaps: []
+};
+
+/**
+ * Parses robots.txt content into user-agent groups and sitemap directives
+ */
+export function parseRobotsTxt(content: string): RobotsTxt {
+  const groups: RobotsGroup[] = [];
+  const sitemaps: string[] = [];
+  let currentGroup: RobotsGroup | null = null;
+  // Consecutive User-agent lines share one group until a rule line is seen
+  let collectingAgents = false;
+
+  const lines = content.slice(0, ROBOTS_MAX_BYTES).split(/\r\n|\r|\n/);
+
+  for (const rawLine of lines) {
+    const line = rawLine.replace(/#.*$/, '').trim();
+    if (!line) continue;
+
+    const separatorIndex = line.indexOf(':');
+    if (separatorIndex === -1) continue;
+
+    const field = line.slice(0, separatorIndex).trim().toLowerCase();
+    const value = line.slice(separatorIndex + 1).trim();
+
+    switch (field) {
+      case 'user-agent': {
+        if (!currentGroup || !collectingAgents) {
+          currentGroup = { user_agents: [], rules: [] };
+          groups.push(currentGroup);
+        }
+        currentGroup.user_agents.push(value.toLowerCase());
+        collectingAgents = true;
+        break;
+      }
+      case 'allow':
+      case 'disallow': {
+        collectingAgents = false;
+        // An empty Disallow means "allow everything" and adds no rule
+        if (!currentGroup || !value) break;
+        currentGroup.rules.push({ type: field, pattern: value });
+        break;
+      }
+      case 'crawl-delay': {
+        collectingAgents = false;
+        const delay = parseFloat(value);
+        if (currentGroup && !isNaN(delay) && delay >= 0) {
+          currentGroup.crawl_delay = delay;
+        }
+        break;
+      }
+      case 'sitemap': {
+        // Sitemap directives are global and not tied to any group
+        if (value) sitemaps.push(value);
+        break;
+      }
+      default:
+        break;
+    }
+  }
+
+  return { groups, sitemaps };
+}
+
+/**
+ * Checks whether a URL path matches a robots.txt pattern (supports * and $)
+ */
+export function matchesRobotsPattern(path: string, pattern: string): boolean {
+  const anchored = pattern.endsWith('$');
+  const body = anchored ? pattern.slice(0, -1) : pattern;
+
+  const regexSource = body
+    .split('*')
+    .map(part => part.replace(/[.+?^${}()|[\]\\]/g, '\\$&'))
+    .join('.*');
+
+  const regex = new RegExp(`^${regexSource}${anchored ? '$' : ''}`);
+  return regex.test(path);
+}
+
+/**
+ * Selects the rules that apply to a user agent. Per RFC 9309 a group applies when one of its
+ * User-agent lines names our product token exactly (case-insensitive); all such groups are
+ * merged. Falls back to "*".
+ */
+export function getRulesForUserAgent(
+  robots: RobotsTxt,
+  userAgent: string = BOT_PRODUCT_TOKEN
+): { rules: RobotsRule[]; crawl_delay?: number } {
+  const agent = userAgent.toLowerCase().split(/[\/\s]/)[0];
+
+  // Lines like "SEOAssistantBot/1.0" are compared by their product token
+  let matchedGroups = robots.groups.filter(group =>
+    group.user_agents.some(groupAgent => groupAgent !== '*' && groupAgent.split(/[\/\s]/)[0] === agent)
+  );
+
+  if (matchedGroups.length === 0) {
+    matchedGroups = robots.groups.filter(group => group.user_agents.includes('*'));
+  }
+
+  const crawlDelays = matchedGroups
+    .map(group => group.crawl_delay)
+    .filter((delay): delay is number => delay !== undefined);
+
+  return {
+    rules: matchedGroups.flatMap(group => group.rules),
+    crawl_delay: crawlDelays.length > 0 ? Math.max(...crawlDelays) : undefined
+  };
+}
+
+/**
+ * Evaluates a path against a rule set. The longest matching pattern wins;
+ * when an Allow and a Disallow are equally long, Allow takes precedence.
+ */
+export function evaluateRobotsRules(
+  path: string,
+  rules: RobotsRule[]
+): { allowed: boolean; matched_rule?: RobotsRule } {
+  // robots.txt itself is always accessible
+  if (path === '/robots.txt') {
+    return { allowed: true };
+  }
+
+  let bestRule: RobotsRule | undefined;
+
+  for (const rule of rules) {
+    if (!matchesRobotsPattern(path, rule.pattern)) continue;
+
+    if (
+      !bestRule ||
+      rule.pattern.length > bestRule.pattern.length ||
+      (rule.pattern.length === bestRule.pattern.length && rule.type === 'allow')
+    ) {
+      bestRule = rule;
+    }
+  }
+
+  return {
+    allowed: !bestRule || bestRule.type === 'allow',
+    matched_rule: bestRule
+  };
+}
+
+async function fetchRobotsTxt(origin: string): Promise<RobotsTxt> {
+  let robots: RobotsTxt;
+  let ttlMs = ROBOTS_CACHE_TTL_MS;
+
+  try {
+    const response = await scheduledFetch(`${origin}/robots.txt`, {
+      headers: {
+        'User-Agent': BOT_USER_AGENT
+      }
+    });
+
+    if (!response.ok) {
+      // Frees the host's fetch slot; only the status matters
+      await response.body?.cancel().catch(() => {});
+    }
+
+    if (response.ok) {
+      robots = parseRobotsTxt(await response.text());
+    } else if (response.status >= 400 && response.status < 500) {
+      // "Unavailable" robots.txt (4xx) means no crawl restrictions
+      robots = ALLOW_ALL;
+    } else {
+      // "Unreachable" robots.txt (5xx) means the whole site is disallowed
+      console.warn(`robots.txt for ${origin} returned ${response.status}, treating site as disallowed`);
+      robots = DISALLOW_ALL;
+      ttlMs = ROBOTS_UNREACHABLE_TTL_MS;
+    }
+  } catch (error) {
+    console.warn(`Failed to fetch robots.txt for ${origin}, treating site as disallowed`, error);
+    robots = DISALLOW_ALL;
+    ttlMs = ROBOTS_UNREACHABLE_TTL_MS;
+  }
+
+  robotsCache.set(origin, { robots, fetched_at: Date.now(), ttl_ms: ttlMs });
+  // Later requests to the host are spaced by its Crawl-delay
+  setHostCrawlDelay(origin, getRulesForUserAgent(robots, BOT_PRODUCT_TOKEN).crawl_delay);
+  return robots;
+}
+
+/**
+ * Fetches robots.txt for the host of the given URL, using a per-origin cache
+ */
+export async function getRobotsTxt(url: string): Promise<RobotsTxt> {
+  const origin = new URL(url).origin;
+  const cached = robotsCache.get(origin);
+
+  if (cached && Date.now() - cached.fetched_at < cached.ttl_ms) {
+    return cached.robots;
+  }
+
+  let pending = pendingRobots.get(origin);
+  if (!pending) {
+    pending = fetchRobotsTxt(origin).finally(() => pendingRobots.delete(origin));
+    pendingRobots.set(origin, pending);
+  }
+  return pending;
+}
+
+/**
+ * Checks whether our bot may fetch the given URL according to robots.txt
+ */
+export async function checkRobotsAccess(
+  url: string,
+  userAgent: string = BOT_PRODUCT_TOKEN
+): Promise<RobotsCheckResult> {
+  const urlObj = new URL(url);
+  const robots = await getRobotsTxt(url);
+  const { rules, crawl_delay } = getRulesForUserAgent(robots, userAgent);
+  const { allowed, matched_rule } = evaluateRobotsRules(urlObj.pathname + urlObj.search, rules);
+
+  return {
+    allowed,
+    crawl_delay,
+    matched_rule,
+    robots_url: `${urlObj.origin}/robots.txt`
+  };
+}
+
+/**
+ * Returns the Sitemap: directives declared in the host's robots.txt
+ */
+export async function getRobotsSitemaps(url: string): Promise<string[]> {
+  const robots = await getRobotsTxt(url);
+  return robots.sitemaps;
+}
+
+/**
+ * Clears cached robots.txt entries, for one origin or all of them
+ */
+export function clearRobotsCache(origin?: string): void {
+  if (origin) {
+    robotsCache.delete(origin);
+  } else {
+    robotsCache.clear();
+  }
+}
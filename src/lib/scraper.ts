@@ -1,11 +1,31 @@
 import * as cheerio from 'cheerio';
+import { BOT_USER_AGENT, checkRobotsAccess } from './robots';
+import { scheduledFetch } from './fetch-scheduler';
+import { assertSafeUrl } from './url-safety';
+import {
+  extractContentBlocks,
+  blocksToText,
+  getParagraphBlocks,
+  selectMainContent,
+  getContentSelectorOverride,
+  type ContentBlock,
+  type ContentSelectorOverride
+} from './content-extraction';
+import { extractStructuredData, type StructuredDataExtraction } from './structured-data';
+import { extractArticleMetadata, type ArticleMetadata } from './article-metadata';
+import { buildResourceInventory, type ResourceInventory } from './resource-inventory';
+import { auditAccessibility, type AccessibilityAudit } from './accessibility-audit';
+import { DEFAULT_LOCALE_POLICY, detectLocale, type LocalePolicy } from './locale-policy';
 
 // Content analysis helper functions
-export function analyzeContentQuality(content: string, title: string, headings: Heading[]): ContentQualityMetrics {
+export function analyzeContentQuality(content: string, title: string, headings: Heading[], blocks?: ContentBlock[]): ContentQualityMetrics {
   // Basic text analysis
   const words = content.toLowerCase().match(/\b\w+\b/g) || [];
-  const sentences = content.split(/[.!?]+/).filter(s => s.trim().length > 10);
-  const paragraphs = content.split(/\n\s*\n/).filter(p => p.trim().length > 0);
+  const sentences = content.split(/[.!?]+|\n\s*\n/).filter(s => s.trim().length > 10);
+  // Prefer the extracted block structure; fall back to blank-line separated text
+  const paragraphs = blocks && blocks.length > 0
+    ? getParagraphBlocks(blocks).map(block => block.text)
+    : content.split(/\n\s*\n/).filter(p => p.trim().length > 0);
   
   const word_count = words.length;
   const sentence_count = sentences.length;
@@ -194,10 +214,17 @@ export interface Heading {
   order: number;
 }
 
+export type LinkRegion = 'main' | 'nav' | 'header' | 'footer' | 'sidebar' | 'other';
+
 export interface LinkData {
   url: string;
   anchor_text: string;
   is_internal: boolean;
+  rel?: string[];           // e.g. nofollow, sponsored, ugc, noopener
+  target?: string;
+  is_image_link?: boolean;  // Link wraps an image; anchor_text falls back to its alt text
+  image_alt?: string;
+  region?: LinkRegion;
 }
 
 export interface ImageData {
@@ -207,6 +234,11 @@ export interface ImageData {
   height?: number;
 }
 
+export interface HreflangLink {
+  hreflang: string;
+  href: string;
+}
+
 export interface ContentQualityMetrics {
   word_count: number;
   sentence_count: number;
@@ -239,190 +271,416 @@ export interface SEOData {
   primary_keyword?: string;
 }
 
+export interface RedirectHop {
+  url: string;
+  status_code: number;
+  location: string;
+}
+
+export interface HttpResponseData {
+  status_code: number;
+  final_url: string;
+  redirect_chain: RedirectHop[];
+  content_type?: string;
+  content_length?: number;
+  last_modified?: string;
+  cache_control?: string;
+  x_robots_tag?: string;
+  fetched_at: string;
+}
+
+export interface ContentExtractionInfo {
+  method: 'override' | 'scored' | 'fallback';
+  selector?: string;
+  boilerplate_ratio: number;
+  confidence: number;
+}
+
 export interface ScrapedContent {
   title: string;
   content: string;
+  blocks?: ContentBlock[];
+  extraction?: ContentExtractionInfo;
   url: string;
+  http?: HttpResponseData;
+  raw_html?: string;
+  locale?: string;
   seo_data: SEOData;
+  structured_data?: StructuredDataExtraction;
+  article_metadata?: ArticleMetadata;
+  resources?: ResourceInventory;
+  accessibility?: AccessibilityAudit;
   content_quality: ContentQualityMetrics;
   meta_tags: MetaTag[];
   headings: Heading[];
   links: LinkData[];
   images: ImageData[];
+  hreflang: HreflangLink[];
 }
 
-export async function scrapeWebsite(url: string): Promise<ScrapedContent> {
-  try {
-    const response = await fetch(url, {
+// Resolves the landmark region a link sits in from its closest sectioning ancestor
+function getLandmarkRegion($link: cheerio.Cheerio<any>): LinkRegion {
+  const $landmark = $link.closest('nav, header, footer, aside, main, article, [role="navigation"], [role="banner"], [role="contentinfo"], [role="complementary"], [role="main"], .sidebar, #sidebar');
+  if ($landmark.length === 0) return 'other';
+  
+  const tagName = ($landmark.prop('tagName') || '').toLowerCase();
+  const role = $landmark.attr('role');
+  
+  if (tagName === 'nav' || role === 'navigation') return 'nav';
+  if (tagName === 'header' || role === 'banner') return 'header';
+  if (tagName === 'footer' || role === 'contentinfo') return 'footer';
+  if (tagName === 'aside' || role === 'complementary' || $landmark.is('.sidebar, #sidebar')) return 'sidebar';
+  return 'main';
+}
+
+export interface ScrapeOptions {
+  respectRobots?: boolean;
+  maxRedirects?: number;
+  contentSelector?: ContentSelectorOverride;
+  localePolicy?: LocalePolicy;
+}
+
+const REDIRECT_STATUS_CODES = [301, 302, 303, 307, 308];
+
+// Error code of a page, or a redirect hop, that robots.txt disallows
+export const BLOCKED_BY_ROBOTS_ERROR_CODE = 'ERR_BLOCKED_BY_ROBOTS';
+
+export function isBlockedByRobotsError(error: unknown): boolean {
+  return (error as { code?: string } | null)?.code === BLOCKED_BY_ROBOTS_ERROR_CODE;
+}
+
+async function assertRobotsAllowed(url: string, isRedirect: boolean): Promise<void> {
+  const robotsCheck = await checkRobotsAccess(url);
+  if (robotsCheck.allowed) return;
+
+  const rule = robotsCheck.matched_rule ? ` (${robotsCheck.matched_rule.type}: ${robotsCheck.matched_rule.pattern})` : '';
+  const message = isRedirect
+    ? `Redirect to ${url} is disallowed by ${robotsCheck.robots_url}${rule}`
+    : `Disallowed by ${robotsCheck.robots_url}${rule}`;
+  throw Object.assign(new Error(message), { code: BLOCKED_BY_ROBOTS_ERROR_CODE });
+}
+
+// Follows redirects manually so every hop is recorded, and checked against robots.txt
+async function fetchWithRedirects(
+  url: string,
+  maxRedirects: number,
+  respectRobots: boolean
+): Promise<{ response: Response; redirectChain: RedirectHop[]; finalUrl: string }> {
+  const redirectChain: RedirectHop[] = [];
+  let currentUrl = url;
+
+  for (let hop = 0; hop <= maxRedirects; hop++) {
+    if (respectRobots) {
+      await assertRobotsAllowed(currentUrl, hop > 0);
+    }
+
+    const response = await scheduledFetch(currentUrl, {
       headers: {
-        'User-Agent': 'Mozilla/5.0 (Windows NT 10.0; Win64; x64) AppleWebKit/537.36 (KHTML, like Gecko) Chrome/91.0.4472.124 Safari/537.36'
-      }
+        'User-Agent': BOT_USER_AGENT
+      },
+      redirect: 'manual'
     });
-    
-    if (!response.ok) {
-      throw new Error(`HTTP error! status: ${response.status}`);
+
+    const location = response.headers.get('location');
+    if (!REDIRECT_STATUS_CODES.includes(response.status) || !location) {
+      return { response, redirectChain, finalUrl: currentUrl };
     }
-    
+
+    // Frees the host's fetch slot for the next hop
+    await response.body?.cancel().catch(() => {});
+    const nextUrl = new URL(location, currentUrl).href;
+    redirectChain.push({ url: currentUrl, status_code: response.status, location: nextUrl });
+
+    if (redirectChain.some(redirect => redirect.url === nextUrl)) {
+      throw new Error(`Redirect loop detected at ${nextUrl}`);
+    }
+
+    currentUrl = nextUrl;
+  }
+
+  throw new Error(`Too many redirects (more than ${maxRedirects})`);
+}
+
+function extractHttpResponseData(
+  response: Response,
+  finalUrl: string,
+  redirectChain: RedirectHop[]
+): HttpResponseData {
+  const contentLength = response.headers.get('content-length');
+
+  return {
+    status_code: response.status,
+    final_url: finalUrl,
+    redirect_chain: redirectChain,
+    content_type: response.headers.get('content-type') || undefined,
+    content_length: contentLength ? parseInt(contentLength) : undefined,
+    last_modified: response.headers.get('last-modified') || undefined,
+    cache_control: response.headers.get('cache-control') || undefined,
+    x_robots_tag: response.headers.get('x-robots-tag') || undefined,
+    fetched_at: new Date().toISOString()
+  };
+}
+
+export async function scrapeWebsite(url: string, options: ScrapeOptions = {}): Promise<ScrapedContent> {
+  const { respectRobots = true, maxRedirects = 10, contentSelector, localePolicy = DEFAULT_LOCALE_POLICY } = options;
+
+  try {
+    // Checked before robots.txt so an unsafe URL is reported as such, not as disallowed
+    await assertSafeUrl(url);
+
+    const { response, redirectChain, finalUrl } = await fetchWithRedirects(url, maxRedirects, respectRobots);
+
+    // Non-2xx responses are recorded rather than thrown so error pages can be audited
+    const httpData = extractHttpResponseData(response, finalUrl, redirectChain);
+
     const html = await response.text();
-    const $ = cheerio.load(html);
-    
-    // Extract title - try multiple selectors
-    const title = $('title').text() || 
-                  $('h1').first().text() || 
-                  $('meta[property="og:title"]').attr('content') || 
-                  'Untitled';
-    
-    // Extract SEO Data
-    const seoData: SEOData = {
-      meta_title: $('meta[name="title"]').attr('content') || $('title').text(),
-      meta_description: $('meta[name="description"]').attr('content'),
-      meta_keywords: $('meta[name="keywords"]').attr('content'),
-      meta_robots: $('meta[name="robots"]').attr('content'),
-      canonical_url: $('link[rel="canonical"]').attr('href'),
-      og_title: $('meta[property="og:title"]').attr('content'),
-      og_description: $('meta[property="og:description"]').attr('content'),
-      og_image: $('meta[property="og:image"]').attr('content'),
-      og_type: $('meta[property="og:type"]').attr('content'),
-      twitter_title: $('meta[name="twitter:title"]').attr('content'),
-      twitter_description: $('meta[name="twitter:description"]').attr('content'),
-      twitter_image: $('meta[name="twitter:image"]').attr('content'),
-      twitter_card: $('meta[name="twitter:card"]').attr('content'),
-      schema_markup: [],
-      primary_keyword: $('meta[name="yoast-focus-keyword"]').attr('content')
-    };
-
-    // Extract Schema markup (JSON-LD)
-    $('script[type="application/ld+json"]').each((_, element) => {
-      const jsonText = $(element).html();
-      if (jsonText) {
-        try {
-          JSON.parse(jsonText); // Validate JSON
-          seoData.schema_markup.push(jsonText.trim());
-        } catch (e) {
-          // Skip invalid JSON
-        }
-      }
-    });
+    return parseScrapedPage(html, url, httpData, { contentSelector, localePolicy });
+  } catch (error) {
+    // Kept intact so callers can report the page as blocked rather than failed
+    if (isBlockedByRobotsError(error)) throw error;
+    throw new Error(`Failed to scrape website: ${error instanceof Error ? error.message : 'Unknown error'}`);
+  }
+}
 
-    // Extract all meta tags
-    const metaTags: MetaTag[] = [];
-    $('meta').each((_, element) => {
-      const $meta = $(element);
-      const name = $meta.attr('name');
-      const property = $meta.attr('property');
-      const content = $meta.attr('content');
-      
-      if ((name || property) && content) {
-        metaTags.push({ name, property, content });
-      }
-    });
+/**
+ * Describes a non-2xx response, or returns null for a successful one. scrapeWebsite records
+ * error pages rather than throwing, so routes that score or store a page check this first.
+ */
+export function getHttpErrorMessage(scrapedContent: ScrapedContent): string | null {
+  const status = scrapedContent.http?.status_code;
+  if (status === undefined || (status >= 200 && status < 300)) return null;
+  return `${scrapedContent.http?.final_url || scrapedContent.url} returned HTTP ${status}`;
+}
 
-    // Extract headings with hierarchy
-    const headings: Heading[] = [];
-    let headingOrder = 0;
-    $('h1, h2, h3, h4, h5, h6').each((_, element) => {
-      const $heading = $(element);
-      const text = $heading.text().trim();
-      const tagName = element.tagName.toLowerCase();
-      const level = parseInt(tagName.charAt(1));
-      
-      if (text) {
-        headings.push({
-          level,
-          text,
-          order: headingOrder++
-        });
-      }
-    });
+/**
+ * Parses a page's HTML into ScrapedContent. `url` is the page's original address and `http`
+ * describes how it was retrieved (live, or read back from a file or web archive); relative
+ * links resolve against http.final_url.
+ */
+export function parseScrapedPage(
+  html: string,
+  url: string,
+  http: HttpResponseData,
+  options: Pick<ScrapeOptions, 'contentSelector' | 'localePolicy'> = {}
+): ScrapedContent {
+  const { contentSelector, localePolicy = DEFAULT_LOCALE_POLICY } = options;
+  const finalUrl = http.final_url;
+  const $ = cheerio.load(html);
+  
+  // Extract title - try multiple selectors
+  const title = $('title').text() || 
+                $('h1').first().text() || 
+                $('meta[property="og:title"]').attr('content') || 
+                'Untitled';
+  
+  // Extract SEO Data
+  const seoData: SEOData = {
+    meta_title: $('meta[name="title"]').attr('content') || $('title').text(),
+    meta_description: $('meta[name="description"]').attr('content'),
+    meta_keywords: $('meta[name="keywords"]').attr('content'),
+    meta_robots: $('meta[name="robots"]').attr('content'),
+    canonical_url: $('link[rel="canonical"]').attr('href'),
+    og_title: $('meta[property="og:title"]').attr('content'),
+    og_description: $('meta[property="og:description"]').attr('content'),
+    og_image: $('meta[property="og:image"]').attr('content'),
+    og_type: $('meta[property="og:type"]').attr('content'),
+    twitter_title: $('meta[name="twitter:title"]').attr('content'),
+    twitter_description: $('meta[name="twitter:description"]').attr('content'),
+    twitter_image: $('meta[name="twitter:image"]').attr('content'),
+    twitter_card: $('meta[name="twitter:card"]').attr('content'),
+    schema_markup: [],
+    primary_keyword: $('meta[name="yoast-focus-keyword"]').attr('content')
+  };
 
-    // Extract links
-    const links: LinkData[] = [];
-    const baseUrlObj = new URL(url);
-    $('a[href]').each((_, element) => {
-      const $link = $(element);
-      const href = $link.attr('href');
-      const anchorText = $link.text().trim();
-      
-      if (href && anchorText) {
-        try {
-          const linkUrl = new URL(href, url);
-          const isInternal = linkUrl.hostname === baseUrlObj.hostname;
-          
-          links.push({
-            url: linkUrl.href,
-            anchor_text: anchorText,
-            is_internal: isInternal
-          });
-        } catch (e) {
-          // Skip invalid URLs
-        }
+  // Extract Schema markup (JSON-LD)
+  $('script[type="application/ld+json"]').each((_, element) => {
+    const jsonText = $(element).html();
+    if (jsonText) {
+      try {
+        JSON.parse(jsonText); // Validate JSON
+        seoData.schema_markup.push(jsonText.trim());
+      } catch (e) {
+        // Skip invalid JSON
       }
-    });
+    }
+  });
 
-    // Extract images
-    const images: ImageData[] = [];
-    $('img[src]').each((_, element) => {
-      const $img = $(element);
-      const src = $img.attr('src');
-      const alt = $img.attr('alt') || '';
-      const width = $img.attr('width') ? parseInt($img.attr('width')!) : undefined;
-      const height = $img.attr('height') ? parseInt($img.attr('height')!) : undefined;
-      
-      if (src) {
-        try {
-          const imageUrl = new URL(src, url);
-          images.push({
-            src: imageUrl.href,
-            alt,
-            width,
-            height
-          });
-        } catch (e) {
-          // Skip invalid image URLs
-        }
-      }
-    });
+  // Parse JSON-LD, Microdata and RDFa into normalized entities for validation
+  const structuredData = extractStructuredData($);
 
-    // Extract main content - prioritize article content
-    let content = '';
-    
-    // Create a copy for content extraction without removing SEO elements
-    const $contentExtraction = cheerio.load(html);
-    $contentExtraction('script, style, nav, footer, header, aside, .nav, .footer, .header, .sidebar').remove();
-    
-    const articleContent = $contentExtraction('article, main, .content, #content, .post, .entry');
+  // Extract author, publish/modified dates and breadcrumbs
+  const articleMetadata = extractArticleMetadata($, finalUrl, structuredData);
+
+  // Inventory scripts, styles, fonts, iframes and video, plus HTML size and DOM shape
+  const resourceInventory = buildResourceInventory($, html, finalUrl);
+
+  // Audit accessibility on the full page, before boilerplate is stripped
+  const accessibilityAudit = auditAccessibility($);
+
+  // Extract all meta tags
+  const metaTags: MetaTag[] = [];
+  $('meta').each((_, element) => {
+    const $meta = $(element);
+    const name = $meta.attr('name');
+    const property = $meta.attr('property');
+    const content = $meta.attr('content');
     
-    if (articleContent.length > 0) {
-      content = articleContent.first().text();
-    } else {
-      content = $contentExtraction('body').text();
+    if ((name || property) && content) {
+      metaTags.push({ name, property, content });
     }
+  });
+
+  // Extract headings with hierarchy
+  const headings: Heading[] = [];
+  let headingOrder = 0;
+  $('h1, h2, h3, h4, h5, h6').each((_, element) => {
+    const $heading = $(element);
+    const text = $heading.text().trim();
+    const tagName = element.tagName.toLowerCase();
+    const level = parseInt(tagName.charAt(1));
     
-    // Clean up whitespace and normalize text
-    const cleanedContent = content
-      .replace(/\s+/g, ' ')  // Replace multiple whitespace with single space
-      .replace(/\n+/g, ' ')  // Replace newlines with space
-      .trim();
+    if (text) {
+      headings.push({
+        level,
+        text,
+        order: headingOrder++
+      });
+    }
+  });
+
+  // Extract links, tagging each one so its page region can be resolved after content extraction
+  const links: LinkData[] = [];
+  const baseUrlObj = new URL(finalUrl);
+  $('a[href]').each((index, element) => {
+    const $link = $(element);
+    const href = $link.attr('href');
+    const $image = $link.find('img').first();
+    const isImageLink = $image.length > 0;
+    const imageAlt = isImageLink ? ($image.attr('alt') || '').trim() : undefined;
+    const anchorText = $link.text().replace(/\s+/g, ' ').trim() ||
+                       imageAlt ||
+                       ($link.attr('aria-label') || '').trim();
     
-    if (!cleanedContent) {
-      throw new Error('No content found on the page');
+    if (href && !href.trim().toLowerCase().startsWith('javascript:')) {
+      try {
+        const linkUrl = new URL(href, finalUrl);
+        const isInternal = linkUrl.hostname === baseUrlObj.hostname;
+        const rel = ($link.attr('rel') || '')
+          .toLowerCase()
+          .split(/\s+/)
+          .filter(value => value.length > 0);
+        
+        $link.attr('data-seo-link-index', String(links.length));
+        links.push({
+          url: linkUrl.href,
+          anchor_text: anchorText,
+          is_internal: isInternal,
+          rel,
+          target: $link.attr('target') || undefined,
+          is_image_link: isImageLink,
+          image_alt: imageAlt,
+          region: getLandmarkRegion($link)
+        });
+      } catch (e) {
+        // Skip invalid URLs
+      }
     }
+  });
+
+  // Extract hreflang alternates
+  const hreflang: HreflangLink[] = [];
+  $('link[rel~="alternate"][hreflang]').each((_, element) => {
+    const $link = $(element);
+    const code = $link.attr('hreflang')?.trim();
+    const href = $link.attr('href')?.trim();
     
-    // Analyze content quality metrics
-    const contentQuality = analyzeContentQuality(cleanedContent, title.trim(), headings);
+    if (code && href) {
+      try {
+        hreflang.push({
+          hreflang: code,
+          href: new URL(href, finalUrl).href
+        });
+      } catch (e) {
+        // Skip invalid alternate URLs
+      }
+    }
+  });
+
+  // Detect the page locale from its URL or its own hreflang self-reference
+  const locale = detectLocale(finalUrl, localePolicy, hreflang).locale;
+
+  // Extract images
+  const images: ImageData[] = [];
+  $('img[src]').each((_, element) => {
+    const $img = $(element);
+    const src = $img.attr('src');
+    const alt = $img.attr('alt') || '';
+    const width = $img.attr('width') ? parseInt($img.attr('width')!) : undefined;
+    const height = $img.attr('height') ? parseInt($img.attr('height')!) : undefined;
     
-    return {
-      title: title.trim(),
-      content: cleanedContent,
-      url,
-      seo_data: seoData,
-      content_quality: contentQuality,
-      meta_tags: metaTags,
-      headings,
-      links,
-      images
-    };
-  } catch (error) {
-    throw new Error(`Failed to scrape website: ${error instanceof Error ? error.message : 'Unknown error'}`);
+    if (src) {
+      try {
+        const imageUrl = new URL(src, finalUrl);
+        images.push({
+          src: imageUrl.href,
+          alt,
+          width,
+          height
+        });
+      } catch (e) {
+        // Skip invalid image URLs
+      }
+    }
+  });
+
+  // Extract main content by scoring text and link density
+  // Create a copy for content extraction without removing SEO elements
+  const $contentExtraction = cheerio.load($.html());
+  const selectorOverride = contentSelector || getContentSelectorOverride(new URL(finalUrl).hostname);
+  const mainContent = selectMainContent($contentExtraction, selectorOverride);
+  const $contentRoot = mainContent.$root;
+  
+  // Links inside the selected main content are body links; the rest keep their landmark region
+  $contentRoot.find('a[data-seo-link-index]').each((_, element) => {
+    const link = links[parseInt($contentExtraction(element).attr('data-seo-link-index') || '', 10)];
+    if (link) link.region = 'main';
+  });
+  
+  // Keep block boundaries (paragraphs, list items, cells, headings) instead of flattening whitespace
+  const blocks = extractContentBlocks($contentExtraction, $contentRoot);
+  const cleanedContent = blocksToText(blocks);
+  
+  if (!cleanedContent && http.status_code >= 200 && http.status_code < 300) {
+    throw new Error('No content found on the page');
   }
-}
\ No newline at end of file
+  
+  // Analyze content quality metrics
+  const contentQuality = analyzeContentQuality(cleanedContent, title.trim(), headings, blocks);
+  
+  return {
+    title: title.trim(),
+    content: cleanedContent,
+    blocks,
+    extraction: {
+      method: mainContent.method,
+      selector: mainContent.selector,
+      boilerplate_ratio: mainContent.boilerplate_ratio,
+      confidence: mainContent.confidence
+    },
+    url,
+    http,
+    raw_html: html,
+    locale,
+    seo_data: seoData,
+    structured_data: structuredData,
+    article_metadata: articleMetadata,
+    resources: resourceInventory,
+    accessibility: accessibilityAudit,
+    content_quality: contentQuality,
+    meta_tags: metaTags,
+    headings,
+    links,
+    images,
+    hreflang
+  };
+}
@@ -1,4 +1,8 @@
-import { ScrapedContent, SEOData, Heading, LinkData, ImageData } from './scraper';
+import { ScrapedContent, SEOData, Heading, LinkData, ImageData, HttpResponseData, ContentExtractionInfo, ContentQualityMetrics } from './scraper';
+import { analyzeStructuredData, extractFromSchemaMarkup, type StructuredDataExtraction, type StructuredDataReport } from './structured-data';
+import { type ArticleMetadata } from './article-metadata';
+import { type ResourceInventory } from './resource-inventory';
+import { type AccessibilityAudit, type AccessibilityIssue } from './accessibility-audit';
 
 export interface SEOAnalysis {
   title: TitleAnalysis;
@@ -8,6 +12,63 @@ export interface SEOAnalysis {
   links: LinkAnalysis;
   images: ImageAnalysis;
   technical: TechnicalAnalysis;
+  content_extraction?: ContentExtractionAnalysis;
+  article_metadata?: ArticleMetadataAnalysis;
+  performance?: PerformanceAnalysis;
+  accessibility?: AccessibilityAnalysis;
+  target_keyword?: TargetKeywordAnalysis;
+}
+
+export interface ContentExtractionAnalysis {
+  method: 'override' | 'scored' | 'fallback';
+  boilerplate_ratio: number;
+  confidence: number;
+  is_reliable: boolean;
+  recommendations: string[];
+}
+
+export interface ArticleMetadataAnalysis {
+  has_author: boolean;
+  authors: string[];
+  published_at?: string;
+  modified_at?: string;
+  days_since_published?: number;
+  days_since_modified?: number;
+  is_stale: boolean;
+  has_breadcrumbs: boolean;
+  breadcrumb_depth: number;
+  score: number;
+  recommendations: string[];
+}
+
+export interface PerformanceAnalysis {
+  html_bytes: number;
+  dom_node_count: number;
+  max_dom_depth: number;
+  script_count: number;
+  inline_script_bytes: number;
+  stylesheet_count: number;
+  inline_style_bytes: number;
+  font_count: number;
+  iframe_count: number;
+  video_count: number;
+  render_blocking_count: number;
+  third_party_count: number;
+  third_party_hosts: string[];
+  score: number;
+  recommendations: string[];
+}
+
+export interface AccessibilityAnalysis {
+  has_lang: boolean;
+  html_lang?: string;
+  landmarks: string[];
+  issue_counts: { [type: string]: number };
+  error_count: number;
+  warning_count: number;
+  issues: AccessibilityIssue[];
+  score: number;
+  recommendations: string[];
 }
 
 export interface TitleAnalysis {
@@ -43,11 +104,37 @@ export interface KeywordAnalysis {
   recommendations: string[];
 }
 
+// Placement of a keyword the writer chose, as opposed to the primary keyword inferred from the content
+export interface TargetKeywordAnalysis {
+  keyword: string;
+  occurrences: number;
+  density: number;
+  in_title: boolean;
+  in_meta_description: boolean;
+  in_h1: boolean;
+  in_subheadings: boolean;
+  in_introduction: boolean;    // Within the first 100 words
+  in_url: boolean;
+  in_image_alt: boolean;
+  score: number;
+  recommendations: string[];
+}
+
 export interface LinkAnalysis {
   internal_count: number;
   external_count: number;
   total_count: number;
   ratio: number;
+  content_internal_count: number;
+  content_external_count: number;
+  navigation_count: number;
+  has_region_data: boolean;
+  nofollow_count: number;
+  sponsored_count: number;
+  ugc_count: number;
+  image_link_count: number;
+  image_links_missing_alt: number;
+  unsafe_blank_target_count: number;
   score: number;
   recommendations: string[];
 }
@@ -68,6 +155,10 @@ export interface TechnicalAnalysis {
   has_og_tags: boolean;
   has_twitter_cards: boolean;
   has_schema: boolean;
+  structured_data: StructuredDataReport;
+  status_code?: number;
+  redirect_count: number;
+  has_header_noindex: boolean;
   score: number;
   recommendations: string[];
 }
@@ -283,24 +374,69 @@ export function analyzeLinkStructure(links: LinkData[]): LinkAnalysis {
   const totalCount = links.length;
   const ratio = totalCount > 0 ? internalCount / totalCount : 0;
   
+  // Score body-content links separately from navigation boilerplate when region data is available
+  const hasRegionData = links.some(link => !!link.region);
+  const contentLinks = hasRegionData ? links.filter(link => link.region === 'main') : links;
+  const contentInternalCount = contentLinks.filter(link => link.is_internal).length;
+  const contentExternalCount = contentLinks.filter(link => !link.is_internal).length;
+  const contentRatio = contentLinks.length > 0 ? contentInternalCount / contentLinks.length : 0;
+  const navigationCount = hasRegionData
+    ? links.filter(link => link.region && link.region !== 'main' && link.region !== 'other').length
+    : 0;
+  
+  const hasRel = (link: LinkData, value: string) => (link.rel || []).includes(value);
+  const nofollowCount = links.filter(link => hasRel(link, 'nofollow')).length;
+  const sponsoredCount = links.filter(link => hasRel(link, 'sponsored')).length;
+  const ugcCount = links.filter(link => hasRel(link, 'ugc')).length;
+  const imageLinks = links.filter(link => link.is_image_link);
+  const imageLinksMissingAlt = imageLinks.filter(link => !link.image_alt?.trim() && !link.anchor_text.trim()).length;
+  const unsafeBlankTargetCount = links.filter(link =>
+    !link.is_internal && link.target === '_blank' && !hasRel(link, 'noopener') && !hasRel(link, 'noreferrer')
+  ).length;
+  
   let score = 0;
-  if (internalCount >= 3) score += 30; // Good internal linking
-  if (externalCount >= 1 && externalCount <= 5) score += 20; // Some external links
-  if (ratio >= 0.7) score += 30; // Good internal/external ratio
-  if (totalCount >= 5) score += 20; // Sufficient linking
+  if (contentInternalCount >= 3) score += 30; // Good internal linking
+  if (contentExternalCount >= 1 && contentExternalCount <= 5) score += 20; // Some external links
+  if (contentRatio >= 0.7) score += 30; // Good internal/external ratio
+  if (contentLinks.length >= 5) score += 20; // Sufficient linking
+  if (imageLinksMissingAlt > 0) score -= Math.min(10, imageLinksMissingAlt * 2);
   
   const recommendations = [];
-  if (internalCount < 3) recommendations.push('Add more internal links to improve site navigation and SEO.');
+  if (hasRegionData && contentInternalCount < 3 && internalCount >= 3) {
+    recommendations.push('Most internal links are in navigation, header or footer. Add contextual internal links within the body content.');
+  } else if (contentInternalCount < 3) {
+    recommendations.push('Add more internal links to improve site navigation and SEO.');
+  }
   if (externalCount === 0) recommendations.push('Consider adding relevant external links to authoritative sources.');
-  if (externalCount > 10) recommendations.push('Too many external links may dilute page authority.');
+  if (contentExternalCount > 10) recommendations.push('Too many external links may dilute page authority.');
   if (totalCount === 0) recommendations.push('No links found. Add both internal and external links to improve SEO.');
+  if (imageLinksMissingAlt > 0) {
+    recommendations.push(`${imageLinksMissingAlt} image links have no alt text. The image alt is used as anchor text, so describe the link target.`);
+  }
+  if (unsafeBlankTargetCount > 0) {
+    recommendations.push(`${unsafeBlankTargetCount} external links open in a new tab without rel="noopener". Add noopener to prevent reverse tabnabbing.`);
+  }
+  const internalNofollowCount = links.filter(link => link.is_internal && hasRel(link, 'nofollow')).length;
+  if (internalNofollowCount > 0) {
+    recommendations.push(`${internalNofollowCount} internal links use rel="nofollow". Remove nofollow from internal links so link equity flows through the site.`);
+  }
   
   return {
     internal_count: internalCount,
     external_count: externalCount,
     total_count: totalCount,
     ratio,
-    score: Math.min(score, 100),
+    content_internal_count: contentInternalCount,
+    content_external_count: contentExternalCount,
+    navigation_count: navigationCount,
+    has_region_data: hasRegionData,
+    nofollow_count: nofollowCount,
+    sponsored_count: sponsoredCount,
+    ugc_count: ugcCount,
+    image_link_count: imageLinks.length,
+    image_links_missing_alt: imageLinksMissingAlt,
+    unsafe_blank_target_count: unsafeBlankTargetCount,
+    score: Math.max(0, Math.min(score, 100)),
     recommendations
   };
 }
@@ -342,13 +478,22 @@ export function analyzeImageOptimization(images: ImageData[]): ImageAnalysis {
   };
 }
 
-export function analyzeTechnicalSEO(seoData: SEOData): TechnicalAnalysis {
+export function analyzeTechnicalSEO(
+  seoData: SEOData,
+  http?: HttpResponseData,
+  structuredData?: StructuredDataExtraction
+): TechnicalAnalysis {
   const hasMetaTitle = !!(seoData.meta_title?.trim());
   const hasMetaDescription = !!(seoData.meta_description?.trim());
   const hasCanonical = !!(seoData.canonical_url?.trim());
   const hasOgTags = !!(seoData.og_title || seoData.og_description);
   const hasTwitterCards = !!(seoData.twitter_title || seoData.twitter_description);
-  const hasSchema = seoData.schema_markup.length > 0;
+  // Fall back to the raw JSON-LD when normalized entities weren't captured (older documents)
+  const structuredDataReport = analyzeStructuredData(structuredData || extractFromSchemaMarkup(seoData.schema_markup));
+  const hasSchema = structuredDataReport.entity_count > 0;
+  const statusCode = http?.status_code;
+  const redirectCount = http?.redirect_chain.length || 0;
+  const hasHeaderNoindex = /\b(noindex|none)\b/i.test(http?.x_robots_tag || '');
   
   let score = 0;
   if (hasMetaTitle) score += 20;
@@ -357,14 +502,25 @@ export function analyzeTechnicalSEO(seoData: SEOData): TechnicalAnalysis {
   if (hasOgTags) score += 15;
   if (hasTwitterCards) score += 15;
   if (hasSchema) score += 15;
+  if (structuredDataReport.error_count > 0) score -= Math.min(10, structuredDataReport.error_count * 2);
+  
+  // HTTP-level penalties
+  if (statusCode && statusCode >= 400) score -= 40;
+  if (redirectCount > 1) score -= 10;
+  if (hasHeaderNoindex) score -= 20;
   
   const recommendations = [];
+  if (statusCode && statusCode >= 400) recommendations.push(`Page returns HTTP ${statusCode}. Fix the page or remove it from the sitemap and internal links.`);
+  if (redirectCount > 1) recommendations.push(`Page is reached through a chain of ${redirectCount} redirects. Link directly to the final URL.`);
+  else if (redirectCount === 1) recommendations.push('Page is reached through a redirect. Update links and sitemap entries to the final URL.');
+  if (hasHeaderNoindex) recommendations.push('X-Robots-Tag header blocks indexing (noindex). Remove it if this page should appear in search.');
   if (!hasMetaTitle) recommendations.push('Missing meta title tag.');
   if (!hasMetaDescription) recommendations.push('Missing meta description tag.');
   if (!hasCanonical) recommendations.push('Missing canonical URL to prevent duplicate content issues.');
   if (!hasOgTags) recommendations.push('Missing Open Graph tags for better social media sharing.');
   if (!hasTwitterCards) recommendations.push('Missing Twitter Card tags for better Twitter sharing.');
   if (!hasSchema) recommendations.push('Consider adding structured data (Schema.org) for enhanced search results.');
+  recommendations.push(...structuredDataReport.recommendations);
   
   return {
     has_meta_title: hasMetaTitle,
@@ -373,12 +529,323 @@ export function analyzeTechnicalSEO(seoData: SEOData): TechnicalAnalysis {
     has_og_tags: hasOgTags,
     has_twitter_cards: hasTwitterCards,
     has_schema: hasSchema,
+    structured_data: structuredDataReport,
+    status_code: statusCode,
+    redirect_count: redirectCount,
+    has_header_noindex: hasHeaderNoindex,
+    score: Math.max(0, Math.min(score, 100)),
+    recommendations
+  };
+}
+
+export function analyzeContentExtraction(extraction: ContentExtractionInfo): ContentExtractionAnalysis {
+  const isReliable = extraction.method === 'override' || extraction.confidence >= 0.5;
+  
+  const recommendations = [];
+  if (extraction.boilerplate_ratio > 0.7) {
+    recommendations.push(`${Math.round(extraction.boilerplate_ratio * 100)}% of the page text is navigation or boilerplate. Increase the amount of unique main content.`);
+  }
+  if (!isReliable) {
+    recommendations.push('Main content could not be identified reliably; content metrics may include navigation text. Use semantic <main>/<article> markup or configure a content selector override.');
+  }
+  
+  return {
+    method: extraction.method,
+    boilerplate_ratio: extraction.boilerplate_ratio,
+    confidence: extraction.confidence,
+    is_reliable: isReliable,
+    recommendations
+  };
+}
+
+// Informational content not updated for this long is flagged for review
+const STALE_CONTENT_DAYS = 365;
+
+export function analyzeArticleMetadata(
+  metadata: ArticleMetadata,
+  contentType?: ContentQualityMetrics['content_type']
+): ArticleMetadataAnalysis {
+  const now = Date.now();
+  const daysSince = (date?: string) => date ? Math.floor((now - new Date(date).getTime()) / (1000 * 60 * 60 * 24)) : undefined;
+  
+  const hasAuthor = metadata.authors.length > 0;
+  const hasBreadcrumbs = metadata.breadcrumbs.length > 0;
+  const daysSincePublished = daysSince(metadata.published_at);
+  const daysSinceModified = daysSince(metadata.modified_at);
+  const daysSinceUpdate = daysSinceModified ?? daysSincePublished;
+  // Authorship and dates matter for articles and guides, not for service or landing pages
+  const expectsArticleSignals = contentType === undefined || contentType === 'informational' || contentType === 'mixed';
+  const isStale = expectsArticleSignals && daysSinceUpdate !== undefined && daysSinceUpdate > STALE_CONTENT_DAYS;
+  
+  let score = 0;
+  if (hasAuthor || !expectsArticleSignals) score += 35;
+  if (metadata.published_at || !expectsArticleSignals) score += 25;
+  if (metadata.modified_at || !expectsArticleSignals) score += 15;
+  if (hasBreadcrumbs) score += 25;
+  if (isStale) score -= 20;
+  
+  const recommendations = [];
+  if (expectsArticleSignals && !hasAuthor) {
+    recommendations.push('No author found. Add a visible byline and an author (Person) in Article structured data to strengthen E-E-A-T signals.');
+  }
+  if (expectsArticleSignals && !metadata.published_at) {
+    recommendations.push('No publish date found. Add article:published_time or datePublished so search engines can judge freshness.');
+  }
+  if (metadata.published_at && metadata.modified_at && new Date(metadata.modified_at) < new Date(metadata.published_at)) {
+    recommendations.push('Modified date is earlier than the publish date. Check the dateModified / article:modified_time values.');
+  }
+  if (isStale) {
+    recommendations.push(`Content was last updated ${daysSinceUpdate} days ago. Review and refresh it to keep it accurate and competitive.`);
+  }
+  if (!hasBreadcrumbs) {
+    recommendations.push('No breadcrumbs found. Add a breadcrumb trail with BreadcrumbList markup to show the page\'s place in the site hierarchy.');
+  }
+  
+  return {
+    has_author: hasAuthor,
+    authors: metadata.authors,
+    published_at: metadata.published_at,
+    modified_at: metadata.modified_at,
+    days_since_published: daysSincePublished,
+    days_since_modified: daysSinceModified,
+    is_stale: isStale,
+    has_breadcrumbs: hasBreadcrumbs,
+    breadcrumb_depth: metadata.breadcrumbs.length,
+    score: Math.max(0, Math.min(score, 100)),
+    recommendations
+  };
+}
+
+// Page weight thresholds, in line with Lighthouse's DOM size and payload audits
+const PERFORMANCE_THRESHOLDS = {
+  html_bytes: 100 * 1024,
+  dom_node_count: 1400,
+  max_dom_depth: 32,
+  inline_script_bytes: 50 * 1024,
+  inline_style_bytes: 50 * 1024,
+  script_count: 20,
+  font_count: 4,
+  third_party_hosts: 10
+};
+
+export function analyzePerformance(inventory: ResourceInventory): PerformanceAnalysis {
+  const { resources } = inventory;
+  const ofType = (type: string) => resources.filter(r => r.type === type);
+  const sumInline = (type: string) => ofType(type).reduce((sum, r) => sum + (r.inline_bytes || 0), 0);
+  
+  const scripts = ofType('script');
+  const stylesheets = ofType('stylesheet');
+  const inlineScriptBytes = sumInline('script');
+  const inlineStyleBytes = sumInline('stylesheet');
+  const renderBlocking = resources.filter(r => r.is_render_blocking && !r.is_inline);
+  const thirdParty = resources.filter(r => r.is_third_party);
+  const thirdPartyHosts = Array.from(new Set(thirdParty.map(r => r.host || ''))).filter(Boolean);
+  const fontCount = ofType('font').length;
+  const iframeCount = ofType('iframe').length;
+  const videoCount = ofType('video').length;
+  
+  let score = 100;
+  if (inventory.html_bytes > PERFORMANCE_THRESHOLDS.html_bytes * 5) score -= 20;
+  else if (inventory.html_bytes > PERFORMANCE_THRESHOLDS.html_bytes) score -= 10;
+  if (inventory.dom_node_count > PERFORMANCE_THRESHOLDS.dom_node_count * 2) score -= 20;
+  else if (inventory.dom_node_count > PERFORMANCE_THRESHOLDS.dom_node_count) score -= 10;
+  if (inventory.max_dom_depth > PERFORMANCE_THRESHOLDS.max_dom_depth) score -= 5;
+  score -= Math.min(20, renderBlocking.length * 4);
+  if (scripts.length > PERFORMANCE_THRESHOLDS.script_count) score -= 10;
+  if (inlineScriptBytes > PERFORMANCE_THRESHOLDS.inline_script_bytes) score -= 5;
+  if (inlineStyleBytes > PERFORMANCE_THRESHOLDS.inline_style_bytes) score -= 5;
+  if (fontCount > PERFORMANCE_THRESHOLDS.font_count) score -= 5;
+  if (thirdPartyHosts.length > PERFORMANCE_THRESHOLDS.third_party_hosts) score -= 10;
+  
+  const kb = (bytes: number) => `${Math.round(bytes / 1024)} KB`;
+  const recommendations = [];
+  if (inventory.html_bytes > PERFORMANCE_THRESHOLDS.html_bytes) {
+    recommendations.push(`HTML document is ${kb(inventory.html_bytes)}. Reduce inline code and markup to keep it under ${kb(PERFORMANCE_THRESHOLDS.html_bytes)}.`);
+  }
+  if (inventory.dom_node_count > PERFORMANCE_THRESHOLDS.dom_node_count) {
+    recommendations.push(`Page has ${inventory.dom_node_count} DOM elements. Simplify markup to stay under ${PERFORMANCE_THRESHOLDS.dom_node_count} elements.`);
+  }
+  if (inventory.max_dom_depth > PERFORMANCE_THRESHOLDS.max_dom_depth) {
+    recommendations.push(`DOM is nested ${inventory.max_dom_depth} levels deep. Flatten wrapper elements (aim for ${PERFORMANCE_THRESHOLDS.max_dom_depth} or fewer).`);
+  }
+  if (renderBlocking.length > 0) {
+    recommendations.push(`${renderBlocking.length} render-blocking scripts/stylesheets in the critical path. Add async/defer to scripts and inline or defer non-critical CSS.`);
+  }
+  if (scripts.length > PERFORMANCE_THRESHOLDS.script_count) {
+    recommendations.push(`${scripts.length} scripts on the page. Bundle or remove unused scripts.`);
+  }
+  if (inlineScriptBytes > PERFORMANCE_THRESHOLDS.inline_script_bytes) {
+    recommendations.push(`${kb(inlineScriptBytes)} of inline JavaScript. Move large scripts to cacheable external files.`);
+  }
+  if (inlineStyleBytes > PERFORMANCE_THRESHOLDS.inline_style_bytes) {
+    recommendations.push(`${kb(inlineStyleBytes)} of inline CSS. Inline only critical CSS and load the rest externally.`);
+  }
+  if (fontCount > PERFORMANCE_THRESHOLDS.font_count) {
+    recommendations.push(`${fontCount} web font resources. Limit font families and weights, and use font-display: swap.`);
+  }
+  if (thirdPartyHosts.length > PERFORMANCE_THRESHOLDS.third_party_hosts) {
+    recommendations.push(`Resources load from ${thirdPartyHosts.length} third-party hosts. Audit tags and remove unused vendors.`);
+  }
+  if (iframeCount + videoCount > 0 && resources.some(r => (r.type === 'iframe' || r.type === 'video') && !r.is_async)) {
+    recommendations.push('Lazy-load iframes and video embeds (loading="lazy" or a click-to-load facade).');
+  }
+  
+  return {
+    html_bytes: inventory.html_bytes,
+    dom_node_count: inventory.dom_node_count,
+    max_dom_depth: inventory.max_dom_depth,
+    script_count: scripts.length,
+    inline_script_bytes: inlineScriptBytes,
+    stylesheet_count: stylesheets.length,
+    inline_style_bytes: inlineStyleBytes,
+    font_count: fontCount,
+    iframe_count: iframeCount,
+    video_count: videoCount,
+    render_blocking_count: renderBlocking.length,
+    third_party_count: thirdParty.length,
+    third_party_hosts: thirdPartyHosts,
+    score: Math.max(0, Math.min(score, 100)),
+    recommendations
+  };
+}
+
+// Score deductions per occurrence and the cap per issue type
+const ACCESSIBILITY_PENALTIES: { [type: string]: { each: number; max: number } } = {
+  missing_lang: { each: 15, max: 15 },
+  invalid_lang: { each: 10, max: 10 },
+  unlabeled_control: { each: 5, max: 20 },
+  empty_link: { each: 3, max: 20 },
+  empty_button: { each: 5, max: 15 },
+  duplicate_id: { each: 2, max: 10 },
+  heading_skip: { each: 3, max: 10 },
+  missing_landmark: { each: 8, max: 12 },
+  generic_alt: { each: 2, max: 10 },
+  tabindex_misuse: { each: 3, max: 10 }
+};
+
+export function analyzeAccessibility(audit: AccessibilityAudit): AccessibilityAnalysis {
+  const counts = audit.issue_counts;
+  const countOf = (type: string) => counts[type] || 0;
+  
+  let score = 100;
+  Object.keys(counts).forEach(type => {
+    const penalty = ACCESSIBILITY_PENALTIES[type];
+    if (penalty) score -= Math.min(penalty.max, counts[type] * penalty.each);
+  });
+  
+  const recommendations = [];
+  if (countOf('missing_lang') > 0) recommendations.push('Add a lang attribute to the <html> element (e.g. lang="en").');
+  if (countOf('invalid_lang') > 0) recommendations.push(`Fix the <html lang="${audit.html_lang}"> value; use a valid BCP 47 tag such as "en" or "en-US".`);
+  if (countOf('unlabeled_control') > 0) recommendations.push(`${countOf('unlabeled_control')} form controls have no label. Associate a <label> with each field.`);
+  if (countOf('empty_link') > 0) recommendations.push(`${countOf('empty_link')} links have no accessible name. Add link text, image alt text or an aria-label.`);
+  if (countOf('empty_button') > 0) recommendations.push(`${countOf('empty_button')} buttons have no accessible name. Add text or an aria-label to icon buttons.`);
+  if (countOf('duplicate_id') > 0) recommendations.push(`${countOf('duplicate_id')} IDs are duplicated. Make every id unique.`);
+  if (countOf('heading_skip') > 0) recommendations.push(`${countOf('heading_skip')} heading level skips within page regions. Nest headings without skipping levels.`);
+  if (countOf('missing_landmark') > 0) recommendations.push('Add landmark regions (<main>, <nav>, <header>, <footer>) so assistive technology users can navigate the page.');
+  if (countOf('generic_alt') > 0) recommendations.push(`${countOf('generic_alt')} images have generic or file-name alt text. Describe what the image shows.`);
+  if (countOf('tabindex_misuse') > 0) recommendations.push(`${countOf('tabindex_misuse')} tabindex problems. Avoid positive tabindex values and keep hidden content out of the tab order.`);
+  
+  return {
+    has_lang: !!audit.html_lang,
+    html_lang: audit.html_lang,
+    landmarks: audit.landmarks,
+    issue_counts: counts,
+    error_count: audit.issues.filter(issue => issue.severity === 'error').length,
+    warning_count: audit.issues.filter(issue => issue.severity === 'warning').length,
+    issues: audit.issues,
+    score: Math.max(0, Math.min(score, 100)),
+    recommendations
+  };
+}
+
+// Lowercased words joined by single spaces, so phrases match on word boundaries
+function normalizeForMatching(text: string): string {
+  return text.toLowerCase().replace(/[^\w]+/g, ' ').trim();
+}
+
+function containsPhrase(text: string, phrase: string): boolean {
+  return !!phrase && ` ${normalizeForMatching(text)} `.includes(` ${phrase} `);
+}
+
+export function analyzeTargetKeyword(data: ScrapedContent, keyword: string): TargetKeywordAnalysis {
+  const phrase = normalizeForMatching(keyword);
+  const words = normalizeForMatching(data.content).split(' ').filter(word => word.length > 0);
+  const paddedContent = ` ${words.join(' ')} `;
+
+  let occurrences = 0;
+  if (phrase) {
+    let index = paddedContent.indexOf(` ${phrase} `);
+    while (index !== -1) {
+      occurrences++;
+      index = paddedContent.indexOf(` ${phrase} `, index + phrase.length + 1);
+    }
+  }
+
+  const phraseWordCount = phrase ? phrase.split(' ').length : 0;
+  const density = words.length > 0 ? (occurrences * phraseWordCount / words.length) * 100 : 0;
+
+  let slug = '';
+  try {
+    slug = decodeURIComponent(new URL(data.url).pathname).replace(/[-_/.]+/g, ' ');
+  } catch {
+    slug = '';
+  }
+
+  const inTitle = containsPhrase(data.title, phrase);
+  const inMetaDescription = containsPhrase(data.seo_data.meta_description || '', phrase);
+  const inH1 = data.headings.some(heading => heading.level === 1 && containsPhrase(heading.text, phrase));
+  const inSubheadings = data.headings.some(heading => heading.level > 1 && containsPhrase(heading.text, phrase));
+  const inIntroduction = containsPhrase(words.slice(0, 100).join(' '), phrase);
+  const inUrl = containsPhrase(slug, phrase);
+  const inImageAlt = data.images.some(image => containsPhrase(image.alt || '', phrase));
+  const isOptimalDensity = density >= 0.5 && density <= 2.5;
+
+  let score = 0;
+  if (inTitle) score += 25;
+  if (inH1) score += 15;
+  if (inMetaDescription) score += 15;
+  if (inIntroduction) score += 15;
+  if (isOptimalDensity) score += 15;
+  else if (occurrences > 0) score += 5;
+  if (inSubheadings) score += 5;
+  if (inUrl) score += 5;
+  if (inImageAlt || data.images.length === 0) score += 5;
+
+  const recommendations = [];
+  if (!inTitle) recommendations.push(`Include "${keyword}" in the title, preferably near the beginning.`);
+  if (!inH1) recommendations.push(`Use "${keyword}" in the H1 heading.`);
+  if (!inMetaDescription) recommendations.push(`Mention "${keyword}" in the meta description.`);
+  if (!inIntroduction) recommendations.push(`Introduce "${keyword}" within the first 100 words.`);
+  if (occurrences === 0) {
+    recommendations.push(`"${keyword}" doesn't appear in the body content.`);
+  } else if (density < 0.5) {
+    recommendations.push(`"${keyword}" density is low (${density.toFixed(1)}%). Aim for 0.5-2.5%.`);
+  } else if (density > 2.5) {
+    recommendations.push(`"${keyword}" density is too high (${density.toFixed(1)}%). Use synonyms and related terms.`);
+  }
+  if (!inSubheadings) recommendations.push(`Use "${keyword}" or a close variant in at least one subheading.`);
+  if (!inUrl) recommendations.push(`Consider including "${keyword}" in the URL slug.`);
+  if (!inImageAlt && data.images.length > 0) recommendations.push(`Describe at least one image with alt text that includes "${keyword}".`);
+
+  return {
+    keyword,
+    occurrences,
+    density,
+    in_title: inTitle,
+    in_meta_description: inMetaDescription,
+    in_h1: inH1,
+    in_subheadings: inSubheadings,
+    in_introduction: inIntroduction,
+    in_url: inUrl,
+    in_image_alt: inImageAlt,
     score: Math.min(score, 100),
     recommendations
   };
 }
 
-export function performSEOAnalysis(data: ScrapedContent): SEOAnalysis {
+// The target keyword is reported alongside the analysis but doesn't feed the SEO score, so
+// scores stay comparable between pages analyzed with and without one
+export function performSEOAnalysis(data: ScrapedContent, targetKeyword?: string): SEOAnalysis {
   return {
     title: analyzeTitleTag(data.title, data.content),
     meta_description: analyzeMetaDescription(data.seo_data.meta_description, data.content),
@@ -386,7 +853,14 @@ export function performSEOAnalysis(data: ScrapedContent): SEOAnalysis {
     keywords: analyzeKeywordDensity(data.content),
     links: analyzeLinkStructure(data.links),
     images: analyzeImageOptimization(data.images),
-    technical: analyzeTechnicalSEO(data.seo_data)
+    technical: analyzeTechnicalSEO(data.seo_data, data.http, data.structured_data),
+    content_extraction: data.extraction ? analyzeContentExtraction(data.extraction) : undefined,
+    article_metadata: data.article_metadata
+      ? analyzeArticleMetadata(data.article_metadata, data.content_quality?.content_type)
+      : undefined,
+    performance: data.resources ? analyzePerformance(data.resources) : undefined,
+    accessibility: data.accessibility ? analyzeAccessibility(data.accessibility) : undefined,
+    target_keyword: targetKeyword ? analyzeTargetKeyword(data, targetKeyword) : undefined
   };
 }
 
@@ -438,7 +912,12 @@ export function generateSEOSuggestions(analysis: SEOAnalysis): string[] {
     ...analysis.keywords.recommendations.map(r => ({ text: r, priority: analysis.keywords.score < 50 ? 2 : 1 })),
     ...analysis.links.recommendations.map(r => ({ text: r, priority: analysis.links.score < 50 ? 2 : 1 })),
     ...analysis.images.recommendations.map(r => ({ text: r, priority: analysis.images.score < 50 ? 2 : 1 })),
-    ...analysis.technical.recommendations.map(r => ({ text: r, priority: analysis.technical.score < 50 ? 3 : 2 }))
+    ...analysis.technical.recommendations.map(r => ({ text: r, priority: analysis.technical.score < 50 ? 3 : 2 })),
+    ...(analysis.content_extraction?.recommendations || []).map(r => ({ text: r, priority: 1 })),
+    ...(analysis.article_metadata?.recommendations || []).map(r => ({ text: r, priority: 1 })),
+    ...(analysis.performance?.recommendations || []).map(r => ({ text: r, priority: analysis.performance!.score < 50 ? 2 : 1 })),
+    ...(analysis.accessibility?.recommendations || []).map(r => ({ text: r, priority: analysis.accessibility!.score < 50 ? 2 : 1 })),
+    ...(analysis.target_keyword?.recommendations || []).map(r => ({ text: r, priority: analysis.target_keyword!.score < 50 ? 3 : 2 }))
   ];
   
   // Sort by priority (higher priority first) and return unique recommendations
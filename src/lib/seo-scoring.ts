@@ -14,6 +14,8 @@ export interface CategoryScores {
   structure: number;
   links: number;
   images: number;
+  accessibility?: number; // Only present when an accessibility audit was run
+  performance?: number;   // Only present when the page's resources were inventoried
 }
 
 export type SEOGrade = 'A+' | 'A' | 'B+' | 'B' | 'C+' | 'C' | 'D' | 'F';
@@ -33,16 +35,20 @@ export interface WeightConfig {
   structure: number;
   links: number;
   images: number;
+  accessibility: number;
+  performance: number;
 }
 
 // Default weights for scoring algorithm
 const DEFAULT_WEIGHTS: WeightConfig = {
-  content: 0.25,    // Keywords and content quality
-  technical: 0.20,  // Technical SEO factors
-  meta: 0.20,       // Title and meta description
-  structure: 0.15,  // Heading structure
-  links: 0.10,      // Link analysis
-  images: 0.10      // Image optimization
+  content: 0.20,       // Keywords and content quality
+  technical: 0.17,     // Technical SEO factors
+  meta: 0.17,          // Title and meta description
+  structure: 0.13,     // Heading structure
+  links: 0.08,         // Link analysis
+  images: 0.08,        // Image optimization
+  accessibility: 0.10, // On-page accessibility audit
+  performance: 0.07    // Page weight and render-blocking resources
 };
 
 export function calculateSEOScore(
@@ -58,16 +64,28 @@ export function calculateSEOScore(
     links: analysis.links.score,
     images: analysis.images.score
   };
+  if (analysis.accessibility) {
+    categoryScores.accessibility = analysis.accessibility.score;
+  }
+  if (analysis.performance) {
+    categoryScores.performance = analysis.performance.score;
+  }
 
-  // Calculate weighted overall score
-  const overallScore = Math.round(
+  // Calculate weighted overall score, renormalizing over the optional categories that weren't audited
+  const weightedSum =
     (categoryScores.content * weights.content) +
     (categoryScores.technical * weights.technical) +
     (categoryScores.meta * weights.meta) +
     (categoryScores.structure * weights.structure) +
     (categoryScores.links * weights.links) +
-    (categoryScores.images * weights.images)
-  );
+    (categoryScores.images * weights.images) +
+    ((categoryScores.accessibility ?? 0) * weights.accessibility) +
+    ((categoryScores.performance ?? 0) * weights.performance);
+  const totalWeight =
+    weights.content + weights.technical + weights.meta + weights.structure + weights.links + weights.images +
+    (categoryScores.accessibility !== undefined ? weights.accessibility : 0) +
+    (categoryScores.performance !== undefined ? weights.performance : 0);
+  const overallScore = Math.round(totalWeight > 0 ? weightedSum / totalWeight : 0);
 
   // Determine grade
   const grade = getGradeFromScore(overallScore);
@@ -181,6 +199,76 @@ function identifyPriorityIssues(
     }
   }
 
+  // HTTP response issues (always reported, regardless of category score)
+  if (analysis.technical.status_code && analysis.technical.status_code >= 400) {
+    issues.push({
+      category: 'Technical',
+      issue: `Page returns HTTP ${analysis.technical.status_code}`,
+      impact: 'high',
+      fix_effort: 'moderate',
+      score_impact: 25
+    });
+  }
+  if (analysis.technical.has_header_noindex) {
+    issues.push({
+      category: 'Technical',
+      issue: 'X-Robots-Tag header blocks indexing',
+      impact: 'high',
+      fix_effort: 'easy',
+      score_impact: 20
+    });
+  }
+  if (analysis.technical.structured_data.error_count > 0) {
+    const invalidEntities = analysis.technical.structured_data.entities.filter(e => !e.is_valid).length;
+    issues.push({
+      category: 'Technical',
+      issue: `Structured data errors in ${invalidEntities} ${invalidEntities === 1 ? 'entity' : 'entities'} (not eligible for rich results)`,
+      impact: 'medium',
+      fix_effort: 'moderate',
+      score_impact: 8
+    });
+  }
+  if (analysis.accessibility) {
+    const { issue_counts } = analysis.accessibility;
+    const blockingCount = (issue_counts.empty_link || 0) + (issue_counts.empty_button || 0) + (issue_counts.unlabeled_control || 0);
+    if (issue_counts.missing_lang) {
+      issues.push({
+        category: 'Accessibility',
+        issue: 'Missing lang attribute on <html>',
+        impact: 'medium',
+        fix_effort: 'easy',
+        score_impact: 5
+      });
+    }
+    if (blockingCount > 0) {
+      issues.push({
+        category: 'Accessibility',
+        issue: `${blockingCount} links, buttons or form fields without an accessible name`,
+        impact: blockingCount > 5 ? 'high' : 'medium',
+        fix_effort: 'easy',
+        score_impact: Math.min(10, blockingCount * 2)
+      });
+    }
+  }
+  if (analysis.performance && analysis.performance.score < 60) {
+    issues.push({
+      category: 'Performance',
+      issue: `Heavy page: ${analysis.performance.render_blocking_count} render-blocking resources, ${analysis.performance.dom_node_count} DOM elements`,
+      impact: 'medium',
+      fix_effort: 'moderate',
+      score_impact: 8
+    });
+  }
+  if (analysis.technical.redirect_count > 1) {
+    issues.push({
+      category: 'Technical',
+      issue: `Redirect chain with ${analysis.technical.redirect_count} hops`,
+      impact: 'medium',
+      fix_effort: 'easy',
+      score_impact: 10
+    });
+  }
+
   // Technical SEO issues (high impact)
   if (analysis.technical.score < 70) {
     if (!analysis.technical.has_meta_title) {
@@ -345,5 +433,16 @@ export function getCategoryInsights(categoryScores: CategoryScores): { [category
     insights.structure = "Heading structure is poor. Ensure single H1 and logical heading hierarchy.";
   }
 
+  // Accessibility insights
+  if (categoryScores.accessibility !== undefined) {
+    if (categoryScores.accessibility >= 80) {
+      insights.accessibility = "Page passes most static accessibility checks.";
+    } else if (categoryScores.accessibility >= 60) {
+      insights.accessibility = "Some accessibility issues found. Label controls and give links and buttons accessible names.";
+    } else {
+      insights.accessibility = "Significant accessibility barriers. Fix missing labels, empty links, landmarks and the page language.";
+    }
+  }
+
   return insights;
 }
\ No newline at end of file
@@ -0,0 +1,280 @@
+import { scrapeWebsite, isBlockedByRobotsError, type ScrapedContent } from './scraper';
+import { checkRobotsAccess } from './robots';
+import { compileSafePattern, type LocalePolicy } from './locale-policy';
+
+// Parameters that only track campaigns or sessions; stripped so they don't create duplicate pages
+export const TRACKING_QUERY_PARAMS = [
+  'utm_source', 'utm_medium', 'utm_campaign', 'utm_term', 'utm_content', 'utm_id',
+  'gclid', 'dclid', 'fbclid', 'msclkid', 'mc_cid', 'mc_eid', '_ga', '_gl', 'ref', 'sessionid', 'sid'
+];
+
+export type QueryStringMode = 'strip_tracking' | 'strip_all' | 'keep';
+
+export interface CrawlOptions {
+  maxDepth?: number;           // Click depth from the seeds; seeds are depth 0
+  maxPages?: number;           // Pages fetched, including failures and duplicates
+  include?: string[];          // Regexes on the normalized URL; empty means every internal URL
+  exclude?: string[];          // Regexes on the normalized URL; applied after include
+  queryString?: QueryStringMode;
+  concurrency?: number;        // Pages handled at once within a depth level; fetches are still paced per host
+  followNofollow?: boolean;    // Follow rel="nofollow" links
+  localePolicy?: LocalePolicy;
+}
+
+export type CrawlPageStatus = 'stored' | 'duplicate' | 'blocked' | 'failed' | 'skipped';
+
+export interface CrawledPage {
+  url: string;               // Normalized URL that was fetched
+  depth: number;             // Click depth from the nearest seed
+  parent_url: string | null; // Page the crawler found the link on
+  status: CrawlPageStatus;
+  final_url?: string;
+  canonical_url?: string;
+  duplicate_of?: string;     // The variant's canonical URL, or the page already stored under the same final URL
+  links_found?: number;      // New internal URLs this page added to the queue
+  title?: string;
+  error?: string;
+  document_id?: number;
+  chunks_created?: number;
+  unchanged?: boolean;
+}
+
+export interface CrawlResult {
+  seeds: string[];
+  pages: CrawledPage[];
+  pages_fetched: number;
+  pages_stored: number;
+  duplicates: number;
+  blocked_by_robots: number;
+  failed: number;
+  skipped: number;
+  crawl_delay_seconds: number;
+  max_depth_reached: number;
+  urls_discovered: number;  // Unique internal URLs seen, fetched or not
+  urls_not_fetched: number; // Discovered but left out by the page or depth limit
+  stopped_by_page_limit: boolean;
+}
+
+/**
+ * Stores a crawled page. Returning `skipped` keeps the page out of the results' stored count
+ * (e.g. excluded by locale) but its links are still followed.
+ */
+export type CrawlPageHandler = (
+  scrapedContent: ScrapedContent,
+  depth: number
+) => Promise<{ document_id?: number; chunks_created?: number; unchanged?: boolean; skipped?: boolean; reason?: string }>;
+
+/**
+ * Compiles include or exclude patterns with the same guards as locale patterns, since every
+ * discovered URL is tested against them. Throws on an invalid or unsafe pattern.
+ */
+export function compileCrawlPatterns(patterns: string[] | undefined, field: string): RegExp[] {
+  return (patterns || [])
+    .map(pattern => pattern.trim())
+    .filter(pattern => pattern.length > 0)
+    .map(pattern => compileSafePattern(pattern, `${field} pattern "${pattern}"`));
+}
+
+/**
+ * Normalizes a URL for de-duplication: drops the fragment, lowercases the host, removes
+ * default ports, and strips (or sorts) the query string according to the mode.
+ */
+export function normalizeCrawlUrl(url: string, queryString: QueryStringMode = 'strip_tracking'): string | null {
+  let urlObj: URL;
+  try {
+    urlObj = new URL(url);
+  } catch {
+    return null;
+  }
+  if (urlObj.protocol !== 'http:' && urlObj.protocol !== 'https:') return null;
+
+  urlObj.hash = '';
+  urlObj.hostname = urlObj.hostname.toLowerCase();
+  if ((urlObj.protocol === 'http:' && urlObj.port === '80') || (urlObj.protocol === 'https:' && urlObj.port === '443')) {
+    urlObj.port = '';
+  }
+
+  if (queryString === 'strip_all') {
+    urlObj.search = '';
+  } else if (urlObj.search) {
+    const params: [string, string][] = [];
+    urlObj.searchParams.forEach((value, key) => {
+      if (queryString === 'keep' || !TRACKING_QUERY_PARAMS.includes(key.toLowerCase())) {
+        params.push([key, value]);
+      }
+    });
+    params.sort((a, b) => (a[0] === b[0] ? a[1].localeCompare(b[1]) : a[0].localeCompare(b[0])));
+    urlObj.search = params.length > 0
+      ? `?${params.map(([key, value]) => `${encodeURIComponent(key)}=${encodeURIComponent(value)}`).join('&')}`
+      : '';
+  }
+
+  return urlObj.href;
+}
+
+// Hosts count as internal with or without a leading www.
+function hostKey(url: string): string | null {
+  try {
+    return new URL(url).hostname.toLowerCase().replace(/^www\./, '');
+  } catch {
+    return null;
+  }
+}
+
+/**
+ * Breadth-first crawl from the seed URLs, following internal links level by level so each
+ * page is recorded at its shortest click depth. Pages are de-duplicated by normalized URL,
+ * and again by final URL and canonical once fetched, so redirects are stored once and
+ * canonical variants are never stored; their canonical page is queued and stored instead.
+ */
+export async function crawlSite(
+  seedUrls: string[],
+  options: CrawlOptions,
+  handlePage: CrawlPageHandler
+): Promise<CrawlResult> {
+  const {
+    maxDepth = 3,
+    maxPages = 100,
+    queryString = 'strip_tracking',
+    concurrency = 3,
+    followNofollow = false,
+    localePolicy
+  } = options;
+  const includePatterns = compileCrawlPatterns(options.include, 'include');
+  const excludePatterns = compileCrawlPatterns(options.exclude, 'exclude');
+
+  const seeds = seedUrls
+    .map(url => normalizeCrawlUrl(url.trim(), queryString))
+    .filter((url): url is string => !!url);
+  if (seeds.length === 0) {
+    throw new Error('At least one valid http(s) seed URL is required');
+  }
+
+  const internalHosts = new Set(seeds.map(hostKey).filter((host): host is string => !!host));
+  const discovered = new Set<string>(seeds); // Every URL queued, so nothing is queued twice
+  const fetchedAs = new Map<string, string>(); // Requested and final URLs of stored pages → page URL
+  const pages: CrawledPage[] = [];
+  let level: { url: string; parent_url: string | null }[] = seeds.map(url => ({ url, parent_url: null }));
+  let depth = 0;
+  let stoppedByPageLimit = false;
+  let crawlDelaySeconds = 0;
+
+  const allowed = (url: string) => {
+    const host = hostKey(url);
+    if (!host || !internalHosts.has(host)) return false;
+    if (includePatterns.length > 0 && !includePatterns.some(pattern => pattern.test(url))) return false;
+    return !excludePatterns.some(pattern => pattern.test(url));
+  };
+
+  const crawlPage = async (entry: { url: string; parent_url: string | null }, pageDepth: number): Promise<{ page: CrawledPage; links: string[]; canonical?: string }> => {
+    const page: CrawledPage = { url: entry.url, depth: pageDepth, parent_url: entry.parent_url, status: 'failed' };
+    try {
+      const robotsCheck = await checkRobotsAccess(entry.url);
+      crawlDelaySeconds = Math.max(crawlDelaySeconds, robotsCheck.crawl_delay || 0);
+      if (!robotsCheck.allowed) {
+        page.status = 'blocked';
+        page.error = `Disallowed by ${robotsCheck.robots_url}${robotsCheck.matched_rule ? ` (${robotsCheck.matched_rule.type}: ${robotsCheck.matched_rule.pattern})` : ''}`;
+        return { page, links: [] };
+      }
+
+      const scrapedContent = await scrapeWebsite(entry.url, { localePolicy });
+      const finalUrl = normalizeCrawlUrl(scrapedContent.http?.final_url || entry.url, queryString) || entry.url;
+      const canonicalUrl = scrapedContent.seo_data.canonical_url
+        ? normalizeCrawlUrl(scrapedContent.seo_data.canonical_url, queryString)
+        : null;
+
+      page.final_url = finalUrl;
+      page.canonical_url = canonicalUrl || undefined;
+      page.title = scrapedContent.title;
+
+      const links = scrapedContent.links
+        .filter(link => followNofollow || !(link.rel || []).includes('nofollow'))
+        .map(link => normalizeCrawlUrl(link.url, queryString))
+        .filter((url): url is string => !!url);
+
+      // A variant whose canonical is another URL is a duplicate of that page, which is queued
+      // so it gets stored itself even when the variant was reached first
+      if (canonicalUrl && canonicalUrl !== finalUrl) {
+        page.status = 'duplicate';
+        page.duplicate_of = fetchedAs.get(canonicalUrl) || canonicalUrl;
+        return { page, links, canonical: canonicalUrl };
+      }
+
+      // Redirect targets already stored from another URL aren't stored again
+      const duplicateOf = fetchedAs.get(finalUrl);
+      if (duplicateOf) {
+        page.status = 'duplicate';
+        page.duplicate_of = duplicateOf;
+        return { page, links };
+      }
+      fetchedAs.set(entry.url, entry.url);
+      fetchedAs.set(finalUrl, entry.url);
+
+      const stored = await handlePage(scrapedContent, pageDepth);
+      page.status = stored.skipped ? 'skipped' : 'stored';
+      page.error = stored.reason;
+      page.document_id = stored.document_id;
+      page.chunks_created = stored.chunks_created;
+      page.unchanged = stored.unchanged;
+      return { page, links };
+    } catch (error) {
+      // Redirected to a URL that robots.txt disallows
+      if (isBlockedByRobotsError(error)) page.status = 'blocked';
+      page.error = error instanceof Error ? error.message : 'Unknown error';
+      return { page, links: [] };
+    }
+  };
+
+  while (level.length > 0 && depth <= maxDepth) {
+    const remaining = maxPages - pages.length;
+    if (remaining <= 0) {
+      stoppedByPageLimit = true;
+      break;
+    }
+    if (level.length > remaining) stoppedByPageLimit = true;
+    const current = level.slice(0, remaining);
+    const next: { url: string; parent_url: string | null }[] = [];
+
+    for (let i = 0; i < current.length; i += concurrency) {
+      const batch = current.slice(i, i + concurrency);
+      const results = await Promise.all(batch.map(entry => crawlPage(entry, depth)));
+
+      results.forEach(({ page, links, canonical }) => {
+        if (canonical && !discovered.has(canonical) && allowed(canonical)) {
+          discovered.add(canonical);
+          next.push({ url: canonical, parent_url: page.url });
+        }
+
+        let added = 0;
+        links.forEach(link => {
+          if (discovered.has(link) || !allowed(link)) return;
+          discovered.add(link);
+          next.push({ url: link, parent_url: page.url });
+          added++;
+        });
+        page.links_found = added;
+        pages.push(page);
+      });
+    }
+
+    console.log(`Crawl depth ${depth}: fetched ${current.length} pages, queued ${next.length} new URLs`);
+    level = next;
+    depth++;
+  }
+
+  return {
+    seeds,
+    pages,
+    pages_fetched: pages.length,
+    pages_stored: pages.filter(page => page.status === 'stored').length,
+    duplicates: pages.filter(page => page.status === 'duplicate').length,
+    blocked_by_robots: pages.filter(page => page.status === 'blocked').length,
+    failed: pages.filter(page => page.status === 'failed').length,
+    skipped: pages.filter(page => page.status === 'skipped').length,
+    crawl_delay_seconds: crawlDelaySeconds,
+    max_depth_reached: pages.reduce((max, page) => Math.max(max, page.depth), 0),
+    urls_discovered: discovered.size,
+    urls_not_fetched: discovered.size - pages.length,
+    stopped_by_page_limit: stoppedByPageLimit
+  };
+}
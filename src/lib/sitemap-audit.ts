@@ -0,0 +1,237 @@
+import { normalizeHreflangUrl } from './hreflang-analyzer';
+import { isNoindexDirective } from './version-history';
+import { discoverSitemapUrls, type SitemapUrl, type SitemapError } from './sitemap-parser';
+import { getSitemapAuditCorpus } from './vector-store';
+
+/**
+ * A stored page with what was observed when it was crawled
+ */
+export interface SitemapAuditPage {
+  url: string;
+  http_status: number | null;
+  final_url: string | null;
+  canonical_url: string | null;
+  meta_robots: string | null;
+  x_robots_tag: string | null;
+  versions: { fetched_at: string; last_checked_at: string }[]; // Snapshot timings, newest first
+}
+
+export type SitemapAuditIssueType =
+  | 'non_200'
+  | 'redirect'
+  | 'canonical_elsewhere'
+  | 'noindex'
+  | 'not_in_sitemap'
+  | 'lastmod_stale'
+  | 'lastmod_without_change'
+  | 'lastmod_in_future'
+  | 'lastmod_invalid';
+
+export interface SitemapAuditIssue {
+  url: string;
+  type: SitemapAuditIssueType;
+  severity: 'error' | 'warning';
+  target?: string; // Redirect destination or canonical URL
+  lastmod?: string;
+  message: string;
+}
+
+export interface SitemapAuditReport {
+  sitemap_urls: number;
+  stored_pages: number;
+  sitemap_urls_crawled: number; // Sitemap URLs that have a stored page
+  sitemap_urls_not_crawled: number;
+  issues: SitemapAuditIssue[];
+  issue_counts: { [type: string]: number };
+  is_clean: boolean;
+  recommendations: string[];
+}
+
+export interface SitemapAuditResult extends SitemapAuditReport {
+  source: 'live' | 'stored'; // Freshly fetched sitemaps, or the entries stored when pages were ingested
+  sitemaps: string[];
+  sitemap_errors: SitemapError[];
+}
+
+const RECOMMENDATIONS: { [type in SitemapAuditIssueType]: string } = {
+  non_200: 'Remove URLs that return errors from the sitemap, or fix the pages.',
+  redirect: 'List the final destination of redirected URLs in the sitemap instead of the redirecting URL.',
+  canonical_elsewhere: 'Only list canonical URLs in the sitemap; replace entries whose canonical points elsewhere.',
+  noindex: 'Remove noindex pages from the sitemap, or drop the noindex directive if the page should rank.',
+  not_in_sitemap: 'Add indexable stored pages that are missing from the sitemap so search engines can discover them.',
+  lastmod_stale: 'Update <lastmod> whenever page content changes.',
+  lastmod_without_change: 'Only bump <lastmod> when the content actually changes; search engines stop trusting lastmod that changes without content changes.',
+  lastmod_in_future: 'Remove future dates from <lastmod>.',
+  lastmod_invalid: 'Use W3C datetime format (e.g. 2024-01-31 or 2024-01-31T10:00:00Z) for <lastmod>.'
+};
+
+function parseDate(value: string | undefined): Date | null {
+  if (!value) return null;
+  const date = new Date(value);
+  return isNaN(date.getTime()) ? null : date;
+}
+
+function checkLastmod(entry: SitemapUrl, page: SitemapAuditPage | undefined, issues: SitemapAuditIssue[], now: Date) {
+  if (!entry.lastmod) return;
+
+  const lastmod = parseDate(entry.lastmod);
+  const base = { url: entry.loc, lastmod: entry.lastmod };
+  if (!lastmod) {
+    issues.push({ ...base, type: 'lastmod_invalid', severity: 'warning', message: `lastmod "${entry.lastmod}" is not a valid date.` });
+    return;
+  }
+  if (lastmod.getTime() > now.getTime()) {
+    issues.push({ ...base, type: 'lastmod_in_future', severity: 'warning', message: `lastmod ${entry.lastmod} is in the future.` });
+    return;
+  }
+
+  // Comparing with observed changes needs a crawled page
+  if (!page) return;
+  const [current, previous] = page.versions;
+  if (!current) return;
+
+  // The latest change happened after we last saw the previous version; a lastmod before that missed it
+  if (previous) {
+    const previousLastSeen = new Date(previous.last_checked_at);
+    if (lastmod.getTime() < previousLastSeen.getTime()) {
+      issues.push({
+        ...base,
+        type: 'lastmod_stale',
+        severity: 'warning',
+        message: `Content changed after ${previousLastSeen.toISOString()}, but lastmod is still ${entry.lastmod}.`
+      });
+      return;
+    }
+  }
+
+  // lastmod claims a change after the current version appeared, and a later crawl still found the same content
+  const currentFirstSeen = new Date(current.fetched_at);
+  const currentLastSeen = new Date(current.last_checked_at);
+  if (lastmod.getTime() > currentFirstSeen.getTime() && currentLastSeen.getTime() > lastmod.getTime()) {
+    issues.push({
+      ...base,
+      type: 'lastmod_without_change',
+      severity: 'warning',
+      message: `lastmod ${entry.lastmod} is newer than the content, which has not changed since ${currentFirstSeen.toISOString()}.`
+    });
+  }
+}
+
+function origin(url: string): string | null {
+  try {
+    return new URL(url).origin.toLowerCase();
+  } catch {
+    return null;
+  }
+}
+
+/**
+ * Compares sitemap entries with the stored pages: sitemap URLs that error, redirect,
+ * canonicalize elsewhere or are noindex; indexable stored pages missing from every
+ * sitemap; and lastmod values that disagree with the content changes we observed.
+ * Only stored pages on the sitemaps' origins are checked for missing entries.
+ */
+export function auditSitemap(entries: SitemapUrl[], pages: SitemapAuditPage[], now: Date = new Date()): SitemapAuditReport {
+  const issues: SitemapAuditIssue[] = [];
+  const pagesByUrl = new Map<string, SitemapAuditPage>();
+  pages.forEach(page => pagesByUrl.set(normalizeHreflangUrl(page.url), page));
+
+  const sitemapKeys = new Set<string>();
+  const sitemapOrigins = new Set<string>();
+  let crawled = 0;
+
+  entries.forEach(entry => {
+    const key = normalizeHreflangUrl(entry.loc);
+    if (sitemapKeys.has(key)) return;
+    sitemapKeys.add(key);
+
+    const entryOrigin = origin(entry.loc);
+    if (entryOrigin) sitemapOrigins.add(entryOrigin);
+
+    const page = pagesByUrl.get(key);
+    checkLastmod(entry, page, issues, now);
+    if (!page) return;
+    crawled++;
+
+    if (page.http_status !== null && (page.http_status < 200 || page.http_status >= 300)) {
+      issues.push({ url: entry.loc, type: 'non_200', severity: 'error', message: `Returns HTTP ${page.http_status}.` });
+    }
+
+    if (page.final_url && normalizeHreflangUrl(page.final_url) !== key) {
+      issues.push({ url: entry.loc, type: 'redirect', severity: 'error', target: page.final_url, message: `Redirects to ${page.final_url}.` });
+    }
+
+    if (page.canonical_url && normalizeHreflangUrl(page.canonical_url) !== key) {
+      issues.push({ url: entry.loc, type: 'canonical_elsewhere', severity: 'error', target: page.canonical_url, message: `Canonical points to ${page.canonical_url}.` });
+    }
+
+    if (isNoindexDirective(page.meta_robots) || isNoindexDirective(page.x_robots_tag)) {
+      issues.push({ url: entry.loc, type: 'noindex', severity: 'error', message: 'Marked noindex, but listed in the sitemap.' });
+    }
+  });
+
+  // Stored pages that should be in the sitemap: 200, indexable and self-canonical
+  pages.forEach(page => {
+    const key = normalizeHreflangUrl(page.url);
+    const pageOrigin = origin(page.url);
+    if (sitemapKeys.has(key) || !pageOrigin || !sitemapOrigins.has(pageOrigin)) return;
+    if (page.http_status !== null && page.http_status !== 200) return;
+    if (page.final_url && normalizeHreflangUrl(page.final_url) !== key) return;
+    if (page.canonical_url && normalizeHreflangUrl(page.canonical_url) !== key) return;
+    if (isNoindexDirective(page.meta_robots) || isNoindexDirective(page.x_robots_tag)) return;
+
+    issues.push({ url: page.url, type: 'not_in_sitemap', severity: 'warning', message: 'Indexable page is not listed in any sitemap.' });
+  });
+
+  const issueCounts: { [type: string]: number } = {};
+  issues.forEach(issue => {
+    issueCounts[issue.type] = (issueCounts[issue.type] || 0) + 1;
+  });
+
+  const recommendations = (Object.keys(issueCounts) as SitemapAuditIssueType[])
+    .sort((a, b) => issueCounts[b] - issueCounts[a])
+    .map(type => RECOMMENDATIONS[type]);
+
+  return {
+    sitemap_urls: sitemapKeys.size,
+    stored_pages: pages.length,
+    sitemap_urls_crawled: crawled,
+    sitemap_urls_not_crawled: sitemapKeys.size - crawled,
+    issues,
+    issue_counts: issueCounts,
+    is_clean: issues.length === 0,
+    recommendations
+  };
+}
+
+/**
+ * Audits the given sitemaps (fetched now) against the stored pages. Without sitemap URLs,
+ * audits the sitemap entries stored when pages were ingested from sitemaps.
+ */
+export async function runSitemapAudit(sitemapUrls: string[] = []): Promise<SitemapAuditResult> {
+  const corpus = await getSitemapAuditCorpus();
+
+  if (sitemapUrls.length === 0) {
+    return {
+      ...auditSitemap(corpus.entries, corpus.pages),
+      source: 'stored',
+      sitemaps: [],
+      sitemap_errors: []
+    };
+  }
+
+  let entries: SitemapUrl[] = [];
+  let sitemapErrors: SitemapError[] = [];
+  for (const sitemapUrl of sitemapUrls) {
+    const discovery = await discoverSitemapUrls(sitemapUrl);
+    entries = entries.concat(discovery.urls);
+    sitemapErrors = sitemapErrors.concat(discovery.errors);
+  }
+
+  return {
+    ...auditSitemap(entries, corpus.pages),
+    source: 'live',
+    sitemaps: sitemapUrls,
+    sitemap_errors: sitemapErrors
+  };
+}
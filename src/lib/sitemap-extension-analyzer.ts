@@ -0,0 +1,227 @@
+import { type HreflangLink } from './scraper';
+import { type SitemapUrl } from './sitemap-parser';
+import { normalizeHreflangUrl } from './hreflang-analyzer';
+
+// Google News only accepts articles published in the last two days
+export const NEWS_MAX_AGE_HOURS = 48;
+
+/**
+ * A page's sitemap entry next to what the page itself contains
+ */
+export interface SitemapExtensionPage {
+  url: string;
+  sitemap_entry: SitemapUrl;
+  page_images: string[]; // Absolute image URLs found on the page (img src, og:image)
+  hreflang: HreflangLink[];
+}
+
+export type SitemapExtensionIssueType =
+  | 'image_not_on_page'
+  | 'video_missing_thumbnail'
+  | 'video_missing_title'
+  | 'video_missing_description'
+  | 'video_missing_location'
+  | 'news_too_old'
+  | 'news_invalid_date'
+  | 'news_missing_publication'
+  | 'alternate_not_on_page'
+  | 'alternate_mismatch';
+
+export interface SitemapExtensionIssue {
+  url: string;
+  type: SitemapExtensionIssueType;
+  severity: 'error' | 'warning';
+  target?: string; // Image, video or alternate URL the issue is about
+  message: string;
+}
+
+export interface SitemapExtensionReport {
+  pages_checked: number;
+  images_checked: number;
+  videos_checked: number;
+  news_checked: number;
+  alternates_checked: number;
+  issues: SitemapExtensionIssue[];
+  issue_counts: { [type: string]: number };
+  recommendations: string[];
+}
+
+const RECOMMENDATIONS: { [type in SitemapExtensionIssueType]: string } = {
+  image_not_on_page: 'Remove image sitemap entries for images the page no longer shows, or add the images back to the page.',
+  video_missing_thumbnail: 'Add a <video:thumbnail_loc> to every video entry; Google requires a thumbnail to show video results.',
+  video_missing_title: 'Add a <video:title> to every video entry.',
+  video_missing_description: 'Add a <video:description> to every video entry.',
+  video_missing_location: 'Give every video entry a <video:content_loc> or <video:player_loc>.',
+  news_too_old: `Drop news sitemap entries older than ${NEWS_MAX_AGE_HOURS} hours; Google News ignores them.`,
+  news_invalid_date: 'Use W3C datetime format (e.g. 2024-01-31T10:00:00Z) for <news:publication_date>.',
+  news_missing_publication: 'Set <news:name> and <news:language> for every news entry.',
+  alternate_not_on_page: 'Keep xhtml:link alternates in the sitemap and hreflang tags on the page in sync.',
+  alternate_mismatch: 'Point sitemap alternates and page hreflang tags for the same language at the same URL.'
+};
+
+// Query strings are kept: CDNs often serve different renditions per query
+function normalizeImageUrl(url: string): string {
+  try {
+    const urlObj = new URL(url);
+    urlObj.hash = '';
+    urlObj.hostname = urlObj.hostname.toLowerCase();
+    return urlObj.href;
+  } catch {
+    return url.trim();
+  }
+}
+
+function checkImages(page: SitemapExtensionPage, issues: SitemapExtensionIssue[]): number {
+  const images = page.sitemap_entry.images || [];
+  const onPage = new Set(page.page_images.map(normalizeImageUrl));
+
+  images.forEach(image => {
+    if (!onPage.has(normalizeImageUrl(image.loc))) {
+      issues.push({
+        url: page.url,
+        type: 'image_not_on_page',
+        severity: 'warning',
+        target: image.loc,
+        message: `Sitemap lists ${image.loc}, but the page does not show it.`
+      });
+    }
+  });
+
+  return images.length;
+}
+
+function checkVideos(page: SitemapExtensionPage, issues: SitemapExtensionIssue[]): number {
+  const videos = page.sitemap_entry.videos || [];
+
+  videos.forEach((video, index) => {
+    const label = video.title ? `"${video.title}"` : `#${index + 1}`;
+    const target = video.content_loc || video.player_loc;
+
+    if (!video.thumbnail_loc) {
+      issues.push({ url: page.url, type: 'video_missing_thumbnail', severity: 'error', target, message: `Video ${label} has no thumbnail.` });
+    }
+    if (!video.title) {
+      issues.push({ url: page.url, type: 'video_missing_title', severity: 'error', target, message: `Video ${label} has no title.` });
+    }
+    if (!video.description) {
+      issues.push({ url: page.url, type: 'video_missing_description', severity: 'error', target, message: `Video ${label} has no description.` });
+    }
+    if (!video.content_loc && !video.player_loc) {
+      issues.push({ url: page.url, type: 'video_missing_location', severity: 'error', message: `Video ${label} has neither a content_loc nor a player_loc.` });
+    }
+  });
+
+  return videos.length;
+}
+
+function checkNews(page: SitemapExtensionPage, issues: SitemapExtensionIssue[], now: Date): number {
+  const news = page.sitemap_entry.news;
+  if (!news) return 0;
+
+  if (!news.publication_name || !news.publication_language) {
+    issues.push({
+      url: page.url,
+      type: 'news_missing_publication',
+      severity: 'error',
+      message: 'News entry is missing the publication name or language.'
+    });
+  }
+
+  const published = news.publication_date ? new Date(news.publication_date) : null;
+  if (!published || isNaN(published.getTime())) {
+    issues.push({
+      url: page.url,
+      type: 'news_invalid_date',
+      severity: 'error',
+      message: `News publication date "${news.publication_date || ''}" is missing or not a valid date.`
+    });
+  } else {
+    const ageHours = (now.getTime() - published.getTime()) / (60 * 60 * 1000);
+    if (ageHours > NEWS_MAX_AGE_HOURS) {
+      issues.push({
+        url: page.url,
+        type: 'news_too_old',
+        severity: 'warning',
+        message: `News entry was published ${Math.floor(ageHours)} hours ago, more than ${NEWS_MAX_AGE_HOURS} hours.`
+      });
+    }
+  }
+
+  return 1;
+}
+
+// Sitemap alternates should match the page's own hreflang tags when the page has any
+function checkAlternates(page: SitemapExtensionPage, issues: SitemapExtensionIssue[]): number {
+  const alternates = page.sitemap_entry.alternates || [];
+  if (alternates.length === 0 || page.hreflang.length === 0) return alternates.length;
+
+  const pageTargets: { [code: string]: string } = {};
+  page.hreflang.forEach(link => {
+    pageTargets[link.hreflang.trim().toLowerCase()] = normalizeHreflangUrl(link.href);
+  });
+
+  alternates.forEach(alternate => {
+    const code = alternate.hreflang.toLowerCase();
+    const pageTarget = pageTargets[code];
+
+    if (!pageTarget) {
+      issues.push({
+        url: page.url,
+        type: 'alternate_not_on_page',
+        severity: 'warning',
+        target: alternate.href,
+        message: `Sitemap declares a "${alternate.hreflang}" alternate that the page's hreflang tags do not.`
+      });
+    } else if (pageTarget !== normalizeHreflangUrl(alternate.href)) {
+      issues.push({
+        url: page.url,
+        type: 'alternate_mismatch',
+        severity: 'error',
+        target: alternate.href,
+        message: `Sitemap points "${alternate.hreflang}" at ${alternate.href}, but the page points it at ${pageTarget}.`
+      });
+    }
+  });
+
+  return alternates.length;
+}
+
+/**
+ * Cross-checks image, video, news and alternate sitemap entries against the pages
+ * they describe: images the page doesn't show, incomplete video entries, stale news
+ * entries, and alternates that disagree with the page's hreflang tags.
+ */
+export function analyzeSitemapExtensions(pages: SitemapExtensionPage[], now: Date = new Date()): SitemapExtensionReport {
+  const issues: SitemapExtensionIssue[] = [];
+  let imagesChecked = 0;
+  let videosChecked = 0;
+  let newsChecked = 0;
+  let alternatesChecked = 0;
+
+  pages.forEach(page => {
+    imagesChecked += checkImages(page, issues);
+    videosChecked += checkVideos(page, issues);
+    newsChecked += checkNews(page, issues, now);
+    alternatesChecked += checkAlternates(page, issues);
+  });
+
+  const issueCounts: { [type: string]: number } = {};
+  issues.forEach(issue => {
+    issueCounts[issue.type] = (issueCounts[issue.type] || 0) + 1;
+  });
+
+  const recommendations = (Object.keys(issueCounts) as SitemapExtensionIssueType[])
+    .sort((a, b) => issueCounts[b] - issueCounts[a])
+    .map(type => RECOMMENDATIONS[type]);
+
+  return {
+    pages_checked: pages.length,
+    images_checked: imagesChecked,
+    videos_checked: videosChecked,
+    news_checked: newsChecked,
+    alternates_checked: alternatesChecked,
+    issues,
+    issue_counts: issueCounts,
+    recommendations
+  };
+}
@@ -1,10 +1,59 @@
 import { XMLParser } from 'fast-xml-parser';
+import { gunzipSync } from 'zlib';
+import { BOT_USER_AGENT, checkRobotsAccess, getRobotsSitemaps } from './robots';
+import { scheduledFetch } from './fetch-scheduler';
+import { assertSafeUrl } from './url-safety';
+
+// Sitemap protocol limits (https://www.sitemaps.org/protocol.html)
+export const SITEMAP_MAX_URLS = 50000;
+export const SITEMAP_MAX_BYTES = 50 * 1024 * 1024; // Uncompressed
 
 export interface SitemapUrl {
   loc: string;
   lastmod?: string;
   changefreq?: string;
   priority?: string;
+  images?: SitemapImage[];         // <image:image>
+  videos?: SitemapVideo[];         // <video:video>
+  news?: SitemapNews;              // <news:news>
+  alternates?: SitemapAlternate[]; // <xhtml:link rel="alternate" hreflang="...">
+}
+
+// Image sitemap extension (https://www.google.com/schemas/sitemap-image/1.1)
+export interface SitemapImage {
+  loc: string;
+  title?: string;
+  caption?: string;
+  geo_location?: string;
+  license?: string;
+}
+
+// Video sitemap extension (https://www.google.com/schemas/sitemap-video/1.1)
+export interface SitemapVideo {
+  thumbnail_loc?: string;
+  title?: string;
+  description?: string;
+  content_loc?: string;
+  player_loc?: string;
+  duration?: number;          // Seconds
+  publication_date?: string;
+  expiration_date?: string;
+  family_friendly?: boolean;
+  live?: boolean;
+}
+
+// News sitemap extension (https://www.google.com/schemas/sitemap-news/0.9)
+export interface SitemapNews {
+  publication_name?: string;
+  publication_language?: string;
+  publication_date?: string;
+  title?: string;
+  keywords?: string;
+}
+
+export interface SitemapAlternate {
+  hreflang: string;
+  href: string;
 }
 
 export interface SitemapIndex {
@@ -17,82 +66,208 @@ export interface SitemapIndex {
 export interface ParsedSitemap {
   urls: SitemapUrl[];
   type: 'urlset' | 'sitemapindex';
+  truncated?: boolean; // More than SITEMAP_MAX_URLS entries; the rest were dropped
 }
 
-/**
- * Detects if a URL contains ANY language/locale path segments
- * Returns true ONLY if the URL has no language prefix (default English content)
- */
-export function isEnglishUrl(url: string): boolean {
-  try {
-    const urlObj = new URL(url);
-    const pathname = urlObj.pathname;
-    
-    // ALL language and locale codes to exclude (we want ONLY default English - no prefixes)
-    const allLanguageLocaleCodes = [
-      // English locales (exclude all - we want only default English)
-      '/en/', '/en-us/', '/en-gb/', '/en-au/', '/en-ca/', '/en-nz/', '/en-ie/', '/en-za/', '/en-in/',
-      
-      // Non-English languages
-      '/ar/', '/fr/', '/de/', '/es/', '/it/', '/pt/', '/ru/', '/ja/', '/ko/',
-      '/zh/', '/zh-cn/', '/zh-hans/', '/zh-hant/', '/hi/', '/th/', '/vi/',
-      '/pl/', '/nl/', '/sv/', '/da/', '/no/', '/fi/', '/tr/', '/cs/', '/hu/',
-      '/ro/', '/bg/', '/hr/', '/sk/', '/sl/', '/et/', '/lv/', '/lt/', '/mt/',
-      '/el/', '/cy/', '/ga/', '/eu/', '/ca/', '/gl/', '/ast/', '/an/', '/oc/',
-      '/co/', '/sc/', '/rm/', '/fur/', '/lld/', '/vec/', '/lij/', '/pms/',
-      '/lmo/', '/eml/', '/rgn/', '/nap/', '/scn/', '/srd/', '/mg/', '/sw/',
-      '/zu/', '/af/', '/xh/', '/st/', '/tn/', '/ts/', '/ss/', '/nr/', '/nd/',
-      '/ve/', '/he/', '/ar-sa/', '/fa/', '/ur/', '/bn/', '/ta/', '/te/',
-      '/kn/', '/ml/', '/gu/', '/pa/', '/or/', '/as/', '/mr/', '/ne/', '/si/',
-      '/my/', '/km/', '/lo/', '/ka/', '/am/', '/ti/', '/so/', '/ha/', '/ig/',
-      '/yo/', '/id/', '/ms/', '/tl/', '/ceb/', '/haw/', '/mi/', '/sm/', '/to/',
-      
-      // Specific locale variations
-      '/pt-br/', '/pt-pt/', '/es-es/', '/es-mx/', '/es-ar/', '/es-co/', '/es-pe/',
-      '/es-ve/', '/es-cl/', '/es-ec/', '/es-gt/', '/es-cu/', '/es-bo/',
-      '/es-do/', '/es-hn/', '/es-py/', '/es-sv/', '/es-ni/', '/es-cr/',
-      '/es-pa/', '/es-uy/', '/fr-ca/', '/fr-ch/', '/fr-be/', '/de-at/',
-      '/de-ch/', '/it-ch/', '/nl-be/', '/zh-tw/', '/zh-hk/', '/ar-ae/',
-      '/ar-sa/', '/ar-eg/', '/ar-ma/', '/fr-fr/', '/de-de/', '/it-it/',
-      '/ru-ru/', '/ja-jp/', '/ko-kr/', '/hi-in/', '/th-th/', '/vi-vn/'
-    ];
-    
-    // Check if pathname starts with any language/locale code
-    const hasLanguagePrefix = allLanguageLocaleCodes.some(code => 
-      pathname.startsWith(code)
-    );
-    
-    // Return true ONLY if it's default English (no language prefix found)
-    return !hasLanguagePrefix;
-  } catch (error) {
-    // If URL parsing fails, assume it's not valid and exclude it
-    return false;
-  }
+export interface SitemapNode {
+  url: string;
+  type: 'urlset' | 'sitemapindex' | 'error';
+  depth: number;
+  lastmod?: string;
+  url_count: number;       // Page URLs in this sitemap and all of its descendants
+  children: SitemapNode[];
+  truncated?: boolean;
+  error?: string;
 }
 
+export interface SitemapError {
+  sitemap_url: string;
+  parent_url?: string;
+  depth: number;
+  error: string;
+}
+
+export interface SitemapDiscoveryOptions {
+  maxDepth?: number;     // Nested index levels to follow below the root
+  concurrency?: number;  // Child sitemaps fetched at the same time
+  maxSitemaps?: number;  // Total sitemap files fetched
+}
+
+export interface SitemapDiscoveryResult {
+  root: SitemapNode;
+  urls: SitemapUrl[];    // De-duplicated page URLs from every urlset
+  sitemaps_fetched: number;
+  errors: SitemapError[];
+}
+
+export interface DiscoveredSitemap {
+  url: string;
+  source: 'robots' | 'conventional';
+  tree: SitemapNode;
+  url_count: number;
+  errors: SitemapError[];
+}
+
+export interface DomainSitemapDiscovery {
+  origin: string;
+  robots_sitemaps: string[];   // Sitemap: directives from robots.txt
+  sitemaps: DiscoveredSitemap[];
+  not_found: { url: string; source: 'robots' | 'conventional'; error: string }[];
+  total_url_count: number;
+}
+
+// Probed when robots.txt doesn't already lead to them
+export const CONVENTIONAL_SITEMAP_PATHS = ['/sitemap.xml', '/sitemap_index.xml', '/wp-sitemap.xml'];
+
 /**
  * Fetches and parses a sitemap XML
  */
 export async function fetchSitemap(sitemapUrl: string): Promise<string> {
   try {
-    const response = await fetch(sitemapUrl, {
+    await assertSafeUrl(sitemapUrl);
+
+    const robotsCheck = await checkRobotsAccess(sitemapUrl);
+    if (!robotsCheck.allowed) {
+      throw new Error(`Blocked by robots.txt (${robotsCheck.robots_url})`);
+    }
+
+    const response = await scheduledFetch(sitemapUrl, {
       headers: {
-        'User-Agent': 'Mozilla/5.0 (Windows NT 10.0; Win64; x64) AppleWebKit/537.36 (KHTML, like Gecko) Chrome/91.0.4472.124 Safari/537.36'
+        'User-Agent': BOT_USER_AGENT
       }
-    });
+    }, { maxBytes: SITEMAP_MAX_BYTES });
     
     if (!response.ok) {
+      await response.body?.cancel().catch(() => {});
       throw new Error(`HTTP error! status: ${response.status}`);
     }
     
-    return await response.text();
+    const contentLength = parseInt(response.headers.get('content-length') || '', 10);
+    if (contentLength > SITEMAP_MAX_BYTES) {
+      throw new Error(`Sitemap exceeds ${SITEMAP_MAX_BYTES} bytes`);
+    }
+    
+    let body: Buffer = Buffer.from(await response.arrayBuffer());
+    
+    // .xml.gz files are served as gzip payloads rather than with Content-Encoding, so check the magic bytes
+    if (body.length >= 2 && body[0] === 0x1f && body[1] === 0x8b) {
+      try {
+        body = gunzipSync(body, { maxOutputLength: SITEMAP_MAX_BYTES });
+      } catch (error) {
+        if (error instanceof RangeError) {
+          throw new Error(`Decompressed sitemap exceeds ${SITEMAP_MAX_BYTES} bytes`);
+        }
+        throw new Error(`Invalid gzip data: ${error instanceof Error ? error.message : 'Unknown error'}`);
+      }
+    }
+    
+    if (body.length > SITEMAP_MAX_BYTES) {
+      throw new Error(`Sitemap exceeds ${SITEMAP_MAX_BYTES} bytes`);
+    }
+    
+    return body.toString('utf8');
   } catch (error) {
     throw new Error(`Failed to fetch sitemap: ${error instanceof Error ? error.message : 'Unknown error'}`);
   }
 }
 
+// Normalizes a parsed <url>/<sitemap> list: single entries aren't arrays, empty sets are undefined
+function toEntryList(entries: any): any[] {
+  const list = Array.isArray(entries) ? entries : entries ? [entries] : [];
+  return list.filter(entry => entry && entry.loc);
+}
+
+// Element text, whether the parser gave a plain value or an object with attributes
+function textValue(value: any): string | undefined {
+  if (value === undefined || value === null) return undefined;
+  const text = typeof value === 'object' ? value['#text'] : value;
+  if (text === undefined || text === null) return undefined;
+  const trimmed = String(text).trim();
+  return trimmed.length > 0 ? trimmed : undefined;
+}
+
+function yesNoValue(value: any): boolean | undefined {
+  const text = textValue(value)?.toLowerCase();
+  return text === undefined ? undefined : text === 'yes';
+}
+
+function asList(value: any): any[] {
+  return Array.isArray(value) ? value : value !== undefined && value !== null ? [value] : [];
+}
+
+function parseImageEntries(value: any): SitemapImage[] {
+  return asList(value)
+    .map(image => ({
+      loc: textValue(image?.loc) || '',
+      title: textValue(image?.title),
+      caption: textValue(image?.caption),
+      geo_location: textValue(image?.geo_location),
+      license: textValue(image?.license)
+    }))
+    .filter(image => image.loc.length > 0);
+}
+
+function parseVideoEntries(value: any): SitemapVideo[] {
+  return asList(value).map(video => {
+    const duration = textValue(video?.duration);
+    return {
+      thumbnail_loc: textValue(video?.thumbnail_loc),
+      title: textValue(video?.title),
+      description: textValue(video?.description),
+      content_loc: textValue(video?.content_loc),
+      player_loc: textValue(video?.player_loc),
+      duration: duration !== undefined && !isNaN(Number(duration)) ? Number(duration) : undefined,
+      publication_date: textValue(video?.publication_date),
+      expiration_date: textValue(video?.expiration_date),
+      family_friendly: yesNoValue(video?.family_friendly),
+      live: yesNoValue(video?.live)
+    };
+  });
+}
+
+function parseNewsEntry(value: any): SitemapNews | undefined {
+  const news = asList(value)[0];
+  if (!news || typeof news !== 'object') return undefined;
+  return {
+    publication_name: textValue(news.publication?.name),
+    publication_language: textValue(news.publication?.language),
+    publication_date: textValue(news.publication_date),
+    title: textValue(news.title),
+    keywords: textValue(news.keywords)
+  };
+}
+
+// <xhtml:link> elements; removeNSPrefix also strips the namespace from the element name
+function parseAlternateLinks(value: any): SitemapAlternate[] {
+  return asList(value)
+    .filter(link => link && typeof link === 'object' && String(link['@_rel'] || '').toLowerCase() === 'alternate')
+    .map(link => ({ hreflang: String(link['@_hreflang'] || '').trim(), href: String(link['@_href'] || '').trim() }))
+    .filter(link => link.hreflang.length > 0 && link.href.length > 0);
+}
+
+// Sets the extension fields a <url> entry actually has, so plain sitemaps keep plain entries
+function toSitemapUrl(url: any): SitemapUrl {
+  const entry: SitemapUrl = {
+    loc: String(url.loc).trim(),
+    lastmod: textValue(url.lastmod),
+    changefreq: textValue(url.changefreq),
+    priority: textValue(url.priority)
+  };
+
+  const images = parseImageEntries(url.image);
+  if (images.length > 0) entry.images = images;
+  const videos = parseVideoEntries(url.video);
+  if (videos.length > 0) entry.videos = videos;
+  const news = parseNewsEntry(url.news);
+  if (news) entry.news = news;
+  const alternates = parseAlternateLinks(url.link);
+  if (alternates.length > 0) entry.alternates = alternates;
+
+  return entry;
+}
+
 /**
- * Parses sitemap XML content
+ * Parses sitemap XML content, including image, video, news and xhtml:link alternate extensions
  */
 export function parseSitemapXml(xmlContent: string): ParsedSitemap {
   const parser = new XMLParser({
@@ -104,34 +279,27 @@ export function parseSitemapXml(xmlContent: string): ParsedSitemap {
     const parsed = parser.parse(xmlContent);
     
     // Handle sitemap index
-    if (parsed.sitemapindex) {
-      const sitemaps = Array.isArray(parsed.sitemapindex.sitemap) 
-        ? parsed.sitemapindex.sitemap 
-        : [parsed.sitemapindex.sitemap];
+    if (parsed.sitemapindex !== undefined) {
+      const sitemaps = toEntryList(parsed.sitemapindex?.sitemap);
         
       return {
-        urls: sitemaps.map((sitemap: any) => ({
-          loc: sitemap.loc,
-          lastmod: sitemap.lastmod
+        urls: sitemaps.slice(0, SITEMAP_MAX_URLS).map((sitemap: any) => ({
+          loc: String(sitemap.loc).trim(),
+          lastmod: textValue(sitemap.lastmod)
         })),
-        type: 'sitemapindex'
+        type: 'sitemapindex',
+        truncated: sitemaps.length > SITEMAP_MAX_URLS
       };
     }
     
     // Handle regular sitemap
-    if (parsed.urlset) {
-      const urls = Array.isArray(parsed.urlset.url) 
-        ? parsed.urlset.url 
-        : [parsed.urlset.url];
+    if (parsed.urlset !== undefined) {
+      const urls = toEntryList(parsed.urlset?.url);
         
       return {
-        urls: urls.map((url: any) => ({
-          loc: url.loc,
-          lastmod: url.lastmod,
-          changefreq: url.changefreq,
-          priority: url.priority
-        })),
-        type: 'urlset'
+        urls: urls.slice(0, SITEMAP_MAX_URLS).map(toSitemapUrl),
+        type: 'urlset',
+        truncated: urls.length > SITEMAP_MAX_URLS
       };
     }
     
@@ -141,48 +309,188 @@ export function parseSitemapXml(xmlContent: string): ParsedSitemap {
   }
 }
 
+// Runs async tasks with at most `limit` in flight
+function createLimiter(limit: number) {
+  let active = 0;
+  const queue: (() => void)[] = [];
+  
+  return async function run<T>(task: () => Promise<T>): Promise<T> {
+    if (active >= limit) {
+      // The finishing task hands its slot straight to us, so `active` is already counted
+      await new Promise<void>(resolve => queue.push(resolve));
+    } else {
+      active++;
+    }
+    try {
+      return await task();
+    } finally {
+      const next = queue.shift();
+      if (next) {
+        next();
+      } else {
+        active--;
+      }
+    }
+  };
+}
+
+// Sitemap identity for cycle detection: scheme/host are case-insensitive, fragments are ignored
+function sitemapKey(url: string): string {
+  try {
+    const parsed = new URL(url);
+    parsed.hash = '';
+    return parsed.href;
+  } catch {
+    return url;
+  }
+}
+
 /**
- * Filters URLs to include only English pages
+ * Walks a sitemap or sitemap index to any depth. Child sitemaps are fetched concurrently,
+ * gzip is decompressed, protocol limits are enforced per file, and a sitemap reachable
+ * twice (a cycle or a duplicate reference) is only fetched once. Failures are recorded
+ * per sitemap instead of aborting the walk; only a failing root throws.
  */
-export function filterEnglishUrls(urls: SitemapUrl[]): SitemapUrl[] {
-  return urls.filter(url => isEnglishUrl(url.loc));
+export async function discoverSitemapUrls(
+  sitemapUrl: string,
+  options: SitemapDiscoveryOptions = {}
+): Promise<SitemapDiscoveryResult> {
+  const { maxDepth = 10, concurrency = 4, maxSitemaps = 1000 } = options;
+  const limit = createLimiter(Math.max(1, concurrency));
+  const visited = new Set<string>();
+  const seenUrls = new Set<string>();
+  const urls: SitemapUrl[] = [];
+  const errors: SitemapError[] = [];
+  let sitemapsFetched = 0;
+  
+  const fail = (node: SitemapNode, error: string, parentUrl?: string): SitemapNode => {
+    errors.push({ sitemap_url: node.url, parent_url: parentUrl, depth: node.depth, error });
+    return { ...node, type: 'error', error };
+  };
+  
+  const visit = async (url: string, depth: number, parentUrl?: string, lastmod?: string): Promise<SitemapNode> => {
+    const node: SitemapNode = { url, type: 'error', depth, lastmod, url_count: 0, children: [] };
+    
+    const key = sitemapKey(url);
+    if (visited.has(key)) {
+      return fail(node, 'Cycle or duplicate reference: sitemap already visited', parentUrl);
+    }
+    visited.add(key);
+    
+    if (sitemapsFetched >= maxSitemaps) {
+      return fail(node, `Skipped: more than ${maxSitemaps} sitemaps`, parentUrl);
+    }
+    sitemapsFetched++;
+    
+    let parsed: ParsedSitemap;
+    try {
+      parsed = await limit(async () => parseSitemapXml(await fetchSitemap(url)));
+    } catch (error) {
+      const message = error instanceof Error ? error.message : 'Unknown error';
+      if (depth === 0) throw error;
+      return fail(node, message, parentUrl);
+    }
+    
+    node.type = parsed.type;
+    if (parsed.truncated) {
+      node.truncated = true;
+      errors.push({ sitemap_url: url, parent_url: parentUrl, depth, error: `More than ${SITEMAP_MAX_URLS} entries; the rest were ignored` });
+    }
+    
+    if (parsed.type === 'urlset') {
+      parsed.urls.forEach(entry => {
+        if (seenUrls.has(entry.loc)) return;
+        seenUrls.add(entry.loc);
+        urls.push(entry);
+      });
+      node.url_count = parsed.urls.length;
+      return node;
+    }
+    
+    if (depth >= maxDepth) {
+      return fail({ ...node, type: 'sitemapindex' }, `Nested deeper than ${maxDepth} levels`, parentUrl);
+    }
+    
+    node.children = await Promise.all(
+      parsed.urls.map(entry => visit(entry.loc, depth + 1, url, entry.lastmod))
+    );
+    node.url_count = node.children.reduce((sum, child) => sum + child.url_count, 0);
+    return node;
+  };
+  
+  try {
+    const root = await visit(sitemapUrl, 0);
+    return { root, urls, sitemaps_fetched: sitemapsFetched, errors };
+  } catch (error) {
+    throw new Error(`Failed to discover sitemap URLs: ${error instanceof Error ? error.message : 'Unknown error'}`);
+  }
+}
+
+// Every sitemap URL in a discovered tree
+function collectSitemapUrls(node: SitemapNode, into: Set<string>) {
+  into.add(sitemapKey(node.url));
+  node.children.forEach(child => collectSitemapUrls(child, into));
 }
 
 /**
- * Main function to get English URLs from a sitemap
+ * Finds the sitemaps of a site: Sitemap: directives in robots.txt first, then the
+ * conventional locations. Each sitemap is walked to report its tree with URL counts;
+ * a location already reached through an earlier sitemap is not walked again.
  */
-export async function getEnglishUrlsFromSitemap(sitemapUrl: string): Promise<SitemapUrl[]> {
+export async function discoverSitemapsForDomain(
+  domain: string,
+  options: SitemapDiscoveryOptions = {}
+): Promise<DomainSitemapDiscovery> {
+  let origin: string;
   try {
-    const xmlContent = await fetchSitemap(sitemapUrl);
-    const parsedSitemap = parseSitemapXml(xmlContent);
-    
-    if (parsedSitemap.type === 'sitemapindex') {
-      // If it's a sitemap index, we need to fetch and parse each individual sitemap
-      const allUrls: SitemapUrl[] = [];
-      
-      for (const indexEntry of parsedSitemap.urls) {
-        try {
-          const childSitemapContent = await fetchSitemap(indexEntry.loc);
-          const childSitemap = parseSitemapXml(childSitemapContent);
-          
-          if (childSitemap.type === 'urlset') {
-            const englishUrls = filterEnglishUrls(childSitemap.urls);
-            allUrls.push(...englishUrls);
-          }
-        } catch (error) {
-          console.warn(`Failed to process sitemap: ${indexEntry.loc}`, error);
-          // Continue processing other sitemaps even if one fails
-        }
-      }
-      
-      return allUrls;
-    } else {
-      // Regular sitemap, filter directly
-      return filterEnglishUrls(parsedSitemap.urls);
+    origin = new URL(/^https?:\/\//i.test(domain.trim()) ? domain.trim() : `https://${domain.trim()}`).origin;
+  } catch {
+    throw new Error(`Invalid domain: ${domain}`);
+  }
+  
+  const robotsSitemaps = await getRobotsSitemaps(origin);
+  const candidates: { url: string; source: 'robots' | 'conventional' }[] = [
+    ...robotsSitemaps.map(url => ({ url, source: 'robots' as const })),
+    ...CONVENTIONAL_SITEMAP_PATHS.map(path => ({ url: `${origin}${path}`, source: 'conventional' as const }))
+  ];
+  
+  const result: DomainSitemapDiscovery = {
+    origin,
+    robots_sitemaps: robotsSitemaps,
+    sitemaps: [],
+    not_found: [],
+    total_url_count: 0
+  };
+  const covered = new Set<string>();
+  const seenUrls = new Set<string>();
+  
+  // Sequential so a later candidate can be skipped when an earlier tree already contains it
+  for (const candidate of candidates) {
+    if (covered.has(sitemapKey(candidate.url))) continue;
+    
+    try {
+      const discovery = await discoverSitemapUrls(candidate.url, options);
+      collectSitemapUrls(discovery.root, covered);
+      discovery.urls.forEach(url => seenUrls.add(url.loc));
+      result.sitemaps.push({
+        url: candidate.url,
+        source: candidate.source,
+        tree: discovery.root,
+        url_count: discovery.root.url_count,
+        errors: discovery.errors
+      });
+    } catch (error) {
+      covered.add(sitemapKey(candidate.url));
+      result.not_found.push({
+        url: candidate.url,
+        source: candidate.source,
+        error: error instanceof Error ? error.message : 'Unknown error'
+      });
     }
-  } catch (error) {
-    throw new Error(`Failed to get English URLs from sitemap: ${error instanceof Error ? error.message : 'Unknown error'}`);
   }
+  
+  result.total_url_count = seenUrls.size;
+  return result;
 }
 
 /**
@@ -0,0 +1,650 @@
+import type { Cheerio, CheerioAPI } from 'cheerio';
+
+export type StructuredDataFormat = 'json-ld' | 'microdata' | 'rdfa';
+
+export type StructuredDataValue = string | number | boolean | StructuredDataEntity;
+
+export interface StructuredDataEntity {
+  types: string[];      // schema.org type names without the vocabulary prefix ("Article")
+  id?: string;          // @id / itemid / resource
+  format: StructuredDataFormat;
+  properties: { [name: string]: StructuredDataValue[] };
+}
+
+export interface StructuredDataExtraction {
+  entities: StructuredDataEntity[];
+  parse_errors: string[];
+}
+
+export interface EntityValidation {
+  entity_type: string;
+  format: StructuredDataFormat;
+  id?: string;
+  name?: string;
+  is_supported: boolean; // A rich-result type we have rules for
+  is_valid: boolean;
+  errors: string[];
+  warnings: string[];
+}
+
+export interface StructuredDataReport {
+  entity_count: number;
+  format_counts: { [format: string]: number };
+  types: string[];
+  entities: EntityValidation[];
+  error_count: number;
+  warning_count: number;
+  parse_errors: string[];
+  recommendations: string[];
+}
+
+interface TypeRules {
+  required: string[];
+  recommended: string[];
+}
+
+// Required and recommended properties for the rich-result types we validate,
+// following Google's structured data documentation
+const TYPE_RULES: { [type: string]: TypeRules } = {
+  Organization: {
+    required: ['name'],
+    recommended: ['url', 'logo', 'sameAs', 'contactPoint']
+  },
+  Article: {
+    required: ['headline'],
+    recommended: ['author', 'datePublished', 'dateModified', 'image', 'publisher']
+  },
+  FAQPage: {
+    required: ['mainEntity'],
+    recommended: []
+  },
+  BreadcrumbList: {
+    required: ['itemListElement'],
+    recommended: []
+  },
+  Product: {
+    required: ['name'],
+    recommended: ['image', 'description', 'brand', 'sku']
+  },
+  Event: {
+    required: ['name', 'startDate', 'location'],
+    recommended: ['endDate', 'eventStatus', 'eventAttendanceMode', 'image', 'description', 'offers', 'organizer', 'performer']
+  },
+  JobPosting: {
+    required: ['title', 'description', 'datePosted', 'hiringOrganization'],
+    recommended: ['validThrough', 'employmentType', 'baseSalary', 'identifier', 'directApply']
+  }
+};
+
+// Subtypes validated with their parent type's rules
+const TYPE_ALIASES: { [type: string]: string } = {
+  Corporation: 'Organization',
+  NGO: 'Organization',
+  EducationalOrganization: 'Organization',
+  GovernmentOrganization: 'Organization',
+  OnlineStore: 'Organization',
+  NewsArticle: 'Article',
+  BlogPosting: 'Article',
+  TechArticle: 'Article',
+  ScholarlyArticle: 'Article',
+  Report: 'Article',
+  BusinessEvent: 'Event',
+  EducationEvent: 'Event',
+  MusicEvent: 'Event',
+  SocialEvent: 'Event',
+  SportsEvent: 'Event',
+  Festival: 'Event',
+  ExhibitionEvent: 'Event'
+};
+
+const DATE_PROPERTIES = ['datePublished', 'dateModified', 'startDate', 'endDate', 'datePosted', 'validThrough'];
+
+// ISO 8601 date, optionally with time and timezone
+const ISO_8601_PATTERN = /^\d{4}-\d{2}-\d{2}(T\d{2}:\d{2}(:\d{2}(\.\d+)?)?(Z|[+-]\d{2}:?\d{2})?)?$/;
+
+const JSON_LD_KEYWORDS = ['@context', '@type', '@id', '@graph', '@vocab', '@language'];
+
+/**
+ * Strips the schema.org vocabulary from a type or property name
+ * ("https://schema.org/Article" and "schema:Article" become "Article")
+ */
+export function normalizeSchemaName(name: string): string {
+  return name
+    .trim()
+    .replace(/^https?:\/\/(www\.)?schema\.org\//i, '')
+    .replace(/^schema:/i, '');
+}
+
+function splitTypes(value: string | undefined): string[] {
+  if (!value) return [];
+  return value.split(/\s+/).filter(Boolean).map(normalizeSchemaName);
+}
+
+function addProperty(entity: StructuredDataEntity, name: string, value: StructuredDataValue) {
+  const key = normalizeSchemaName(name);
+  if (!key) return;
+  if (!entity.properties[key]) entity.properties[key] = [];
+  entity.properties[key].push(value);
+}
+
+// JSON-LD
+
+function normalizeJsonLdValue(value: any): StructuredDataValue[] {
+  if (value === null || value === undefined) return [];
+  if (Array.isArray(value)) return value.flatMap(normalizeJsonLdValue);
+  if (typeof value === 'string' || typeof value === 'number' || typeof value === 'boolean') return [value];
+  if (typeof value === 'object') {
+    if ('@value' in value) return normalizeJsonLdValue(value['@value']);
+    if ('@list' in value) return normalizeJsonLdValue(value['@list']);
+    return [normalizeJsonLdNode(value)];
+  }
+  return [];
+}
+
+function normalizeJsonLdNode(node: any): StructuredDataEntity {
+  const rawTypes = node['@type'];
+  const entity: StructuredDataEntity = {
+    types: (Array.isArray(rawTypes) ? rawTypes : rawTypes ? [rawTypes] : [])
+      .filter((type: unknown): type is string => typeof type === 'string')
+      .map(normalizeSchemaName),
+    id: typeof node['@id'] === 'string' ? node['@id'] : undefined,
+    format: 'json-ld',
+    properties: {}
+  };
+
+  Object.keys(node).forEach(key => {
+    if (JSON_LD_KEYWORDS.includes(key)) return;
+    normalizeJsonLdValue(node[key]).forEach(value => addProperty(entity, key, value));
+  });
+
+  return entity;
+}
+
+/**
+ * Parses one JSON-LD script body into top-level entities. Arrays and @graph
+ * containers are flattened; nested nodes stay attached to their parent.
+ */
+export function parseJsonLd(jsonText: string): StructuredDataEntity[] {
+  const data = JSON.parse(jsonText);
+  const roots = Array.isArray(data) ? data : [data];
+  const entities: StructuredDataEntity[] = [];
+
+  roots.forEach(root => {
+    if (!root || typeof root !== 'object') return;
+
+    if (Array.isArray(root['@graph'])) {
+      root['@graph'].forEach((node: any) => {
+        if (node && typeof node === 'object') entities.push(normalizeJsonLdNode(node));
+      });
+      // A root can carry its own type alongside @graph
+      if (root['@type']) entities.push(normalizeJsonLdNode(root));
+      return;
+    }
+
+    entities.push(normalizeJsonLdNode(root));
+  });
+
+  return entities;
+}
+
+// Microdata
+
+function getMicrodataValue($el: Cheerio<any>): string {
+  const tagName = ($el.prop('tagName') || '').toLowerCase();
+  const content = $el.attr('content');
+  if (content !== undefined) return content.trim();
+
+  switch (tagName) {
+    case 'audio':
+    case 'embed':
+    case 'iframe':
+    case 'img':
+    case 'source':
+    case 'track':
+    case 'video':
+      return ($el.attr('src') || '').trim();
+    case 'a':
+    case 'area':
+    case 'link':
+      return ($el.attr('href') || '').trim();
+    case 'object':
+      return ($el.attr('data') || '').trim();
+    case 'data':
+    case 'meter':
+      return ($el.attr('value') || '').trim();
+    case 'time':
+      return ($el.attr('datetime') || $el.text()).trim();
+    default:
+      return $el.text().replace(/\s+/g, ' ').trim();
+  }
+}
+
+function parseMicrodataItem($: CheerioAPI, $item: Cheerio<any>): StructuredDataEntity {
+  const entity: StructuredDataEntity = {
+    types: splitTypes($item.attr('itemtype')),
+    id: $item.attr('itemid') || undefined,
+    format: 'microdata',
+    properties: {}
+  };
+
+  // Collect itemprops whose nearest item scope is this item
+  const collect = ($parent: Cheerio<any>) => {
+    $parent.children().each((_, child) => {
+      const $child = $(child);
+      const itemprop = $child.attr('itemprop');
+      const isScope = $child.is('[itemscope]');
+
+      if (itemprop) {
+        const value: StructuredDataValue = isScope ? parseMicrodataItem($, $child) : getMicrodataValue($child);
+        itemprop.split(/\s+/).filter(Boolean).forEach(name => addProperty(entity, name, value));
+      }
+
+      if (!isScope) collect($child);
+    });
+  };
+
+  collect($item);
+  return entity;
+}
+
+// RDFa (Lite)
+
+function getRdfaValue($el: Cheerio<any>): string {
+  const content = $el.attr('content');
+  if (content !== undefined) return content.trim();
+
+  const reference = $el.attr('resource') || $el.attr('href') || $el.attr('src');
+  if (reference) return reference.trim();
+
+  if (($el.prop('tagName') || '').toLowerCase() === 'time') {
+    return ($el.attr('datetime') || $el.text()).trim();
+  }
+
+  return $el.text().replace(/\s+/g, ' ').trim();
+}
+
+function parseRdfaNode($: CheerioAPI, $node: Cheerio<any>): StructuredDataEntity {
+  const entity: StructuredDataEntity = {
+    types: splitTypes($node.attr('typeof')),
+    id: $node.attr('resource') || undefined,
+    format: 'rdfa',
+    properties: {}
+  };
+
+  const collect = ($parent: Cheerio<any>) => {
+    $parent.children().each((_, child) => {
+      const $child = $(child);
+      const property = $child.attr('property');
+      const isNode = $child.is('[typeof]');
+
+      if (property) {
+        const value: StructuredDataValue = isNode ? parseRdfaNode($, $child) : getRdfaValue($child);
+        property.split(/\s+/).filter(Boolean).forEach(name => addProperty(entity, name, value));
+      }
+
+      if (!isNode) collect($child);
+    });
+  };
+
+  collect($node);
+  return entity;
+}
+
+/**
+ * Extracts JSON-LD, Microdata and RDFa from a page into normalized entities.
+ * Invalid JSON-LD blocks are reported in parse_errors instead of being dropped silently.
+ */
+export function extractStructuredData($: CheerioAPI): StructuredDataExtraction {
+  const entities: StructuredDataEntity[] = [];
+  const parseErrors: string[] = [];
+
+  $('script[type="application/ld+json"]').each((index, element) => {
+    const jsonText = $(element).html();
+    if (!jsonText || !jsonText.trim()) return;
+
+    try {
+      entities.push(...parseJsonLd(jsonText));
+    } catch (error) {
+      const message = error instanceof Error ? error.message : 'Unknown error';
+      parseErrors.push(`JSON-LD block ${index + 1} is not valid JSON: ${message}`);
+    }
+  });
+
+  // Top-level items only; nested items are parsed through their parent
+  $('[itemscope]').not('[itemprop]').each((_, element) => {
+    entities.push(parseMicrodataItem($, $(element)));
+  });
+
+  $('[typeof]').not('[property]').each((_, element) => {
+    entities.push(parseRdfaNode($, $(element)));
+  });
+
+  return { entities, parse_errors: parseErrors };
+}
+
+// Validation
+
+function isEntity(value: StructuredDataValue | undefined): value is StructuredDataEntity {
+  return typeof value === 'object' && value !== null;
+}
+
+// Builds an @id lookup so references like {"@id": "#organization"} resolve to their node
+function buildIdIndex(entities: StructuredDataEntity[]): Map<string, StructuredDataEntity> {
+  const index = new Map<string, StructuredDataEntity>();
+
+  const visit = (entity: StructuredDataEntity) => {
+    if (entity.id && (entity.types.length > 0 || Object.keys(entity.properties).length > 0)) {
+      index.set(entity.id, entity);
+    }
+    Object.keys(entity.properties).forEach(key => {
+      entity.properties[key].forEach(value => {
+        if (isEntity(value)) visit(value);
+      });
+    });
+  };
+
+  entities.forEach(visit);
+  return index;
+}
+
+function resolve(value: StructuredDataValue | undefined, index: Map<string, StructuredDataEntity>): StructuredDataValue | undefined {
+  if (isEntity(value) && value.id && value.types.length === 0 && Object.keys(value.properties).length === 0) {
+    return index.get(value.id) || value;
+  }
+  return value;
+}
+
+function getValues(entity: StructuredDataEntity, property: string, index: Map<string, StructuredDataEntity>): StructuredDataValue[] {
+  return (entity.properties[property] || [])
+    .map(value => resolve(value, index))
+    .filter((value): value is StructuredDataValue => value !== undefined && value !== '');
+}
+
+function getText(value: StructuredDataValue | undefined): string | undefined {
+  if (value === undefined || isEntity(value)) return undefined;
+  return String(value).trim() || undefined;
+}
+
+function hasType(entity: StructuredDataEntity, type: string): boolean {
+  return entity.types.some(t => t === type || TYPE_ALIASES[t] === type);
+}
+
+function getRuleType(entity: StructuredDataEntity): string | undefined {
+  for (const type of entity.types) {
+    if (TYPE_RULES[type]) return type;
+    if (TYPE_ALIASES[type]) return TYPE_ALIASES[type];
+  }
+  return undefined;
+}
+
+function validateDates(entity: StructuredDataEntity, errors: string[]) {
+  DATE_PROPERTIES.forEach(property => {
+    (entity.properties[property] || []).forEach(value => {
+      const text = getText(value);
+      if (text && !ISO_8601_PATTERN.test(text)) {
+        errors.push(`${property} "${text}" is not a valid ISO 8601 date.`);
+      }
+    });
+  });
+}
+
+function validateArticle(entity: StructuredDataEntity, index: Map<string, StructuredDataEntity>, errors: string[], warnings: string[]) {
+  const headline = getText(getValues(entity, 'headline', index)[0]);
+  if (headline && headline.length > 110) {
+    warnings.push(`headline is ${headline.length} characters; keep it under 110 characters.`);
+  }
+
+  getValues(entity, 'author', index).forEach(author => {
+    if (!isEntity(author)) {
+      warnings.push('author should be a Person or Organization, not plain text.');
+    } else if (getValues(author, 'name', index).length === 0) {
+      errors.push('author is missing a name.');
+    }
+  });
+
+  getValues(entity, 'publisher', index).forEach(publisher => {
+    if (isEntity(publisher) && getValues(publisher, 'name', index).length === 0) {
+      errors.push('publisher is missing a name.');
+    }
+  });
+}
+
+function validateFaqPage(entity: StructuredDataEntity, index: Map<string, StructuredDataEntity>, errors: string[]) {
+  const questions = getValues(entity, 'mainEntity', index);
+  questions.forEach((question, i) => {
+    if (!isEntity(question) || !hasType(question, 'Question')) {
+      errors.push(`mainEntity item ${i + 1} is not a Question.`);
+      return;
+    }
+    if (!getText(getValues(question, 'name', index)[0])) {
+      errors.push(`Question ${i + 1} is missing name (the question text).`);
+    }
+    const answer = getValues(question, 'acceptedAnswer', index)[0];
+    if (!isEntity(answer)) {
+      errors.push(`Question ${i + 1} is missing acceptedAnswer.`);
+    } else if (!getText(getValues(answer, 'text', index)[0])) {
+      errors.push(`Question ${i + 1} acceptedAnswer is missing text.`);
+    }
+  });
+}
+
+function validateBreadcrumbList(entity: StructuredDataEntity, index: Map<string, StructuredDataEntity>, errors: string[], warnings: string[]) {
+  const items = getValues(entity, 'itemListElement', index);
+  const positions: number[] = [];
+
+  items.forEach((item, i) => {
+    if (!isEntity(item)) {
+      errors.push(`itemListElement ${i + 1} is not a ListItem.`);
+      return;
+    }
+
+    const position = Number(getText(getValues(item, 'position', index)[0]));
+    if (isNaN(position)) {
+      errors.push(`Breadcrumb item ${i + 1} is missing a numeric position.`);
+    } else {
+      positions.push(position);
+    }
+
+    const target = getValues(item, 'item', index)[0];
+    const name = getText(getValues(item, 'name', index)[0]) ||
+      (isEntity(target) ? getText(getValues(target, 'name', index)[0]) : undefined);
+    if (!name) errors.push(`Breadcrumb item ${i + 1} is missing name.`);
+
+    // The last crumb may omit item (it is the current page)
+    const isLast = i === items.length - 1;
+    if (!target && !isLast) errors.push(`Breadcrumb item ${i + 1} is missing item (URL).`);
+  });
+
+  const sorted = positions.slice().sort((a, b) => a - b);
+  if (sorted.some((position, i) => position !== i + 1)) {
+    warnings.push('Breadcrumb positions should be sequential starting at 1.');
+  }
+}
+
+function validateProduct(entity: StructuredDataEntity, index: Map<string, StructuredDataEntity>, errors: string[], warnings: string[]) {
+  const offers = getValues(entity, 'offers', index);
+  const hasReview = getValues(entity, 'review', index).length > 0;
+  const hasRating = getValues(entity, 'aggregateRating', index).length > 0;
+
+  if (offers.length === 0 && !hasReview && !hasRating) {
+    errors.push('Product needs at least one of offers, review or aggregateRating.');
+  }
+
+  offers.forEach((offer, i) => {
+    if (!isEntity(offer)) return;
+    // AggregateOffer uses lowPrice instead of price
+    const hasPrice = ['price', 'lowPrice', 'priceSpecification'].some(p => getValues(offer, p, index).length > 0);
+    if (!hasPrice) errors.push(`Offer ${i + 1} is missing price.`);
+    if (getValues(offer, 'priceCurrency', index).length === 0 && getValues(offer, 'priceSpecification', index).length === 0) {
+      errors.push(`Offer ${i + 1} is missing priceCurrency.`);
+    }
+    if (getValues(offer, 'availability', index).length === 0) {
+      warnings.push(`Offer ${i + 1} is missing availability.`);
+    }
+  });
+}
+
+function validateEvent(entity: StructuredDataEntity, index: Map<string, StructuredDataEntity>, errors: string[]) {
+  getValues(entity, 'location', index).forEach(location => {
+    if (!isEntity(location)) {
+      errors.push('location should be a Place or VirtualLocation, not plain text.');
+    } else if (hasType(location, 'VirtualLocation')) {
+      if (getValues(location, 'url', index).length === 0) errors.push('VirtualLocation is missing url.');
+    } else if (getValues(location, 'address', index).length === 0) {
+      errors.push('Event location is missing address.');
+    }
+  });
+}
+
+function validateJobPosting(entity: StructuredDataEntity, index: Map<string, StructuredDataEntity>, errors: string[], warnings: string[]) {
+  const isRemote = getValues(entity, 'jobLocationType', index).some(value => getText(value) === 'TELECOMMUTE');
+
+  if (isRemote) {
+    if (getValues(entity, 'applicantLocationRequirements', index).length === 0) {
+      errors.push('Remote JobPosting is missing applicantLocationRequirements.');
+    }
+  } else if (getValues(entity, 'jobLocation', index).length === 0) {
+    errors.push('JobPosting is missing jobLocation (or jobLocationType TELECOMMUTE for remote jobs).');
+  }
+
+  getValues(entity, 'hiringOrganization', index).forEach(organization => {
+    if (isEntity(organization) && getValues(organization, 'name', index).length === 0) {
+      errors.push('hiringOrganization is missing a name.');
+    }
+  });
+
+  const validThrough = getText(getValues(entity, 'validThrough', index)[0]);
+  if (validThrough && ISO_8601_PATTERN.test(validThrough) && new Date(validThrough).getTime() < Date.now()) {
+    warnings.push(`validThrough (${validThrough}) is in the past; expired job postings should be removed.`);
+  }
+}
+
+/**
+ * Validates one entity against the rules for its type. Entities of types we
+ * have no rules for are reported as unsupported with no errors.
+ */
+export function validateStructuredDataEntity(
+  entity: StructuredDataEntity,
+  index: Map<string, StructuredDataEntity> = buildIdIndex([entity])
+): EntityValidation {
+  const errors: string[] = [];
+  const warnings: string[] = [];
+  const ruleType = getRuleType(entity);
+
+  if (entity.types.length === 0) {
+    warnings.push('Entity has no @type and will be ignored by search engines.');
+  }
+
+  if (ruleType) {
+    const rules = TYPE_RULES[ruleType];
+    rules.required.forEach(property => {
+      if (getValues(entity, property, index).length === 0) {
+        errors.push(`Missing required property "${property}".`);
+      }
+    });
+    rules.recommended.forEach(property => {
+      if (getValues(entity, property, index).length === 0) {
+        warnings.push(`Missing recommended property "${property}".`);
+      }
+    });
+
+    validateDates(entity, errors);
+
+    switch (ruleType) {
+      case 'Article':
+        validateArticle(entity, index, errors, warnings);
+        break;
+      case 'FAQPage':
+        validateFaqPage(entity, index, errors);
+        break;
+      case 'BreadcrumbList':
+        validateBreadcrumbList(entity, index, errors, warnings);
+        break;
+      case 'Product':
+        validateProduct(entity, index, errors, warnings);
+        break;
+      case 'Event':
+        validateEvent(entity, index, errors);
+        break;
+      case 'JobPosting':
+        validateJobPosting(entity, index, errors, warnings);
+        break;
+    }
+  }
+
+  return {
+    entity_type: entity.types.join(', ') || 'Unknown',
+    format: entity.format,
+    id: entity.id,
+    name: getText(getValues(entity, 'name', index)[0]) || getText(getValues(entity, 'headline', index)[0]) || getText(getValues(entity, 'title', index)[0]),
+    is_supported: !!ruleType,
+    is_valid: errors.length === 0,
+    errors,
+    warnings
+  };
+}
+
+/**
+ * Validates every top-level entity on a page and summarizes the results
+ */
+export function analyzeStructuredData(extraction: StructuredDataExtraction): StructuredDataReport {
+  const index = buildIdIndex(extraction.entities);
+
+  // Bare references (only an @id) are resolved through the index rather than validated on their own
+  const entities = extraction.entities.filter(entity => entity.types.length > 0 || Object.keys(entity.properties).length > 0);
+  const validations = entities.map(entity => validateStructuredDataEntity(entity, index));
+
+  const formatCounts: { [format: string]: number } = {};
+  const types = new Set<string>();
+  entities.forEach(entity => {
+    formatCounts[entity.format] = (formatCounts[entity.format] || 0) + 1;
+    entity.types.forEach(type => types.add(type));
+  });
+
+  const errorCount = validations.reduce((sum, v) => sum + v.errors.length, 0);
+  const warningCount = validations.reduce((sum, v) => sum + v.warnings.length, 0);
+
+  const recommendations: string[] = [];
+  if (extraction.parse_errors.length > 0) {
+    recommendations.push(`${extraction.parse_errors.length} JSON-LD blocks could not be parsed. Fix the JSON syntax so search engines can read them.`);
+  }
+  validations
+    .filter(v => v.errors.length > 0)
+    .forEach(v => {
+      recommendations.push(`${v.entity_type}${v.name ? ` "${v.name}"` : ''}: ${v.errors[0]}${v.errors.length > 1 ? ` (+${v.errors.length - 1} more errors)` : ''}`);
+    });
+  if (entities.length > 0 && !validations.some(v => v.is_supported)) {
+    recommendations.push('No rich-result eligible structured data found (e.g. Organization, Article, FAQPage, BreadcrumbList, Product).');
+  }
+
+  return {
+    entity_count: entities.length,
+    format_counts: formatCounts,
+    types: Array.from(types),
+    entities: validations,
+    error_count: errorCount,
+    warning_count: warningCount,
+    parse_errors: extraction.parse_errors,
+    recommendations
+  };
+}
+
+/**
+ * Rebuilds an extraction from stored raw JSON-LD strings, for documents
+ * scraped before Microdata/RDFa entities were persisted
+ */
+export function extractFromSchemaMarkup(schemaMarkup: string[]): StructuredDataExtraction {
+  const entities: StructuredDataEntity[] = [];
+  const parseErrors: string[] = [];
+
+  schemaMarkup.forEach((jsonText, i) => {
+    try {
+      entities.push(...parseJsonLd(jsonText));
+    } catch (error) {
+      const message = error instanceof Error ? error.message : 'Unknown error';
+      parseErrors.push(`JSON-LD block ${i + 1} is not valid JSON: ${message}`);
+    }
+  });
+
+  return { entities, parse_errors: parseErrors };
+}
@@ -0,0 +1,244 @@
+import { lookup as lookupCallback } from 'dns';
+import { lookup } from 'dns/promises';
+import { isIP, type LookupFunction } from 'net';
+import { Agent } from 'undici';
+
+// Guards every outbound fetch against server-side request forgery: URLs come from users and
+// from the model, so they must not reach internal services or cloud metadata endpoints.
+
+// Comma-separated domains; when set, only these domains and their subdomains can be fetched
+const ALLOWED_DOMAINS = (process.env.FETCH_ALLOWED_DOMAINS || '')
+  .split(',')
+  .map(domain => domain.trim().toLowerCase().replace(/^\*?\./, ''))
+  .filter(domain => domain.length > 0);
+
+// Local development against localhost fixtures; never enable in a deployment
+const ALLOW_PRIVATE_NETWORKS = process.env.FETCH_ALLOW_PRIVATE_NETWORKS === 'true';
+
+export const FETCH_TIMEOUT_MS = parseInt(process.env.FETCH_TIMEOUT_MS || '', 10) || 20000;
+export const FETCH_MAX_RESPONSE_BYTES = parseInt(process.env.FETCH_MAX_RESPONSE_BYTES || '', 10) || 10 * 1024 * 1024;
+
+const ALLOWED_PROTOCOLS = ['http:', 'https:'];
+
+// Names that resolve to internal services regardless of DNS
+const BLOCKED_HOSTNAMES = ['localhost', 'metadata', 'metadata.google.internal', 'instance-data'];
+const BLOCKED_HOSTNAME_SUFFIXES = ['.localhost', '.internal', '.local'];
+
+// [network, prefix length] of IPv4 ranges that are not publicly routable
+const BLOCKED_IPV4_RANGES: [string, number][] = [
+  ['0.0.0.0', 8],         // "This" network
+  ['10.0.0.0', 8],        // Private
+  ['100.64.0.0', 10],     // Carrier-grade NAT
+  ['127.0.0.0', 8],       // Loopback
+  ['169.254.0.0', 16],    // Link-local, including 169.254.169.254 cloud metadata
+  ['172.16.0.0', 12],     // Private
+  ['192.0.0.0', 24],      // IETF protocol assignments
+  ['192.0.2.0', 24],      // Documentation
+  ['192.88.99.0', 24],    // 6to4 relay anycast
+  ['192.168.0.0', 16],    // Private
+  ['198.18.0.0', 15],     // Benchmarking
+  ['198.51.100.0', 24],   // Documentation
+  ['203.0.113.0', 24],    // Documentation
+  ['224.0.0.0', 4],       // Multicast
+  ['240.0.0.0', 4]        // Reserved and broadcast
+];
+
+function ipv4ToNumber(ip: string): number {
+  return ip.split('.').reduce((value, octet) => value * 256 + parseInt(octet, 10), 0);
+}
+
+function isBlockedIPv4(ip: string): boolean {
+  const value = ipv4ToNumber(ip);
+  return BLOCKED_IPV4_RANGES.some(([network, prefix]) => {
+    const size = Math.pow(2, 32 - prefix);
+    const start = ipv4ToNumber(network);
+    return value >= start && value < start + size;
+  });
+}
+
+// Expands an IPv6 address (including "::" and an embedded IPv4 tail) to eight 16-bit groups
+function expandIPv6(ip: string): number[] {
+  let address = ip.toLowerCase().replace(/%.*$/, '');
+  const ipv4Tail = address.match(/(\d+\.\d+\.\d+\.\d+)$/);
+  if (ipv4Tail) {
+    const value = ipv4ToNumber(ipv4Tail[1]);
+    address = address.replace(ipv4Tail[1], `${Math.floor(value / 65536).toString(16)}:${(value % 65536).toString(16)}`);
+  }
+
+  const [head, tail] = address.split('::');
+  const headGroups = head ? head.split(':') : [];
+  const tailGroups = tail !== undefined && tail ? tail.split(':') : [];
+  const missing = 8 - headGroups.length - tailGroups.length;
+  const groups = tail !== undefined
+    ? headGroups.concat(Array(Math.max(0, missing)).fill('0'), tailGroups)
+    : headGroups;
+  return groups.map(group => parseInt(group, 16) || 0);
+}
+
+function isBlockedIPv6(ip: string): boolean {
+  const groups = expandIPv6(ip);
+  const embeddedIPv4 = () => `${groups[6] >> 8}.${groups[6] & 255}.${groups[7] >> 8}.${groups[7] & 255}`;
+
+  if (groups.every(group => group === 0)) return true;                                    // ::
+  if (groups.slice(0, 7).every(group => group === 0) && groups[7] === 1) return true;      // ::1 loopback
+  if (groups.slice(0, 5).every(group => group === 0) && groups[5] === 0xffff) {
+    return isBlockedIPv4(embeddedIPv4());                                                  // ::ffff:a.b.c.d
+  }
+  if (groups.slice(0, 6).every(group => group === 0)) return isBlockedIPv4(embeddedIPv4()); // ::a.b.c.d (deprecated)
+  if (groups.slice(0, 4).every(group => group === 0) && groups[4] === 0xffff && groups[5] === 0) {
+    return isBlockedIPv4(embeddedIPv4());                                                  // ::ffff:0:a.b.c.d SIIT
+  }
+  if (groups[0] === 0x64 && groups[1] === 0xff9b) return isBlockedIPv4(embeddedIPv4());   // NAT64
+  if (groups[0] === 0x2002) {                                                             // 2002::/16 6to4
+    return isBlockedIPv4(`${groups[1] >> 8}.${groups[1] & 255}.${groups[2] >> 8}.${groups[2] & 255}`);
+  }
+  if (groups[0] === 0x2001 && groups[1] === 0) return true;                               // 2001::/32 Teredo
+  if ((groups[0] & 0xfe00) === 0xfc00) return true;                                       // fc00::/7 unique local
+  if ((groups[0] & 0xffc0) === 0xfe80) return true;                                       // fe80::/10 link-local
+  if ((groups[0] & 0xff00) === 0xff00) return true;                                       // ff00::/8 multicast
+  if (groups[0] === 0x2001 && groups[1] === 0x0db8) return true;                          // Documentation
+  return false;
+}
+
+/**
+ * Whether an IP address is private, loopback, link-local, metadata or otherwise not public
+ */
+export function isPrivateAddress(ip: string): boolean {
+  const version = isIP(ip);
+  if (version === 4) return isBlockedIPv4(ip);
+  if (version === 6) return isBlockedIPv6(ip);
+  return true;
+}
+
+function isAllowedDomain(hostname: string): boolean {
+  if (ALLOWED_DOMAINS.length === 0) return true;
+  return ALLOWED_DOMAINS.some(domain => hostname === domain || hostname.endsWith(`.${domain}`));
+}
+
+/**
+ * Throws unless the URL is http(s), within the domain allowlist (if configured) and every
+ * address its host resolves to is public. Called for every request and every redirect hop,
+ * so a redirect to an internal address is caught. The connection itself resolves the host
+ * again; safeDispatcher checks that answer, in case DNS changed in between.
+ */
+export async function assertSafeUrl(url: string): Promise<URL> {
+  let urlObj: URL;
+  try {
+    urlObj = new URL(url);
+  } catch {
+    throw new Error(`Invalid URL: ${url}`);
+  }
+
+  if (!ALLOWED_PROTOCOLS.includes(urlObj.protocol)) {
+    throw new Error(`URL not allowed: only http and https URLs can be fetched (got ${urlObj.protocol})`);
+  }
+
+  // URL keeps IPv6 literals in brackets
+  const hostname = urlObj.hostname.toLowerCase().replace(/^\[|\]$/g, '').replace(/\.$/, '');
+
+  if (!isAllowedDomain(hostname)) {
+    throw new Error(`URL not allowed: ${hostname} is not in the allowed domains`);
+  }
+
+  if (ALLOW_PRIVATE_NETWORKS) return urlObj;
+
+  if (BLOCKED_HOSTNAMES.includes(hostname) || BLOCKED_HOSTNAME_SUFFIXES.some(suffix => hostname.endsWith(suffix))) {
+    throw new Error(`URL not allowed: ${hostname} is an internal host`);
+  }
+
+  if (isIP(hostname)) {
+    if (isPrivateAddress(hostname)) {
+      throw new Error(`URL not allowed: ${hostname} is a private or reserved address`);
+    }
+    return urlObj;
+  }
+
+  let addresses: { address: string }[];
+  try {
+    addresses = await lookup(hostname, { all: true });
+  } catch (error) {
+    throw new Error(`Could not resolve ${hostname}: ${error instanceof Error ? error.message : 'Unknown error'}`);
+  }
+
+  const blocked = addresses.find(({ address }) => isPrivateAddress(address));
+  if (blocked) {
+    throw new Error(`URL not allowed: ${hostname} resolves to private or reserved address ${blocked.address}`);
+  }
+
+  return urlObj;
+}
+
+// Error code of a connection refused by safeDispatcher
+export const BLOCKED_ADDRESS_ERROR_CODE = 'ERR_BLOCKED_ADDRESS';
+
+// Runs isPrivateAddress on the addresses a connection is about to use
+const checkedLookup: LookupFunction = (hostname, options, callback) => {
+  lookupCallback(hostname, options, (error, address, family) => {
+    if (error || ALLOW_PRIVATE_NETWORKS) {
+      callback(error, address, family);
+      return;
+    }
+
+    const addresses = Array.isArray(address) ? address.map(entry => entry.address) : [address];
+    const blocked = addresses.find(candidate => isPrivateAddress(candidate));
+    if (blocked) {
+      callback(
+        Object.assign(new Error(`URL not allowed: ${hostname} resolves to private or reserved address ${blocked}`), { code: BLOCKED_ADDRESS_ERROR_CODE }),
+        address,
+        family
+      );
+      return;
+    }
+    callback(null, address, family);
+  });
+};
+
+/**
+ * fetch() dispatcher that pins each connection to an address it has checked, so a host whose
+ * DNS answer changes after assertSafeUrl (DNS rebinding) still can't reach an internal address
+ */
+export const safeDispatcher = new Agent({ connect: { lookup: checkedLookup } });
+
+/**
+ * assertSafeUrl for request validation: the reason a URL can't be fetched, or null if it can
+ */
+export async function checkUrlSafety(url: string): Promise<string | null> {
+  try {
+    await assertSafeUrl(url);
+    return null;
+  } catch (error) {
+    return error instanceof Error ? error.message : 'URL not allowed';
+  }
+}
+
+/**
+ * Wraps a response so reading more than maxBytes of its body fails, whatever Content-Length says
+ */
+export function limitResponseSize(response: Response, maxBytes: number): Response {
+  const contentLength = parseInt(response.headers.get('content-length') || '', 10);
+  if (contentLength > maxBytes) {
+    response.body?.cancel().catch(() => {});
+    throw new Error(`Response exceeds ${maxBytes} bytes`);
+  }
+
+  // Null-body statuses can't be re-wrapped, and have nothing to limit
+  if (!response.body || [101, 204, 205, 304].includes(response.status)) return response;
+
+  let received = 0;
+  const limited = response.body.pipeThrough(new TransformStream<Uint8Array, Uint8Array>({
+    transform(chunk, controller) {
+      received += chunk.byteLength;
+      if (received > maxBytes) {
+        controller.error(new Error(`Response exceeds ${maxBytes} bytes`));
+        return;
+      }
+      controller.enqueue(chunk);
+    }
+  }));
+
+  return new Response(limited, {
+    status: response.status,
+    statusText: response.statusText,
+    headers: response.headers
+  });
+}
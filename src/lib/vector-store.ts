@@ -1,7 +1,24 @@
-import { sql, type Document, type DocumentChunk, type MetaTag, type Heading, type Link, type Image } from './db';
+import { sql, type Document, type DocumentChunk, type MetaTag, type Heading, type Link, type Image, type HreflangLink, type PageResource, type DocumentSnapshot } from './db';
 import { openai } from '@ai-sdk/openai';
-import { embed } from 'ai';
+import { embed, embedMany } from 'ai';
 import { type ScrapedContent } from './scraper';
+import { type HreflangPage } from './hreflang-analyzer';
+import { type SitemapUrl } from './sitemap-parser';
+import { type SitemapExtensionPage } from './sitemap-extension-analyzer';
+import { type SitemapAuditPage } from './sitemap-audit';
+import { performSEOAnalysis } from './seo-analyzer';
+import { calculateSEOScore } from './seo-scoring';
+import { toPageVersion, type PageVersion } from './version-history';
+import {
+  buildDocumentFingerprint,
+  hashFingerprint,
+  compressHtml,
+  decompressHtml,
+  diffFingerprints,
+  summarizeSnapshotDiff,
+  type DocumentFingerprint,
+  type SnapshotDiff
+} from './document-snapshots';
 
 export interface SearchResult {
   content: string;
@@ -15,208 +32,396 @@ export interface StoredDocument {
   url: string;
   title: string | null;
   chunksCreated: number;
+  unchanged: boolean;      // Content hash matched the latest snapshot, so nothing was re-stored
+  snapshotId?: number;
+  changes?: string[];      // Summary of the diff against the previous snapshot
+  timings: StorageTimings;
 }
 
+// Milliseconds spent in each stage of storeDocument
+export interface StorageTimings {
+  lookupMs: number;        // Existing document, latest snapshot and table columns
+  embeddingMs: number;     // Batched embedMany calls for the chunks
+  buildMs: number;         // Reserving the document id and building the statements
+  writeMs: number;         // The transaction replacing the previous version
+  totalMs: number;
+}
+
+// Latest snapshot of a URL, or null when there is none (or the snapshots table doesn't exist yet)
+async function getLatestSnapshot(url: string): Promise<{ id: number; content_hash: string; fingerprint: DocumentFingerprint } | null> {
+  try {
+    const [snapshot] = await sql`
+      SELECT id, content_hash, fingerprint FROM document_snapshots
+      WHERE url = ${url}
+      ORDER BY fetched_at DESC, id DESC
+      LIMIT 1
+    `;
+    return snapshot ? { id: snapshot.id, content_hash: snapshot.content_hash, fingerprint: snapshot.fingerprint } : null;
+  } catch (error) {
+    console.log('Document snapshots table not found, skipping:', error);
+    return null;
+  }
+}
+
+// Tables storeDocument writes; columns added by later migrations are only written once they exist
+const STORAGE_TABLES = [
+  'documents', 'document_chunks', 'meta_tags', 'headings', 'links', 'images',
+  'hreflang_links', 'page_resources', 'document_snapshots'
+];
+
+// Postgres allows 65535 bind parameters per statement
+const MAX_INSERT_PARAMS = 60000;
+const MAX_INSERT_ROWS = 500;
+
+// Chunks carry 1536-dimension embeddings as text, so fewer fit in one statement
+const CHUNK_INSERT_ROWS = 50;
+
+// Chunks per embedMany call, keeping each embeddings request well under the model's token limit
+const EMBEDDING_BATCH_SIZE = 100;
+
+type StorageRow = { [column: string]: unknown };
+
+// documents columns set after storing by the ingestion that found the page
+const CARRIED_DOCUMENT_COLUMNS = ['sitemap_entry', 'click_depth'];
+
+// Existing columns per table, re-read after a minute so migrations apply without a restart
+const STORAGE_COLUMNS_TTL_MS = 60 * 1000;
+let storageColumns: { columns: Promise<{ [table: string]: Set<string> }>; loadedAt: number } | null = null;
+
+function getStorageColumns(): Promise<{ [table: string]: Set<string> }> {
+  if (!storageColumns || Date.now() - storageColumns.loadedAt > STORAGE_COLUMNS_TTL_MS) {
+    const columns = (async () => {
+      const rows = await sql`
+        SELECT table_name, column_name FROM information_schema.columns
+        WHERE table_schema = current_schema() AND table_name = ANY(${STORAGE_TABLES})
+      `;
+      const columnsByTable: { [table: string]: Set<string> } = {};
+      rows.forEach((row: { table_name: string; column_name: string }) => {
+        if (!columnsByTable[row.table_name]) columnsByTable[row.table_name] = new Set<string>();
+        columnsByTable[row.table_name].add(row.column_name);
+      });
+      return columnsByTable;
+    })();
+    const entry = { columns, loadedAt: Date.now() };
+    storageColumns = entry;
+    // Don't cache a failed lookup
+    columns.catch(() => {
+      if (storageColumns === entry) storageColumns = null;
+    });
+  }
+  return storageColumns.columns;
+}
+
+/**
+ * Multi-row INSERT statements for rows sharing the same keys, limited to the columns that exist.
+ * Returns no statements when the table doesn't exist or there are no rows. `expressions` wraps a
+ * column's placeholder, e.g. for casts.
+ */
+function buildBulkInserts(
+  table: string,
+  rows: StorageRow[],
+  columnsByTable: { [table: string]: Set<string> },
+  options: { expressions?: { [column: string]: (placeholder: string) => string }; rowsPerStatement?: number; returning?: string } = {}
+) {
+  const available = columnsByTable[table];
+  if (!available || rows.length === 0) return [];
+
+  const columns = Object.keys(rows[0]).filter(column => available.has(column));
+  if (columns.length === 0) return [];
+
+  const rowsPerStatement = Math.max(1, Math.min(
+    options.rowsPerStatement || MAX_INSERT_ROWS,
+    Math.floor(MAX_INSERT_PARAMS / columns.length)
+  ));
+
+  const statements = [];
+  for (let start = 0; start < rows.length; start += rowsPerStatement) {
+    const params: unknown[] = [];
+    const values = rows.slice(start, start + rowsPerStatement).map(row => {
+      const placeholders = columns.map(column => {
+        params.push(row[column] === undefined ? null : row[column]);
+        const placeholder = `$${params.length}`;
+        const expression = options.expressions?.[column];
+        return expression ? expression(placeholder) : placeholder;
+      });
+      return `(${placeholders.join(', ')})`;
+    });
+
+    statements.push(sql.query(
+      `INSERT INTO ${table} (${columns.join(', ')}) VALUES ${values.join(', ')}${options.returning ? ` RETURNING ${options.returning}` : ''}`,
+      params
+    ));
+  }
+  return statements;
+}
+
+// Embeds chunks in batches; any failed batch fails the whole document so nothing partial is stored
+async function embedChunks(chunks: string[]): Promise<number[][]> {
+  const embeddings: number[][] = [];
+  for (let start = 0; start < chunks.length; start += EMBEDDING_BATCH_SIZE) {
+    const { embeddings: batch } = await embedMany({
+      model: openai.embedding('text-embedding-ada-002'),
+      values: chunks.slice(start, start + EMBEDDING_BATCH_SIZE)
+    });
+    embeddings.push(...batch);
+  }
+  return embeddings;
+}
+
+// The documents row, with optional fields only when the page has them so column defaults apply
+function buildDocumentRow(documentId: number, scrapedContent: ScrapedContent): StorageRow {
+  const { seo_data, content_quality, article_metadata, resources, extraction, http } = scrapedContent;
+
+  return {
+    id: documentId,
+    url: scrapedContent.url,
+    title: scrapedContent.title,
+    content: scrapedContent.content,
+    meta_title: seo_data.meta_title || null,
+    meta_description: seo_data.meta_description || null,
+    meta_keywords: seo_data.meta_keywords || null,
+    meta_robots: seo_data.meta_robots || null,
+    canonical_url: seo_data.canonical_url || null,
+    og_title: seo_data.og_title || null,
+    og_description: seo_data.og_description || null,
+    og_image: seo_data.og_image || null,
+    og_type: seo_data.og_type || null,
+    twitter_title: seo_data.twitter_title || null,
+    twitter_description: seo_data.twitter_description || null,
+    twitter_image: seo_data.twitter_image || null,
+    twitter_card: seo_data.twitter_card || null,
+    schema_markup: JSON.stringify(seo_data.schema_markup),
+    primary_keyword: seo_data.primary_keyword || null,
+    word_count: content_quality.word_count,
+    sentence_count: content_quality.sentence_count,
+    paragraph_count: content_quality.paragraph_count,
+    average_sentence_length: content_quality.average_sentence_length,
+    average_words_per_paragraph: content_quality.average_words_per_paragraph,
+    readability_score: content_quality.readability_score,
+    reading_time_minutes: content_quality.reading_time_minutes,
+    content_depth_score: content_quality.content_depth_score,
+    topic_keywords: content_quality.topic_keywords,
+    semantic_keywords: content_quality.semantic_keywords,
+    content_type: content_quality.content_type,
+    ...(scrapedContent.blocks && { content_blocks: JSON.stringify(scrapedContent.blocks) }),
+    ...(scrapedContent.structured_data && { structured_data: JSON.stringify(scrapedContent.structured_data) }),
+    ...(article_metadata && {
+      authors: article_metadata.authors,
+      published_at: article_metadata.published_at || null,
+      modified_at: article_metadata.modified_at || null,
+      breadcrumbs: JSON.stringify(article_metadata.breadcrumbs)
+    }),
+    ...(resources && {
+      html_bytes: resources.html_bytes,
+      dom_node_count: resources.dom_node_count,
+      max_dom_depth: resources.max_dom_depth
+    }),
+    ...(scrapedContent.accessibility && { accessibility_audit: JSON.stringify(scrapedContent.accessibility) }),
+    ...(scrapedContent.locale && { locale: scrapedContent.locale }),
+    ...(extraction && {
+      extraction_method: extraction.method,
+      boilerplate_ratio: extraction.boilerplate_ratio,
+      extraction_confidence: extraction.confidence
+    }),
+    ...(http && {
+      http_status: http.status_code,
+      final_url: http.final_url,
+      redirect_chain: JSON.stringify(http.redirect_chain),
+      redirect_count: http.redirect_chain.length,
+      response_content_type: http.content_type || null,
+      response_content_length: http.content_length ?? null,
+      last_modified: http.last_modified || null,
+      cache_control: http.cache_control || null,
+      x_robots_tag: http.x_robots_tag || null,
+      fetched_at: http.fetched_at
+    })
+  };
+}
+
+/**
+ * Stores a scraped page with its chunk embeddings, replacing any previous version of the URL.
+ * Embeddings are generated first with batched embedMany calls; the delete of the old version and
+ * every insert (document, chunks, meta tags, headings, links, images, hreflang, resources and the
+ * snapshot) then run as multi-row statements in one transaction, so a failure at any point leaves
+ * the previous version intact.
+ */
 export async function storeDocument(
   scrapedContent: ScrapedContent, 
   chunks: string[]
 ): Promise<StoredDocument> {
+  const startedAt = Date.now();
+  
   try {
     // First, check if document with this URL already exists
     const existingDoc = await sql`
-      SELECT id FROM documents WHERE url = ${scrapedContent.url}
+      SELECT id, url, title FROM documents WHERE url = ${scrapedContent.url}
     `;
     
-    if (existingDoc.length > 0) {
-      // Delete existing document and its chunks (cascading deletes will handle related tables)
+    // A re-scrape whose normalized content matches the latest snapshot is a no-op
+    const fingerprint = buildDocumentFingerprint(scrapedContent);
+    const contentHash = hashFingerprint(fingerprint);
+    const previousSnapshot = await getLatestSnapshot(scrapedContent.url);
+    
+    if (existingDoc.length > 0 && previousSnapshot && previousSnapshot.content_hash === contentHash) {
       await sql`
-        DELETE FROM documents WHERE url = ${scrapedContent.url}
+        UPDATE document_snapshots SET last_checked_at = NOW() WHERE id = ${previousSnapshot.id}
       `;
+      const lookupMs = Date.now() - startedAt;
+      return {
+        id: existingDoc[0].id,
+        url: existingDoc[0].url,
+        title: existingDoc[0].title,
+        chunksCreated: 0,
+        unchanged: true,
+        snapshotId: previousSnapshot.id,
+        timings: { lookupMs, embeddingMs: 0, buildMs: 0, writeMs: 0, totalMs: lookupMs }
+      };
     }
     
-    // Prepare SEO data and content quality metrics for insertion
-    const { seo_data, content_quality } = scrapedContent;
-    
-    // Try to insert with content quality metrics, fall back to basic insert if columns don't exist
-    let document;
-    try {
-      // First try with content quality metrics
-      [document] = await sql`
-        INSERT INTO documents (
-          url, title, content,
-          meta_title, meta_description, meta_keywords, meta_robots, canonical_url,
-          og_title, og_description, og_image, og_type,
-          twitter_title, twitter_description, twitter_image, twitter_card,
-          schema_markup, primary_keyword,
-          word_count, sentence_count, paragraph_count, average_sentence_length, 
-          average_words_per_paragraph, readability_score, reading_time_minutes,
-          content_depth_score, topic_keywords, semantic_keywords, content_type
-        )
-        VALUES (
-          ${scrapedContent.url}, 
-          ${scrapedContent.title}, 
-          ${scrapedContent.content},
-          ${seo_data.meta_title || null},
-          ${seo_data.meta_description || null},
-          ${seo_data.meta_keywords || null},
-          ${seo_data.meta_robots || null},
-          ${seo_data.canonical_url || null},
-          ${seo_data.og_title || null},
-          ${seo_data.og_description || null},
-          ${seo_data.og_image || null},
-          ${seo_data.og_type || null},
-          ${seo_data.twitter_title || null},
-          ${seo_data.twitter_description || null},
-          ${seo_data.twitter_image || null},
-          ${seo_data.twitter_card || null},
-          ${JSON.stringify(seo_data.schema_markup)},
-          ${seo_data.primary_keyword || null},
-          ${content_quality.word_count},
-          ${content_quality.sentence_count},
-          ${content_quality.paragraph_count},
-          ${content_quality.average_sentence_length},
-          ${content_quality.average_words_per_paragraph},
-          ${content_quality.readability_score},
-          ${content_quality.reading_time_minutes},
-          ${content_quality.content_depth_score},
-          ${content_quality.topic_keywords},
-          ${content_quality.semantic_keywords},
-          ${content_quality.content_type}
-        )
-        RETURNING id, url, title
-      `;
-    } catch (error) {
-      // Fall back to basic insert without content quality columns if they don't exist
-      console.log('Content quality columns not found, using basic insert:', error);
-      [document] = await sql`
-        INSERT INTO documents (
-          url, title, content,
-          meta_title, meta_description, meta_keywords, meta_robots, canonical_url,
-          og_title, og_description, og_image, og_type,
-          twitter_title, twitter_description, twitter_image, twitter_card,
-          schema_markup, primary_keyword
-        )
-        VALUES (
-          ${scrapedContent.url}, 
-          ${scrapedContent.title}, 
-          ${scrapedContent.content},
-          ${seo_data.meta_title || null},
-          ${seo_data.meta_description || null},
-          ${seo_data.meta_keywords || null},
-          ${seo_data.meta_robots || null},
-          ${seo_data.canonical_url || null},
-          ${seo_data.og_title || null},
-          ${seo_data.og_description || null},
-          ${seo_data.og_image || null},
-          ${seo_data.og_type || null},
-          ${seo_data.twitter_title || null},
-          ${seo_data.twitter_description || null},
-          ${seo_data.twitter_image || null},
-          ${seo_data.twitter_card || null},
-          ${JSON.stringify(seo_data.schema_markup)},
-          ${seo_data.primary_keyword || null}
-        )
-        RETURNING id, url, title
-      `;
-    }
+    const columnsByTable = await getStorageColumns();
+    const lookupMs = Date.now() - startedAt;
     
-    if (!document) {
-      throw new Error('Failed to insert document');
-    }
+    // Generate embeddings before touching the stored version
+    const embeddingStartedAt = Date.now();
+    const chunkTexts = chunks.filter(chunk => chunk.trim().length > 0);
+    const embeddings = await embedChunks(chunkTexts);
+    const embeddingMs = Date.now() - embeddingStartedAt;
     
-    // Store meta tags
-    for (const metaTag of scrapedContent.meta_tags) {
-      try {
-        await sql`
-          INSERT INTO meta_tags (document_id, tag_name, tag_property, tag_content)
-          VALUES (${document.id}, ${metaTag.name || null}, ${metaTag.property || null}, ${metaTag.content})
-        `;
-      } catch (error) {
-        console.error('Failed to store meta tag:', error);
-      }
-    }
+    const buildStartedAt = Date.now();
     
-    // Store headings
-    for (const heading of scrapedContent.headings) {
-      try {
-        await sql`
-          INSERT INTO headings (document_id, level, text, order_index)
-          VALUES (${document.id}, ${heading.level}, ${heading.text}, ${heading.order})
-        `;
-      } catch (error) {
-        console.error('Failed to store heading:', error);
-      }
-    }
+    // Reserve the id up front so every row of the transaction can reference it
+    const [{ id: documentId }] = await sql`
+      SELECT nextval(pg_get_serial_sequence('documents', 'id')) AS id
+    `;
     
-    // Store links
-    for (const link of scrapedContent.links) {
-      try {
-        await sql`
-          INSERT INTO links (document_id, url, anchor_text, is_internal)
-          VALUES (${document.id}, ${link.url}, ${link.anchor_text}, ${link.is_internal})
-        `;
-      } catch (error) {
-        console.error('Failed to store link:', error);
-      }
-    }
+    // Sitemap entry and click depth are recorded by the ingestion that found the page, not by
+    // the scrape, so they carry over from the previous version whichever route re-stores it
+    const carriedColumns = CARRIED_DOCUMENT_COLUMNS.filter(column => columnsByTable.documents?.has(column));
+    const carryStatements = existingDoc.length > 0 && carriedColumns.length > 0 ? [
+      sql.query(
+        `CREATE TEMP TABLE previous_document ON COMMIT DROP AS SELECT ${carriedColumns.join(', ')} FROM documents WHERE url = $1`,
+        [scrapedContent.url]
+      )
+    ] : [];
     
-    // Store images
-    for (const image of scrapedContent.images) {
-      try {
-        await sql`
-          INSERT INTO images (document_id, src, alt, width, height)
-          VALUES (${document.id}, ${image.src}, ${image.alt}, ${image.width || null}, ${image.height || null})
-        `;
-      } catch (error) {
-        console.error('Failed to store image:', error);
-      }
-    }
+    const statements = [
+      ...carryStatements,
+      // Cascading deletes remove the previous version's chunks and related rows
+      sql`DELETE FROM documents WHERE url = ${scrapedContent.url}`,
+      ...buildBulkInserts('documents', [buildDocumentRow(documentId, scrapedContent)], columnsByTable, { returning: 'id, url, title' }),
+      ...buildBulkInserts('document_chunks', chunkTexts.map((chunk, index) => ({
+        document_id: documentId,
+        content: chunk,
+        embedding: JSON.stringify(embeddings[index])
+      })), columnsByTable, { expressions: { embedding: placeholder => `${placeholder}::vector` }, rowsPerStatement: CHUNK_INSERT_ROWS }),
+      ...buildBulkInserts('meta_tags', scrapedContent.meta_tags.map(metaTag => ({
+        document_id: documentId,
+        tag_name: metaTag.name || null,
+        tag_property: metaTag.property || null,
+        tag_content: metaTag.content
+      })), columnsByTable),
+      ...buildBulkInserts('headings', scrapedContent.headings.map(heading => ({
+        document_id: documentId,
+        level: heading.level,
+        text: heading.text,
+        order_index: heading.order
+      })), columnsByTable),
+      // Link attribute columns are dropped when migration-link-attributes.sql hasn't run
+      ...buildBulkInserts('links', scrapedContent.links.map(link => ({
+        document_id: documentId,
+        url: link.url,
+        anchor_text: link.anchor_text,
+        is_internal: link.is_internal,
+        rel: link.rel || [],
+        target: link.target || null,
+        is_image_link: link.is_image_link || false,
+        image_alt: link.image_alt || null,
+        region: link.region || null
+      })), columnsByTable),
+      ...buildBulkInserts('images', scrapedContent.images.map(image => ({
+        document_id: documentId,
+        src: image.src,
+        alt: image.alt,
+        width: image.width || null,
+        height: image.height || null
+      })), columnsByTable),
+      ...buildBulkInserts('hreflang_links', scrapedContent.hreflang.map(alternate => ({
+        document_id: documentId,
+        hreflang: alternate.hreflang,
+        href: alternate.href
+      })), columnsByTable),
+      ...buildBulkInserts('page_resources', (scrapedContent.resources?.resources || []).map(resource => ({
+        document_id: documentId,
+        resource_type: resource.type,
+        url: resource.url || null,
+        is_inline: resource.is_inline,
+        inline_bytes: resource.inline_bytes ?? null,
+        is_async: resource.is_async,
+        is_defer: resource.is_defer,
+        is_render_blocking: resource.is_render_blocking,
+        is_third_party: resource.is_third_party,
+        host: resource.host || null,
+        third_party_category: resource.third_party_category || null
+      })), columnsByTable),
+      ...(carryStatements.length > 0 ? [sql.query(
+        `UPDATE documents d SET ${carriedColumns.map(column => `${column} = p.${column}`).join(', ')} FROM previous_document p WHERE d.id = $1`,
+        [documentId]
+      )] : [])
+    ];
     
-    let chunksCreated = 0;
+    // Record this version with its raw HTML, a diff against the previous one, and its score
+    // (score columns added by migration-document-versions.sql)
+    const diff: SnapshotDiff | null = previousSnapshot ? diffFingerprints(previousSnapshot.fingerprint, fingerprint) : null;
+    const changeSummary = diff ? summarizeSnapshotDiff(diff) : [];
+    const rawHtml = scrapedContent.raw_html || '';
+    const compressed = compressHtml(rawHtml);
+    const snapshotStatements = buildBulkInserts('document_snapshots', [{
+      url: scrapedContent.url,
+      content_hash: contentHash,
+      raw_html: compressed.toString('base64'),
+      raw_html_bytes: Buffer.byteLength(rawHtml, 'utf8'),
+      compressed_bytes: compressed.length,
+      http_status: scrapedContent.http?.status_code ?? null,
+      title: scrapedContent.title,
+      word_count: scrapedContent.content_quality.word_count,
+      fingerprint: JSON.stringify(fingerprint),
+      diff: diff ? JSON.stringify(diff) : null,
+      change_summary: changeSummary,
+      fetched_at: scrapedContent.http?.fetched_at || new Date().toISOString(),
+      seo_score: JSON.stringify(calculateSEOScore(performSEOAnalysis(scrapedContent))),
+      content_quality: JSON.stringify(scrapedContent.content_quality),
+      x_robots_tag: scrapedContent.http?.x_robots_tag || null
+    }], columnsByTable, { expressions: { raw_html: placeholder => `decode(${placeholder}, 'base64')` }, returning: 'id' });
     
-    // Generate and store embeddings for each chunk
-    for (let i = 0; i < chunks.length; i++) {
-      const chunk = chunks[i];
-      
-      if (!chunk.trim()) {
-        continue; // Skip empty chunks
-      }
-      
-      try {
-        // Generate embedding using AI SDK
-        const { embedding } = await embed({
-          model: openai.embedding('text-embedding-ada-002'),
-          value: chunk
-        });
-        
-        // Store chunk with embedding
-        await sql`
-          INSERT INTO document_chunks (document_id, content, embedding)
-          VALUES (
-            ${document.id}, 
-            ${chunk}, 
-            ${JSON.stringify(embedding)}::vector
-          )
-        `;
-        
-        chunksCreated++;
-      } catch (error) {
-        console.error(`Failed to process chunk ${i}:`, error);
-        // Continue with other chunks even if one fails
-      }
-    }
+    const writeStartedAt = Date.now();
+    const results = await sql.transaction([...statements, ...snapshotStatements]);
+    const writeMs = Date.now() - writeStartedAt;
     
-    if (chunksCreated === 0) {
-      // Clean up document if no chunks were successfully created
-      await sql`DELETE FROM documents WHERE id = ${document.id}`;
-      throw new Error('Failed to create any chunks for document');
+    const [document] = results[carryStatements.length + 1];
+    if (!document) {
+      throw new Error('Failed to insert document');
     }
     
+    const snapshotId: number | undefined = snapshotStatements.length > 0 ? results[results.length - 1][0]?.id : undefined;
+    const totalMs = Date.now() - startedAt;
+    
+    console.log(`Stored ${scrapedContent.url}: ${chunkTexts.length} chunks in ${statements.length + snapshotStatements.length} statements, ${totalMs}ms (embedding ${embeddingMs}ms, write ${writeMs}ms)`);
+    
     return {
       id: document.id,
       url: document.url,
       title: document.title,
-      chunksCreated
+      chunksCreated: chunkTexts.length,
+      unchanged: false,
+      snapshotId,
+      changes: snapshotId && diff ? changeSummary : undefined,
+      timings: {
+        lookupMs,
+        embeddingMs,
+        buildMs: writeStartedAt - buildStartedAt,
+        writeMs,
+        totalMs
+      }
     };
   } catch (error) {
     throw new Error(`Failed to store document: ${error instanceof Error ? error.message : 'Unknown error'}`);
@@ -384,7 +589,12 @@ export async function getDocumentSEOData(documentId: number) {
               'id', l.id,
               'url', l.url,
               'anchor_text', l.anchor_text,
-              'is_internal', l.is_internal
+              'is_internal', l.is_internal,
+              'rel', l.rel,
+              'target', l.target,
+              'is_image_link', l.is_image_link,
+              'image_alt', l.image_alt,
+              'region', l.region
             )
           ) FILTER (WHERE l.id IS NOT NULL),
           '[]'
@@ -460,6 +670,218 @@ export async function getDocumentImages(documentId: number): Promise<Image[]> {
   }
 }
 
+export async function getDocumentHreflang(documentId: number): Promise<HreflangLink[]> {
+  try {
+    const hreflangLinks = await sql`
+      SELECT * FROM hreflang_links 
+      WHERE document_id = ${documentId}
+      ORDER BY id
+    `;
+    return hreflangLinks as HreflangLink[];
+  } catch (error) {
+    console.error('Error fetching hreflang links:', error);
+    return [];
+  }
+}
+
+export async function getDocumentResources(documentId: number): Promise<PageResource[]> {
+  try {
+    const resources = await sql`
+      SELECT * FROM page_resources 
+      WHERE document_id = ${documentId}
+      ORDER BY id
+    `;
+    return resources as PageResource[];
+  } catch (error) {
+    console.error('Error fetching page resources:', error);
+    return [];
+  }
+}
+
+// Snapshot history of a URL, newest first (raw HTML excluded)
+export async function getDocumentSnapshots(url: string, limit: number = 50): Promise<DocumentSnapshot[]> {
+  try {
+    const result = await sql`
+      SELECT id, url, content_hash, http_status, raw_html_bytes, compressed_bytes, title, word_count,
+             diff, change_summary, fetched_at, last_checked_at
+      FROM document_snapshots
+      WHERE url = ${url}
+      ORDER BY fetched_at DESC, id DESC
+      LIMIT ${limit}
+    `;
+    return result as DocumentSnapshot[];
+  } catch (error) {
+    console.error('Error fetching document snapshots:', error);
+    return [];
+  }
+}
+
+// Stored versions of a URL with their scores, newest first
+export async function getDocumentVersionHistory(url: string, limit: number = 100): Promise<PageVersion[]> {
+  try {
+    const rows = await sql`
+      SELECT id, fetched_at, last_checked_at, http_status, title, word_count, fingerprint,
+             x_robots_tag, seo_score, content_quality, change_summary
+      FROM document_snapshots
+      WHERE url = ${url}
+      ORDER BY fetched_at DESC, id DESC
+      LIMIT ${limit}
+    `;
+    return rows.map((row: any) => toPageVersion(row));
+  } catch (error) {
+    console.error('Error fetching version history:', error);
+    return [];
+  }
+}
+
+// Decompressed raw HTML of a single snapshot
+export async function getSnapshotHtml(snapshotId: number): Promise<string | null> {
+  try {
+    const [snapshot] = await sql`
+      SELECT encode(raw_html, 'base64') AS raw_html FROM document_snapshots WHERE id = ${snapshotId}
+    `;
+    return snapshot ? decompressHtml(Buffer.from(snapshot.raw_html, 'base64')) : null;
+  } catch (error) {
+    console.error('Error fetching snapshot HTML:', error);
+    return null;
+  }
+}
+
+// Function to load every stored page with its hreflang alternates for corpus-wide validation
+export async function getHreflangCorpus(): Promise<HreflangPage[]> {
+  try {
+    const results = await sql`
+      SELECT 
+        d.url,
+        d.canonical_url,
+        d.http_status,
+        d.final_url,
+        COALESCE(
+          json_agg(
+            jsonb_build_object('hreflang', h.hreflang, 'href', h.href)
+            ORDER BY h.id
+          ) FILTER (WHERE h.id IS NOT NULL),
+          '[]'
+        ) as hreflang
+      FROM documents d
+      LEFT JOIN hreflang_links h ON d.id = h.document_id
+      GROUP BY d.id
+    `;
+    
+    return results.map((row: any) => ({
+      url: row.url,
+      canonical_url: row.canonical_url,
+      http_status: row.http_status,
+      final_url: row.final_url,
+      hreflang: row.hreflang
+    }));
+  } catch (error) {
+    console.error('Error fetching hreflang corpus:', error);
+    return [];
+  }
+}
+
+// Records the sitemap <url> entry a page was ingested from (column added by migration-document-sitemap-entry.sql)
+export async function updateDocumentSitemapEntry(documentId: number, entry: SitemapUrl): Promise<void> {
+  try {
+    await sql`
+      UPDATE documents SET sitemap_entry = ${JSON.stringify(entry)}
+      WHERE id = ${documentId}
+    `;
+  } catch (error) {
+    console.log('Sitemap entry column not found, skipping:', error);
+  }
+}
+
+// Records a page's click depth from the crawl seeds (column added by migration-document-click-depth.sql)
+export async function updateDocumentClickDepth(documentId: number, depth: number): Promise<void> {
+  try {
+    await sql`
+      UPDATE documents SET click_depth = ${depth}
+      WHERE id = ${documentId}
+    `;
+  } catch (error) {
+    console.log('Click depth column not found, skipping:', error);
+  }
+}
+
+export async function getSitemapExtensionCorpus(): Promise<SitemapExtensionPage[]> {
+  try {
+    const results = await sql`
+      SELECT 
+        d.url,
+        d.sitemap_entry,
+        d.og_image,
+        COALESCE(
+          (SELECT array_agg(i.src ORDER BY i.id) FROM images i WHERE i.document_id = d.id),
+          '{}'
+        ) as page_images,
+        COALESCE(
+          (SELECT json_agg(jsonb_build_object('hreflang', h.hreflang, 'href', h.href) ORDER BY h.id)
+           FROM hreflang_links h WHERE h.document_id = d.id),
+          '[]'
+        ) as hreflang
+      FROM documents d
+      WHERE d.sitemap_entry IS NOT NULL
+    `;
+    
+    return results.map((row: any) => ({
+      url: row.url,
+      sitemap_entry: row.sitemap_entry,
+      page_images: row.og_image ? [...row.page_images, row.og_image] : row.page_images,
+      hreflang: row.hreflang
+    }));
+  } catch (error) {
+    console.error('Error fetching sitemap extension corpus:', error);
+    return [];
+  }
+}
+
+// Stored pages with crawl observations and snapshot timings, plus the sitemap entries they were ingested from
+export async function getSitemapAuditCorpus(): Promise<{ pages: SitemapAuditPage[]; entries: SitemapUrl[] }> {
+  try {
+    const results = await sql`
+      SELECT 
+        d.url,
+        d.http_status,
+        d.final_url,
+        d.canonical_url,
+        d.meta_robots,
+        d.x_robots_tag,
+        d.sitemap_entry,
+        COALESCE(
+          (SELECT json_agg(jsonb_build_object('fetched_at', s.fetched_at, 'last_checked_at', s.last_checked_at) ORDER BY s.fetched_at DESC)
+           FROM (
+             SELECT fetched_at, last_checked_at FROM document_snapshots
+             WHERE url = d.url
+             ORDER BY fetched_at DESC
+             LIMIT 2
+           ) s),
+          '[]'
+        ) as versions
+      FROM documents d
+    `;
+    
+    return {
+      pages: results.map((row: any) => ({
+        url: row.url,
+        http_status: row.http_status,
+        final_url: row.final_url,
+        canonical_url: row.canonical_url,
+        meta_robots: row.meta_robots,
+        x_robots_tag: row.x_robots_tag,
+        versions: row.versions
+      })),
+      entries: results
+        .filter((row: any) => row.sitemap_entry)
+        .map((row: any) => row.sitemap_entry as SitemapUrl)
+    };
+  } catch (error) {
+    // An empty corpus would audit as clean, so the caller has to see the failure
+    throw new Error(`Failed to load sitemap audit corpus: ${error instanceof Error ? error.message : 'Unknown error'}`);
+  }
+}
+
 // Function to detect and retrieve homepage document
 export async function getHomepageDocument(): Promise<Document | null> {
   try {
@@ -523,6 +945,26 @@ export async function getHomepageDocument(): Promise<Document | null> {
   }
 }
 
+// Function to find stored pages with HTTP-level problems: error status codes,
+// multi-hop redirect chains, or a noindex directive in the X-Robots-Tag header
+export async function getDocumentsWithHttpIssues(limit: number = 100): Promise<Document[]> {
+  try {
+    const results = await sql`
+      SELECT * FROM documents
+      WHERE
+        http_status >= 400
+        OR redirect_count > 1
+        OR x_robots_tag ILIKE '%noindex%'
+      ORDER BY http_status DESC NULLS LAST, redirect_count DESC
+      LIMIT ${limit}
+    `;
+    return results as Document[];
+  } catch (error) {
+    console.error('Error fetching documents with HTTP issues:', error);
+    return [];
+  }
+}
+
 // Function to check which URLs already exist in the database
 export async function checkExistingUrls(urls: string[]): Promise<{
   existing: string[];
@@ -0,0 +1,206 @@
+import type { ContentQualityMetrics } from './scraper';
+import type { SEOScore } from './seo-scoring';
+import type { DocumentFingerprint } from './document-snapshots';
+
+/**
+ * One stored version of a page: what it looked like and how it scored when it was fetched
+ */
+export interface PageVersion {
+  snapshot_id: number;
+  fetched_at: string;       // When this version was first seen
+  last_checked_at: string;  // Last re-scrape that found it unchanged
+  http_status: number | null;
+  title: string | null;
+  meta_description: string | null;
+  canonical_url: string | null;
+  h1_count: number;
+  is_noindex: boolean;
+  word_count: number | null;
+  seo_score: SEOScore | null;
+  content_quality: ContentQualityMetrics | null;
+  change_summary: string[];
+}
+
+export type RegressionType =
+  | 'canonical_removed'
+  | 'canonical_changed'
+  | 'h1_lost'
+  | 'score_drop'
+  | 'noindex_added'
+  | 'meta_description_removed'
+  | 'title_removed'
+  | 'http_error';
+
+export interface Regression {
+  type: RegressionType;
+  severity: 'critical' | 'warning';
+  detected_at: string;
+  snapshot_id: number;
+  previous_snapshot_id: number;
+  message: string;
+  before?: string | number | null;
+  after?: string | number | null;
+}
+
+export interface ScorePoint {
+  snapshot_id: number;
+  fetched_at: string;
+  overall_score: number | null;
+  content: number | null;
+  technical: number | null;
+  meta: number | null;
+  structure: number | null;
+  performance: number | null;   // Null for versions scored before the category existed
+  accessibility: number | null;
+  word_count: number | null;
+  readability_score: number | null;
+}
+
+export interface VersionTimeline {
+  url: string;
+  version_count: number;
+  first_seen?: string;
+  last_checked?: string;
+  versions: PageVersion[];   // Newest first
+  regressions: Regression[]; // Newest first
+  score_series: ScorePoint[]; // Oldest first, for charting
+}
+
+export interface RegressionOptions {
+  scoreDropThreshold?: number; // Minimum overall score drop (points) between versions
+}
+
+export const DEFAULT_SCORE_DROP_THRESHOLD = 10;
+
+/**
+ * Whether a robots directive list (meta robots or X-Robots-Tag) blocks indexing
+ */
+export function isNoindexDirective(value: string | null | undefined): boolean {
+  return !!value && /(^|[\s,:])(noindex|none)([\s,]|$)/i.test(value);
+}
+
+/**
+ * Maps a stored snapshot row to a version
+ */
+export function toPageVersion(row: {
+  id: number;
+  fetched_at: Date | string;
+  last_checked_at: Date | string;
+  http_status: number | null;
+  title: string | null;
+  word_count: number | null;
+  fingerprint: DocumentFingerprint | null;
+  x_robots_tag?: string | null;
+  seo_score?: SEOScore | null;
+  content_quality?: ContentQualityMetrics | null;
+  change_summary: string[] | null;
+}): PageVersion {
+  const fingerprint = row.fingerprint;
+  return {
+    snapshot_id: row.id,
+    fetched_at: new Date(row.fetched_at).toISOString(),
+    last_checked_at: new Date(row.last_checked_at).toISOString(),
+    http_status: row.http_status,
+    title: fingerprint?.title || row.title,
+    meta_description: fingerprint?.meta_description ?? null,
+    canonical_url: fingerprint?.canonical_url ?? null,
+    h1_count: (fingerprint?.headings || []).filter(heading => heading.level === 1).length,
+    is_noindex: isNoindexDirective(fingerprint?.meta_robots) || isNoindexDirective(row.x_robots_tag),
+    word_count: row.word_count,
+    seo_score: row.seo_score || null,
+    content_quality: row.content_quality || null,
+    change_summary: row.change_summary || []
+  };
+}
+
+/**
+ * Compares each version with the one before it and reports SEO regressions
+ */
+export function detectRegressions(versions: PageVersion[], options: RegressionOptions = {}): Regression[] {
+  const { scoreDropThreshold = DEFAULT_SCORE_DROP_THRESHOLD } = options;
+  const chronological = [...versions].sort((a, b) => a.fetched_at.localeCompare(b.fetched_at));
+  const regressions: Regression[] = [];
+
+  for (let i = 1; i < chronological.length; i++) {
+    const previous = chronological[i - 1];
+    const current = chronological[i];
+    const base = {
+      detected_at: current.fetched_at,
+      snapshot_id: current.snapshot_id,
+      previous_snapshot_id: previous.snapshot_id
+    };
+
+    if (previous.canonical_url && !current.canonical_url) {
+      regressions.push({ ...base, type: 'canonical_removed', severity: 'critical', message: 'Canonical tag removed', before: previous.canonical_url, after: null });
+    } else if (previous.canonical_url && current.canonical_url && previous.canonical_url !== current.canonical_url) {
+      regressions.push({ ...base, type: 'canonical_changed', severity: 'warning', message: `Canonical changed to ${current.canonical_url}`, before: previous.canonical_url, after: current.canonical_url });
+    }
+
+    if (previous.h1_count > 0 && current.h1_count === 0) {
+      regressions.push({ ...base, type: 'h1_lost', severity: 'critical', message: 'H1 heading lost', before: previous.h1_count, after: 0 });
+    }
+
+    if (!previous.is_noindex && current.is_noindex) {
+      regressions.push({ ...base, type: 'noindex_added', severity: 'critical', message: 'Page switched to noindex' });
+    }
+
+    if (previous.meta_description && !current.meta_description) {
+      regressions.push({ ...base, type: 'meta_description_removed', severity: 'warning', message: 'Meta description removed', before: previous.meta_description, after: null });
+    }
+
+    if (previous.title && !current.title) {
+      regressions.push({ ...base, type: 'title_removed', severity: 'critical', message: 'Title removed', before: previous.title, after: null });
+    }
+
+    const wasOk = previous.http_status !== null && previous.http_status < 400;
+    if (wasOk && current.http_status !== null && current.http_status >= 400) {
+      regressions.push({ ...base, type: 'http_error', severity: 'critical', message: `Page started returning HTTP ${current.http_status}`, before: previous.http_status, after: current.http_status });
+    }
+
+    if (previous.seo_score && current.seo_score) {
+      const drop = previous.seo_score.overall_score - current.seo_score.overall_score;
+      if (drop > scoreDropThreshold) {
+        regressions.push({
+          ...base,
+          type: 'score_drop',
+          severity: drop > scoreDropThreshold * 2 ? 'critical' : 'warning',
+          message: `SEO score dropped ${Math.round(drop)} points`,
+          before: previous.seo_score.overall_score,
+          after: current.seo_score.overall_score
+        });
+      }
+    }
+  }
+
+  return regressions.reverse();
+}
+
+/**
+ * Builds the per-URL timeline: versions, regressions and a chartable score series
+ */
+export function buildVersionTimeline(url: string, versions: PageVersion[], options: RegressionOptions = {}): VersionTimeline {
+  const newestFirst = [...versions].sort((a, b) => b.fetched_at.localeCompare(a.fetched_at));
+  const oldestFirst = [...newestFirst].reverse();
+
+  return {
+    url,
+    version_count: newestFirst.length,
+    first_seen: oldestFirst[0]?.fetched_at,
+    last_checked: newestFirst[0]?.last_checked_at,
+    versions: newestFirst,
+    regressions: detectRegressions(newestFirst, options),
+    score_series: oldestFirst.map(version => ({
+      snapshot_id: version.snapshot_id,
+      fetched_at: version.fetched_at,
+      overall_score: version.seo_score?.overall_score ?? null,
+      content: version.seo_score?.category_scores.content ?? null,
+      technical: version.seo_score?.category_scores.technical ?? null,
+      meta: version.seo_score?.category_scores.meta ?? null,
+      structure: version.seo_score?.category_scores.structure ?? null,
+      performance: version.seo_score?.category_scores.performance ?? null,
+      accessibility: version.seo_score?.category_scores.accessibility ?? null,
+      word_count: version.content_quality?.word_count ?? version.word_count,
+      readability_score: version.content_quality?.readability_score ?? null
+    }))
+  };
+}